@@ -0,0 +1,53 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { finalizeBilling } from "@/lib/billing-finalize";
+import { claimLockedError } from "@/lib/claim-snapshots";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/billing-finalize（算定確定）
+// カルテ1件の会計・処置・施設基準加算・症状詳記・予約/患者の更新をまとめて書き込む
+// 途中で失敗した場合は全て取り消す。同じカルテで再実行しても会計は1件（既存の会計を返す）
+// INPUT : { medical_record_id: string, treatment_schedule?: [...], tooth_chart?: {...},
+//           symptom_details?: [{ kubun, text }], correction_reason?: string }
+// OUTPUT: { success: true, billing_id, appointment_id, total_points, procedure_count, bonus_count, already_finalized,
+//           visit_fee }（初診/再診・歯科疾患管理料の判定。自動で処置に反映する）
+//         同じ月の会計が締め済みで correction_reason がなければ 409 { error, lock }
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { medical_record_id, treatment_schedule, tooth_chart, symptom_details, correction_reason } = await request.json();
+    if (!medical_record_id) {
+      return NextResponse.json({ error: "medical_record_id is required" }, { status: 400 });
+    }
+    const { data: record } = await supabase.from("medical_records").select("id").eq("id", medical_record_id).maybeSingle();
+    if (!record) {
+      return NextResponse.json({ error: "カルテが見つかりません" }, { status: 404 });
+    }
+
+    const result = await finalizeBilling(supabase, {
+      medical_record_id: String(medical_record_id),
+      treatment_schedule: Array.isArray(treatment_schedule) ? treatment_schedule : null,
+      tooth_chart: tooth_chart && typeof tooth_chart === "object" ? tooth_chart : null,
+      symptom_details: Array.isArray(symptom_details) ? symptom_details : [],
+      correction_reason: typeof correction_reason === "string" ? correction_reason : null,
+    });
+    if ("locked" in result) {
+      return NextResponse.json(claimLockedError(result.locked, "来院の追加"), { status: 409 });
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { normalizeBillingMissRule, seedStandardBillingMissRules, suggestBillingMissRules, type BillingMissRuleInput } from "@/lib/billing-miss";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/billing-miss-rules（算定漏れルールの管理）
+// GET   : → { rules }（無効なものを含む）
+//         ?suggest=1&min_support=5&min_confidence=0.8 → { suggestions }（clinic_patterns の共起からの候補）
+// POST  : { rule } / { rules: [...] } → { success, saved, errors: [{ index, error }] }（id があれば更新）
+//         { seed: "standard" } → { success, saved, unresolved }（標準ルールを m_fees のコードで登録）
+// DELETE: ?id=... → { success }
+// ============================================================
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const params = request.nextUrl.searchParams;
+    if (params.get("suggest")) {
+      const suggestions = await suggestBillingMissRules(supabase, {
+        minSupport: Number(params.get("min_support")) || undefined,
+        minConfidence: Number(params.get("min_confidence")) || undefined,
+      });
+      return NextResponse.json({ success: true, suggestions });
+    }
+    const { data: rules, error } = await supabase
+      .from("m_billing_miss_rules")
+      .select("*")
+      .order("trigger_code")
+      .order("created_at");
+    if (error) throw error;
+    return NextResponse.json({ success: true, rules: rules || [] });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json();
+    if (body.seed === "standard") {
+      const { saved, unresolved } = await seedStandardBillingMissRules(supabase);
+      return NextResponse.json({ success: true, saved, unresolved });
+    }
+    const inputs: BillingMissRuleInput[] = Array.isArray(body.rules) ? body.rules : body.rule ? [body.rule] : [];
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: "rule または rules を指定してください" }, { status: 400 });
+    }
+
+    const saved: unknown[] = [];
+    const errors: { index: number; error: string }[] = [];
+    for (let index = 0; index < inputs.length; index++) {
+      const { row, error } = await normalizeBillingMissRule(supabase, inputs[index]);
+      if (!row) {
+        errors.push({ index, error: error! });
+        continue;
+      }
+      const { id, ...fields } = row;
+      const res = id
+        ? await supabase.from("m_billing_miss_rules").update(fields).eq("id", id).select().single()
+        : await supabase.from("m_billing_miss_rules").insert(fields).select().single();
+      if (res.error) errors.push({ index, error: res.error.message });
+      else saved.push(res.data);
+    }
+    if (inputs.length === 1 && errors.length === 1) {
+      return NextResponse.json({ error: errors[0].error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, saved, errors });
+  } catch (error: unknown) {
+    console.error("[billing-miss-rules] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+    const { error } = await supabase.from("m_billing_miss_rules").delete().eq("id", id);
+    if (error) throw error;
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
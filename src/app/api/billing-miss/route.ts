@@ -0,0 +1,45 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { checkVisitBillingMiss } from "@/lib/billing-miss";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/billing-miss（診察中の算定漏れチェック）
+// INPUT : { patient_id: string, procedures: [{ id, procedure_name, fee_code?, points?, category?, tooth? }],
+//           medical_record_id?: string, service_date?: YYYY-MM-DD }
+// OUTPUT: { success: true, candidates: [{ rule_id, level, message, procedure_name, fee_code, points, tooth }] }
+//         candidates の fee_code / points は m_fees の診療行為コードと点数算定サービスの点数
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { patient_id, procedures, medical_record_id, service_date } = await request.json();
+    if (!patient_id || !Array.isArray(procedures)) {
+      return NextResponse.json({ error: "patient_id と procedures を指定してください" }, { status: 400 });
+    }
+    const serviceDate = service_date || new Date(Date.now() + 9 * 3600 * 1000).toISOString().substring(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(serviceDate)) {
+      return NextResponse.json({ error: "service_date（YYYY-MM-DD）が不正です" }, { status: 400 });
+    }
+    const candidates = await checkVisitBillingMiss(supabase, {
+      patient_id: String(patient_id),
+      service_date: serviceDate,
+      medical_record_id: medical_record_id || null,
+      procedures,
+    });
+    return NextResponse.json({ success: true, candidates });
+  } catch (error: unknown) {
+    console.error("[billing-miss] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { claimLockedError, findBillingLock, recordClaimCorrection } from "@/lib/claim-snapshots";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/billing-payment
+// 会計を精算済み（payment_status = "paid"）にする。予約画面・会計画面から使う
+// INPUT : { billing_id: string, correction_reason?: string }
+//         締め済みの会計は correction_reason がなければ更新せず 409 { error, lock }（あれば訂正履歴を残す）
+// OUTPUT: { success: true, billing_id, already_paid: boolean }
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { billing_id, correction_reason } = await request.json();
+    if (!billing_id) {
+      return NextResponse.json({ error: "billing_id is required" }, { status: 400 });
+    }
+
+    const { data: billing, error: bErr } = await supabase
+      .from("billing")
+      .select("id, patient_id, payment_status")
+      .eq("id", billing_id)
+      .single();
+    if (bErr || !billing) {
+      return NextResponse.json({ error: "会計データが見つかりません" }, { status: 404 });
+    }
+    if (billing.payment_status === "paid") {
+      return NextResponse.json({ success: true, billing_id: billing.id, already_paid: true });
+    }
+
+    const lock = await findBillingLock(supabase, billing.id);
+    const reason = typeof correction_reason === "string" ? correction_reason.trim() : "";
+    if (lock && !reason) {
+      return NextResponse.json(claimLockedError(lock, "会計の精算"), { status: 409 });
+    }
+    const { error: uErr } = await supabase
+      .from("billing")
+      .update({ payment_status: "paid" })
+      .eq("id", billing.id);
+    if (uErr) return NextResponse.json({ error: uErr.message }, { status: 500 });
+    if (lock) {
+      await recordClaimCorrection(supabase, {
+        snapshot_id: lock.snapshot_id, patient_id: billing.patient_id, billing_id: billing.id,
+        target_table: "billing", target_id: billing.id, action: "update", reason,
+        detail: { payment_status: [billing.payment_status, "paid"] },
+      });
+    }
+
+    return NextResponse.json({ success: true, billing_id: billing.id, already_paid: false });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { claimLockedError, findBillingLock, recordClaimCorrection } from "@/lib/claim-snapshots";
+import { burdenConfigFromInsurance, calculateMonthlyBurden, publicLawLabel } from "@/lib/burden-calculator";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/burden-calculate
+// 会計1件の窓口負担をサーバー側の負担計算エンジンで算出する
+// 同月の先行来院分を既払いとして月額上限を適用する
+// INPUT : { billing_id: string, apply?: boolean, correction_reason?: string }
+//         apply=trueでbilling.patient_burden / insurance_claimを更新
+//         締め済みの会計は correction_reason がなければ更新せず 409 { error, lock }（あれば訂正履歴を残す）
+// OUTPUT: { success: true, result: BurdenResult, public_expenses: [...] }
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { billing_id, apply, correction_reason } = await request.json();
+    if (!billing_id) {
+      return NextResponse.json({ error: "billing_id is required" }, { status: 400 });
+    }
+
+    const { data: billing, error: bErr } = await supabase
+      .from("billing")
+      .select("id, patient_id, total_points, burden_ratio, patient_burden, created_at")
+      .eq("id", billing_id)
+      .single();
+    if (bErr || !billing) {
+      return NextResponse.json({ error: "会計データが見つかりません" }, { status: 404 });
+    }
+
+    const ym = billing.created_at.substring(0, 7);
+    const [year, month] = ym.split("-").map(Number);
+    const lastDay = new Date(year, month, 0).getDate();
+
+    const [{ data: patient }, { data: monthBillings }] = await Promise.all([
+      supabase.from("patients").select("id, date_of_birth, patient_insurances(*)").eq("id", billing.patient_id).single(),
+      supabase.from("billing")
+        .select("id, total_points, created_at")
+        .eq("patient_id", billing.patient_id)
+        .gte("created_at", `${ym}-01T00:00:00`)
+        .lte("created_at", `${ym}-${String(lastDay).padStart(2, "0")}T23:59:59`)
+        .order("created_at"),
+    ]);
+
+    const insurances = (patient?.patient_insurances || []) as ({ is_current: boolean } & Record<string, unknown>)[];
+    const currentIns = insurances.find((i) => i.is_current) || insurances[0];
+    const config = burdenConfigFromInsurance(currentIns);
+    if (billing.burden_ratio !== null && billing.burden_ratio !== undefined) {
+      config.burden_ratio = Number(billing.burden_ratio);
+    }
+
+    const priorPoints = (monthBillings || [])
+      .filter((b: { id: string; created_at: string }) => b.id !== billing.id && b.created_at < billing.created_at)
+      .map((b: { total_points: number }) => b.total_points);
+    const { visits } = calculateMonthlyBurden([...priorPoints, billing.total_points], config);
+    const result = visits[visits.length - 1];
+
+    if (apply && result.patient_amount !== billing.patient_burden) {
+      const lock = await findBillingLock(supabase, billing.id);
+      const reason = typeof correction_reason === "string" ? correction_reason.trim() : "";
+      if (lock && !reason) {
+        return NextResponse.json(claimLockedError(lock, "窓口負担の変更"), { status: 409 });
+      }
+      const { error: uErr } = await supabase
+        .from("billing")
+        .update({ patient_burden: result.patient_amount, insurance_claim: result.insurer_amount })
+        .eq("id", billing.id);
+      if (uErr) return NextResponse.json({ error: uErr.message }, { status: 500 });
+      if (lock) {
+        await recordClaimCorrection(supabase, {
+          snapshot_id: lock.snapshot_id, patient_id: billing.patient_id, billing_id: billing.id,
+          target_table: "billing", target_id: billing.id, action: "update", reason,
+          detail: { patient_burden: [billing.patient_burden, result.patient_amount] },
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      billing_id: billing.id,
+      result,
+      previous_patient_burden: billing.patient_burden,
+      public_expenses: config.public_expenses.map((pe, i) => ({
+        insurer_no: pe.insurer_no,
+        label: publicLawLabel(pe.insurer_no),
+        amount: result.public_amounts[i]?.amount ?? 0,
+      })),
+    });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { resolveBurdenRatioForMonth } from "@/lib/burden-ratio";
+import { claimLockedError, findPatientLock, recordClaimCorrection, type ClaimLock } from "@/lib/claim-snapshots";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/burden-ratio-check
+// 指定月に会計のある患者について、登録済みの負担割合と
+// 生年月日・保険種別・所得区分から算出した負担割合を突き合わせる
+// 70歳・75歳到達などで月の途中に割合が変わる患者もフラグを立てる
+//
+// POST { yearMonth: "YYYY-MM" }                    → { flags: [...] }
+// POST { updates: [{ insurance_id, burden_ratio }], yearMonth?, correction_reason? } → patient_insurancesを更新
+//      yearMonth（省略時は当月）以降に締め済みの会計がある患者は、correction_reason がなければ
+//      何も更新せず 409 { error, lock }（あれば訂正履歴を残す）
+// ============================================================
+
+interface RatioFlag {
+  patient_id: string;
+  patient_name: string;
+  insurance_id: string | null;
+  insurance_type: string | null;
+  stored_ratio: number | null;
+  start_ratio: number;
+  end_ratio: number;
+  changed_on: string | null;
+  reason: string;
+  insurance_type_mismatch: boolean;
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json();
+
+    // === 更新モード ===
+    if (Array.isArray(body.updates)) {
+      const since = /^\d{4}-\d{2}$/.test(body.yearMonth || "")
+        ? `${body.yearMonth}-01`
+        : new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().substring(0, 10);
+      const reason = typeof body.correction_reason === "string" ? body.correction_reason.trim() : "";
+
+      // 先にすべてのロックを確認する（途中まで更新して止まらないように）
+      const targets: { insurance_id: string; burden_ratio: number; patient_id: string; before: number | null; lock: ClaimLock | null }[] = [];
+      for (const u of body.updates as { insurance_id: string; burden_ratio: number }[]) {
+        if (!u.insurance_id || typeof u.burden_ratio !== "number") continue;
+        const { data: ins } = await supabase
+          .from("patient_insurances")
+          .select("patient_id, burden_ratio")
+          .eq("id", u.insurance_id)
+          .maybeSingle();
+        if (!ins) continue;
+        const { patient_id, burden_ratio } = ins as { patient_id: string; burden_ratio: number | null };
+        const lock = await findPatientLock(supabase, patient_id, since);
+        if (lock && !reason) return NextResponse.json(claimLockedError(lock, "負担割合の変更"), { status: 409 });
+        targets.push({ insurance_id: u.insurance_id, burden_ratio: u.burden_ratio, patient_id, before: burden_ratio, lock });
+      }
+
+      let updated = 0;
+      for (const t of targets) {
+        const { error } = await supabase
+          .from("patient_insurances")
+          .update({ burden_ratio: t.burden_ratio })
+          .eq("id", t.insurance_id);
+        if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+        if (t.lock) {
+          await recordClaimCorrection(supabase, {
+            snapshot_id: t.lock.snapshot_id, patient_id: t.patient_id, billing_id: null,
+            target_table: "patient_insurances", target_id: t.insurance_id, action: "update", reason,
+            detail: { burden_ratio: [t.before, t.burden_ratio] },
+          });
+        }
+        updated++;
+      }
+      return NextResponse.json({ success: true, updated });
+    }
+
+    // === チェックモード ===
+    const ym = body.yearMonth as string;
+    if (!ym || !/^\d{4}-\d{2}$/.test(ym)) {
+      return NextResponse.json({ error: "yearMonth (YYYY-MM) is required" }, { status: 400 });
+    }
+    const [year, month] = ym.split("-").map(Number);
+    const lastDay = new Date(year, month, 0).getDate();
+
+    const { data: billings } = await supabase
+      .from("billing")
+      .select("patient_id")
+      .gte("created_at", `${ym}-01T00:00:00`)
+      .lte("created_at", `${ym}-${String(lastDay).padStart(2, "0")}T23:59:59`);
+    const patientIds = Array.from(new Set((billings || []).map((b: { patient_id: string }) => b.patient_id)));
+    if (patientIds.length === 0) {
+      return NextResponse.json({ success: true, flags: [], checked: 0 });
+    }
+
+    const { data: patients } = await supabase
+      .from("patients")
+      .select("id, name_kanji, date_of_birth, income_category, patient_insurances(id, insurance_type, burden_ratio, is_current)")
+      .in("id", patientIds);
+
+    type PatientRow = {
+      id: string;
+      name_kanji: string | null;
+      date_of_birth: string | null;
+      income_category: string | null;
+      patient_insurances: { id: string; insurance_type: string | null; burden_ratio: number | null; is_current: boolean }[];
+    };
+
+    const flags: RatioFlag[] = [];
+    for (const p of (patients || []) as PatientRow[]) {
+      const ins = (p.patient_insurances || []).find(i => i.is_current) || p.patient_insurances?.[0];
+      if (ins?.insurance_type === "自費") continue;
+      const { start, end, changed_on } = resolveBurdenRatioForMonth(p.date_of_birth, ym, ins?.insurance_type, p.income_category);
+      const stored = ins?.burden_ratio ?? null;
+      const storedMismatch = stored === null || Math.abs(stored - end.ratio) > 0.001;
+      if (!storedMismatch && !changed_on && !end.insurance_type_mismatch) continue;
+      flags.push({
+        patient_id: p.id,
+        patient_name: p.name_kanji || "不明",
+        insurance_id: ins?.id ?? null,
+        insurance_type: ins?.insurance_type ?? null,
+        stored_ratio: stored,
+        start_ratio: start.ratio,
+        end_ratio: end.ratio,
+        changed_on,
+        reason: end.insurance_type_mismatch
+          ? `${end.reason}：75歳到達のため後期高齢者医療への切替が必要です`
+          : changed_on
+            ? `${changed_on}から${end.reason}（${Math.round(start.ratio * 10)}割→${Math.round(end.ratio * 10)}割）`
+            : end.reason,
+        insurance_type_mismatch: end.insurance_type_mismatch,
+      });
+    }
+
+    return NextResponse.json({ success: true, flags, checked: patientIds.length });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
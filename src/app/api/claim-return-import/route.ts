@@ -0,0 +1,66 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import * as iconv from "iconv-lite";
+import { importClaimReturns, parseClaimReturnCsv, type ClaimReturnKind } from "@/lib/claim-returns";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/claim-return-import
+// オンライン請求システムの返戻内訳書 / 増減点連絡書（CSV）を取り込み、患者・会計と突き合わせる
+// INPUT : multipart/form-data { file, kind: "henrei"|"zougen", dry_run?: "true" }
+// OUTPUT: { success, summary, unmatched: [{ line, shinryo_ym, patient_name, match_status }], skipped }
+// ============================================================
+
+function isKind(v: unknown): v is ClaimReturnKind {
+  return v === "henrei" || v === "zougen";
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const kind = formData.get("kind");
+    const dryRun = formData.get("dry_run") === "true";
+
+    if (!file || !(file instanceof Blob)) {
+      return NextResponse.json({ error: "CSVファイルが見つかりません。multipart/form-dataの'file'フィールドで送信してください。" }, { status: 400 });
+    }
+    if (!isKind(kind)) {
+      return NextResponse.json({ error: "kind (henrei | zougen) is required" }, { status: 400 });
+    }
+
+    // オンライン請求システムのCSVはShift_JIS。BOM付きならUTF-8とみなす
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const text = buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf
+      ? buffer.subarray(3).toString("utf-8")
+      : iconv.decode(buffer, "Shift_JIS");
+    const { rows, skipped } = parseClaimReturnCsv(text, kind);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "取り込めるレセプトがありません", skipped: skipped.slice(0, 50) }, { status: 422 });
+    }
+
+    const { summary, matches } = await importClaimReturns(supabase, kind, rows, {
+      dryRun,
+      sourceFile: file instanceof File ? file.name : undefined,
+    });
+
+    const unmatched = matches
+      .filter(m => m.match_status !== "matched")
+      .map(m => ({ line: m.row.line, shinryo_ym: m.row.shinryo_ym, patient_name: m.row.patient_name, match_status: m.match_status }));
+
+    return NextResponse.json({ success: true, summary, unmatched, skipped: skipped.slice(0, 50), skipped_total: skipped.length });
+  } catch (error: unknown) {
+    console.error("[claim-return-import] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { CLAIM_RETURN_STATUS_LABELS, transitionClaimReturn, type ClaimReturnStatus } from "@/lib/claim-returns";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/claim-returns
+// GET : ?status=returned&kind=henrei&ym=YYYYMM
+//       → { claim_returns, totals: { count, delta_points, by_status } }
+// POST: { id, status: "corrected"|"resubmitted"|"accepted"|"returned", note?, resubmit_ym?: "YYYYMM" }
+//       → { success, claim_return }
+// ============================================================
+
+function isStatus(v: unknown): v is ClaimReturnStatus {
+  return typeof v === "string" && v in CLAIM_RETURN_STATUS_LABELS;
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const kind = searchParams.get("kind");
+    const ym = searchParams.get("ym");
+
+    let query = supabase.from("claim_returns").select("*").order("shinryo_ym", { ascending: false }).order("created_at", { ascending: false });
+    if (status) query = query.eq("status", status);
+    if (kind) query = query.eq("kind", kind);
+    if (ym) query = query.eq("shinryo_ym", ym);
+    const { data, error } = await query;
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+    const rows = (data || []) as { status: ClaimReturnStatus; delta_points: number }[];
+    const byStatus: Record<string, number> = {};
+    for (const r of rows) byStatus[r.status] = (byStatus[r.status] || 0) + 1;
+
+    return NextResponse.json({
+      success: true,
+      claim_returns: rows,
+      totals: { count: rows.length, delta_points: rows.reduce((s, r) => s + (r.delta_points || 0), 0), by_status: byStatus },
+    });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { id, status, note, resubmit_ym } = await request.json();
+    if (!id || !isStatus(status)) {
+      return NextResponse.json({ error: "id and status are required" }, { status: 400 });
+    }
+
+    const claimReturn = await transitionClaimReturn(supabase, id, status, { note, resubmitYm: resubmit_ym });
+    return NextResponse.json({ success: true, claim_return: claimReturn });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
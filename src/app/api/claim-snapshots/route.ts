@@ -0,0 +1,89 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createHash } from "crypto";
+import { SNAPSHOT_COLUMNS, type ClaimSnapshot } from "@/lib/claim-snapshots";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/claim-snapshots（月次締めの参照・再ダウンロード）
+// GET ?ym=YYYYMM            → { snapshots, corrections_by_snapshot }（ym省略時は直近24件）
+// GET ?id=...               → { snapshot, receipts, corrections }
+// GET ?id=...&download=1    → 締めた時点のUKEバイト列そのもの
+//                             （保存時のハッシュと一致しない場合は 409）
+// 締めは /api/receipt-generate の format="close" で行う
+// ============================================================
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+    const ym = searchParams.get("ym");
+
+    if (id && searchParams.get("download")) {
+      const { data, error } = await supabase.from("claim_snapshots").select("*").eq("id", id).maybeSingle();
+      if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+      if (!data) return NextResponse.json({ error: "締めデータが見つかりません" }, { status: 404 });
+      const snapshot = data as ClaimSnapshot;
+      const buffer = Buffer.from(snapshot.uke_base64, "base64");
+      if (createHash("sha256").update(buffer).digest("hex") !== snapshot.content_hash) {
+        return NextResponse.json({ error: "保存されたUKEのハッシュが一致しません（改ざん・破損の可能性）" }, { status: 409 });
+      }
+      const bytes = new Uint8Array(buffer.length);
+      for (let i = 0; i < buffer.length; i++) {
+        bytes[i] = buffer[i];
+      }
+      return new Response(new Blob([bytes], { type: "application/octet-stream" }), {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${snapshot.file_name}"`,
+          "X-Content-Hash": snapshot.content_hash,
+        },
+      });
+    }
+
+    if (id) {
+      const [{ data: snapshot, error }, { data: receipts }, { data: corrections }] = await Promise.all([
+        supabase.from("claim_snapshots").select(SNAPSHOT_COLUMNS).eq("id", id).maybeSingle(),
+        supabase.from("claim_snapshot_receipts").select("receipt_no, shinryo_ym, patient_id, billing_ids, content_hash, patients(name_kanji)").eq("snapshot_id", id).order("receipt_no"),
+        supabase.from("claim_corrections").select("*").eq("snapshot_id", id).order("created_at", { ascending: false }),
+      ]);
+      if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+      if (!snapshot) return NextResponse.json({ error: "締めデータが見つかりません" }, { status: 404 });
+      return NextResponse.json({ success: true, snapshot, receipts: receipts || [], corrections: corrections || [] });
+    }
+
+    if (ym && !/^\d{6}$/.test(ym)) {
+      return NextResponse.json({ error: "ym は YYYYMM で指定してください" }, { status: 400 });
+    }
+    let query = supabase.from("claim_snapshots").select(SNAPSHOT_COLUMNS).order("year_month", { ascending: false }).order("destination");
+    query = ym ? query.eq("year_month", ym) : query.limit(24);
+    const { data, error } = await query;
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    const snapshots = (data || []) as { id: string }[];
+
+    const correctionsBySnapshot: Record<string, number> = {};
+    if (snapshots.length > 0) {
+      const { data: corrections } = await supabase
+        .from("claim_corrections")
+        .select("snapshot_id")
+        .in("snapshot_id", snapshots.map(s => s.id));
+      for (const c of (corrections || []) as { snapshot_id: string }[]) {
+        correctionsBySnapshot[c.snapshot_id] = (correctionsBySnapshot[c.snapshot_id] || 0) + 1;
+      }
+    }
+
+    return NextResponse.json({ success: true, snapshots, corrections_by_snapshot: correctionsBySnapshot });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
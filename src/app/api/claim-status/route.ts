@@ -0,0 +1,35 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { markBillingsClaimed } from "@/lib/insurer-payments";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/claim-status
+// UKEを提出した月の精算済み会計を請求済（claim_status=claimed, claim_ym）にする
+// INPUT : { yearMonth: "YYYYMM" }
+// OUTPUT: { success, claimed, already }
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { yearMonth } = await request.json();
+    if (!yearMonth || !/^\d{6}$/.test(yearMonth)) {
+      return NextResponse.json({ error: "yearMonth (YYYYMM) is required" }, { status: 400 });
+    }
+
+    const result = await markBillingsClaimed(supabase, yearMonth);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { applyDiagnosisOutcomes, suggestDiagnosisOutcomes, type OutcomeApplyItem } from "@/lib/diagnosis-outcomes";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/diagnosis-outcomes（転帰アシスタント）
+// GET : ?ym=YYYYMM&idle_months=3 → { suggestions }（当月レセプトの患者の治癒・中止の提案）
+// POST: { items: [{ id, outcome: "cured" | "suspended", ended_at: YYYY-MM-DD }] }
+//       → { success, applied, skipped: [{ id, reason }] }
+// ============================================================
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const ym = request.nextUrl.searchParams.get("ym") || "";
+    if (!/^\d{6}$/.test(ym)) {
+      return NextResponse.json({ error: "ym（YYYYMM）を指定してください" }, { status: 400 });
+    }
+    const idleMonths = Number(request.nextUrl.searchParams.get("idle_months")) || 3;
+    const suggestions = await suggestDiagnosisOutcomes(supabase, ym, { idleMonths });
+    return NextResponse.json({ success: true, suggestions });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { items } = await request.json();
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json({ error: "items を指定してください" }, { status: 400 });
+    }
+    const { applied, skipped } = await applyDiagnosisOutcomes(supabase, items as OutcomeApplyItem[]);
+    return NextResponse.json({ success: true, applied, skipped });
+  } catch (error: unknown) {
+    console.error("[diagnosis-outcomes] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
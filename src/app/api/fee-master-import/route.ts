@@ -0,0 +1,53 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { importFeeMaster, parseFeeMasterBuffer } from "@/lib/fee-master";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/fee-master-import
+// 歯科診療行為マスター（Shift_JIS CSV）を施行日付きの版として m_fee_versions に取り込む
+// INPUT : multipart/form-data { file, valid_from: "YYYY-MM-DD", dry_run?: "true" }
+// OUTPUT: { success: true, summary: FeeMasterImportSummary, skipped: [...] }
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const validFrom = String(formData.get("valid_from") || "");
+    const dryRun = formData.get("dry_run") === "true";
+
+    if (!file || !(file instanceof Blob)) {
+      return NextResponse.json({ error: "マスターファイルが見つかりません。multipart/form-dataの'file'フィールドで送信してください。" }, { status: 400 });
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(validFrom)) {
+      return NextResponse.json({ error: "valid_from (YYYY-MM-DD) is required" }, { status: 400 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const { rows, skipped } = parseFeeMasterBuffer(buffer);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "取り込める診療行為がありません", skipped: skipped.slice(0, 50) }, { status: 422 });
+    }
+
+    const summary = await importFeeMaster(supabase, rows, validFrom, {
+      dryRun,
+      sourceFile: file instanceof File ? file.name : undefined,
+    });
+
+    return NextResponse.json({ success: true, summary, skipped: skipped.slice(0, 50), skipped_total: skipped.length });
+  } catch (error: unknown) {
+    console.error("[fee-master-import] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { verifyAuth } from "@/lib/api-auth";
 import { NextRequest, NextResponse } from "next/server";
+import { resolveBurdenRatio } from "@/lib/burden-ratio";
 
 export async function POST(req: NextRequest) {
   try {
@@ -36,19 +37,13 @@ export async function POST(req: NextRequest) {
   "name_kanji": "被保険者氏名",
   "date_of_birth": "YYYY-MM-DD",
   "sex": "男 or 女",
-  "burden_ratio": 0.3,
+  "card_burden_ratio": "券面に記載された負担割合（高齢受給者証・後期高齢者証のみ。例: 0.2）、記載がなければnull",
   "valid_from": "資格取得日（YYYY-MM-DD or null）",
   "valid_until": "有効期限（YYYY-MM-DD or null）",
   "confidence": 0.9,
   "notes": "読み取り上の注意事項"
 }
 
-burden_ratioの判定:
-- 6歳以下 → 0.2
-- 70歳未満 → 0.3
-- 70-74歳 → 0.2（現役並み所得者は0.3）
-- 75歳以上（後期高齢） → 0.1
-
 読み取れない項目はnullにしてください。`
           },
           {
@@ -74,6 +69,19 @@ burden_ratioの判定:
     const content = data.choices?.[0]?.message?.content || "{}";
     const result = JSON.parse(content);
 
+    // 負担割合はLLMに推測させず、生年月日・保険種別から確定的に算出する
+    // 高齢受給者証・後期高齢者証に3割/2割の記載があれば所得区分として扱う
+    if (result.date_of_birth || result.insurance_type === "後期高齢") {
+      const cardRatio = Number(result.card_burden_ratio);
+      const income = cardRatio >= 0.3 ? "active" : cardRatio >= 0.2 && result.insurance_type === "後期高齢" ? "certain" : "general";
+      const today = new Date().toISOString().split("T")[0];
+      const resolved = resolveBurdenRatio(result.date_of_birth, today, result.insurance_type, income);
+      result.burden_ratio = resolved.ratio;
+      result.burden_ratio_reason = resolved.reason;
+    } else {
+      result.burden_ratio = null;
+    }
+
     return NextResponse.json({ success: true, ocr: result });
   } catch (e) {
     console.error("insurance-ocr error:", e);
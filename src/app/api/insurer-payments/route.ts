@@ -0,0 +1,101 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import * as iconv from "iconv-lite";
+import { importInsurerPayments, parseInsurerPaymentCsv, reconcileClaims } from "@/lib/insurer-payments";
+import type { ClaimDestination } from "@/lib/claim-destination";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/insurer-payments
+// POST: multipart/form-data { file, destination: "shaho"|"kokuho", dry_run?: "true" }
+//       支払基金・国保連の振込通知CSVを取り込み、該当月の請求済み会計を入金済にする
+//       → { success, summary, skipped }
+// GET : ?from=YYYYMM&to=YYYYMM
+//       → 請求月 × 審査支払機関ごとの請求額・返戻・査定・決定金額の照合
+// ============================================================
+
+const MAX_MONTHS = 24;
+
+function isDestination(v: unknown): v is ClaimDestination {
+  return v === "shaho" || v === "kokuho";
+}
+
+function monthsBetween(from: string, to: string): string[] {
+  const out: string[] = [];
+  let y = Number(from.substring(0, 4));
+  let m = Number(from.substring(4, 6));
+  while (`${y}${String(m).padStart(2, "0")}` <= to && out.length < MAX_MONTHS) {
+    out.push(`${y}${String(m).padStart(2, "0")}`);
+    m++;
+    if (m > 12) { m = 1; y++; }
+  }
+  return out;
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const destination = formData.get("destination");
+    const dryRun = formData.get("dry_run") === "true";
+
+    if (!file || !(file instanceof Blob)) {
+      return NextResponse.json({ error: "CSVファイルが見つかりません。multipart/form-dataの'file'フィールドで送信してください。" }, { status: 400 });
+    }
+    if (!isDestination(destination)) {
+      return NextResponse.json({ error: "destination (shaho | kokuho) is required" }, { status: 400 });
+    }
+
+    // オンライン請求システムのCSVはShift_JIS。BOM付きならUTF-8とみなす
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const text = buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf
+      ? buffer.subarray(3).toString("utf-8")
+      : iconv.decode(buffer, "Shift_JIS");
+    const { rows, skipped } = parseInsurerPaymentCsv(text);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "取り込める振込データがありません", skipped: skipped.slice(0, 50) }, { status: 422 });
+    }
+
+    const summary = await importInsurerPayments(supabase, destination, rows, {
+      dryRun,
+      sourceFile: file instanceof File ? file.name : undefined,
+    });
+    return NextResponse.json({ success: true, summary, rows, skipped: skipped.slice(0, 50) });
+  } catch (error: unknown) {
+    console.error("[insurer-payments] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from") || "";
+    const to = searchParams.get("to") || "";
+    if (!/^\d{6}$/.test(from) || !/^\d{6}$/.test(to) || from > to) {
+      return NextResponse.json({ error: "from / to (YYYYMM) are required" }, { status: 400 });
+    }
+
+    const reconciliation = await reconcileClaims(supabase, monthsBetween(from, to));
+    return NextResponse.json({ success: true, from, to, reconciliation });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { calculateVisitPoints, type PointInput } from "@/lib/point-calculator";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/point-calculate（点数算定）
+// 処置を9桁の診療行為コードに解決し、点数マスタ・算定ルール・施設基準加算を適用した内訳を返す
+// INPUT : { procedures: [{ id?, procedure_name, fee_code?, points?, count?, category?, tooth? }],
+//           patient_id?: string, service_date?: YYYY-MM-DD }
+//         または { medical_record_id }（カルテの structured_procedures を計算）
+// OUTPUT: { success: true, service_date, age, total_points, items: [...], warnings: [...] }
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const body = await request.json();
+    const serviceDate = /^\d{4}-\d{2}-\d{2}$/.test(body.service_date || "")
+      ? body.service_date
+      : new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+    let patientId: string | null = body.patient_id || null;
+    let procedures: PointInput[] = Array.isArray(body.procedures) ? body.procedures : [];
+    if (body.medical_record_id) {
+      const { data: record } = await supabase
+        .from("medical_records")
+        .select("patient_id, structured_procedures")
+        .eq("id", body.medical_record_id)
+        .maybeSingle();
+      if (!record) return NextResponse.json({ error: "カルテが見つかりません" }, { status: 404 });
+      patientId = record.patient_id;
+      procedures = (record.structured_procedures || []) as PointInput[];
+    }
+    if (procedures.some(p => !p || typeof p.procedure_name !== "string")) {
+      return NextResponse.json({ error: "procedures の各要素に procedure_name が必要です" }, { status: 400 });
+    }
+
+    const breakdown = await calculateVisitPoints(supabase, { patient_id: patientId, service_date: serviceDate, procedures });
+    return NextResponse.json({ success: true, ...breakdown });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { diffPriceMaster, importPriceMaster, parsePriceMasterBuffer, type PriceDiff, type PriceMasterKind } from "@/lib/price-master";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/price-master-import
+// 医薬品マスター / 特定器材マスター（Shift_JIS CSV）を施行日付きの価格履歴として取り込む
+// POST: multipart/form-data { file, kind: "drug"|"material", valid_from: "YYYY-MM-DD", dry_run?: "true" }
+//       → { success, summary, diff, skipped }
+// GET : ?kind=drug&from=YYYY-MM-DD&to=YYYY-MM-DD
+//       → 2時点で有効な版の追加・削除・価格変更コード
+// ============================================================
+
+const DIFF_LIMIT = 200;
+
+function isKind(v: unknown): v is PriceMasterKind {
+  return v === "drug" || v === "material";
+}
+
+// 画面表示用に件数と先頭DIFF_LIMIT件に絞る
+function truncateDiff(diff: PriceDiff) {
+  return {
+    counts: { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length },
+    added: diff.added.slice(0, DIFF_LIMIT),
+    removed: diff.removed.slice(0, DIFF_LIMIT),
+    changed: diff.changed.slice(0, DIFF_LIMIT),
+  };
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const kind = formData.get("kind");
+    const validFrom = String(formData.get("valid_from") || "");
+    const dryRun = formData.get("dry_run") === "true";
+
+    if (!file || !(file instanceof Blob)) {
+      return NextResponse.json({ error: "マスターファイルが見つかりません。multipart/form-dataの'file'フィールドで送信してください。" }, { status: 400 });
+    }
+    if (!isKind(kind)) {
+      return NextResponse.json({ error: "kind (drug | material) is required" }, { status: 400 });
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(validFrom)) {
+      return NextResponse.json({ error: "valid_from (YYYY-MM-DD) is required" }, { status: 400 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const { rows, skipped } = parsePriceMasterBuffer(buffer, kind);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "取り込めるコードがありません", skipped: skipped.slice(0, 50) }, { status: 422 });
+    }
+
+    const { summary, diff } = await importPriceMaster(supabase, kind, rows, validFrom, {
+      dryRun,
+      sourceFile: file instanceof File ? file.name : undefined,
+    });
+
+    return NextResponse.json({ success: true, summary, diff: truncateDiff(diff), skipped: skipped.slice(0, 50), skipped_total: skipped.length });
+  } catch (error: unknown) {
+    console.error("[price-master-import] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get("kind");
+    const from = searchParams.get("from") || "";
+    const to = searchParams.get("to") || "";
+    if (!isKind(kind)) {
+      return NextResponse.json({ error: "kind (drug | material) is required" }, { status: 400 });
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      return NextResponse.json({ error: "from / to (YYYY-MM-DD) are required" }, { status: 400 });
+    }
+
+    const diff = await diffPriceMaster(supabase, kind, from, to);
+    return NextResponse.json({ success: true, kind, from, to, diff: truncateDiff(diff) });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,19 @@ import { verifyAuth } from "@/lib/api-auth";
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import * as iconv from "iconv-lite";
+import JSZip from "jszip";
+import { validateUKEBuffer } from "@/lib/uke-validator";
+import { CLAIM_DESTINATIONS, resolveClaimDestination } from "@/lib/claim-destination";
+import type { ClaimDestination } from "@/lib/claim-destination";
+import { resolveReceiptType, resolveRelationship } from "@/lib/receipt-type";
+import { burdenConfigFromInsurance, calculateMonthlyBurden } from "@/lib/burden-calculator";
+import { drugPoints, loadPriceMaster } from "@/lib/price-master";
+import { loadResubmissions, type ClaimReturn } from "@/lib/claim-returns";
+import { createHash } from "crypto";
+import { findClosedSnapshots, saveMonthlyClose } from "@/lib/claim-snapshots";
+import { emptySanteiDays, encodeSanteiDays, jstDayOfMonth } from "@/lib/santei-days";
+import { parseToothNotation, toUkeToothCode } from "@/lib/tooth-notation";
+import { decomposeDiagnosisName, loadDiagnosisModifiers, modifierCodesField, parseModifierCodes } from "@/lib/diagnosis-modifiers";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -12,24 +25,6 @@ const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 // ============================================================
 
 
-/**
- * [UKE-7] 歯番号を6桁コードに変換
- * m_tooth_chartのfdi_numberカラムから構築したMapを参照
- * 入力例: "46", "#46", "11"
- * 出力例: "104600", "101100"
- * toothMap: POST関数内でm_tooth_chartから構築したMap
- */
-function toothTo6Digit(tooth: string, toothMap: Map<string, string>): string {
-  const cleaned = tooth.replace(/^#/, "").trim();
-  // m_tooth_chartから構築したMapを参照
-  const mapped = toothMap.get(cleaned);
-  if (mapped) return mapped;
-  // すでに6桁の場合はそのまま
-  if (/^\d{6}$/.test(cleaned)) return cleaned;
-  // 変換不能 → そのまま返す（警告は呼び出し元で出す）
-  return cleaned;
-}
-
 function toFull(s: string): string {
   return s
     .replace(/[\x21-\x7e]/g, (c) =>
@@ -42,13 +37,29 @@ function toYMD(d: string): string {
   return d.replace(/-/g, "");
 }
 
+/**
+ * 同じ内容の明細を1行にまとめ、算定日情報（日ごとの回数）を積み上げる
+ * key: 診療識別・負担区分・コード・数量・点数など、1行として区別すべき項目
+ */
+type SanteiLine<T> = { row: T; count: number; days: number[] };
+function aggregateByDay<T>(items: { key: string; row: T; day: number; count: number }[]): SanteiLine<T>[] {
+  const lines = new Map<string, SanteiLine<T>>();
+  for (const it of items) {
+    if (!lines.has(it.key)) lines.set(it.key, { row: it.row, count: 0, days: emptySanteiDays() });
+    const line = lines.get(it.key)!;
+    line.count += it.count;
+    if (it.day >= 1 && it.day <= 31) line.days[it.day - 1] += it.count;
+  }
+  return [...lines.values()];
+}
+
 export async function POST(request: NextRequest) {
   const supabase = createClient(supabaseUrl, supabaseKey);
   try {
     const { user, error: authError } = await verifyAuth(request);
     if (authError) return authError;
 
-    const { yearMonth, format } = await request.json();
+    const { yearMonth, format, strict } = await request.json();
     if (!yearMonth || yearMonth.length !== 6) {
       return NextResponse.json(
         { error: "yearMonth (YYYYMM) is required" },
@@ -71,7 +82,21 @@ export async function POST(request: NextRequest) {
 
     if (bErr)
       return NextResponse.json({ error: bErr.message }, { status: 500 });
-    if (!billings || billings.length === 0)
+
+    // ============================================================
+    // 返戻再請求: 修正済の返戻のうち再請求月が当月のものを、元の診療年月のレセプトとして同じUKEに含める
+    // ============================================================
+    const resubmissions = await loadResubmissions(supabase, yearMonth);
+    let resubmitBillings: typeof billings = [];
+    if (resubmissions.length > 0) {
+      const { data: rbData } = await supabase
+        .from("billing")
+        .select("*")
+        .in("id", resubmissions.flatMap(cr => cr.billing_ids));
+      resubmitBillings = rbData || [];
+    }
+
+    if ((!billings || billings.length === 0) && resubmitBillings.length === 0)
       return NextResponse.json(
         { error: "該当月の精算済みデータがありません" },
         { status: 404 }
@@ -80,7 +105,7 @@ export async function POST(request: NextRequest) {
     // 患者情報
     const patientIds = Array.from(
       new Set(
-        billings.map((b: { patient_id: string }) => b.patient_id)
+        [...(billings || []), ...resubmitBillings].map((b: { patient_id: string }) => b.patient_id)
       )
     );
     type PatientInsurance = {
@@ -91,6 +116,7 @@ export async function POST(request: NextRequest) {
       insurer_number: string | null;
       insured_symbol: string | null;
       insured_number: string | null;
+      insurance_relation: string | null;
       branch_code: string | null;
       qualified_recipient_number: string | null;
       public_insurer: string | null;
@@ -145,6 +171,7 @@ export async function POST(request: NextRequest) {
     } catch (e) {
       console.error("傷病名マスタ取得エラー:", e);
     }
+    const diagModifiers = await loadDiagnosisModifiers(supabase);
 
     // ============================================================
     // [UKE-7] m_tooth_chartのfdi_numberからtoothMapを構築
@@ -194,59 +221,220 @@ export async function POST(request: NextRequest) {
     // 1患者 = 1レセプト にまとめる（これがないと即返戻）
     // 同じ患者の複数回来院分を統合し、点数を合算する
     // ============================================================
-    const patientMap = new Map<string, typeof billings>();
-    for (const b of billings) {
+    const patientMap = new Map<string, NonNullable<typeof billings>>();
+    for (const b of billings || []) {
       const pid = b.patient_id;
       if (!patientMap.has(pid)) patientMap.set(pid, []);
       patientMap.get(pid)!.push(b);
     }
 
-    const lines: string[] = [];
-    const warnings: string[] = [];
-
-    // === UK レコード（受付情報） ===
-    lines.push(
-      `UK,1,${clinicPref},3,${clinicCode},,${toFull(clinicName)},${yearMonth},${facilityCode},00`
-    );
+    // 1レセプト = 患者×診療年月。当月分に続けて返戻再請求分を並べる
+    type ClaimUnit = {
+      patientId: string;
+      billings: NonNullable<typeof billings>;
+      yearMonth: string;
+      startDate: string;
+      endDate: string;
+      resubmission: ClaimReturn | null;
+    };
+    const claimUnits: ClaimUnit[] = Array.from(patientMap.keys()).map(patientId => ({
+      patientId, billings: patientMap.get(patientId)!, yearMonth, startDate, endDate, resubmission: null,
+    }));
+    for (const cr of resubmissions) {
+      const crBillings = resubmitBillings.filter((b: { id: string }) => cr.billing_ids.includes(b.id));
+      if (crBillings.length === 0) continue;
+      const y = cr.shinryo_ym.substring(0, 4);
+      const m = cr.shinryo_ym.substring(4, 6);
+      claimUnits.push({
+        patientId: cr.patient_id!,
+        billings: crBillings,
+        yearMonth: cr.shinryo_ym,
+        startDate: `${y}-${m}-01`,
+        endDate: `${y}-${m}-${String(new Date(parseInt(y), parseInt(m), 0).getDate()).padStart(2, "0")}`,
+        resubmission: cr,
+      });
+    }
 
-    // === IR レコード（医療機関情報） ===
-    lines.push(
-      `IR,1,${clinicPref},3,${clinicCode},,${yearMonth},${clinicPhone},${facilityCode}`
-    );
+    const warnings: string[] = [];
 
-    let receiptNo = 0;
-    let totalPointsAll = 0;
+    // ============================================================
+    // 審査支払機関ごとにUKEを分割
+    // 社保 → 支払基金 / 国保・後期高齢 → 国保連
+    // レセプト番号・GO合計はファイル（請求先）ごとに採番・集計する
+    // ============================================================
+    type ClaimFile = {
+      destination: ClaimDestination;
+      lines: string[];
+      receiptNo: number;
+      totalPoints: number;
+      // 月次締めでレセプト単位に保存するための位置（REの行番号）
+      receipts: { receiptNo: number; patientId: string; billingIds: string[]; shinryoYm: string; start: number }[];
+    };
+    const claimFiles = new Map<ClaimDestination, ClaimFile>();
+    const getClaimFile = (destination: ClaimDestination): ClaimFile => {
+      const existing = claimFiles.get(destination);
+      if (existing) return existing;
+      const orgCode = CLAIM_DESTINATIONS[destination].code;
+      const created: ClaimFile = { destination, lines: [], receiptNo: 0, totalPoints: 0, receipts: [] };
+      // === UK レコード（受付情報） ===
+      // UK,審査支払機関,,診療年月,医療機関コード,都道府県,点数表,医療機関名称,施設コード
+      created.lines.push(
+        `UK,${orgCode},,${yearMonth},${clinicCode},${clinicPref},3,${toFull(clinicName)},${facilityCode}`
+      );
+      // === IR レコード（医療機関情報） ===
+      // IR,審査支払機関,都道府県,点数表,医療機関コード,,医療機関名称,請求年月,電話番号
+      created.lines.push(
+        `IR,${orgCode},${clinicPref},3,${clinicCode},,${toFull(clinicName)},${yearMonth},${clinicPhone}`
+      );
+      claimFiles.set(destination, created);
+      return created;
+    };
 
-    const patientKeys = Array.from(patientMap.keys());
-    for (const patientId of patientKeys) {
-      const pBillings = patientMap.get(patientId)!;
-      receiptNo++;
+    for (const unit of claimUnits) {
+      const patientId = unit.patientId;
+      const pBillings = unit.billings;
       const pat = patientLookup.get(patientId);
       if (!pat) continue;
 
+      const claimFile = getClaimFile(
+        resolveClaimDestination(pat.ins.insurance_type, pat.ins.insurer_number)
+      );
+      const lines = claimFile.lines;
+      const receiptNo = ++claimFile.receiptNo;
+
       const insType = String(pat.ins.insurance_type || "社保");
-      const insCode = insType === "国保" ? "3" : insType === "後期高齢" ? "7" : "1";
       const sexCode = String(pat.sex || "2") === "男" || String(pat.sex || "2") === "1" ? "1" : "2";
       const dob = toYMD(String(pat.date_of_birth || ""));
       const burdenRatio = Number(pat.ins.burden_ratio || 0.3);
-      const burdenCode = Math.round(burdenRatio * 10);
 
       // ============================================================
-      // [A-1] 患者の月内合計点数を算出（全billing分を合算）
+      // [B-1] IY レコード（医薬品）の明細
+      // auto-billingで算定されたDRUG-コードの薬剤。点数は算定日時点の薬価から計算し直すため、
+      // 合計点数（HO/KO）より先に求めておく（出力は SS の後）
+      // ============================================================
+      const drugProcs: { code: string; name: string; points: number; count: number; note: string; service_date: string; day: number }[] = [];
+      const iyItems: { key: string; row: { drugShikibetsu: string; drugReceiptCode: string; usageStr: string; points: number }; day: number; count: number }[] = [];
+      let iyPointsAdjustment = 0;   // 会計の点数からの差（薬価改定をまたいだ分）
+      for (const b of pBillings) {
+        const procs = (b.procedures_detail || []) as {
+          code: string; name: string; points: number; count: number; note?: string;
+        }[];
+        for (const proc of procs) {
+          if (proc.code.startsWith("DRUG-")) {
+            drugProcs.push({
+              code: proc.code,
+              name: proc.name,
+              points: proc.points,
+              count: proc.count,
+              note: proc.note || "",
+              service_date: String(b.created_at || "").substring(0, 10),
+              day: jstDayOfMonth(b.created_at),
+            });
+          }
+        }
+      }
+
+      if (drugProcs.length > 0) {
+        // m_drugsからreceipt_codeを取得
+        const drugYjCodes = drugProcs.map(dp => dp.code.replace("DRUG-", ""));
+        let drugMasterMap = new Map<string, { yj_code: string; receipt_code: string; dosage_form: string; name: string; unit_price: number; unit: string }>();
+        try {
+          const { data: drugMasterData } = await supabase
+            .from("m_drugs")
+            .select("yj_code, receipt_code, dosage_form, name, unit_price, unit")
+            .in("yj_code", drugYjCodes);
+          drugMasterMap = new Map(
+            (drugMasterData || []).map((d: { yj_code: string; receipt_code: string; dosage_form: string; name: string; unit_price: number; unit: string }) => [d.yj_code, d])
+          );
+        } catch (e) {
+          console.error("薬剤マスタ取得エラー:", e);
+        }
+
+        // 薬価は算定日時点の価格履歴から取得（改定月をまたいでも算定日の薬価で点数を照合）
+        const drugPrices = await loadPriceMaster(
+          supabase,
+          "drug",
+          [...drugMasterMap.values()].map(d => d.receipt_code).filter(Boolean)
+        );
+
+        for (const dp of drugProcs) {
+          const yjCode = dp.code.replace("DRUG-", "");
+          const drugInfo = drugMasterMap.get(yjCode);
+
+          // 診療識別: 内服=21, 頓服=22, 外用=23, 注射=31
+          let drugShikibetsu = "21";
+          if (drugInfo) {
+            if (drugInfo.dosage_form === "頓服") drugShikibetsu = "22";
+            else if (drugInfo.dosage_form === "外用") drugShikibetsu = "23";
+            else if (drugInfo.dosage_form === "注射") drugShikibetsu = "31";
+          }
+
+          // レセプト用医薬品コード（receipt_codeを優先、なければyj_codeを使用）
+          const drugReceiptCode = drugInfo?.receipt_code || yjCode;
+
+          // 使用量（noteから日数等を抽出、なければ1）
+          const usageStr = "1";
+
+          // 算定日時点の薬価で点数を出す（薬価がなければ会計の点数のまま）
+          const price = drugPrices.resolve(drugReceiptCode, dp.service_date);
+          let points = dp.points;
+          if (price && price.unit_price > 0) {
+            points = drugPoints(price.unit_price, Number(usageStr));
+            iyPointsAdjustment += (points - dp.points) * (dp.count || 1);
+          } else {
+            warnings.push(`${dp.service_date}時点の薬価がありません: ${dp.name}（会計の${dp.points}点で出力）`);
+          }
+
+          iyItems.push({
+            key: [drugShikibetsu, drugReceiptCode, usageStr, points].join("|"),
+            row: { drugShikibetsu, drugReceiptCode, usageStr, points },
+            day: dp.day,
+            count: dp.count || 1,
+          });
+        }
+      }
+
+      // ============================================================
+      // [A-1] 患者の月内合計点数を算出（全billing分を合算、薬剤は算定日の薬価に合わせる）
       // ============================================================
       const patientTotalPoints = pBillings.reduce(
         (s: number, b: { total_points: number }) => s + b.total_points, 0
+      ) + iyPointsAdjustment;
+      claimFile.totalPoints += patientTotalPoints;
+
+      // 来院日（JDの受診日・HO/KOの診療実日数）
+      const visitDays = pBillings.map(
+        (b: { created_at: string }) => jstDayOfMonth(b.created_at)
+      );
+      const uniqueDays = Array.from(new Set(visitDays)).sort(
+        (a: number, b: number) => a - b
       );
-      totalPointsAll += patientTotalPoints;
+      const jitsunissu = uniqueDays.length;
 
       // === RE レコード（レセプト共通） ===
       // [A-1] 1患者につき1つのREレコードのみ出力（統合済み）
-      // レセプト種別: 保険種別(1桁) + 本人/家族(1桁) + 負担割合(1桁) + 入外区分(1桁)
-      // 公費がある場合: 4桁目以降に公費種別を追加
-      // 例: 社保本人3割外来 = "1132", 公費1件あり = "1132" + 公費レセプト種別
-      const reInsType = `${insCode}1${burdenCode}2`;
+      // レセプト種別: 点数表(3=歯科) + 保険の種類 + 併用数 + 本人家族区分（外来）
+      // 例: 社保本人外来 = "3112" / 家族+公費1種 = "3126" / 後期一般 = "3318"
+      const publicCount = [
+        pat.ins.public_insurer, pat.ins.public_insurer_2,
+        pat.ins.public_insurer_3, pat.ins.public_insurer_4,
+      ].filter(Boolean).length;
+      const reInsType = resolveReceiptType({
+        insuranceType: insType,
+        hasInsurer: !!pat.ins.insurer_number,
+        relationship: resolveRelationship(
+          pat.ins.insurance_relation, pat.date_of_birth, unit.endDate, insType, pat.ins.burden_ratio
+        ),
+        publicCount,
+      });
+      // 返戻再請求分は元の診療年月で出力し、返戻データの検索番号を付ける
+      const searchNo = unit.resubmission?.search_no || "";
+      claimFile.receipts.push({
+        receiptNo, patientId, shinryoYm: unit.yearMonth, start: lines.length,
+        billingIds: pBillings.map((b: { id: string }) => b.id),
+      });
       lines.push(
-        `RE,${receiptNo},${reInsType},${yearMonth},${pat.name_kanji || ""},${sexCode},${dob},${Math.round((1 - burdenRatio) * 10) * 10},,,,1,,,,,${pat.name_kana || ""},`
+        `RE,${receiptNo},${reInsType},${unit.yearMonth},${pat.name_kanji || ""},${sexCode},${dob},${Math.round((1 - burdenRatio) * 10) * 10},,,,1,,,,,${pat.name_kana || ""},${searchNo ? `,${searchNo}` : ""}`
       );
 
       // ============================================================
@@ -257,8 +445,9 @@ export async function POST(request: NextRequest) {
         const insurerNum = String(pat.ins.insurer_number).padStart(8, "0");
         const insuredSymbol = pat.ins.insured_symbol ? toFull(String(pat.ins.insured_symbol)) : "";
         const insuredNum = pat.ins.insured_number ? String(pat.ins.insured_number) : "";
+        // HO,保険者番号,記号,番号,診療実日数,合計点数,一部負担金額,…
         lines.push(
-          `HO,${insurerNum},,${insuredSymbol},${insuredNum},${patientTotalPoints},,,,,,,,`
+          `HO,${insurerNum},${insuredSymbol},${insuredNum},${jitsunissu},${patientTotalPoints},,,,,,,,`
         );
       }
 
@@ -285,7 +474,7 @@ export async function POST(request: NextRequest) {
         const edaban = pat.ins.branch_code
           ? String(pat.ins.branch_code).padStart(2, "0")
           : "";
-        lines.push(`SN,${futanshaShu},${kakuninKubun},,,,${edaban},,`);
+        lines.push(`SN,${futanshaShu},${kakuninKubun},,,,,${edaban},,`);
       }
 
       // ============================================================
@@ -324,9 +513,9 @@ export async function POST(request: NextRequest) {
       }
 
       for (const pe of publicExpenses) {
-        // KO,公費負担者番号,受給者番号,,負担区分番号,合計点数,,,,
+        // KO,公費負担者番号,受給者番号,任意給付区分,診療実日数,合計点数,公費負担金額,…
         lines.push(
-          `KO,${pe.insurer},${pe.recipient},,${pe.kubun},${patientTotalPoints},,,,`
+          `KO,${pe.insurer},${pe.recipient},,${jitsunissu},${patientTotalPoints},,,,`
         );
       }
       const hasPublicExpense = publicExpenses.length > 0;
@@ -336,12 +525,6 @@ export async function POST(request: NextRequest) {
       // ============================================================
       // [UKE-1] JD レコード（受診日等）— 公式仕様: KO直後・HS前
       // ============================================================
-      const visitDays = pBillings.map(
-        (b: { created_at: string }) => new Date(b.created_at).getDate()
-      );
-      const uniqueDays = Array.from(new Set(visitDays)).sort(
-        (a: number, b: number) => a - b
-      );
       const dayFlags = new Array(31).fill(0);
       uniqueDays.forEach((d: number) => {
         if (d >= 1 && d <= 31) dayFlags[d - 1] = 1;
@@ -349,8 +532,14 @@ export async function POST(request: NextRequest) {
       lines.push(`JD,${uniqueDays.length},${dayFlags.join(",")}`);
 
       // [UKE-1] MF レコード（窓口負担額）— 公式仕様: JD直後・HS前
-      const windowAmount = Math.round(patientTotalPoints * 10 * burdenRatio);
-      lines.push(`MF,${windowAmount}`);
+      // 来院順に負担計算エンジンへ渡し、公費・月額上限を適用した窓口負担の合計を記録
+      const visitPoints = [...pBillings]
+        .sort((a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at))
+        .map((b: { total_points: number }) => b.total_points);
+      const monthlyBurden = calculateMonthlyBurden(visitPoints, burdenConfigFromInsurance(pat.ins, burdenRatio));
+      const windowAmount = monthlyBurden.total.patient_amount;
+      // MF,窓口負担額区分,窓口負担額（区分 00 = 通常の一部負担金）
+      lines.push(`MF,00,${windowAmount}`);
 
       // ============================================================
       // [UKE-2] HS レコード（傷病名部位）— 公式マスタコード変換・入院外仕様
@@ -379,8 +568,8 @@ export async function POST(request: NextRequest) {
           .from("receipt_diagnoses")
           .select("*")
           .eq("patient_id", patientId)
-          .or(`ended_at.is.null,ended_at.gte.${startDate},started_at.gte.${startDate}`)
-          .lte("started_at", endDate);
+          .or(`ended_at.is.null,ended_at.gte.${unit.startDate},started_at.gte.${unit.startDate}`)
+          .lte("started_at", unit.endDate);
         diagData = (diagResult || []) as ReceiptDiagnosis[];
       } catch (e) {
         console.error("傷病名取得エラー:", e);
@@ -393,41 +582,40 @@ export async function POST(request: NextRequest) {
             d.outcome === "died" ? "2" : "";
           const startYM = d.started_at
             ? d.started_at.replace(/-/g, "").substring(0, 6)
-            : yearMonth;
+            : unit.yearMonth;
           const endYM = d.ended_at
             ? d.ended_at.replace(/-/g, "").substring(0, 6)
             : "";
 
-          // [A-4] 傷病名コードの公式マスタ変換
+          // [A-4] 傷病名コード: 基本傷病名コード＋修飾語コード（receipt_diagnoses）をそのまま使う
+          // 修飾語コードを持たない旧データでコードがマスタにない場合だけ、
+          // 名称を「前置修飾語＋基本傷病名＋後置修飾語」に分解してマスタを引く
           let diagCode = d.diagnosis_code || "";
           const diagName = d.diagnosis_name || "";
-
-          // まず m_diagnoses で公式コードを検索
-          // 1) コードでマスタを検索
-          const masterByCode = diagMasterByCode.get(diagCode);
-          if (masterByCode && masterByCode.icd10_code) {
-            // マスタにICD-10コードがあればそれを使用
-            diagCode = masterByCode.diagnosis_code;
-          }
-          // 2) コードで見つからなければ名称でマスタを検索
-          if (!masterByCode) {
-            const masterByName = diagMasterByName.get(diagName);
-            if (masterByName) {
-              diagCode = masterByName.diagnosis_code;
-            } else {
+          let modifierCodes = parseModifierCodes(d.modifier_codes);
+          if (!diagMasterByCode.has(diagCode)) {
+            const decomposed = decomposeDiagnosisName(diagName, diagModifiers, n => diagMasterByName.has(n));
+            if (decomposed) {
+              diagCode = diagMasterByName.get(decomposed.base_name)!.diagnosis_code;
+              if (modifierCodes.length === 0) modifierCodes = decomposed.modifier_codes;
+            } else if (diagCode !== "0000999") {
               // マスタに見つからない場合は警告
               warnings.push(`傷病名マスタ未登録: "${diagName}" (code: ${d.diagnosis_code})`);
             }
           }
 
           // 歯式コード6桁変換（m_tooth_chartの10XY00形式）
-          const toothNum = (d.tooth_number_display || "").replace(/#/g, "");
-          const toothSixDigit = toothNum ? toothTo6Digit(toothNum, toothMap) : "";
+          // 範囲（46-47Br・上顎全顎など）は歯ごとのコードを連結する
+          const toothParsed = parseToothNotation(d.tooth_number_display || "");
+          if (toothParsed.unknown.length > 0) {
+            warnings.push(`歯式を変換できません: "${d.tooth_number_display}"（${diagName}）`);
+          }
+          const toothSixDigit = toothParsed.teeth.map(t => toUkeToothCode(t, toothMap)).join("");
 
           // HS レコード（傷病名部位）公式仕様準拠・入院外
           const diagNameField = diagCode === "0000999" ? diagName : "";
           lines.push(
-            `HS,,,${toothSixDigit},${diagCode},${d.modifier_codes || ""},${diagNameField},,,,,,`
+            `HS,,,${toothSixDigit},${diagCode},${modifierCodesField(modifierCodes)},${diagNameField},,,,,,`
           );
         }
       }
@@ -437,13 +625,13 @@ export async function POST(request: NextRequest) {
       // CP-10: SSレコード（歯科診療行為）
       // medical_record_idで当月分を取得 → m_feesでshinryo_shikibetsu取得
       // ============================================================
-      const drugProcs: { code: string; name: string; points: number; count: number; note: string }[] = [];
-
       const medicalRecordIds = pBillings
         .map((b: { medical_record_id: string }) => b.medical_record_id)
         .filter(Boolean);
 
       let receiptProcedures: {
+        medical_record_id: string;
+        performed_at: string | null;
         fee_code: string;
         fee_name: string;
         points: number;
@@ -456,7 +644,7 @@ export async function POST(request: NextRequest) {
       if (medicalRecordIds.length > 0) {
         const { data: rpData } = await supabase
           .from("receipt_procedures")
-          .select("fee_code, fee_name, points, count, shinryo_shikibetsu, futan_kubun, tooth_codes")
+          .select("medical_record_id, performed_at, fee_code, fee_name, points, count, shinryo_shikibetsu, futan_kubun, tooth_codes")
           .in("medical_record_id", medicalRecordIds);
         receiptProcedures = (rpData || []) as typeof receiptProcedures;
       }
@@ -474,6 +662,11 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // 算定日: performed_at、なければカルテに紐づく会計の作成日
+      const visitDayByRecord = new Map<string, number>(
+        pBillings.map((b: { medical_record_id: string; created_at: string }) => [b.medical_record_id, jstDayOfMonth(b.created_at)])
+      );
+      const ssItems: { key: string; row: { shikibetsu: string; futanKubun: string; feeCode: string; teethStr: string; points: number }; day: number; count: number }[] = [];
       for (const rp of receiptProcedures) {
         if (!rp.fee_code || rp.fee_code.length !== 9) {
           warnings.push(`fee_code不正: ${rp.fee_code} (${rp.fee_name})`);
@@ -482,66 +675,42 @@ export async function POST(request: NextRequest) {
         const shikibetsu = feeShikibetsuMap.get(rp.fee_code) || rp.shinryo_shikibetsu || "80";
         const futanKubun = rp.futan_kubun || (hasPublicExpense ? futanKubunAll : "");
         const teethStr = rp.tooth_codes || "";
+        ssItems.push({
+          key: [shikibetsu, futanKubun, rp.fee_code, teethStr, rp.points].join("|"),
+          row: { shikibetsu, futanKubun, feeCode: rp.fee_code, teethStr, points: rp.points },
+          day: rp.performed_at ? jstDayOfMonth(rp.performed_at) : visitDayByRecord.get(rp.medical_record_id) || 0,
+          count: rp.count || 1,
+        });
+      }
 
+      // SS,診療識別,負担区分,診療行為コード,数量(歯式),点数,回数,コメント1〜3(コード,文字),1日〜31日の情報
+      // 同じ診療行為は当月1行にまとめ、来院日ごとの回数を算定日情報に入れる
+      for (const ss of aggregateByDay(ssItems)) {
+        const r = ss.row;
         lines.push(
-          `SS,${shikibetsu},${futanKubun},${rp.fee_code},${teethStr},,${rp.points},${rp.count}`
+          `SS,${r.shikibetsu},${r.futanKubun},${r.feeCode},${r.teethStr},${r.points},${ss.count},,,,,,,${encodeSanteiDays(ss.days)}`
         );
       }
 
       // ============================================================
       // [B-1] IY レコード（医薬品）
-      // auto-billingで算定されたDRUG-コードの薬剤をIYレコードとして出力
-      // IY,診療識別(21=内服,23=外用,25=頓服),負担区分,医薬品コード,使用量,点数,回数
+      // IY,診療識別(21=内服,23=外用,25=頓服),負担区分,医薬品コード,使用量,点数,回数,…,1日〜31日の情報
+      // 点数は合計点数（HO/KO）より先に算定日時点の薬価で求めてある（iyItems）
       // ============================================================
-      if (drugProcs.length > 0) {
-        // m_drugsからreceipt_codeを取得
-        const drugYjCodes = drugProcs.map(dp => dp.code.replace("DRUG-", ""));
-        let drugMasterMap = new Map<string, { yj_code: string; receipt_code: string; dosage_form: string; name: string; unit_price: number; unit: string }>();
-        try {
-          const { data: drugMasterData } = await supabase
-            .from("m_drugs")
-            .select("yj_code, receipt_code, dosage_form, name, unit_price, unit")
-            .in("yj_code", drugYjCodes);
-          drugMasterMap = new Map(
-            (drugMasterData || []).map((d: { yj_code: string; receipt_code: string; dosage_form: string; name: string; unit_price: number; unit: string }) => [d.yj_code, d])
-          );
-        } catch (e) {
-          console.error("薬剤マスタ取得エラー:", e);
-        }
-
-        const futanKubun = hasPublicExpense ? futanKubunAll : "";
-
-        for (const dp of drugProcs) {
-          const yjCode = dp.code.replace("DRUG-", "");
-          const drugInfo = drugMasterMap.get(yjCode);
-
-          // 診療識別: 内服=21, 頓服=22, 外用=23, 注射=31
-          let drugShikibetsu = "21";
-          if (drugInfo) {
-            if (drugInfo.dosage_form === "頓服") drugShikibetsu = "22";
-            else if (drugInfo.dosage_form === "外用") drugShikibetsu = "23";
-            else if (drugInfo.dosage_form === "注射") drugShikibetsu = "31";
-          }
-
-          // レセプト用医薬品コード（receipt_codeを優先、なければyj_codeを使用）
-          const drugReceiptCode = drugInfo?.receipt_code || yjCode;
-
-          // 使用量（noteから日数等を抽出、なければ1）
-          const usageStr = "1";
-
-          // IY,診療識別,負担区分,医薬品コード,使用量,点数,回数
-          lines.push(
-            `IY,${drugShikibetsu},${futanKubun},${drugReceiptCode},${usageStr},${dp.points},${dp.count}`
-          );
-        }
+      // IY,診療識別,負担区分,医薬品コード,使用量,点数,回数,コメント1〜3(コード,文字),1日〜31日の情報
+      for (const iy of aggregateByDay(iyItems)) {
+        const r = iy.row;
+        lines.push(
+          `IY,${r.drugShikibetsu},${hasPublicExpense ? futanKubunAll : ""},${r.drugReceiptCode},${r.usageStr},${r.points},${iy.count},,,,,,,${encodeSanteiDays(iy.days)}`
+        );
       }
 
       // ============================================================
       // [B-2] TO レコード（特定器材）
       // auto-billingで算定されたMAT-コードの材料をTOレコードとして出力
-      // TO,診療識別(70=特定器材),負担区分,特定器材コード,使用量,単位コード,単価,点数,回数
+      // TO,診療識別(70=特定器材),負担区分,特定器材コード,使用量,点数,回数,単位コード,単価,…,1日〜31日の情報
       // ============================================================
-      const matProcs: { code: string; name: string; points: number; count: number; note: string }[] = [];
+      const matProcs: { code: string; name: string; points: number; count: number; note: string; service_date: string; day: number }[] = [];
       for (const b of pBillings) {
         const procs = (b.procedures_detail || []) as {
           code: string; name: string; points: number; count: number; note?: string;
@@ -554,6 +723,8 @@ export async function POST(request: NextRequest) {
               points: proc.points,
               count: proc.count,
               note: proc.note || "",
+              service_date: String(b.created_at || "").substring(0, 10),
+              day: jstDayOfMonth(b.created_at),
             });
           }
         }
@@ -575,7 +746,11 @@ export async function POST(request: NextRequest) {
           console.error("器材マスタ取得エラー:", e);
         }
 
+        // 材料価格は算定日時点の価格履歴から取得
+        const matPrices = await loadPriceMaster(supabase, "material", matCodes);
+
         const futanKubun = hasPublicExpense ? futanKubunAll : "";
+        const toItems: { key: string; row: { matShikibetsu: string; matReceiptCode: string; matQuantity: number; matUnitPrice: number; points: number }; day: number; count: number }[] = [];
 
         for (const mp of matProcs) {
           const matCode = mp.code.replace("MAT-", "");
@@ -584,11 +759,21 @@ export async function POST(request: NextRequest) {
           const matShikibetsu = matInfo?.shinryo_shikibetsu || "70";
           const matReceiptCode = matInfo?.material_code || matCode;
           const matQuantity = matInfo?.default_quantity || 1;
-          const matUnitPrice = matInfo?.unit_price || 0;
+          const matUnitPrice = matPrices.resolve(matReceiptCode, mp.service_date)?.unit_price || matInfo?.unit_price || 0;
 
-          // TO,診療識別,負担区分,特定器材コード,使用量,単価,点数,回数
+          toItems.push({
+            key: [matShikibetsu, matReceiptCode, matQuantity, matUnitPrice, mp.points].join("|"),
+            row: { matShikibetsu, matReceiptCode, matQuantity, matUnitPrice, points: mp.points },
+            day: mp.day,
+            count: mp.count || 1,
+          });
+        }
+
+        // TO,診療識別,負担区分,特定器材コード,使用量,点数,回数,単位コード,単価,器材名,コメント1〜3(コード,文字),1日〜31日の情報
+        for (const to of aggregateByDay(toItems)) {
+          const r = to.row;
           lines.push(
-            `TO,${matShikibetsu},${futanKubun},${matReceiptCode},${matQuantity},${matUnitPrice},${mp.points},${mp.count}`
+            `TO,${r.matShikibetsu},${futanKubun},${r.matReceiptCode},${r.matQuantity},${r.points},${to.count},,${r.matUnitPrice},,,,,,,,${encodeSanteiDays(to.days)}`
           );
         }
       }
@@ -653,16 +838,162 @@ export async function POST(request: NextRequest) {
 
     }
 
-    // === GO レコード（請求書） ===
-    lines.push(`GO,${receiptNo},${totalPointsAll},99`);
+    if (claimFiles.size === 0) {
+      return NextResponse.json(
+        { error: "該当月の患者情報が取得できませんでした" },
+        { status: 404 }
+      );
+    }
+
+    // ============================================================
+    // 請求先ごとにGOレコードを付けてShift_JIS化し、自己検証する
+    // 出力したShift_JISをparseUKEBufferで再パースし
+    // 公式仕様（順序・項目数・必須項目・数値形式）と突き合わせる
+    // ============================================================
+    const files = (["shaho", "kokuho"] as ClaimDestination[])
+      .filter(dest => claimFiles.has(dest))
+      .map(dest => {
+        const cf = claimFiles.get(dest)!;
+        // === GO レコード（請求書） ===
+        cf.lines.push(`GO,${cf.receiptNo},${cf.totalPoints},99`);
+        // UKEファイルの内容を結合（CR+LF改行）
+        const ukeContent = cf.lines.join("\r\n");
+        const sjisBuffer = iconv.encode(ukeContent, "Shift_JIS");
+        return {
+          destination: dest,
+          destinationCode: CLAIM_DESTINATIONS[dest].code,
+          destinationLabel: CLAIM_DESTINATIONS[dest].label,
+          fileName: `receipt_${yearMonth}_${dest}.UKE`,
+          csv: ukeContent,
+          sjisBuffer,
+          receiptCount: cf.receiptNo,
+          totalPoints: cf.totalPoints,
+          validation: validateUKEBuffer(sjisBuffer),
+          // レセプト単位の内容（次のREまたはGOの手前まで）
+          receipts: cf.receipts.map((r, i) => ({
+            ...r,
+            content: cf.lines.slice(r.start, i + 1 < cf.receipts.length ? cf.receipts[i + 1].start : cf.lines.length - 1).join("\r\n"),
+          })),
+        };
+      });
+
+    const receiptCountAll = files.reduce((n, f) => n + f.receiptCount, 0);
+    const totalPointsAll = files.reduce((n, f) => n + f.totalPoints, 0);
+    const validationErrors = files.reduce((n, f) => n + f.validation.error_count, 0);
+    const validationWarnings = files.reduce((n, f) => n + f.validation.warning_count, 0);
+    const summary = files.map(f => ({
+      destination: f.destination,
+      destinationCode: f.destinationCode,
+      destinationLabel: f.destinationLabel,
+      fileName: f.fileName,
+      receiptCount: f.receiptCount,
+      totalPoints: f.totalPoints,
+      validation: f.validation,
+    }));
+
+    // strict=trueでエラーがある場合はファイルの代わりにレポートを返す
+    if (format === "validate" || (strict && validationErrors > 0)) {
+      return NextResponse.json(
+        {
+          success: validationErrors === 0,
+          error: validationErrors === 0 ? undefined : `UKE検証エラー ${validationErrors}件`,
+          yearMonth,
+          files: summary,
+        },
+        { status: validationErrors === 0 ? 200 : 422 }
+      );
+    }
+
+    // ============================================================
+    // 月次締め: 提出するUKEのバイト列とレセプト単位の内容をハッシュ付きで保存し、
+    // 対象の会計をロックする。検証エラーがある月・締め済みの月は締められない
+    // ============================================================
+    if (format === "close") {
+      if (validationErrors > 0) {
+        return NextResponse.json(
+          { error: `UKE検証エラー ${validationErrors}件があるため締められません`, yearMonth, files: summary },
+          { status: 422 }
+        );
+      }
+      const closed = await findClosedSnapshots(supabase, yearMonth);
+      if (closed.length > 0) {
+        return NextResponse.json(
+          { error: `${yearMonth}はすでに締め済みです（${closed[0].closed_at.substring(0, 10)}）。提出済みのファイルは再ダウンロードしてください` },
+          { status: 409 }
+        );
+      }
+      const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+      // 送付先ごとのファイルをまとめて締める（途中で失敗したら全体を取り消す）
+      const saved = await saveMonthlyClose(
+        supabase,
+        files.map(f => ({
+          snapshot: {
+            year_month: yearMonth,
+            destination: f.destination,
+            file_name: f.fileName,
+            uke_base64: f.sjisBuffer.toString("base64"),
+            content_hash: sha256(f.sjisBuffer),
+            receipt_count: f.receiptCount,
+            total_points: f.totalPoints,
+            validation_errors: f.validation.error_count,
+            validation_warnings: f.validation.warning_count,
+            closed_by: user.id,
+          },
+          receipts: f.receipts.map(r => ({
+            year_month: yearMonth,
+            shinryo_ym: r.shinryoYm,
+            patient_id: r.patientId,
+            billing_ids: r.billingIds,
+            receipt_no: r.receiptNo,
+            content: r.content,
+            content_hash: sha256(r.content),
+          })),
+        }))
+      );
+      const snapshots = saved.map(({ uke_base64, ...meta }) => meta);
+      return NextResponse.json({
+        success: true,
+        yearMonth,
+        snapshots,
+        receiptCount: receiptCountAll,
+        totalPoints: totalPointsAll,
+        lockedBillingCount: new Set(files.flatMap(f => f.receipts.flatMap(r => r.billingIds))).size,
+      });
+    }
 
-    // UKEファイルの内容を結合（CR+LF改行）
-    const ukeContent = lines.join("\r\n");
+    const validationHeaders = {
+      "X-UKE-Validation-Errors": String(validationErrors),
+      "X-UKE-Validation-Warnings": String(validationWarnings),
+    };
+
+    // 請求先が複数 or format=zip → 請求先別UKE + 集計表をzipで返す
+    if (format === "zip" || ((format === "uke" || format === "download") && files.length > 1)) {
+      const zip = new JSZip();
+      for (const f of files) {
+        zip.file(f.fileName, f.sjisBuffer);
+      }
+      const summaryText = [
+        "審査支払機関,ファイル名,件数,合計点数,検証エラー,検証警告",
+        ...files.map(f =>
+          `${f.destinationLabel},${f.fileName},${f.receiptCount},${f.totalPoints},${f.validation.error_count},${f.validation.warning_count}`
+        ),
+        `合計,,${receiptCountAll},${totalPointsAll},${validationErrors},${validationWarnings}`,
+      ].join("\r\n");
+      zip.file(`summary_${yearMonth}.csv`, iconv.encode(summaryText, "Shift_JIS"));
+      const zipBytes = await zip.generateAsync({ type: "arraybuffer" });
+      const blob = new Blob([zipBytes], { type: "application/zip" });
+      return new Response(blob, {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="receipt_${yearMonth}.zip"`,
+          ...validationHeaders,
+        },
+      });
+    }
 
     if (format === "uke" || format === "download") {
       // Shift_JISに変換して.UKEファイルとしてダウンロード
-      const fileName = `receipt_${yearMonth}.UKE`;
-      const sjisBuffer = iconv.encode(ukeContent, "Shift_JIS");
+      const { fileName, sjisBuffer } = files[0];
       // Node.js BufferをWeb標準のUint8Arrayにコピー
       const bytes = new Uint8Array(sjisBuffer.length);
       for (let i = 0; i < sjisBuffer.length; i++) {
@@ -673,6 +1004,7 @@ export async function POST(request: NextRequest) {
         headers: {
           "Content-Type": "application/octet-stream",
           "Content-Disposition": `attachment; filename="${fileName}"`,
+          ...validationHeaders,
         },
       });
     }
@@ -680,10 +1012,11 @@ export async function POST(request: NextRequest) {
     // JSON形式（デフォルト: プレビュー用）
     return NextResponse.json({
       success: true,
-      csv: ukeContent,
-      receiptCount: receiptNo,
+      files: files.map(({ sjisBuffer, receipts, ...f }) => f),
+      receiptCount: receiptCountAll,
       totalPoints: totalPointsAll,
       yearMonth,
+      resubmissionCount: claimUnits.filter(u => u.resubmission).length,
       warnings: warnings.length > 0 ? warnings : undefined,
     });
   } catch (error: unknown) {
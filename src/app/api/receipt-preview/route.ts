@@ -0,0 +1,71 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { parseUKEBuffer } from "@/lib/uke-parser";
+import { matchUKE } from "@/lib/uke-matcher";
+import { renderReceiptPreviewHtml } from "@/lib/receipt-preview";
+import { CLAIM_DESTINATIONS, type ClaimDestination } from "@/lib/claim-destination";
+import { loadGeneratedUKE, loadSnapshotUKE, type UKESource } from "@/lib/uke-source";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/receipt-preview（様式第三の印刷用プレビュー）
+// INPUT : multipart/form-data（いずれか1つ）
+//   file        : UKEファイル（設定 → UKE取込でアップロードしたもの等）
+//   year_month  : YYYYMM → receipt-generate の出力（destination=shaho|kokuho、省略時は最初のファイル）
+//   snapshot_id : 月次締めで保存したUKE
+// OUTPUT: text/html（1患者1ページ・ブラウザの印刷からPDF保存）
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const form = await request.formData();
+    const file = form.get("file");
+    const yearMonth = String(form.get("year_month") || "");
+    const snapshotId = String(form.get("snapshot_id") || "");
+    const destination = String(form.get("destination") || "");
+
+    let source: UKESource | null;
+    if (file instanceof Blob) {
+      source = { buffer: Buffer.from(await file.arrayBuffer()), label: file instanceof File ? file.name : "UKE" };
+    } else if (snapshotId) {
+      source = await loadSnapshotUKE(supabase, snapshotId);
+      if (!source) return NextResponse.json({ error: "締めデータが見つかりません" }, { status: 404 });
+    } else if (/^\d{6}$/.test(yearMonth)) {
+      const orgCode = destination in CLAIM_DESTINATIONS ? CLAIM_DESTINATIONS[destination as ClaimDestination].code : undefined;
+      try {
+        source = await loadGeneratedUKE(request.url, request.headers.get("authorization") || "", yearMonth, orgCode);
+      } catch (e) {
+        return NextResponse.json({ error: e instanceof Error ? e.message : "UKE生成に失敗しました" }, { status: 422 });
+      }
+    } else {
+      return NextResponse.json({ error: "file / year_month / snapshot_id のいずれかを指定してください" }, { status: 400 });
+    }
+
+    const parsed = parseUKEBuffer(source.buffer);
+    if (parsed.patients.length === 0) {
+      return NextResponse.json({ error: "レセプトがありません", parse_errors: parsed.parse_errors }, { status: 422 });
+    }
+    const matched = await matchUKE(parsed);
+
+    // 傷病名の部位は6桁歯式コードで入っているので歯番号に戻して表示する
+    const { data: toothChart } = await supabase.from("m_tooth_chart").select("tooth_code, fdi_number").not("fdi_number", "is", null);
+    const toothLabels = new Map<string, string>(
+      ((toothChart || []) as { tooth_code: string; fdi_number: string | number }[]).map(t => [String(t.tooth_code), String(t.fdi_number)])
+    );
+
+    const html = renderReceiptPreviewHtml(matched, { uk: parsed.uk, ir: parsed.ir, toothLabels, title: `レセプト（様式第三）${source.label}` });
+    return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
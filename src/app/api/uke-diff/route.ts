@@ -0,0 +1,75 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { parseUKEBuffer } from "@/lib/uke-parser";
+import { matchUKE } from "@/lib/uke-matcher";
+import { diffUKE } from "@/lib/uke-diff";
+import { CLAIM_DESTINATIONS } from "@/lib/claim-destination";
+import { loadGeneratedUKE, loadSnapshotUKE, type UKESource } from "@/lib/uke-source";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// POST /api/uke-diff（UKE差分）
+// INPUT : multipart/form-data
+//   left        : 比較元UKE（旧レセコン等・Shift_JIS）
+//   right       : 比較先UKE（省略時は year_month / snapshot_id から取得）
+//   year_month  : YYYYMM → receipt-generate の出力と比較
+//                 （請求先は比較元のUKレコードの審査支払機関に合わせる）
+//   snapshot_id : 月次締めで保存したUKEと比較
+// OUTPUT: { success, left_label, right_label, diff: UKEDiff, parse_errors }
+// ============================================================
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const form = await request.formData();
+    const leftFile = form.get("left");
+    const rightFile = form.get("right");
+    const yearMonth = String(form.get("year_month") || "");
+    const snapshotId = String(form.get("snapshot_id") || "");
+    if (!leftFile || !(leftFile instanceof Blob)) {
+      return NextResponse.json({ error: "比較元のUKEファイル（left）がありません" }, { status: 400 });
+    }
+    const left = parseUKEBuffer(Buffer.from(await leftFile.arrayBuffer()));
+    if (left.patients.length === 0) {
+      return NextResponse.json({ error: "比較元のUKEにレセプトがありません", parse_errors: left.parse_errors }, { status: 422 });
+    }
+
+    let rightSource: UKESource | null;
+    if (rightFile instanceof Blob) {
+      rightSource = { buffer: Buffer.from(await rightFile.arrayBuffer()), label: rightFile instanceof File ? rightFile.name : "比較先UKE" };
+    } else if (snapshotId) {
+      rightSource = await loadSnapshotUKE(supabase, snapshotId);
+      if (!rightSource) return NextResponse.json({ error: "締めデータが見つかりません" }, { status: 404 });
+    } else if (/^\d{6}$/.test(yearMonth)) {
+      try {
+        rightSource = await loadGeneratedUKE(request.url, request.headers.get("authorization") || "", yearMonth, left.uk?.receipt_no || CLAIM_DESTINATIONS.shaho.code);
+      } catch (e) {
+        return NextResponse.json({ error: e instanceof Error ? e.message : "UKE生成に失敗しました" }, { status: 422 });
+      }
+    } else {
+      return NextResponse.json({ error: "比較先（right / year_month / snapshot_id）を指定してください" }, { status: 400 });
+    }
+    const right = parseUKEBuffer(rightSource.buffer);
+
+    const [leftMatched, rightMatched] = await Promise.all([matchUKE(left), matchUKE(right)]);
+
+    return NextResponse.json({
+      success: true,
+      left_label: leftFile instanceof File ? leftFile.name : "比較元UKE",
+      right_label: rightSource.label,
+      diff: diffUKE(leftMatched, rightMatched),
+      parse_errors: { left: left.parse_errors, right: right.parse_errors },
+    });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { parseUKEBuffer } from "@/lib/uke-parser";
+import { migrateUKE, rollbackUKEMigration, type UKEMigrationFile } from "@/lib/uke-migration";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// /api/uke-migration（過去UKEの移行取込）
+// GET : → { batches }（取込バッチの一覧・新しい順）
+// POST: multipart/form-data { files: UKEファイル（複数可・Shift_JIS）, dry_run?: "true" }
+//       → { success, batch_id, summary, issues, issues_total }
+// POST: application/json { batch_id, action: "rollback" }
+//       → { success, deleted: { テーブル名: 件数 } }
+// ============================================================
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const { data, error } = await supabase.from("uke_import_batches").select("*").order("created_at", { ascending: false }).limit(50);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json({ success: true, batches: data || [] });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    if (!(request.headers.get("content-type") || "").includes("multipart/form-data")) {
+      const { batch_id, action } = await request.json();
+      if (action !== "rollback" || !batch_id) {
+        return NextResponse.json({ error: "batch_id と action: \"rollback\" を指定してください" }, { status: 400 });
+      }
+      const deleted = await rollbackUKEMigration(supabase, String(batch_id));
+      return NextResponse.json({ success: true, deleted });
+    }
+
+    const formData = await request.formData();
+    const dryRun = formData.get("dry_run") === "true";
+    const files: UKEMigrationFile[] = [];
+    for (const f of formData.getAll("files")) {
+      if (!(f instanceof Blob)) continue;
+      files.push({
+        name: f instanceof File ? f.name : `file${files.length + 1}.UKE`,
+        parsed: parseUKEBuffer(Buffer.from(await f.arrayBuffer())),
+      });
+    }
+    if (files.length === 0) {
+      return NextResponse.json({ error: "UKEファイルが見つかりません。multipart/form-dataの'files'フィールドで送信してください。" }, { status: 400 });
+    }
+    if (files.every(f => f.parsed.patients.length === 0)) {
+      return NextResponse.json({ error: "取り込めるレセプトがありません", parse_errors: files.flatMap(f => f.parsed.parse_errors).slice(0, 50) }, { status: 422 });
+    }
+
+    const { batch_id, summary, issues } = await migrateUKE(supabase, files, { dryRun, userId: user.id });
+    return NextResponse.json({ success: true, batch_id, summary, issues: issues.slice(0, 200), issues_total: issues.length });
+  } catch (error: unknown) {
+    console.error("[uke-migration] エラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { verifyAuth } from "@/lib/api-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { determineVisitFee } from "@/lib/visit-fee";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// ============================================================
+// GET /api/visit-fee（初診料/再診料・歯科疾患管理料の判定）
+// INPUT : ?patient_id=...&service_date=YYYY-MM-DD&medical_record_id=...（service_date 省略時は当日）
+// OUTPUT: { success: true, kind, fee_code, fee_name, reasons, additions, management, last_visit_date }
+// ============================================================
+
+export async function GET(request: NextRequest) {
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  try {
+    const { user, error: authError } = await verifyAuth(request);
+    if (authError) return authError;
+
+    const params = request.nextUrl.searchParams;
+    const patientId = params.get("patient_id");
+    if (!patientId) {
+      return NextResponse.json({ error: "patient_id is required" }, { status: 400 });
+    }
+    const serviceDate = params.get("service_date") || new Date(Date.now() + 9 * 3600 * 1000).toISOString().substring(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(serviceDate)) {
+      return NextResponse.json({ error: "service_date（YYYY-MM-DD）が不正です" }, { status: 400 });
+    }
+    const result = await determineVisitFee(supabase, {
+      patient_id: patientId,
+      service_date: serviceDate,
+      medical_record_id: params.get("medical_record_id"),
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
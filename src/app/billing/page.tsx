@@ -3,6 +3,10 @@
 import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import { CLAIM_STATUS_LABELS, type ClaimReconciliation, type ClaimStatus } from "@/lib/insurer-payments";
+import type { ClaimDestination } from "@/lib/claim-destination";
+import { promptCorrectionReason, type ClaimSnapshot } from "@/lib/claim-snapshots";
+import type { OutcomeSuggestion } from "@/lib/diagnosis-outcomes";
 
 type BillingRow = {
   id: string; record_id: string; patient_id: string;
@@ -10,10 +14,16 @@ type BillingRow = {
   procedures_detail: { code: string; name: string; points: number; category: string; count: number; note: string; tooth_numbers?: string[] }[];
   ai_check_warnings: string[];
   document_provided: boolean;
-  claim_status: string; payment_status: string; created_at: string; notes?: string;
+  claim_status: ClaimStatus | null; claim_ym?: string | null; payment_status: string; created_at: string; notes?: string;
   patients: { name_kanji: string; name_kana: string; patient_insurances?: { insurance_type: string | null; burden_ratio: number | null; is_current: boolean }[] } | null;
 };
 
+type RatioFlag = {
+  patient_id: string; patient_name: string; insurance_id: string | null; insurance_type: string | null;
+  stored_ratio: number | null; start_ratio: number; end_ratio: number; changed_on: string | null;
+  reason: string; insurance_type_mismatch: boolean;
+};
+
 type MainTab = "billing" | "unpaid_all" | "receipt" | "estimate";
 
 function getTodayJST(): string {
@@ -35,6 +45,20 @@ export default function BillingPage() {
   const [receiptMonth, setReceiptMonth] = useState(() => { const d = new Date(); return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`; });
   const [receiptStatus, setReceiptStatus] = useState<string>("");
   const [generating, setGenerating] = useState(false);
+  const [ratioFlags, setRatioFlags] = useState<RatioFlag[] | null>(null);
+  const [ratioChecking, setRatioChecking] = useState(false);
+  const [claimMarking, setClaimMarking] = useState(false);
+  const [reconciliation, setReconciliation] = useState<ClaimReconciliation[] | null>(null);
+  const [paymentDestination, setPaymentDestination] = useState<ClaimDestination>("shaho");
+  const [paymentImporting, setPaymentImporting] = useState(false);
+  const [paymentStatus, setPaymentStatus] = useState("");
+  const [snapshots, setSnapshots] = useState<Omit<ClaimSnapshot, "uke_base64">[] | null>(null);
+  const [snapshotCorrections, setSnapshotCorrections] = useState<Record<string, number>>({});
+  const [closing, setClosing] = useState(false);
+  const [outcomeSuggestions, setOutcomeSuggestions] = useState<OutcomeSuggestion[] | null>(null);
+  const [outcomeChecked, setOutcomeChecked] = useState<Set<string>>(new Set());
+  const [outcomeIdleMonths, setOutcomeIdleMonths] = useState(3);
+  const [outcomeLoading, setOutcomeLoading] = useState(false);
 
   const loadBillings = useCallback(async () => {
     const { data } = await supabase.from("billing")
@@ -62,17 +86,64 @@ export default function BillingPage() {
     return () => { supabase.removeChannel(ch); };
   }, [loadBillings]);
 
-  async function markPaid(billing: BillingRow) {
-    const name = billing.patients?.name_kanji || "不明";
-    if (!confirm(`${name} 様の会計を精算済みにしますか？\n患者負担額: ¥${billing.patient_burden.toLocaleString()}`)) return;
+  // 窓口負担をサーバーの負担計算エンジンで算出（公費・月額上限を反映）。apply=true のときだけ billing を更新する
+  // 締め済みの会計を更新するときは訂正理由を入力して再送する（キャンセルは null）
+  async function requestBurden(billing: BillingRow, apply: boolean, correctionReason?: string): Promise<{ patient_amount: number; insurer_amount: number; publicNote: string; correctionReason?: string } | null> {
+    const { data: { session: _sbc } } = await supabase.auth.getSession();
+    const res = await fetch("/api/burden-calculate", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sbc?.access_token}` }, body: JSON.stringify({ billing_id: billing.id, apply, correction_reason: correctionReason }) });
+    const data = await res.json();
+    if (res.status === 409 && data.lock && !correctionReason) {
+      const reason = promptCorrectionReason(data.lock);
+      return reason ? requestBurden(billing, apply, reason) : null;
+    }
+    if (!res.ok) throw new Error(data.error || "窓口負担の計算に失敗しました");
+    const { result, public_expenses } = data as { result: { patient_amount: number; insurer_amount: number }; public_expenses: { label: string; amount: number }[] };
+    const publicNote = public_expenses.filter(pe => pe.amount > 0).map(pe => `${pe.label}: ¥${pe.amount.toLocaleString()}`).join("\n");
+    return { patient_amount: result.patient_amount, insurer_amount: result.insurer_amount, publicNote, correctionReason };
+  }
+
+  // 精算済みにする。締め済みの会計は負担額の反映で入力した訂正理由をそのまま使う（未入力なら入力させる）
+  async function requestPayment(billing: BillingRow, correctionReason?: string): Promise<boolean> {
+    const { data: { session: _sbp } } = await supabase.auth.getSession();
+    const res = await fetch("/api/billing-payment", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sbp?.access_token}` }, body: JSON.stringify({ billing_id: billing.id, correction_reason: correctionReason }) });
+    const data = await res.json();
+    if (res.status === 409 && data.lock && !correctionReason) {
+      const reason = promptCorrectionReason(data.lock);
+      return reason ? requestPayment(billing, reason) : false;
+    }
+    if (!res.ok) throw new Error(data.error || "精算に失敗しました");
+    return true;
+  }
+
+  // 負担額は試算して確認を取り、OKのときだけ会計に反映してから精算済みにする
+  async function markPaid(target: BillingRow) {
+    const name = target.patients?.name_kanji || "不明";
+    let preview: Awaited<ReturnType<typeof requestBurden>>;
+    try {
+      preview = await requestBurden(target, false);
+    } catch (e) {
+      alert(`❌ 窓口負担を計算できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    if (!preview) return;
+    if (!confirm(`${name} 様の会計を精算済みにしますか？\n患者負担額: ¥${preview.patient_amount.toLocaleString()}${preview.publicNote ? `\n${preview.publicNote}` : ""}`)) return;
     setProcessing(true);
-    await supabase.from("billing").update({ payment_status: "paid" }).eq("id", billing.id);
-    const { data: rec } = await supabase.from("medical_records").select("appointment_id").eq("id", billing.record_id).single();
-    if (rec?.appointment_id) await supabase.from("appointments").update({ status: "billing_done" }).eq("id", rec.appointment_id);
-    setPaidPatientInfo({ patientId: billing.patient_id, name });
-    await loadBillings(); await loadAllUnpaid(); setSelected(null); setProcessing(false);
-    // 精算完了後に自動で領収書印刷
-    printReceipt(billing);
+    try {
+      const applied = await requestBurden(target, true);
+      if (!applied) return;
+      const billing = { ...target, patient_burden: applied.patient_amount, insurance_claim: applied.insurer_amount };
+      if (!(await requestPayment(billing, applied.correctionReason))) return;
+      const { data: rec } = await supabase.from("medical_records").select("appointment_id").eq("id", billing.record_id).single();
+      if (rec?.appointment_id) await supabase.from("appointments").update({ status: "billing_done" }).eq("id", rec.appointment_id);
+      setPaidPatientInfo({ patientId: billing.patient_id, name });
+      await loadBillings(); await loadAllUnpaid(); setSelected(null);
+      // 精算完了後に自動で領収書印刷
+      printReceipt(billing);
+    } catch (e) {
+      alert(`❌ 精算できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setProcessing(false);
+    }
   }
 
   async function toggleDocumentProvided(billing: BillingRow) {
@@ -248,13 +319,159 @@ table{border-collapse:collapse;width:100%;}
       if (!res.ok) { const data = await res.json(); setReceiptStatus(`❌ ${data.error}`); setGenerating(false); return; }
       const blob = await res.blob();
       const url = URL.createObjectURL(blob);
-      const a = document.createElement("a"); a.href = url; a.download = `receipt_${ym}.UKE`; a.click();
+      const fileName = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || `receipt_${ym}.UKE`;
+      const a = document.createElement("a"); a.href = url; a.download = fileName; a.click();
       URL.revokeObjectURL(url);
-      setReceiptStatus(`✅ ダウンロード完了（Shift_JIS / .UKE形式）`);
+      const vErr = Number(res.headers.get("X-UKE-Validation-Errors") || 0);
+      const vWarn = Number(res.headers.get("X-UKE-Validation-Warnings") || 0);
+      setReceiptStatus(vErr > 0 || vWarn > 0
+        ? `⚠️ ダウンロード完了（${fileName} / 仕様チェック: エラー${vErr}件 / 警告${vWarn}件）`
+        : `✅ ダウンロード完了（${fileName} / Shift_JIS）`);
     } catch (e) { setReceiptStatus(`❌ ${e instanceof Error ? e.message : "エラー"}`); }
     setGenerating(false);
   }
 
+  // UKE提出後、当月の会計を請求済にする
+  async function markClaimed() {
+    const ym = receiptMonth.replace("-", "");
+    if (!confirm(`${receiptMonth}分の精算済み会計を「請求済」にしますか？（UKEを提出した後に実行してください）`)) return;
+    setClaimMarking(true);
+    const { data: { session: _scm } } = await supabase.auth.getSession();
+    const res = await fetch("/api/claim-status", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_scm?.access_token}` }, body: JSON.stringify({ yearMonth: ym }) });
+    const data = await res.json();
+    setReceiptStatus(res.ok ? `✅ ${data.claimed}件を請求済にしました${data.already > 0 ? `（請求済・返戻等 ${data.already}件は変更なし）` : ""}` : `❌ ${data.error}`);
+    setClaimMarking(false);
+    if (res.ok) loadReconciliation();
+  }
+
+  // 月次締め: 提出するUKEをハッシュ付きで保存し、対象の会計をロックする
+  async function closeMonth() {
+    const ym = receiptMonth.replace("-", "");
+    if (!confirm(`${receiptMonth}分を締めますか？\n締めた後は会計・処置・傷病名の変更に訂正理由の入力が必要になります。`)) return;
+    setClosing(true); setReceiptStatus("");
+    try {
+      const { data: { session: _scl } } = await supabase.auth.getSession();
+      const res = await fetch("/api/receipt-generate", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_scl?.access_token}` }, body: JSON.stringify({ yearMonth: ym, format: "close" }) });
+      const data = await res.json();
+      setReceiptStatus(res.ok ? `✅ ${receiptMonth}を締めました（${data.receiptCount}件 / ${data.totalPoints.toLocaleString()}点 / 会計${data.lockedBillingCount}件をロック）` : `❌ ${data.error}`);
+      await loadSnapshots();
+    } catch (e) { setReceiptStatus(`❌ ${e instanceof Error ? e.message : "エラー"}`); }
+    setClosing(false);
+  }
+
+  async function loadSnapshots() {
+    const { data: { session: _sls } } = await supabase.auth.getSession();
+    const res = await fetch("/api/claim-snapshots", { headers: { Authorization: `Bearer ${_sls?.access_token}` } });
+    const data = await res.json();
+    setSnapshots(res.ok ? data.snapshots : []);
+    setSnapshotCorrections(res.ok ? data.corrections_by_snapshot : {});
+  }
+
+  // 締めた時点のUKEをそのまま再ダウンロード
+  async function downloadSnapshot(snapshot: Omit<ClaimSnapshot, "uke_base64">) {
+    const { data: { session: _sds } } = await supabase.auth.getSession();
+    const res = await fetch(`/api/claim-snapshots?id=${snapshot.id}&download=1`, { headers: { Authorization: `Bearer ${_sds?.access_token}` } });
+    if (!res.ok) { const data = await res.json(); alert(`❌ ${data.error}`); return; }
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a"); a.href = url; a.download = snapshot.file_name; a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // 様式第三の印刷用プレビュー（締め済みならそのスナップショット、未締めなら生成結果）
+  async function openReceiptPreview(source: { snapshotId: string } | { yearMonth: string }) {
+    const { data: { session: _spv } } = await supabase.auth.getSession();
+    const form = new FormData();
+    if ("snapshotId" in source) form.append("snapshot_id", source.snapshotId);
+    else form.append("year_month", source.yearMonth);
+    const res = await fetch("/api/receipt-preview", { method: "POST", headers: { Authorization: `Bearer ${_spv?.access_token}` }, body: form });
+    if (!res.ok) { const data = await res.json(); alert(`❌ ${data.error}`); return; }
+    window.open(URL.createObjectURL(await res.blob()), "_blank");
+  }
+
+  // 直近6か月の請求額と振込通知の照合
+  async function loadReconciliation() {
+    const [y, m] = receiptMonth.split("-").map(Number);
+    const from = new Date(y, m - 6, 1);
+    const fromYm = `${from.getFullYear()}${String(from.getMonth() + 1).padStart(2, "0")}`;
+    const { data: { session: _src } } = await supabase.auth.getSession();
+    const res = await fetch(`/api/insurer-payments?from=${fromYm}&to=${receiptMonth.replace("-", "")}`, { headers: { Authorization: `Bearer ${_src?.access_token}` } });
+    const data = await res.json();
+    setReconciliation(res.ok ? data.reconciliation : []);
+  }
+
+  async function importPaymentNotice(file: File) {
+    setPaymentImporting(true); setPaymentStatus("");
+    try {
+      const { data: { session: _spi } } = await supabase.auth.getSession();
+      const form = new FormData();
+      form.append("file", file);
+      form.append("destination", paymentDestination);
+      const res = await fetch("/api/insurer-payments", { method: "POST", headers: { Authorization: `Bearer ${_spi?.access_token}` }, body: form });
+      const data = await res.json();
+      if (!res.ok) { setPaymentStatus(`❌ ${data.error}`); return; }
+      setPaymentStatus(`✅ ${data.summary.total}か月分を取込（新規${data.summary.inserted} / 上書き${data.summary.overwritten}）・${data.summary.billings_paid}件を入金済にしました`);
+      await loadReconciliation();
+    } catch (e) { setPaymentStatus(`❌ ${e instanceof Error ? e.message : "エラー"}`); }
+    finally { setPaymentImporting(false); }
+  }
+
+  // 負担割合チェック（年齢到達・所得区分と登録値の突合）
+  async function checkBurdenRatios() {
+    setRatioChecking(true);
+    const { data: { session: _sbr } } = await supabase.auth.getSession();
+    const res = await fetch("/api/burden-ratio-check", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sbr?.access_token}` }, body: JSON.stringify({ yearMonth: receiptMonth }) });
+    const data = await res.json();
+    setRatioFlags(res.ok ? data.flags : []);
+    if (!res.ok) alert(`❌ ${data.error}`);
+    setRatioChecking(false);
+  }
+
+  async function applyBurdenRatio(flag: RatioFlag) {
+    if (!flag.insurance_id) return;
+    if (!confirm(`${flag.patient_name} 様の負担割合を${Math.round(flag.end_ratio * 10)}割に更新しますか？`)) return;
+    const { data: { session: _sba } } = await supabase.auth.getSession();
+    const send = (correction_reason?: string) => fetch("/api/burden-ratio-check", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sba?.access_token}` }, body: JSON.stringify({ updates: [{ insurance_id: flag.insurance_id, burden_ratio: flag.end_ratio }], yearMonth: receiptMonth, correction_reason }) });
+    let res = await send();
+    let data = await res.json();
+    if (res.status === 409 && data.lock) {
+      const reason = promptCorrectionReason(data.lock);
+      if (!reason) return;
+      res = await send(reason);
+      data = await res.json();
+    }
+    if (res.ok) setRatioFlags(prev => (prev || []).map(f => f.insurance_id === flag.insurance_id ? { ...f, stored_ratio: flag.end_ratio } : f));
+    else alert(`❌ ${data.error}`);
+  }
+
+  // 転帰アシスタント: 当月レセプトの継続中の傷病名に治癒・中止を提案
+  async function loadOutcomeSuggestions() {
+    setOutcomeLoading(true);
+    const { data: { session: _sos } } = await supabase.auth.getSession();
+    const res = await fetch(`/api/diagnosis-outcomes?ym=${receiptMonth.replace("-", "")}&idle_months=${outcomeIdleMonths}`, { headers: { Authorization: `Bearer ${_sos?.access_token}` } });
+    const data = await res.json();
+    setOutcomeSuggestions(res.ok ? data.suggestions : []);
+    setOutcomeChecked(new Set(res.ok ? (data.suggestions as OutcomeSuggestion[]).map(s => s.id) : []));
+    if (!res.ok) alert(`❌ ${data.error}`);
+    setOutcomeLoading(false);
+  }
+
+  async function applyOutcomeSuggestions() {
+    const items = (outcomeSuggestions || []).filter(s => outcomeChecked.has(s.id)).map(s => ({ id: s.id, outcome: s.outcome, ended_at: s.ended_at }));
+    if (items.length === 0) return;
+    if (!confirm(`選択した${items.length}件の傷病名に転帰を入力しますか？`)) return;
+    setOutcomeLoading(true);
+    const { data: { session: _soa } } = await supabase.auth.getSession();
+    const res = await fetch("/api/diagnosis-outcomes", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_soa?.access_token}` }, body: JSON.stringify({ items }) });
+    const data = await res.json();
+    setOutcomeLoading(false);
+    if (!res.ok) { alert(`❌ ${data.error}`); return; }
+    const skipped = data.skipped as { id: string; reason: string }[];
+    const skippedIds = new Set(skipped.map(s => s.id));
+    setOutcomeSuggestions(prev => (prev || []).filter(s => !outcomeChecked.has(s.id) || skippedIds.has(s.id)));
+    setOutcomeChecked(new Set());
+    alert(`✅ ${data.applied}件に転帰を入力しました${skipped.length > 0 ? `\n反映しなかったもの ${skipped.length}件:\n${skipped.slice(0, 10).map(s => `・${(outcomeSuggestions || []).find(o => o.id === s.id)?.patient_name || ""} ${s.reason}`).join("\n")}` : ""}`);
+  }
+
   const unpaid = billings.filter(b => b.payment_status === "unpaid");
   const paid = billings.filter(b => b.payment_status === "paid");
   const isToday = selectedDate === getTodayJST();
@@ -343,7 +560,10 @@ table{border-collapse:collapse;width:100%;}
               </div>
             ) : (
               <>
-                <div className="text-center py-3 bg-green-100 rounded-xl"><p className="text-green-700 font-bold">✅ 精算済み</p></div>
+                <div className="text-center py-3 bg-green-100 rounded-xl">
+                  <p className="text-green-700 font-bold">✅ 精算済み</p>
+                  <p className="text-[10px] text-green-600 mt-0.5">保険請求: {CLAIM_STATUS_LABELS[bill.claim_status || "draft"]}{bill.claim_ym ? `（${bill.claim_ym.substring(0, 4)}/${bill.claim_ym.substring(4, 6)}請求）` : ""}</p>
+                </div>
                 <div className="flex gap-2 mt-2">
                   <button onClick={() => printReceipt(bill)} className="flex-1 bg-gray-800 text-white py-3 rounded-xl font-bold text-sm hover:bg-gray-700">🖨️ 領収書・明細書</button>
                   <Link href={`/reservation?action=new&patient_id=${bill.patient_id}&patient_name=${encodeURIComponent(getName(bill))}`} className="flex-1 bg-sky-600 text-white py-3 rounded-xl font-bold text-sm hover:bg-sky-700 text-center shadow-md shadow-sky-200">📅 次回予約</Link>
@@ -513,6 +733,14 @@ table{border-collapse:collapse;width:100%;}
               {receiptStatus && (
                 <div className={`text-center p-4 rounded-xl text-sm font-bold ${receiptStatus.startsWith("✅") ? "bg-green-50 text-green-700" : "bg-red-50 text-red-700"}`}>{receiptStatus}</div>
               )}
+              <div className="text-center mt-3">
+                <button onClick={() => openReceiptPreview({ yearMonth: receiptMonth.replace("-", "") })} className="text-xs font-bold text-gray-500 border border-gray-200 px-4 py-2 rounded-lg hover:bg-gray-50 mr-2">
+                  🖨 レセプトプレビュー（院長確認用）
+                </button>
+                <button onClick={markClaimed} disabled={claimMarking} className="text-xs font-bold text-gray-500 border border-gray-200 px-4 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50">
+                  {claimMarking ? "⏳ 更新中..." : `📮 提出済み: ${receiptMonth}分を「${CLAIM_STATUS_LABELS.claimed}」にする`}
+                </button>
+              </div>
               <div className="mt-6 bg-gray-50 rounded-xl p-4">
                 <h3 className="text-xs font-bold text-gray-500 mb-2">📋 生成されるファイルについて</h3>
                 <div className="space-y-1 text-xs text-gray-400">
@@ -523,6 +751,193 @@ table{border-collapse:collapse;width:100%;}
                 </div>
               </div>
             </div>
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 mt-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900">🩺 転帰アシスタント</h3>
+                  <p className="text-xs text-gray-400">{receiptMonth}のレセプトに載る継続中の傷病名のうち、その歯の治療が完了したものに治癒、関連する処置が続いていないものに中止を提案します</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <select value={outcomeIdleMonths} onChange={e => setOutcomeIdleMonths(Number(e.target.value))} className="border border-gray-200 rounded-lg px-2 py-2 text-xs">
+                    {[2, 3, 6, 12].map(n => <option key={n} value={n}>{n}か月処置なしで中止</option>)}
+                  </select>
+                  <button onClick={loadOutcomeSuggestions} disabled={outcomeLoading} className="bg-gray-900 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50">
+                    {outcomeLoading ? "⏳ 確認中..." : "提案を表示"}
+                  </button>
+                </div>
+              </div>
+              {outcomeSuggestions && outcomeSuggestions.length === 0 && <p className="text-xs text-green-600 font-bold">✅ 転帰の入力が必要な傷病名はありません</p>}
+              {outcomeSuggestions && outcomeSuggestions.length > 0 && (
+                <>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-100">
+                        <th className="py-2 w-6">
+                          <input type="checkbox" checked={outcomeChecked.size === outcomeSuggestions.length}
+                            onChange={e => setOutcomeChecked(new Set(e.target.checked ? outcomeSuggestions.map(s => s.id) : []))} />
+                        </th>
+                        <th className="text-left">患者</th><th className="text-left">傷病名</th><th className="text-left">開始日</th>
+                        <th className="text-left">転帰</th><th className="text-left">理由</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {outcomeSuggestions.map(s => (
+                        <tr key={s.id} className="border-b border-gray-50">
+                          <td className="py-2 text-center">
+                            <input type="checkbox" checked={outcomeChecked.has(s.id)} onChange={e => setOutcomeChecked(prev => {
+                              const next = new Set(prev);
+                              if (e.target.checked) next.add(s.id); else next.delete(s.id);
+                              return next;
+                            })} />
+                          </td>
+                          <td className="font-bold text-gray-700">{s.patient_name}</td>
+                          <td className="text-gray-700">{s.diagnosis_name}{s.tooth_number_display && <span className="text-gray-400 ml-1">{s.tooth_number_display}</span>}</td>
+                          <td className="text-gray-500">{s.started_at ? formatDateShort(s.started_at) : "—"}</td>
+                          <td className={`font-bold whitespace-nowrap ${s.outcome === "cured" ? "text-green-600" : "text-amber-600"}`}>{s.outcome === "cured" ? "治癒" : "中止"} {formatDateShort(s.ended_at)}</td>
+                          <td className="text-gray-500">{s.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="text-right mt-3">
+                    <button onClick={applyOutcomeSuggestions} disabled={outcomeLoading || outcomeChecked.size === 0} className="bg-sky-600 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-sky-700 disabled:opacity-50">
+                      選択した{outcomeChecked.size}件に転帰を入力
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 mt-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900">🔒 月次締め</h3>
+                  <p className="text-xs text-gray-400">提出するUKEを内容ハッシュ付きで保存し、対象の会計をロックします。提出したファイルはいつでも同じ内容で再ダウンロードできます</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button onClick={loadSnapshots} className="text-xs font-bold text-gray-500 border border-gray-200 px-4 py-2 rounded-lg hover:bg-gray-50">履歴</button>
+                  <button onClick={closeMonth} disabled={closing} className="bg-gray-900 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50">
+                    {closing ? "⏳ 締め処理中..." : `${receiptMonth}を締める`}
+                  </button>
+                </div>
+              </div>
+              {snapshots && snapshots.length === 0 && <p className="text-xs text-gray-400">締め済みの月はありません</p>}
+              {snapshots && snapshots.length > 0 && (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-400 border-b border-gray-100">
+                      <th className="text-left py-2">請求月</th><th className="text-left">請求先</th><th className="text-right">件数</th><th className="text-right">点数</th>
+                      <th className="text-left pl-3">SHA-256</th><th className="text-right">訂正</th><th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshots.map(s => (
+                      <tr key={s.id} className="border-b border-gray-50">
+                        <td className="py-2 font-bold text-gray-700">{s.year_month.substring(0, 4)}/{s.year_month.substring(4, 6)}</td>
+                        <td className="text-gray-500">{s.destination === "shaho" ? "社保" : "国保"}</td>
+                        <td className="text-right text-gray-500">{s.receipt_count}</td>
+                        <td className="text-right">{s.total_points.toLocaleString()}</td>
+                        <td className="pl-3 font-mono text-gray-400" title={s.content_hash}>{s.content_hash.substring(0, 12)}…</td>
+                        <td className={`text-right ${snapshotCorrections[s.id] ? "text-amber-600 font-bold" : "text-gray-300"}`}>{snapshotCorrections[s.id] || "—"}</td>
+                        <td className="text-right whitespace-nowrap">
+                          <button onClick={() => openReceiptPreview({ snapshotId: s.id })} className="text-gray-500 font-bold hover:underline mr-2">表示</button>
+                          <button onClick={() => downloadSnapshot(s)} className="text-sky-600 font-bold hover:underline">再DL</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 mt-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900">⚖️ 負担割合チェック</h3>
+                  <p className="text-xs text-gray-400">生年月日・保険種別・所得区分から算出した割合と登録値を照合し、月途中の切替（70歳・75歳到達など）を表示します</p>
+                </div>
+                <button onClick={checkBurdenRatios} disabled={ratioChecking} className="bg-gray-900 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50 flex-shrink-0">
+                  {ratioChecking ? "⏳ 確認中..." : "チェック実行"}
+                </button>
+              </div>
+              {ratioFlags && ratioFlags.length === 0 && <p className="text-xs text-green-600 font-bold">✅ 負担割合の不一致はありません</p>}
+              {ratioFlags && ratioFlags.length > 0 && (
+                <div className="space-y-2">
+                  {ratioFlags.map(f => {
+                    const stale = f.stored_ratio === null || Math.abs(f.stored_ratio - f.end_ratio) > 0.001;
+                    return (
+                      <div key={f.patient_id} className={`flex items-center gap-3 p-3 rounded-lg border text-xs ${f.insurance_type_mismatch ? "bg-red-50 border-red-200" : f.changed_on ? "bg-amber-50 border-amber-200" : "bg-gray-50 border-gray-200"}`}>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-bold text-gray-900">{f.patient_name} 様 <span className="text-gray-400 font-normal">{f.insurance_type || "保険未登録"}</span></p>
+                          <p className="text-gray-500">{f.reason}</p>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <p className="text-gray-400">登録 {f.stored_ratio === null ? "—" : `${Math.round(f.stored_ratio * 10)}割`} → 算出 <span className="font-bold text-gray-900">{Math.round(f.end_ratio * 10)}割</span></p>
+                        </div>
+                        {stale && f.insurance_id && (
+                          <button onClick={() => applyBurdenRatio(f)} className="bg-sky-600 text-white px-3 py-1.5 rounded-md font-bold hover:bg-sky-700 flex-shrink-0">更新</button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            <div className="bg-white rounded-2xl border border-gray-200 p-6 mt-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="text-sm font-bold text-gray-900">🏦 入金照合（振込通知）</h3>
+                  <p className="text-xs text-gray-400">支払基金・国保連の振込通知CSVを取り込み、請求月ごとに請求額・返戻・査定と決定金額を照合します</p>
+                </div>
+                <button onClick={loadReconciliation} className="bg-gray-900 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-gray-700 flex-shrink-0">照合を表示</button>
+              </div>
+              <div className="flex items-center gap-2 mb-3">
+                <select value={paymentDestination} onChange={e => setPaymentDestination(e.target.value as ClaimDestination)} className="border border-gray-200 rounded-lg px-3 py-2 text-xs">
+                  <option value="shaho">支払基金（社保）</option>
+                  <option value="kokuho">国保連（国保・後期）</option>
+                </select>
+                <label className="cursor-pointer">
+                  <span className={`text-xs font-bold px-4 py-2 rounded-lg inline-block border ${paymentImporting ? "bg-gray-100 text-gray-400 border-gray-200" : "bg-gray-100 text-gray-600 hover:bg-gray-200 border-gray-200"}`}>
+                    {paymentImporting ? "⏳ 取り込み中..." : "📤 振込通知CSVを読み込む"}
+                  </span>
+                  <input type="file" accept=".csv,.CSV,.txt" className="hidden" disabled={paymentImporting} onChange={async e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) await importPaymentNotice(file);
+                  }} />
+                </label>
+              </div>
+              {paymentStatus && <p className="text-xs text-gray-600 mb-3">{paymentStatus}</p>}
+              {reconciliation && reconciliation.length === 0 && <p className="text-xs text-gray-400">請求済の会計・振込データがありません</p>}
+              {reconciliation && reconciliation.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-100">
+                        <th className="text-left py-2">請求月</th><th className="text-left">請求先</th><th className="text-right">件数</th>
+                        <th className="text-right">請求額</th><th className="text-right">返戻</th><th className="text-right">査定</th>
+                        <th className="text-right">入金見込</th><th className="text-right">決定金額</th><th className="text-right">差額</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {reconciliation.map(r => (
+                        <tr key={r.claim_ym + r.destination} className="border-b border-gray-50">
+                          <td className="py-2 font-bold text-gray-700">{r.claim_ym.substring(0, 4)}/{r.claim_ym.substring(4, 6)}</td>
+                          <td className="text-gray-500">{r.destination === "shaho" ? "社保" : "国保"}</td>
+                          <td className="text-right text-gray-500">{r.claimed_count}</td>
+                          <td className="text-right">¥{r.claimed_amount.toLocaleString()}</td>
+                          <td className="text-right text-red-600">{r.returned_amount ? `¥${r.returned_amount.toLocaleString()}` : "—"}</td>
+                          <td className="text-right text-amber-600">{r.reduced_amount ? `¥${r.reduced_amount.toLocaleString()}` : "—"}</td>
+                          <td className="text-right font-bold">¥{r.expected_amount.toLocaleString()}</td>
+                          <td className="text-right">{r.decided_amount === null ? <span className="text-gray-300">未着</span> : `¥${r.decided_amount.toLocaleString()}`}</td>
+                          <td className={`text-right font-bold ${r.status === "matched" ? "text-green-600" : r.status === "mismatch" ? "text-red-600" : "text-gray-300"}`}>
+                            {r.difference === null ? "—" : r.status === "matched" ? "✓" : `${r.difference > 0 ? "+" : ""}¥${r.difference.toLocaleString()}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
           </div>
         )}
 
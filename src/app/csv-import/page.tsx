@@ -3,6 +3,7 @@
 import { useState, useRef } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import { resolveBurdenRatio } from "@/lib/burden-ratio";
 
 type ImportMode = "patients" | "appointments";
 type ImportStatus = "idle" | "parsing" | "preview" | "importing" | "done" | "error";
@@ -171,8 +172,9 @@ export default function CSVImportPage() {
         let parsedDob = dob.replace(/\//g, "-");
         if (/^\d{8}$/.test(parsedDob)) parsedDob = `${parsedDob.slice(0, 4)}-${parsedDob.slice(4, 6)}-${parsedDob.slice(6, 8)}`;
 
-        // 負担割合のパース
-        let burdenRatio = 0.3;
+        // 負担割合のパース（列がなければ生年月日・保険種別から算出）
+        const insuranceType = getMappedValue(row, "insurance_type") || "社保";
+        let burdenRatio = resolveBurdenRatio(parsedDob, new Date().toISOString().split("T")[0], insuranceType).ratio;
         const brStr = getMappedValue(row, "burden_ratio");
         if (brStr) {
           const br = parseFloat(brStr);
@@ -204,7 +206,7 @@ export default function CSVImportPage() {
           if (newPat?.id) {
             const insData: Record<string, unknown> = {
               patient_id: newPat.id,
-              insurance_type: getMappedValue(row, "insurance_type") || "社保",
+              insurance_type: insuranceType,
               burden_ratio: burdenRatio,
               is_current: true,
             };
@@ -3,6 +3,8 @@
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { createClient } from "@supabase/supabase-js";
+import { ALL_TEETH, LOWER_TEETH, UPPER_TEETH, toothLabelJa } from "@/lib/tooth-notation";
+import { promptCorrectionReason } from "@/lib/claim-snapshots";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -155,13 +157,16 @@ interface ProcedurePattern {
   points: number;
   fee_code: string;
   fee_items: string[];
+  fee_codes?: string[];
   applicable_diagnoses: string[];
 }
 
 interface BillingMissItem {
   procedure_name: string;
   reason: string;
+  fee_code: string;
   points: number;
+  tooth: string;
   procedure_id: string;
 }
 
@@ -170,8 +175,8 @@ type PopupType = null | "photo" | "perio" | "voice" | "diagnosis" | "treatment"
 // ==============================
 // 歯番ユーティリティ
 // ==============================
-const UPPER_TEETH = [18, 17, 16, 15, 14, 13, 12, 11, 21, 22, 23, 24, 25, 26, 27, 28];
-const LOWER_TEETH = [48, 47, 46, 45, 44, 43, 42, 41, 31, 32, 33, 34, 35, 36, 37, 38];
+const UPPER = UPPER_TEETH.map(Number);
+const LOWER = LOWER_TEETH.map(Number);
 
 function toothStatusColor(status?: string) {
   switch (status) {
@@ -477,10 +482,25 @@ export default function ConsultationPage() {
       }
 
       // 初診料・再診料の自動追加（点数はm_feesから取得・保険改定対応）
+      // 初診か再診かは傷病名の転帰と過去の処置からサーバーで判定する（判定できなければ予約の来院区分）
       if (mr && (mr.structured_procedures || []).length === 0) {
-        const feeCode = isFirst ? "301000110" : "301001610";
-        const feeName = isFirst ? "歯科初診料" : "歯科再診料";
-        const diagName = isFirst ? "初診" : "再診";
+        let initial = isFirst;
+        try {
+          const { data: { session: _sv } } = await supabase.auth.getSession();
+          const res = await fetch(`/api/visit-fee?patient_id=${appt.patient_id}&medical_record_id=${mr.id}`, {
+            headers: { Authorization: `Bearer ${_sv?.access_token}` },
+          });
+          const visitFee = await res.json();
+          if (res.ok) {
+            initial = visitFee.kind === "initial";
+            addLog(`🔎 ${initial ? "初診" : "再診"}と判定: ${(visitFee.reasons || []).join(" / ")}`);
+          }
+        } catch (e) {
+          console.error("visit-fee error:", e);
+        }
+        const feeCode = initial ? "301000110" : "301001610";
+        const feeName = initial ? "歯科初診料" : "歯科再診料";
+        const diagName = initial ? "初診" : "再診";
         const { data: feeData } = await supabase
           .from("m_fees")
           .select("name, points")
@@ -840,6 +860,7 @@ export default function ConsultationPage() {
           points: v.points,
           fee_code: v.fee_codes[0] || "",
           fee_items: v.procedure_names,
+          fee_codes: v.fee_codes,
           applicable_diagnoses: [diagnosisCode],
         }));
 
@@ -881,6 +902,7 @@ export default function ConsultationPage() {
             points: fee?.points || 0,
             fee_code: s.fee_code,
             fee_items: [fee?.name || s.step_name],
+            fee_codes: [s.fee_code],
             applicable_diagnoses: [diagnosisCode],
           };
         });
@@ -895,16 +917,21 @@ export default function ConsultationPage() {
 
     async function selectTreatment(proc: ProcedurePattern) {
     if (!medicalRecord || !confirmedDiagnosis) return;
-    const newProc: StructuredProcedure = {
+    // 複数の診療行為からなるパターンは1行1コードで記録する（点数はサーバーで算定）
+    const codes = (proc.fee_codes || []).filter(Boolean);
+    const entries = codes.length > 1
+      ? codes.map((code, i) => ({ name: proc.fee_items[i] || proc.procedure_name, code }))
+      : [{ name: proc.procedure_name, code: proc.fee_code || "" }];
+    const newProcs = await priceProcedures(entries.map(e => ({
       id: crypto.randomUUID(), tooth: confirmedDiagnosis.tooth || "",
       diagnosis_code: confirmedDiagnosis.code, diagnosis_name: confirmedDiagnosis.name,
-      procedure_name: proc.procedure_name, fee_code: proc.fee_code || "", points: proc.points, category: proc.category,
+      procedure_name: e.name, fee_code: e.code, points: codes.length > 1 ? 0 : proc.points, category: proc.category,
       timestamp: new Date().toISOString(),
-    };
-    const updated = [...(medicalRecord.structured_procedures || []), newProc];
+    })));
+    const updated = [...(medicalRecord.structured_procedures || []), ...newProcs];
     await supabase.from("medical_records").update({ structured_procedures: updated }).eq("id", medicalRecord.id);
     setMedicalRecord((prev) => prev ? { ...prev, structured_procedures: updated } : prev);
-    addLog(`➕ 処置追加: ${proc.procedure_name}（${proc.points}点）`);
+    addLog(`➕ 処置追加: ${proc.procedure_name}（${newProcs.reduce((s, p) => s + p.points, 0)}点）`);
     const soapP = `${confirmedDiagnosis.tooth ? `${confirmedDiagnosis.tooth}番 ` : ""}${confirmedDiagnosis.name}: ${proc.procedure_name}`;
     await updateSoap("soap_p", soapP);
     await checkBillingMiss(updated);
@@ -912,32 +939,59 @@ export default function ConsultationPage() {
     setFocusStep("billing");
   }
 
+  // 処置の診療行為コード・点数をサーバーの点数算定サービスで解決する（失敗時はそのまま）
+  // 加算の基本項目・逓減の判定のため、カルテの既存の処置も一緒に送る
+  async function priceProcedures(procs: StructuredProcedure[], context: StructuredProcedure[] = medicalRecord?.structured_procedures || []): Promise<StructuredProcedure[]> {
+    if (procs.length === 0) return procs;
+    try {
+      const { data: { session: _spc } } = await supabase.auth.getSession();
+      const res = await fetch("/api/point-calculate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${_spc?.access_token}` },
+        body: JSON.stringify({ patient_id: appointment?.patient_id || null, procedures: [...context.filter(c => !procs.some(p => p.id === c.id)), ...procs] }),
+      });
+      if (!res.ok) return procs;
+      const data = await res.json() as { items: { id: string | null; fee_code: string | null; subtotal: number; excluded: boolean; notes: string[] }[] };
+      const byId = new Map(data.items.filter(i => i.id).map(i => [i.id!, i]));
+      return procs.map(p => {
+        const item = byId.get(p.id);
+        if (!item) return p;
+        if (item.excluded) addLog(`⚠️ ${p.procedure_name}: ${item.notes[item.notes.length - 1]}`);
+        return { ...p, fee_code: item.fee_code || p.fee_code, points: item.excluded ? 0 : item.subtotal };
+      });
+    } catch {
+      return procs;
+    }
+  }
+
+  // 算定漏れルール（設定画面で管理・m_billing_miss_rules）はサーバーで当月の算定履歴と合わせて判定する
   async function checkBillingMiss(procedures: StructuredProcedure[]) {
-    const procedureNames = procedures.map((p) => p.procedure_name);
-    const misses: BillingMissItem[] = [];
-    const rules = [
-      { trigger: "抜髄", missing: "浸麻", reason: "抜髄には浸麻が必要です", points: 45, id: "sinma" },
-      { trigger: "抜髄", missing: "ラバーダム", reason: "抜髄には感染防止のためラバーダムを検討してください", points: 25, id: "rubber" },
-      { trigger: "CR充填", missing: "歯科疾患管理料", reason: "CR充填時は歯科疾患管理料の算定が可能です", points: 102, id: "shikan" },
-      { trigger: "抜歯", missing: "浸麻", reason: "抜歯には浸麻が必要です", points: 45, id: "sinma2" },
-      { trigger: "スケーリング", missing: "歯科疾患管理料", reason: "歯周治療時は歯科疾患管理料の算定が可能です", points: 102, id: "shikan2" },
-      { trigger: "根管充填", missing: "根管貼薬", reason: "根管充填前に根管貼薬が必要です", points: 40, id: "konkan" },
-    ];
-    for (const rule of rules) {
-      if (procedureNames.some((n) => n.includes(rule.trigger)) && !procedureNames.some((n) => n.includes(rule.missing))) {
-        misses.push({ procedure_name: rule.missing, reason: rule.reason, points: rule.points, procedure_id: rule.id });
-      }
+    if (!appointment) return;
+    try {
+      const { data: { session: _sm } } = await supabase.auth.getSession();
+      const res = await fetch("/api/billing-miss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sm?.access_token}` },
+        body: JSON.stringify({ patient_id: appointment.patient_id, medical_record_id: medicalRecord?.id || null, procedures }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const misses: BillingMissItem[] = (data.candidates as { rule_id: string; message: string; procedure_name: string; fee_code: string; points: number; tooth: string }[]).map((c) => ({
+        procedure_name: c.procedure_name, reason: c.message, fee_code: c.fee_code, points: c.points, tooth: c.tooth, procedure_id: c.rule_id,
+      }));
+      setBillingMissItems(misses);
+      if (misses.length > 0) addLog(`⚠️ 算定漏れ候補: ${misses.map((m) => m.procedure_name).join(", ")}`);
+    } catch (e) {
+      console.error("billing-miss error:", e);
     }
-    setBillingMissItems(misses);
-    if (misses.length > 0) addLog(`⚠️ 算定漏れ候補: ${misses.map((m) => m.procedure_name).join(", ")}`);
   }
 
   async function addMissingProcedure(miss: BillingMissItem) {
     if (!medicalRecord || !confirmedDiagnosis) return;
     const newProc: StructuredProcedure = {
-      id: crypto.randomUUID(), tooth: confirmedDiagnosis?.tooth || "",
+      id: crypto.randomUUID(), tooth: miss.tooth || confirmedDiagnosis?.tooth || "",
       diagnosis_code: confirmedDiagnosis?.code || "", diagnosis_name: confirmedDiagnosis?.name || "",
-      procedure_name: miss.procedure_name, fee_code: "", points: miss.points, category: "basic", timestamp: new Date().toISOString(),
+      procedure_name: miss.procedure_name, fee_code: miss.fee_code, points: miss.points, category: "basic", timestamp: new Date().toISOString(),
     };
     const updated = [...(medicalRecord.structured_procedures || []), newProc];
     await supabase.from("medical_records").update({ structured_procedures: updated }).eq("id", medicalRecord.id);
@@ -949,7 +1003,7 @@ export default function ConsultationPage() {
   // ==============================
   // P検（既存ロジック維持）
   // ==============================
-  const PERIO_TEETH = [18,17,16,15,14,13,12,11,21,22,23,24,25,26,27,28,48,47,46,45,44,43,42,41,31,32,33,34,35,36,37,38];
+  const PERIO_TEETH = ALL_TEETH.map(Number);
 
   function getActivePeriTeeth() {
     return PERIO_TEETH.filter(t => { const s = toothChartDraft[String(t)]?.status; return s !== "missing"; });
@@ -1140,8 +1194,7 @@ export default function ConsultationPage() {
 
   async function savePerioData() {
     if (!medicalRecord) return;
-    const TEETH = [18,17,16,15,14,13,12,11,21,22,23,24,25,26,27,28,48,47,46,45,44,43,42,41,31,32,33,34,35,36,37,38];
-    const pocketEntries = TEETH.flatMap((t) => {
+    const pocketEntries = ALL_TEETH.map(Number).flatMap((t) => {
       if (perioMode === 6) { const pts = ["b1","b2","b3","l1","l2","l3"].map(p => perioData[`${t}-${p}`]).filter(Boolean); return pts.length > 0 ? [`${t}(${pts.join("/")})`] : []; }
       else if (perioMode === 3) { const pts = ["b1","b2","b3"].map(p => perioData[`${t}-${p}`]).filter(Boolean); return pts.length > 0 ? [`${t}(${pts.join("/")})`] : []; }
       else { return perioData[`${t}`] ? [`${t}(${perioData[`${t}`]})`] : []; }
@@ -1161,20 +1214,16 @@ export default function ConsultationPage() {
     const checkedTeeth = new Set([...Object.keys(perioData).map(k => k.split("-")[0]), ...Object.keys(perioBOP), ...Object.keys(perioMobility)].filter(t => !missingTeeth.has(t)));
     const teethCount = checkedTeeth.size;
     const isSeimitsu = perioMode >= 4;
-    let examPoints = 0;
-    let examName = "";
-    if (teethCount === 0) examPoints = 0;
-    else if (teethCount < 10) examPoints = isSeimitsu ? 100 : 50;
-    else if (teethCount < 20) examPoints = isSeimitsu ? 220 : 110;
-    else examPoints = isSeimitsu ? 400 : 200;
-    examName = isSeimitsu ? `歯周精密検査（${teethCount}歯）` : `歯周基本検査（${teethCount}歯）`;
-
-    if (examPoints > 0 && patient) {
-      const newProc: StructuredProcedure = { id: crypto.randomUUID(), tooth: "", diagnosis_code: "P", diagnosis_name: "歯周病", procedure_name: examName, fee_code: "", points: examPoints, category: "perio", timestamp: new Date().toISOString() };
+    // 検査の区分は歯数の帯（点数は点数マスタから算定）
+    const band = teethCount < 10 ? "1歯以上10歯未満" : teethCount < 20 ? "10歯以上20歯未満" : "20歯以上";
+    const examName = `${isSeimitsu ? "歯周精密検査" : "歯周基本検査"}（${band}）`;
+
+    if (teethCount > 0 && patient) {
+      const [newProc] = await priceProcedures([{ id: crypto.randomUUID(), tooth: "", diagnosis_code: "P", diagnosis_name: "歯周病", procedure_name: examName, fee_code: "", points: 0, category: "perio", timestamp: new Date().toISOString() }]);
       const updated = [...(medicalRecord.structured_procedures || []), newProc];
       await supabase.from("medical_records").update({ structured_procedures: updated }).eq("id", medicalRecord.id);
       setMedicalRecord(prev => prev ? { ...prev, structured_procedures: updated } : prev);
-      addLog(`➕ 処置追加: ${examName}（${examPoints}点）`);
+      addLog(newProc.fee_code ? `➕ 処置追加: ${examName}（${newProc.points}点 / ${teethCount}歯）` : `⚠️ ${examName}を点数マスタで確認できません（点数は会計で確認してください）`);
     }
     const highPockets = Object.entries(perioData).filter(([,v]) => v >= 4).length;
     addLog(`📊 P検保存: ${teethCount}歯記録 / ${highPockets}箇所4mm以上`);
@@ -1217,114 +1266,38 @@ export default function ConsultationPage() {
   }
 
   // 最終確認ポップアップで「確定して会計へ」を押した時
-  async function finalizeBilling() {
+  // 会計・処置・施設基準加算・症状詳記の書き込みはサーバー側でまとめて行う（失敗時は全て取り消し・再実行しても会計は1件）
+  // 同じ月のレセプトが締め済みの場合は訂正理由を入力して再送する
+  async function finalizeBilling(correctionReason?: string) {
     if (!medicalRecord || !appointment) return;
     setShowFinalizePopup(false);
     try {
-      const procs = medicalRecord.structured_procedures || [];
-
-      // treatment_scheduleをDBに保存
-      if (treatmentSchedule.length > 0) {
-        await supabase.from("medical_records")
-          .update({ treatment_schedule: treatmentSchedule })
-          .eq("id", medicalRecord.id);
-      }
-
-      await supabase.from("billing").insert({
-        patient_id: appointment.patient_id,
-        appointment_id: appointment.id,
-        medical_record_id: medicalRecord.id,
-        procedures: procs,
-        total_points: totalPoints,
-        status: "pending",
-      });
-
-      // CP-9: receipt_proceduresにfee_code（9桁）で正規化保存
-      const procedureInserts = procs
-        .filter((p: StructuredProcedure) => p.fee_code && p.fee_code.length === 9)
-        .map((p: StructuredProcedure) => ({
+      const { data: { session: _sf } } = await supabase.auth.getSession();
+      const res = await fetch("/api/billing-finalize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sf?.access_token}` },
+        body: JSON.stringify({
           medical_record_id: medicalRecord.id,
-          patient_id: appointment.patient_id,
-          fee_code: p.fee_code,
-          fee_name: p.procedure_name,
-          points: p.points,
-          count: 1,
-          shinryo_shikibetsu: "",
-          futan_kubun: "",
-          performed_at: new Date().toISOString(),
-        }));
-      if (procedureInserts.length > 0) {
-        await supabase.from("receipt_procedures").insert(procedureInserts);
-      }
-
-      // CP-12: 施設基準加算を自動反映
-      // is_registered=trueの施設基準のbonusesから
-      // 今回算定したfee_codeに紐づく加算を自動でreceipt_proceduresに追加
-      const { data: facilityStandards } = await supabase
-        .from("m_facility_standards")
-        .select("standard_code, standard_name, bonuses")
-        .eq("is_registered", true)
-        .eq("is_active", true);
-
-      if (facilityStandards && facilityStandards.length > 0) {
-        const algorithmCodes = new Set(procedureInserts.map((p: { fee_code: string }) => p.fee_code));
-        const bonusInserts: {
-          medical_record_id: string;
-          patient_id: string;
-          fee_code: string;
-          fee_name: string;
-          points: number;
-          count: number;
-          shinryo_shikibetsu: string;
-          futan_kubun: string;
-          performed_at: string;
-        }[] = [];
-
-        for (const standard of facilityStandards) {
-          const bonuses = (standard.bonuses || []) as {
-            label: string;
-            points: number;
-            fee_code: string;
-          }[];
-          for (const bonus of bonuses) {
-            // 加算のfee_codeが今回算定した処置に含まれる場合のみ加算
-            if (bonus.fee_code && algorithmCodes.has(bonus.fee_code) && bonus.points > 0) {
-              bonusInserts.push({
-                medical_record_id: medicalRecord.id,
-                patient_id: appointment.patient_id,
-                fee_code: bonus.fee_code,
-                fee_name: `${standard.standard_name}（${bonus.label}）`,
-                points: bonus.points,
-                count: 1,
-                shinryo_shikibetsu: "",
-                futan_kubun: "",
-                performed_at: new Date().toISOString(),
-              });
-            }
-          }
-        }
-
-        if (bonusInserts.length > 0) {
-          await supabase.from("receipt_procedures").insert(bonusInserts);
-          addLog(`🏥 施設基準加算 ${bonusInserts.length}件を自動追加`);
-        }
+          treatment_schedule: treatmentSchedule,
+          tooth_chart: toothChartDraft,
+          symptom_details: symptomDetails,
+          correction_reason: correctionReason,
+        }),
+      });
+      const data = await res.json();
+      if (res.status === 409 && data.lock && !correctionReason) {
+        const reason = promptCorrectionReason(data.lock);
+        if (reason) return finalizeBilling(reason);
+        addLog("⏸️ 締め済みの月のため算定確定を中止しました");
+        return;
       }
-
-      await supabase.from("appointments").update({ status: "completed" }).eq("id", appointment.id);
-      await supabase.from("patients").update({ current_tooth_chart: toothChartDraft }).eq("id", appointment.patient_id);
-
-      // UKE-10: 症状詳記をreceipt_symptom_detailsに保存
-      const validSymptoms = symptomDetails.filter(s => s.text.trim() !== "");
-      if (validSymptoms.length > 0) {
-        const symptomInserts = validSymptoms.map((s, idx) => ({
-          medical_record_id: medicalRecord.id,
-          patient_id: appointment.patient_id,
-          symptom_kubun: s.kubun,
-          symptom_text: s.text,
-          display_order: idx + 1,
-        }));
-        await supabase.from("receipt_symptom_details").insert(symptomInserts);
+      if (!res.ok) throw new Error(data.error);
+      if (data.visit_fee) {
+        addLog(`🔎 ${data.visit_fee.fee_name}: ${(data.visit_fee.reasons || []).join(" / ")}`);
+        if (data.visit_fee.management?.eligible) addLog(`🗂️ ${data.visit_fee.management.name}を算定（${data.visit_fee.management.reason}）`);
       }
+      if (data.bonus_count > 0) addLog(`🏥 施設基準加算 ${data.bonus_count}件を自動追加`);
+      if (data.already_finalized) addLog("ℹ️ このカルテは算定確定済みです（既存の会計を表示します）");
 
       addLog("💰 算定確定完了");
 
@@ -1335,7 +1308,7 @@ export default function ConsultationPage() {
         router.push(`/billing?appointment_id=${appointment.id}`);
       }, 2800);
     } catch (err) {
-      addLog("⚠️ 算定確定に失敗しました");
+      addLog(`⚠️ 算定確定に失敗しました: ${err instanceof Error ? err.message : "不明なエラー"}`);
     }
   }
 
@@ -1663,7 +1636,7 @@ export default function ConsultationPage() {
                 className="flex-1 py-3 rounded-xl border border-gray-300 text-gray-600 font-medium hover:bg-gray-50"
               >戻って修正する</button>
               <button
-                onClick={finalizeBilling}
+                onClick={() => finalizeBilling()}
                 className="flex-1 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 text-white font-black hover:opacity-90 shadow-lg"
               >確定して会計へ →</button>
             </div>
@@ -1950,7 +1923,7 @@ export default function ConsultationPage() {
           <div className="bg-yellow-50 border border-yellow-300 rounded-lg px-3 py-2 flex items-center gap-3 flex-wrap">
             <span className="text-yellow-700 font-medium text-sm">🦷 仮傷病名:</span>
             {detectedDiagnoses.slice(0, 3).map((d, i) => {
-              const toothLabel = d.tooth ? `${d.tooth}番` : null;
+              const toothLabel = d.tooth ? toothLabelJa(d.tooth) : null;
               const areaHint = !d.tooth && d.reason ? (() => {
                 const r = d.reason;
                 if (r.includes("右上")) return "右上あたり？"; if (r.includes("左上")) return "左上あたり？";
@@ -2082,7 +2055,7 @@ export default function ConsultationPage() {
             <div className="flex flex-wrap gap-2">
               {billingMissItems.map((miss, i) => (
                 <div key={i} className="flex items-center gap-1 bg-white border border-red-200 rounded px-2 py-1">
-                  <span className="text-xs text-red-700">{miss.procedure_name}（{miss.points}点）</span>
+                  <span className="text-xs text-red-700" title={miss.reason}>{miss.tooth ? `${miss.tooth}番 ` : ""}{miss.procedure_name}（{miss.fee_code ? `${miss.points}点` : "点数未確定"}）</span>
                   <button onClick={() => addMissingProcedure(miss)} className="bg-red-500 text-white text-xs px-1.5 py-0.5 rounded hover:bg-red-600">追加</button>
                   <button onClick={() => setBillingMissItems((prev) => prev.filter((_, j) => j !== i))} className="text-xs text-gray-400">✕</button>
                 </div>
@@ -2634,8 +2607,6 @@ function DiagnosisToothChart({
   toothChart?: Record<string, ToothStatus>;
   onToothClick?: (tooth: number, diagName?: string) => void;
 }) {
-  const UPPER = [18, 17, 16, 15, 14, 13, 12, 11, 21, 22, 23, 24, 25, 26, 27, 28];
-  const LOWER = [48, 47, 46, 45, 44, 43, 42, 41, 31, 32, 33, 34, 35, 36, 37, 38];
   const STATUS_CONFIG = {
     continuing:   { label: "治療中", bg: "bg-orange-400", text: "text-white",  border: "border-orange-600" },
     completed:    { label: "治療済", bg: "bg-green-500",  text: "text-white",  border: "border-green-700" },
@@ -2722,8 +2693,6 @@ function ToothChart({ chart, dim, onToothClick, editingTooth, onSetStatus }: {
   onToothClick: (tooth: number) => void; editingTooth: number | null;
   onSetStatus: (tooth: number, status: string) => void;
 }) {
-  const UPPER = [18, 17, 16, 15, 14, 13, 12, 11, 21, 22, 23, 24, 25, 26, 27, 28];
-  const LOWER = [48, 47, 46, 45, 44, 43, 42, 41, 31, 32, 33, 34, 35, 36, 37, 38];
   const STATUS_OPTIONS = [
     { value: "healthy", label: "健全", color: "bg-white border border-gray-300" },
     { value: "c0", label: "C0", color: "bg-yellow-100 border border-yellow-300 text-yellow-800" },
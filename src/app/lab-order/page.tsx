@@ -4,6 +4,7 @@ import { useState, useEffect, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import { LOWER_TEETH, UPPER_TEETH } from "@/lib/tooth-notation";
 
 // ===== 型定義 =====
 type ProsthCategory = "crown_bridge" | "denture" | "implant" | "appliance" | "";
@@ -131,9 +132,6 @@ const CATEGORY_CONFIG: Record<string, { label: string; icon: string; color: stri
   appliance:    { label: "その他装置",          icon: "🛡️", color: "text-green-700 bg-green-50 border-green-200" },
 };
 
-const ALL_UPPER = ["18","17","16","15","14","13","12","11","21","22","23","24","25","26","27","28"];
-const ALL_LOWER = ["48","47","46","45","44","43","42","41","31","32","33","34","35","36","37","38"];
-
 // ===== 印刷HTML生成 =====
 function generatePrintHtml(order: LabOrder): string {
   const patientName = order.patients?.name_kanji || "不明";
@@ -142,11 +140,11 @@ function generatePrintHtml(order: LabOrder): string {
   const categoryLabel = CATEGORY_CONFIG[order.prosth_category || "crown_bridge"]?.label || "";
 
   const toothChartRows = (() => {
-    const upper = ALL_UPPER.map(t => {
+    const upper = UPPER_TEETH.map(t => {
       const selected = order.tooth_numbers.includes(t);
       return `<td style="width:22px;height:22px;text-align:center;font-size:9px;border:1px solid #ccc;background:${selected ? "#3b82f6" : "#fff"};color:${selected ? "#fff" : "#666"};font-weight:${selected ? "bold" : "normal"}">${t}</td>`;
     }).join("");
-    const lower = ALL_LOWER.map(t => {
+    const lower = LOWER_TEETH.map(t => {
       const selected = order.tooth_numbers.includes(t);
       return `<td style="width:22px;height:22px;text-align:center;font-size:9px;border:1px solid #ccc;background:${selected ? "#3b82f6" : "#fff"};color:${selected ? "#fff" : "#666"};font-weight:${selected ? "bold" : "normal"}">${t}</td>`;
     }).join("");
@@ -493,7 +491,7 @@ function LabOrderContent() {
                         <div>
                           <p className="text-[10px] text-gray-400 font-bold mb-1">歯式</p>
                           <div className="flex gap-px flex-wrap">
-                            {[...ALL_UPPER, ...ALL_LOWER].map((t, i) => (
+                            {[...UPPER_TEETH, ...LOWER_TEETH].map((t, i) => (
                               <div key={t} className={"w-5 h-5 rounded text-[8px] flex items-center justify-center font-bold " + (selected.tooth_numbers.includes(t) ? "bg-sky-500 text-white" : i >= 16 ? "bg-gray-100 text-gray-400 border-t-2 border-gray-300" : "bg-gray-100 text-gray-400")}>
                                 {t.slice(-1)}
                               </div>
@@ -616,14 +614,14 @@ function LabOrderContent() {
                     <div className="flex justify-center">
                       <div className="flex flex-col items-center gap-1">
                         <div className="flex gap-1">
-                          {ALL_UPPER.slice(0, 8).map(t => (
+                          {UPPER_TEETH.slice(0, 8).map(t => (
                             <button key={t} onClick={() => toggleTooth(t)}
                               className={"w-9 h-9 rounded-lg text-[10px] font-bold border-2 transition-all " + (form.tooth_numbers.includes(t) ? "bg-sky-500 text-white border-sky-500" : "bg-white border-gray-200 text-gray-500 hover:border-sky-300")}>
                               {t}
                             </button>
                           ))}
                           <div className="w-px h-9 bg-gray-300 mx-1" />
-                          {ALL_UPPER.slice(8).map(t => (
+                          {UPPER_TEETH.slice(8).map(t => (
                             <button key={t} onClick={() => toggleTooth(t)}
                               className={"w-9 h-9 rounded-lg text-[10px] font-bold border-2 transition-all " + (form.tooth_numbers.includes(t) ? "bg-sky-500 text-white border-sky-500" : "bg-white border-gray-200 text-gray-500 hover:border-sky-300")}>
                               {t}
@@ -632,14 +630,14 @@ function LabOrderContent() {
                         </div>
                         <div className="w-full border-t-2 border-gray-400 my-0.5" />
                         <div className="flex gap-1">
-                          {ALL_LOWER.slice(0, 8).map(t => (
+                          {LOWER_TEETH.slice(0, 8).map(t => (
                             <button key={t} onClick={() => toggleTooth(t)}
                               className={"w-9 h-9 rounded-lg text-[10px] font-bold border-2 transition-all " + (form.tooth_numbers.includes(t) ? "bg-sky-500 text-white border-sky-500" : "bg-white border-gray-200 text-gray-500 hover:border-sky-300")}>
                               {t}
                             </button>
                           ))}
                           <div className="w-px h-9 bg-gray-300 mx-1" />
-                          {ALL_LOWER.slice(8).map(t => (
+                          {LOWER_TEETH.slice(8).map(t => (
                             <button key={t} onClick={() => toggleTooth(t)}
                               className={"w-9 h-9 rounded-lg text-[10px] font-bold border-2 transition-all " + (form.tooth_numbers.includes(t) ? "bg-sky-500 text-white border-sky-500" : "bg-white border-gray-200 text-gray-500 hover:border-sky-300")}>
                               {t}
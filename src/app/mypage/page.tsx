@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/lib/supabase";
+import { LL, LR, UL, UR } from "@/lib/tooth-notation";
 
 type PatientInfo = {
   id: string;
@@ -77,11 +78,6 @@ type ClinicBlock = {
 
 type Tab = "appointment" | "status" | "notice" | "chat" | "documents";
 
-const UR = ["18","17","16","15","14","13","12","11"];
-const UL = ["21","22","23","24","25","26","27","28"];
-const LR = ["48","47","46","45","44","43","42","41"];
-const LL = ["31","32","33","34","35","36","37","38"];
-
 const TOOTH_COLORS: Record<string, { bg: string; border: string; label: string; dot: string }> = {
   normal:       { bg:"bg-white",       border:"border-gray-200",  label:"健全",   dot:"bg-gray-200" },
   caries:       { bg:"bg-red-100",     border:"border-red-400",   label:"要治療", dot:"bg-red-400" },
@@ -4,8 +4,11 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/lib/auth-context";
+import { insurerAmount, type ClaimStatus } from "@/lib/insurer-payments";
 
 type BillingRow = { total_points: number; patient_burden: number; created_at: string };
+type ReceivableRow = { total_points: number; patient_burden: number; claim_status: ClaimStatus | null };
+type Receivables = Record<"draft" | "claimed" | "returned" | "reduced", { amount: number; count: number }>;
 type AlertItem = { type: string; label: string; count: number; href: string; color: string; icon: string };
 type ClinicNotif = {
   id: string; type: string; title: string; body: string | null;
@@ -20,6 +23,7 @@ export default function Home() {
   const [monthlyData, setMonthlyData] = useState<{ day: number; points: number; burden: number }[]>([]);
   const [alerts, setAlerts] = useState<AlertItem[]>([]);
   const [monthTotal, setMonthTotal] = useState({ points: 0, burden: 0, count: 0 });
+  const [receivables, setReceivables] = useState<Receivables | null>(null);
   const [notifs, setNotifs] = useState<ClinicNotif[]>([]);
   const [showNotifs, setShowNotifs] = useState(false);
   const [toasts, setToasts] = useState<ToastItem[]>([]);
@@ -79,7 +83,7 @@ export default function Home() {
   }, []);
 
   async function fetchAll() {
-    await Promise.all([fetchStats(), fetchTodayRevenue(), fetchMonthlyRevenue(), fetchAlerts()]);
+    await Promise.all([fetchStats(), fetchTodayRevenue(), fetchMonthlyRevenue(), fetchAlerts(), fetchReceivables()]);
   }
 
   async function fetchStats() {
@@ -133,6 +137,28 @@ export default function Home() {
     }
   }
 
+  // 保険請求の未収金（窓口精算済みで保険者からの入金がまだのもの）
+  async function fetchReceivables() {
+    const rows: ReceivableRow[] = [];
+    const PAGE = 1000;
+    for (let from = 0; ; from += PAGE) {
+      const { data } = await supabase.from("billing").select("total_points, patient_burden, claim_status")
+        .eq("payment_status", "paid").or("claim_status.is.null,claim_status.neq.paid")
+        .range(from, from + PAGE - 1);
+      if (!data) return;
+      rows.push(...(data as ReceivableRow[]));
+      if (data.length < PAGE) break;
+    }
+    const result: Receivables = { draft: { amount: 0, count: 0 }, claimed: { amount: 0, count: 0 }, returned: { amount: 0, count: 0 }, reduced: { amount: 0, count: 0 } };
+    for (const r of rows) {
+      const key = !r.claim_status || r.claim_status === "draft" ? "draft" : r.claim_status;
+      if (key === "paid") continue;
+      result[key].amount += insurerAmount(r);
+      result[key].count++;
+    }
+    setReceivables(result);
+  }
+
   async function fetchAlerts() {
     const items: AlertItem[] = [];
     const { data: unpaid } = await supabase.from("billing").select("id").eq("payment_status", "unpaid");
@@ -305,6 +331,29 @@ export default function Home() {
           </div>
         </div>
 
+        {receivables && (
+          <div className="bg-white rounded-xl border border-gray-200 p-5 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-bold text-gray-900">🏦 保険請求の未収金</h2>
+              <Link href="/billing" className="text-[10px] text-sky-600 hover:underline">入金照合 →</Link>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {([
+                { key: "draft", label: "未請求", color: "text-gray-700" },
+                { key: "claimed", label: "請求済・入金待ち", color: "text-sky-600" },
+                { key: "returned", label: "返戻中", color: "text-red-600" },
+                { key: "reduced", label: "査定（入金待ち）", color: "text-amber-600" },
+              ] as const).map(r => (
+                <div key={r.key}>
+                  <p className="text-[10px] text-gray-400">{r.label}</p>
+                  <p className={`text-lg font-bold ${r.color}`}>¥{receivables[r.key].amount.toLocaleString()}</p>
+                  <p className="text-[10px] text-gray-400">{receivables[r.key].count}件</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <h2 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">業務メニュー</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
           {menuItems.map((item) => (
@@ -3,6 +3,10 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import { INCOME_CATEGORY_LABELS, type IncomeCategory } from "@/lib/burden-ratio";
+import { findPatientLock, promptCorrectionReason, recordClaimCorrection } from "@/lib/claim-snapshots";
+import { composeDiagnosisName, isSuspectedDiagnosis, loadDiagnosisModifiers, modifierCodesField, SUSPECTED_MODIFIER_CODE, type DiagnosisModifier } from "@/lib/diagnosis-modifiers";
+import { ALL_TEETH as ALL, LL, LL_D, LR, LR_D, UL, UL_D, UR, UR_D } from "@/lib/tooth-notation";
 
 // ==============================
 // 型定義
@@ -81,11 +85,11 @@ type PatientDiagnosis = {
   id: string; patient_id: string; diagnosis_code: string; diagnosis_name: string;
   tooth_number_display: string | null; started_at: string; ended_at: string | null;
   outcome: string; is_primary: boolean; notes: string | null;
+  modifier_codes?: string | null;
   session_total?: number | null; session_current?: number | null;
 };
 type ToothMode = "permanent" | "deciduous" | "both";
 type DiagnosisMaster = { diagnosis_code: string; diagnosis_name: string; category: string };
-type DiagnosisModifier = { id: string; modifier_code: string; modifier_name: string; modifier_position: string };
 type ToothHistoryEntry = {
   id: string; tooth_number: string; change_type: string;
   previous_status: string | null; new_status: string | null;
@@ -112,18 +116,6 @@ type ChatMessage = {
 // ==============================
 // 定数
 // ==============================
-const UR = ["18","17","16","15","14","13","12","11"];
-const UL = ["21","22","23","24","25","26","27","28"];
-const LR = ["48","47","46","45","44","43","42","41"];
-const LL = ["31","32","33","34","35","36","37","38"];
-const ALL = [...UR, ...UL, ...LR, ...LL];
-
-// 乳歯
-const UR_D = ["55","54","53","52","51"];
-const UL_D = ["61","62","63","64","65"];
-const LR_D = ["85","84","83","82","81"];
-const LL_D = ["71","72","73","74","75"];
-
 const TS: Record<string, { label: string; sl: string; color: string; bg: string; border: string; cbg: string }> = {
   normal:      { label:"健全",   sl:"",    color:"text-gray-400",   bg:"bg-white",      border:"border-gray-200",  cbg:"bg-white" },
   c0:          { label:"C0",    sl:"C0",  color:"text-red-400",    bg:"bg-red-50",     border:"border-red-200",   cbg:"bg-red-50" },
@@ -232,10 +224,12 @@ export default function PatientDetailPage() {
   const [diagSearch, setDiagSearch] = useState("");
   const [selectedPrefix, setSelectedPrefix] = useState("");
   const [selectedSuffix, setSelectedSuffix] = useState("");
+  const [suspected, setSuspected] = useState(false);
   const [baseDiagName, setBaseDiagName] = useState("");
   const [newDiag, setNewDiag] = useState({
     diagnosis_code: "",
     diagnosis_name: "",
+    modifier_codes: "",
     tooth_number_display: "",
     started_at: new Date().toISOString().split("T")[0],
     outcome: "continuing",
@@ -331,13 +325,7 @@ export default function PatientDetailPage() {
         .select("diagnosis_code, diagnosis_name, category")
         .eq("is_active", true);
       if (masterData) setDiagMaster(masterData as DiagnosisMaster[]);
-      try {
-        const { data: modData } = await supabase
-          .from("m_diagnosis_modifiers")
-          .select("*")
-          .eq("is_active", true);
-        if (modData) setDiagModifiers(modData as DiagnosisModifier[]);
-      } catch { /* テーブルがない場合はスキップ */ }
+      setDiagModifiers(await loadDiagnosisModifiers(supabase));
     })();
   }, []);
 
@@ -363,10 +351,20 @@ export default function PatientDetailPage() {
   // 傷病名追加
   async function addDiagnosis() {
     if (!newDiag.diagnosis_name) return;
+    // 締め済みの月に開始日が入る傷病名は提出済みレセプトのHSが変わる
+    const lock = await findPatientLock(supabase, pid, newDiag.started_at);
+    const reason = lock ? promptCorrectionReason(lock) : null;
+    if (lock && !reason) return;
     setSaving(true);
     try {
-      const { error: insertErr } = await supabase.from("receipt_diagnoses").insert({ patient_id: pid, ...newDiag });
+      const { data: inserted, error: insertErr } = await supabase.from("receipt_diagnoses").insert({ patient_id: pid, ...newDiag }).select("id").single();
       if (insertErr) throw new Error(insertErr.message);
+      if (lock && reason) {
+        await recordClaimCorrection(supabase, {
+          snapshot_id: lock.snapshot_id, patient_id: pid, billing_id: null,
+          target_table: "receipt_diagnoses", target_id: inserted?.id || null, action: "insert", reason, detail: { ...newDiag },
+        });
+      }
       const { data, error: selectErr } = await supabase
         .from("receipt_diagnoses")
         .select("*")
@@ -377,6 +375,7 @@ export default function PatientDetailPage() {
       setNewDiag({
         diagnosis_code: "",
         diagnosis_name: "",
+        modifier_codes: "",
         tooth_number_display: "",
         started_at: new Date().toISOString().split("T")[0],
         outcome: "continuing",
@@ -394,9 +393,22 @@ export default function PatientDetailPage() {
   // 傷病名outcome更新
   async function updateOutcome(id: string, outcome: string) {
     const endDate = outcome !== "continuing" ? new Date().toISOString().split("T")[0] : null;
+    // 転帰が変わるのは旧終了日・新終了日のうち早い方の月以降
+    const before = diagnoses.find(d => d.id === id);
+    const since = [before?.ended_at, endDate].filter((d): d is string => !!d).sort()[0] || new Date().toISOString().split("T")[0];
+    const lock = await findPatientLock(supabase, pid, since);
+    const reason = lock ? promptCorrectionReason(lock) : null;
+    if (lock && !reason) return;
     try {
       const { error } = await supabase.from("receipt_diagnoses").update({ outcome, ended_at: endDate }).eq("id", id);
       if (error) throw new Error(error.message);
+      if (lock && reason) {
+        await recordClaimCorrection(supabase, {
+          snapshot_id: lock.snapshot_id, patient_id: pid, billing_id: null,
+          target_table: "receipt_diagnoses", target_id: id, action: "update", reason,
+          detail: { outcome: [before?.outcome ?? null, outcome], ended_at: [before?.ended_at ?? null, endDate] },
+        });
+      }
       setDiagnoses(prev => prev.map(d => d.id === id ? { ...d, outcome, ended_at: endDate } : d));
     } catch (error: unknown) {
       const msg = error instanceof Error ? error.message : "不明なエラー";
@@ -407,9 +419,19 @@ export default function PatientDetailPage() {
   // 傷病名削除
   async function deleteDiagnosis(id: string) {
     if (!confirm("この傷病名を削除しますか？")) return;
+    const before = diagnoses.find(d => d.id === id);
+    const lock = before?.started_at ? await findPatientLock(supabase, pid, before.started_at) : null;
+    const reason = lock ? promptCorrectionReason(lock) : null;
+    if (lock && !reason) return;
     try {
       const { error } = await supabase.from("receipt_diagnoses").delete().eq("id", id);
       if (error) throw new Error(error.message);
+      if (lock && reason) {
+        await recordClaimCorrection(supabase, {
+          snapshot_id: lock.snapshot_id, patient_id: pid, billing_id: null,
+          target_table: "receipt_diagnoses", target_id: id, action: "delete", reason, detail: { ...before },
+        });
+      }
       setDiagnoses(prev => prev.filter(d => d.id !== id));
     } catch (error: unknown) {
       const msg = error instanceof Error ? error.message : "不明なエラー";
@@ -449,6 +471,11 @@ export default function PatientDetailPage() {
       if (!updates[k]) updates[k] = null;
     });
     await supabase.from("patients").update(updates).eq("id", pid);
+    // 本人/家族はレセプト種別の判定に使うためpatient_insurancesにも保存
+    const currentIns = patient.patient_insurances?.[0];
+    if (currentIns?.id && infoForm.insurance_relation) {
+      await supabase.from("patient_insurances").update({ insurance_relation: infoForm.insurance_relation }).eq("id", currentIns.id);
+    }
     setPatient({ ...patient, ...updates } as Patient);
     setShowInfoModal(false);
     setSaving(false);
@@ -973,6 +1000,7 @@ export default function PatientDetailPage() {
                             <div className="flex items-center gap-2">
                               <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded-full ${oc.color}`}>{oc.text}</span>
                               <span className="text-xs font-bold text-gray-800">{d.diagnosis_name}</span>
+                              {isSuspectedDiagnosis(d.modifier_codes) && <span className="text-[9px] font-bold px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700">疑い</span>}
                               {d.tooth_number_display && <span className="text-[10px] text-sky-600">{d.tooth_number_display}番</span>}
                               <span className="text-[10px] text-gray-400">{d.started_at}</span>
                             </div>
@@ -1001,8 +1029,8 @@ export default function PatientDetailPage() {
                       {diagMaster.filter(d => d.diagnosis_name.includes(diagSearch) || d.diagnosis_code.includes(diagSearch)).slice(0, 10).map(d => (
                         <button key={d.diagnosis_code} onClick={() => {
                           setBaseDiagName(d.diagnosis_name);
-                          setSelectedPrefix(""); setSelectedSuffix("");
-                          setNewDiag(prev => ({ ...prev, diagnosis_code: d.diagnosis_code, diagnosis_name: d.diagnosis_name }));
+                          setSelectedPrefix(""); setSelectedSuffix(""); setSuspected(false);
+                          setNewDiag(prev => ({ ...prev, diagnosis_code: d.diagnosis_code, diagnosis_name: d.diagnosis_name, modifier_codes: "" }));
                           setDiagSearch("");
                         }}
                           className="w-full text-left px-3 py-1.5 text-xs hover:bg-sky-50 border-b border-gray-100 last:border-0">
@@ -1015,24 +1043,32 @@ export default function PatientDetailPage() {
                   {newDiag.diagnosis_name && (
                     <>
                       <div className="bg-sky-50 rounded-lg px-2 py-1.5 mb-2 text-xs font-bold text-sky-700">{newDiag.diagnosis_name}</div>
-                      {diagModifiers.length > 0 && (() => {
+                      {(() => {
                         const prefixes = diagModifiers.filter(m => m.modifier_position === "prefix");
-                        const suffixes = diagModifiers.filter(m => m.modifier_position === "suffix");
-                        const updateName = (prefix: string, suffix: string) => {
-                          setNewDiag(prev => ({ ...prev, diagnosis_name: `${prefix}${baseDiagName}${suffix}` }));
+                        const suffixes = diagModifiers.filter(m => m.modifier_position === "suffix" && m.modifier_code !== SUSPECTED_MODIFIER_CODE);
+                        // 傷病名は基本傷病名コード＋修飾語コードで保存し、名称は組み立てて表示する
+                        const updateName = (prefix: string, suffix: string, susp: boolean) => {
+                          const codes = [prefix, suffix, susp ? SUSPECTED_MODIFIER_CODE : ""].filter(Boolean);
+                          setNewDiag(prev => ({ ...prev, diagnosis_name: composeDiagnosisName(baseDiagName, codes, diagModifiers), modifier_codes: modifierCodesField(codes) }));
                         };
                         return (
                           <div className="bg-white rounded-lg border border-gray-200 p-2 mb-2">
-                            <p className="text-[9px] text-gray-400 font-bold mb-1">修飾語</p>
+                            <div className="flex items-center justify-between mb-1">
+                              <p className="text-[9px] text-gray-400 font-bold">修飾語</p>
+                              <label className="flex items-center gap-1 text-[10px] text-amber-700 font-bold cursor-pointer">
+                                <input type="checkbox" checked={suspected} onChange={e => { setSuspected(e.target.checked); updateName(selectedPrefix, selectedSuffix, e.target.checked); }} />
+                                疑い
+                              </label>
+                            </div>
                             {prefixes.length > 0 && (
                               <div className="mb-1.5">
                                 <p className="text-[9px] text-gray-300 mb-0.5">前置</p>
                                 <div className="flex flex-wrap gap-1">
-                                  <button onClick={() => { setSelectedPrefix(""); updateName("", selectedSuffix); }}
+                                  <button onClick={() => { setSelectedPrefix(""); updateName("", selectedSuffix, suspected); }}
                                     className={`text-[10px] px-2 py-0.5 rounded border ${selectedPrefix==="" ? "bg-sky-100 border-sky-300 text-sky-700" : "bg-white border-gray-200 text-gray-400"}`}>なし</button>
                                   {prefixes.map(m => (
-                                    <button key={m.id} onClick={() => { setSelectedPrefix(m.modifier_name); updateName(m.modifier_name, selectedSuffix); }}
-                                      className={`text-[10px] px-2 py-0.5 rounded border ${selectedPrefix===m.modifier_name ? "bg-sky-100 border-sky-300 text-sky-700" : "bg-white border-gray-200 text-gray-400"}`}>
+                                    <button key={m.modifier_code} onClick={() => { setSelectedPrefix(m.modifier_code); updateName(m.modifier_code, selectedSuffix, suspected); }}
+                                      className={`text-[10px] px-2 py-0.5 rounded border ${selectedPrefix===m.modifier_code ? "bg-sky-100 border-sky-300 text-sky-700" : "bg-white border-gray-200 text-gray-400"}`}>
                                       {m.modifier_name}
                                     </button>
                                   ))}
@@ -1043,11 +1079,11 @@ export default function PatientDetailPage() {
                               <div>
                                 <p className="text-[9px] text-gray-300 mb-0.5">後置</p>
                                 <div className="flex flex-wrap gap-1">
-                                  <button onClick={() => { setSelectedSuffix(""); updateName(selectedPrefix, ""); }}
+                                  <button onClick={() => { setSelectedSuffix(""); updateName(selectedPrefix, "", suspected); }}
                                     className={`text-[10px] px-2 py-0.5 rounded border ${selectedSuffix==="" ? "bg-sky-100 border-sky-300 text-sky-700" : "bg-white border-gray-200 text-gray-400"}`}>なし</button>
                                   {suffixes.map(m => (
-                                    <button key={m.id} onClick={() => { setSelectedSuffix(m.modifier_name); updateName(selectedPrefix, m.modifier_name); }}
-                                      className={`text-[10px] px-2 py-0.5 rounded border ${selectedSuffix===m.modifier_name ? "bg-sky-100 border-sky-300 text-sky-700" : "bg-white border-gray-200 text-gray-400"}`}>
+                                    <button key={m.modifier_code} onClick={() => { setSelectedSuffix(m.modifier_code); updateName(selectedPrefix, m.modifier_code, suspected); }}
+                                      className={`text-[10px] px-2 py-0.5 rounded border ${selectedSuffix===m.modifier_code ? "bg-sky-100 border-sky-300 text-sky-700" : "bg-white border-gray-200 text-gray-400"}`}>
                                       {m.modifier_name}
                                     </button>
                                   ))}
@@ -1307,6 +1343,18 @@ export default function PatientDetailPage() {
                   <div className="grid grid-cols-2 gap-3">
                     <IR l="保険種別" v={patient.patient_insurances?.[0]?.insurance_type} />
                     <IR l="負担割合" v={patient.patient_insurances?.[0]?.burden_ratio ? `${Math.round((patient.patient_insurances?.[0]?.burden_ratio||0)*10)}割` : null} />
+                    <div><label className="text-[10px] text-gray-400 block mb-1">本人/家族</label>
+                      <select value={String(infoForm.insurance_relation||"self")} onChange={e => setInfoForm({...infoForm, insurance_relation: e.target.value})}
+                        className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400">
+                        <option value="self">本人</option>
+                        <option value="family">家族</option>
+                      </select></div>
+                    <div><label className="text-[10px] text-gray-400 block mb-1">所得区分（70歳以上の負担割合）</label>
+                      <select value={String(infoForm.income_category||"")} onChange={e => setInfoForm({...infoForm, income_category: e.target.value})}
+                        className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400">
+                        <option value="">未設定（一般）</option>
+                        {(Object.keys(INCOME_CATEGORY_LABELS) as IncomeCategory[]).map(k => <option key={k} value={k}>{INCOME_CATEGORY_LABELS[k]}</option>)}
+                      </select></div>
                     {[
                       { l: "保険者番号", k: "insurer_number" }, { l: "被保険者記号", k: "insured_symbol" },
                       { l: "被保険者番号", k: "insured_number" }, { l: "枝番", k: "insured_branch" },
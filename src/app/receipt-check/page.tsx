@@ -1,8 +1,15 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import { formatFinding, type ReceiptFinding } from "@/lib/receipt-rules";
+import {
+  CLAIM_RETURN_KIND_LABELS, CLAIM_RETURN_STATUS_LABELS, CLAIM_RETURN_TRANSITIONS,
+  type ClaimReturn, type ClaimReturnKind, type ClaimReturnStatus,
+} from "@/lib/claim-returns";
+import type { UKEDiff } from "@/lib/uke-diff";
+import { findBillingLock, findPatientLock, promptCorrectionReason, recordClaimCorrection } from "@/lib/claim-snapshots";
 
 type BillingRow = {
   id: string; record_id: string; patient_id: string;
@@ -21,6 +28,7 @@ type CheckResult = {
   status: "pending" | "checking" | "ok" | "warn" | "error";
   errors: string[];
   warnings: string[];
+  findings?: ReceiptFinding[];
 };
 
 type FilterTab = "all" | "error" | "warn" | "ok";
@@ -37,7 +45,16 @@ export default function ReceiptCheckPage() {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [filterTab, setFilterTab] = useState<FilterTab>("all");
   const [recheckingId, setRecheckingId] = useState<string | null>(null);
-  const [henreiItems, setHenreiItems] = useState<{ patient_name: string; ym: string; reason: string; points: string }[]>([]);
+  const [claimReturns, setClaimReturns] = useState<ClaimReturn[]>([]);
+  const [returnKind, setReturnKind] = useState<ClaimReturnKind>("henrei");
+  const [returnImporting, setReturnImporting] = useState(false);
+  const [returnImportMsg, setReturnImportMsg] = useState("");
+  const [showAcceptedReturns, setShowAcceptedReturns] = useState(false);
+  const [diffLeft, setDiffLeft] = useState<File | null>(null);
+  const [diffRight, setDiffRight] = useState<File | null>(null);
+  const [diffRunning, setDiffRunning] = useState(false);
+  const [diffResult, setDiffResult] = useState<{ left_label: string; right_label: string; diff: UKEDiff } | null>(null);
+  const [diffMsg, setDiffMsg] = useState("");
   const [aiChecking, setAiChecking] = useState(false);
   const [rulesCount, setRulesCount] = useState<number | null>(null);
   const [rulesLoaded, setRulesLoaded] = useState(false);
@@ -56,6 +73,91 @@ export default function ReceiptCheckPage() {
       .catch(() => setRulesLoaded(true));
   });
 
+  // ============================================================
+  // 返戻・査定（claim_returns）
+  // ============================================================
+  useEffect(() => { loadClaimReturns(); }, []);
+
+  async function loadClaimReturns() {
+    const { data: { session: _scr } } = await supabase.auth.getSession();
+    const res = await fetch("/api/claim-returns", { headers: { Authorization: `Bearer ${_scr?.access_token}` } });
+    const data = await res.json();
+    if (res.ok) setClaimReturns(data.claim_returns || []);
+  }
+
+  async function importClaimReturnFile(file: File) {
+    setReturnImporting(true);
+    setReturnImportMsg("");
+    try {
+      const { data: { session: _sci } } = await supabase.auth.getSession();
+      const form = new FormData();
+      form.append("file", file);
+      form.append("kind", returnKind);
+      const res = await fetch("/api/claim-return-import", { method: "POST", headers: { Authorization: `Bearer ${_sci?.access_token}` }, body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setReturnImportMsg(`❌ ${data.error || "取り込みに失敗しました"}`);
+        return;
+      }
+      const s = data.summary;
+      setReturnImportMsg(`✅ ${s.inserted}件取込（照合 ${s.matched} / 未照合 ${s.unmatched + s.ambiguous} / 重複 ${s.duplicates}）・${s.delta_points.toLocaleString()}点`);
+      await loadClaimReturns();
+    } catch (e) {
+      setReturnImportMsg(`❌ ${e instanceof Error ? e.message : "取り込みに失敗しました"}`);
+    } finally {
+      setReturnImporting(false);
+    }
+  }
+
+  // 旧レセコン等のUKEと、別のUKE（未指定ならこの月の生成結果）を比較する
+  async function runUKEDiff() {
+    if (!diffLeft) return;
+    setDiffRunning(true);
+    setDiffMsg("");
+    try {
+      const { data: { session: _sud } } = await supabase.auth.getSession();
+      const form = new FormData();
+      form.append("left", diffLeft);
+      if (diffRight) form.append("right", diffRight);
+      else form.append("year_month", checkMonth.replace("-", ""));
+      const res = await fetch("/api/uke-diff", { method: "POST", headers: { Authorization: `Bearer ${_sud?.access_token}` }, body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setDiffMsg(`❌ ${data.error || "比較に失敗しました"}`);
+        setDiffResult(null);
+        return;
+      }
+      setDiffResult(data);
+    } catch (e) {
+      setDiffMsg(`❌ ${e instanceof Error ? e.message : "比較に失敗しました"}`);
+    } finally {
+      setDiffRunning(false);
+    }
+  }
+
+  async function transitionReturn(cr: ClaimReturn, status: ClaimReturnStatus) {
+    let resubmitYm: string | undefined;
+    let note: string | undefined;
+    if (status === "corrected") {
+      const input = prompt("修正内容と再請求月（YYYYMM）を確認してください。\n再請求月（空欄で今月提出分）:", cr.resubmit_ym || "");
+      if (input === null) return;
+      resubmitYm = input.trim() || undefined;
+      note = prompt("修正内容のメモ（任意）", cr.note || "") ?? undefined;
+    }
+    const { data: { session: _sct } } = await supabase.auth.getSession();
+    const res = await fetch("/api/claim-returns", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sct?.access_token}` },
+      body: JSON.stringify({ id: cr.id, status, note, resubmit_ym: resubmitYm }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      alert(data.error || "更新に失敗しました");
+      return;
+    }
+    setClaimReturns(prev => prev.map(r => r.id === cr.id ? data.claim_return : r));
+  }
+
   // ============================================================
   // 月データ読み込み（billing一覧取得）
   // ============================================================
@@ -109,7 +211,7 @@ export default function ReceiptCheckPage() {
       const { data: { session: _src } } = await supabase.auth.getSession();
       const res = await fetch("/api/receipt-check", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${_src?.access_token}` },
         body: JSON.stringify({
           yearMonth: checkMonth,
           billing_ids: billings.map(b => b.id),
@@ -136,6 +238,7 @@ export default function ReceiptCheckPage() {
             status: apiResult.status,
             errors: apiResult.errors,
             warnings: apiResult.warnings,
+            findings: apiResult.findings,
             patient_name: apiResult.patient_name || r.patient_name,
           };
         }
@@ -179,9 +282,10 @@ export default function ReceiptCheckPage() {
     setResults(prev => prev.map((r, i) => i === idx ? { ...r, status: "checking" as const } : r));
 
     try {
+      const { data: { session: _sro } } = await supabase.auth.getSession();
       const res = await fetch("/api/receipt-check", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sro?.access_token}` },
         body: JSON.stringify({
           yearMonth: checkMonth,
           billing_ids: [billingId],
@@ -198,6 +302,7 @@ export default function ReceiptCheckPage() {
             status: apiResult.status,
             errors: apiResult.errors,
             warnings: apiResult.warnings,
+            findings: apiResult.findings,
           } : r));
         }
       }
@@ -242,9 +347,10 @@ export default function ReceiptCheckPage() {
     })));
 
     try {
+      const { data: { session: _sra } } = await supabase.auth.getSession();
       const res = await fetch("/api/receipt-check", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sra?.access_token}` },
         body: JSON.stringify({ yearMonth: checkMonth }),
       });
 
@@ -586,9 +692,12 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
                     <div className="mt-3 pt-3 border-t border-gray-100">
                       <div className="mb-3 bg-gray-50 rounded-lg p-3">
                         <p className="text-[10px] text-gray-400 font-bold mb-1.5">💡 修正方法</p>
-                        {r.errors.concat(r.warnings).map((msg, i) => (
+                        {r.errors.concat(r.warnings).map((msg, i) => {
+                          const fix = r.findings?.find(f => formatFinding(f) === msg)?.fix;
+                          return (
                           <p key={"g" + i} className="text-[11px] text-gray-500 py-0.5">
-                            {msg.includes("傷病名") ? "→ カルテの「傷病名」欄で該当する傷病名を追加してください"
+                            {fix ? `→ ${fix}`
+                              : msg.includes("傷病名") ? "→ カルテの「傷病名」欄で該当する傷病名を追加してください"
                               : msg.includes("併算定") ? "→ いずれかの項目を会計から削除してください"
                               : msg.includes("回数") || msg.includes("回まで") ? "→ 同月の他の会計で重複算定がないか確認してください"
                               : msg.includes("年齢") ? "→ 患者の年齢に適した算定項目か確認してください"
@@ -603,7 +712,8 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
                               : msg.includes("管理計画書") ? "→ カルテ画面の「📄 管理計画書」ボタンから印刷して患者に渡してください"
                               : "→ カルテを確認して該当箇所を修正してください"}
                           </p>
-                        ))}
+                          );
+                        })}
                       </div>
                       <div className="flex gap-2">
                         <Link href={`/chart?patient_id=${r.patient_id}`}
@@ -629,6 +739,9 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
                                 <button key={pi} onClick={async (e) => {
                                   e.stopPropagation();
                                   if (!confirm(`「${proc.name}」(${proc.points}点)を削除しますか？`)) return;
+                                  const lock = await findBillingLock(supabase, billing.id);
+                                  const reason = lock ? promptCorrectionReason(lock) : null;
+                                  if (lock && !reason) return;
                                   const newProcs = billing.procedures_detail.filter((_: unknown, i: number) => i !== pi);
                                   const newTotal = newProcs.reduce((s: number, p: { points: number; count: number }) => s + p.points * p.count, 0);
                                   await supabase.from("billing").update({
@@ -637,6 +750,13 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
                                     patient_burden: Math.round(newTotal * 10 * billing.burden_ratio),
                                     insurance_claim: Math.round(newTotal * 10 * (1 - billing.burden_ratio)),
                                   }).eq("id", billing.id);
+                                  if (lock && reason) {
+                                    await recordClaimCorrection(supabase, {
+                                      snapshot_id: lock.snapshot_id, patient_id: billing.patient_id, billing_id: billing.id,
+                                      target_table: "billing", target_id: billing.id, action: "update", reason,
+                                      detail: { removed: proc, total_points: [billing.total_points, newTotal] },
+                                    });
+                                  }
                                   setBillings(prev => prev.map(b => b.id === billing.id ? { ...b, procedures_detail: newProcs, total_points: newTotal, patient_burden: Math.round(newTotal * 10 * billing.burden_ratio), insurance_claim: Math.round(newTotal * 10 * (1 - billing.burden_ratio)) } : b));
                                   recheckOne(r.billing_id);
                                 }} className="text-[10px] bg-gray-50 border border-gray-200 rounded px-2 py-1 hover:bg-red-50 hover:border-red-300 hover:text-red-600 transition-colors"
@@ -662,7 +782,7 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
                                     e.stopPropagation();
                                     const tooth = prompt(`${d.name}の対象歯番号を入力（例: 46）`);
                                     if (!tooth) return;
-                                    await supabase.from("receipt_diagnoses").insert({
+                                    const diag = {
                                       patient_id: r.patient_id,
                                       diagnosis_code: d.code,
                                       diagnosis_name: d.name,
@@ -670,7 +790,17 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
                                       started_at: new Date().toISOString().split("T")[0],
                                       outcome: "continuing",
                                       is_primary: true,
-                                    });
+                                    };
+                                    const lock = await findPatientLock(supabase, r.patient_id, diag.started_at);
+                                    const reason = lock ? promptCorrectionReason(lock) : null;
+                                    if (lock && !reason) return;
+                                    const { data: inserted } = await supabase.from("receipt_diagnoses").insert(diag).select("id").single();
+                                    if (lock && reason) {
+                                      await recordClaimCorrection(supabase, {
+                                        snapshot_id: lock.snapshot_id, patient_id: r.patient_id, billing_id: null,
+                                        target_table: "receipt_diagnoses", target_id: inserted?.id || null, action: "insert", reason, detail: diag,
+                                      });
+                                    }
                                     recheckOne(r.billing_id);
                                   }} className="text-[10px] bg-blue-50 border border-blue-200 rounded px-2 py-1 hover:bg-blue-100 text-blue-700 font-bold">
                                     + {d.name}
@@ -702,57 +832,172 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
           </div>
         )}
 
-        {/* 返戻管理 */}
+        {/* 返戻・査定管理 */}
         <div className="mt-8 bg-white rounded-xl border border-gray-200 p-5">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-sm font-bold text-gray-800">📨 返戻管理</h2>
-            <label className="cursor-pointer">
-              <span className="text-xs font-bold bg-gray-100 text-gray-600 px-4 py-2 rounded-lg hover:bg-gray-200 inline-block border border-gray-200">
-                📤 返戻UKEファイルを読み込む
-              </span>
-              <input type="file" accept=".uke,.UKE,.csv,.txt" className="hidden" onChange={async (e) => {
-                const file = e.target.files?.[0];
-                if (!file) return;
-                const text = await file.text();
-                const lines = text.split("\n").filter(l => l.trim());
-                const henreiList: { patient_name: string; ym: string; reason: string; points: string }[] = [];
-                for (const line of lines) {
-                  if (line.startsWith("HR,") || line.includes("返戻")) {
-                    const parts = line.split(",");
-                    henreiList.push({
-                      patient_name: parts[3] || parts[1] || "不明",
-                      ym: parts[2] || "",
-                      reason: parts[5] || parts[4] || "理由不明",
-                      points: parts[6] || parts[3] || "0",
-                    });
-                  }
-                }
-                if (henreiList.length === 0) {
-                  henreiList.push({ patient_name: "ファイル読込済", ym: "", reason: `${lines.length}行のデータ。手動確認が必要`, points: "" });
-                }
-                setHenreiItems(henreiList);
-              }} />
-            </label>
+            <h2 className="text-sm font-bold text-gray-800">📨 返戻・査定管理</h2>
+            <div className="flex items-center gap-2">
+              <div className="flex bg-gray-100 rounded-lg p-0.5">
+                {(["henrei", "zougen"] as ClaimReturnKind[]).map(k => (
+                  <button key={k} onClick={() => setReturnKind(k)}
+                    className={`px-3 py-1.5 rounded-md text-[11px] font-bold transition-all ${returnKind === k ? "bg-white text-gray-900 shadow-sm" : "text-gray-500"}`}>
+                    {CLAIM_RETURN_KIND_LABELS[k]}
+                  </button>
+                ))}
+              </div>
+              <label className="cursor-pointer">
+                <span className={`text-xs font-bold px-4 py-2 rounded-lg inline-block border ${returnImporting ? "bg-gray-100 text-gray-400 border-gray-200" : "bg-gray-100 text-gray-600 hover:bg-gray-200 border-gray-200"}`}>
+                  {returnImporting ? "⏳ 取り込み中..." : `📤 ${returnKind === "henrei" ? "返戻内訳書" : "増減点連絡書"}CSVを読み込む`}
+                </span>
+                <input type="file" accept=".csv,.CSV,.txt" className="hidden" disabled={returnImporting} onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) await importClaimReturnFile(file);
+                }} />
+              </label>
+            </div>
           </div>
-          {henreiItems.length === 0 ? (
-            <div className="text-center py-6">
-              <p className="text-xs text-gray-400">返戻UKEファイルをアップロードすると、返戻理由と対象患者が表示されます</p>
-              <p className="text-[10px] text-gray-300 mt-1">社保: 支払基金サイト → 返戻ファイルDL / 国保: 国保連合会ポータル → 返戻ファイルDL</p>
+          {returnImportMsg && <p className="text-xs text-gray-600 mb-3">{returnImportMsg}</p>}
+          {(() => {
+            const visible = claimReturns.filter(cr => showAcceptedReturns || cr.status !== "accepted");
+            const openDelta = claimReturns.filter(cr => cr.status !== "accepted").reduce((s, cr) => s + cr.delta_points, 0);
+            if (claimReturns.length === 0) {
+              return (
+                <div className="text-center py-6">
+                  <p className="text-xs text-gray-400">返戻内訳書・増減点連絡書のCSVを読み込むと、対象患者・会計と照合して一覧表示します</p>
+                  <p className="text-[10px] text-gray-300 mt-1">社保: 支払基金オンライン請求システム → 返戻・増減点連絡書CSV / 国保: 国保連合会ポータル → 同CSV</p>
+                </div>
+              );
+            }
+            return (
+              <>
+                <div className="flex items-center gap-3 mb-3 text-[11px]">
+                  {(Object.keys(CLAIM_RETURN_STATUS_LABELS) as ClaimReturnStatus[]).map(st => (
+                    <span key={st} className="text-gray-500">{CLAIM_RETURN_STATUS_LABELS[st]} <strong className="text-gray-800">{claimReturns.filter(cr => cr.status === st).length}</strong></span>
+                  ))}
+                  <span className={`ml-auto font-bold ${openDelta < 0 ? "text-red-600" : "text-green-600"}`}>未決定 {openDelta.toLocaleString()}点</span>
+                  <label className="flex items-center gap-1 text-gray-500">
+                    <input type="checkbox" checked={showAcceptedReturns} onChange={e => setShowAcceptedReturns(e.target.checked)} />決定済も表示
+                  </label>
+                </div>
+                <div className="space-y-2">
+                  {visible.map(cr => (
+                    <div key={cr.id} className={`rounded-lg px-4 py-3 border ${cr.status === "accepted" ? "bg-gray-50 border-gray-200" : cr.kind === "henrei" ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"}`}>
+                      <div className="flex items-center gap-3">
+                        <span className="text-lg">{cr.kind === "henrei" ? "📨" : "✂️"}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold text-gray-800">
+                            {cr.patient_name}
+                            {!cr.patient_id && <span className="ml-2 text-[10px] bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded">患者未照合</span>}
+                          </p>
+                          <p className="text-[10px] text-gray-500">
+                            {CLAIM_RETURN_KIND_LABELS[cr.kind]} ・ 診療年月: {cr.shinryo_ym} ・ 請求 {cr.original_points.toLocaleString()}点
+                            {cr.resubmit_ym && ` ・ 再請求月: ${cr.resubmit_ym}`}
+                          </p>
+                          {cr.reason && <p className="text-[11px] text-gray-700 mt-0.5">{cr.reason_code ? `【${cr.reason_code}】` : ""}{cr.reason}</p>}
+                          {cr.kind === "zougen" && cr.items.length > 0 && (
+                            <div className="mt-1 space-y-0.5">
+                              {cr.items.map((it, i) => (
+                                <p key={i} className="text-[10px] text-gray-500">{it.location || "—"} {it.reason_code && `（${it.reason_code}）`} <span className={it.delta_points < 0 ? "text-red-600 font-bold" : "text-green-600 font-bold"}>{it.delta_points > 0 ? "+" : ""}{it.delta_points}点</span></p>
+                              ))}
+                            </div>
+                          )}
+                          {cr.note && <p className="text-[10px] text-sky-700 mt-0.5">📝 {cr.note}</p>}
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <p className={`text-sm font-bold ${cr.delta_points < 0 ? "text-red-600" : cr.delta_points > 0 ? "text-green-600" : "text-gray-500"}`}>{cr.delta_points > 0 ? "+" : ""}{cr.delta_points.toLocaleString()}点</p>
+                          <span className="text-[10px] bg-white border border-gray-200 text-gray-700 px-2 py-0.5 rounded font-bold">{CLAIM_RETURN_STATUS_LABELS[cr.status]}</span>
+                        </div>
+                      </div>
+                      {CLAIM_RETURN_TRANSITIONS[cr.status].length > 0 && (
+                        <div className="flex gap-2 mt-2 justify-end">
+                          {CLAIM_RETURN_TRANSITIONS[cr.status].map(st => (
+                            <button key={st} onClick={() => transitionReturn(cr, st)}
+                              className="text-[11px] font-bold px-3 py-1 rounded-lg bg-white border border-gray-200 text-gray-600 hover:bg-gray-100">
+                              → {CLAIM_RETURN_STATUS_LABELS[st]}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            );
+          })()}
+        </div>
+
+        {/* UKE差分 */}
+        <div className="mt-6 bg-white rounded-xl border border-gray-200 p-5">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-sm font-bold text-gray-800">🔀 UKE差分</h2>
+              <p className="text-[10px] text-gray-400">旧レセコンのUKEと比較して、患者の過不足と傷病名・診療行為・薬剤・材料の違いを表示します（比較先を省略すると{checkMonth}の生成結果と比較）</p>
             </div>
-          ) : (
-            <div className="space-y-2">
-              {henreiItems.map((h, i) => (
-                <div key={i} className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg px-4 py-3">
-                  <span className="text-red-500 text-lg">📨</span>
-                  <div className="flex-1">
-                    <p className="text-sm font-bold text-gray-800">{h.patient_name}</p>
-                    <p className="text-[10px] text-gray-500">{h.ym && `診療年月: ${h.ym} ・ `}{h.points && `${h.points}点 ・ `}{h.reason}</p>
+            <button onClick={runUKEDiff} disabled={!diffLeft || diffRunning} className="bg-gray-900 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-gray-700 disabled:opacity-50 flex-shrink-0">
+              {diffRunning ? "⏳ 比較中..." : "比較する"}
+            </button>
+          </div>
+          <div className="flex items-center gap-2 mb-3">
+            {([["比較元", diffLeft, setDiffLeft], ["比較先（省略可）", diffRight, setDiffRight]] as const).map(([label, file, setFile]) => (
+              <label key={label} className="cursor-pointer flex-1">
+                <span className="text-xs px-3 py-2 rounded-lg border border-gray-200 bg-gray-50 hover:bg-gray-100 block truncate">
+                  <strong className="text-gray-600">{label}:</strong> <span className="text-gray-500">{file ? file.name : "UKEを選択"}</span>
+                </span>
+                <input type="file" accept=".UKE,.uke,.csv,.CSV" className="hidden" onChange={e => { setFile(e.target.files?.[0] || null); e.target.value = ""; }} />
+              </label>
+            ))}
+          </div>
+          {diffMsg && <p className="text-xs text-gray-600 mb-3">{diffMsg}</p>}
+          {diffResult && (() => {
+            const { diff } = diffResult;
+            return (
+              <>
+                <div className="flex flex-wrap items-center gap-3 mb-3 text-[11px] text-gray-500">
+                  <span>{diffResult.left_label} <strong className="text-gray-800">{diff.summary.left_patients}件 / {diff.summary.left_points.toLocaleString()}点</strong></span>
+                  <span>→ {diffResult.right_label} <strong className="text-gray-800">{diff.summary.right_patients}件 / {diff.summary.right_points.toLocaleString()}点</strong></span>
+                  <span>差分あり <strong className="text-gray-800">{diff.summary.differing}</strong></span>
+                  <span className={`ml-auto font-bold ${diff.summary.points_delta < 0 ? "text-red-600" : diff.summary.points_delta > 0 ? "text-green-600" : "text-gray-500"}`}>
+                    {diff.summary.points_delta > 0 ? "+" : ""}{diff.summary.points_delta.toLocaleString()}点
+                  </span>
+                </div>
+                {(diff.only_left.length > 0 || diff.only_right.length > 0) && (
+                  <div className="grid grid-cols-2 gap-2 mb-3">
+                    {([["比較先にない患者", diff.only_left, "bg-red-50 border-red-200"], ["比較元にない患者", diff.only_right, "bg-amber-50 border-amber-200"]] as const).map(([label, refs, cls]) => (
+                      <div key={label} className={`rounded-lg border p-3 ${cls}`}>
+                        <p className="text-[11px] font-bold text-gray-700 mb-1">{label}（{refs.length}）</p>
+                        {refs.map(p => (
+                          <p key={p.receipt_no + p.name} className="text-[10px] text-gray-600">{p.name} ・ {p.date_of_birth} ・ {p.insurer_no || "保険者番号なし"} ・ {p.total_points.toLocaleString()}点</p>
+                        ))}
+                      </div>
+                    ))}
                   </div>
-                  <span className="text-[10px] bg-red-100 text-red-700 px-2 py-1 rounded font-bold">要再請求</span>
+                )}
+                {diff.patients.length === 0 && diff.only_left.length === 0 && diff.only_right.length === 0 && (
+                  <p className="text-xs text-green-600 font-bold">✅ 差分はありません</p>
+                )}
+                <div className="space-y-2">
+                  {diff.patients.map(p => (
+                    <div key={p.left.receipt_no + p.left.name} className="rounded-lg border border-gray-200 px-4 py-3">
+                      <div className="flex items-center gap-3 mb-1">
+                        <p className="text-sm font-bold text-gray-800 flex-1">
+                          {p.left.name} <span className="text-[10px] text-gray-400 font-normal">{p.left.date_of_birth}</span>
+                          {p.insurer_changed && <span className="ml-2 text-[10px] bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded">保険者番号 {p.left.insurer_no} → {p.right.insurer_no}</span>}
+                        </p>
+                        <p className="text-[11px] text-gray-500">{p.left.total_points.toLocaleString()} → {p.right.total_points.toLocaleString()}点</p>
+                        <p className={`text-sm font-bold ${p.points_delta < 0 ? "text-red-600" : p.points_delta > 0 ? "text-green-600" : "text-gray-400"}`}>{p.points_delta > 0 ? "+" : ""}{p.points_delta}点</p>
+                      </div>
+                      {[...p.only_left.map(l => ({ ...l, side: "-" })), ...p.only_right.map(l => ({ ...l, side: "+" }))].map((l, i) => (
+                        <p key={i} className={`text-[11px] font-mono ${l.side === "-" ? "text-red-600" : "text-green-700"}`}>
+                          {l.side} {l.record} {l.label} <span className="text-gray-400">{l.detail}</span>{l.points > 0 && ` ${l.points}点`}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          )}
+              </>
+            );
+          })()}
         </div>
 
         {/* オンライン請求ガイド */}
@@ -762,7 +1007,7 @@ ${(patientDiags || []).map((d: { diagnosis_name: string; diagnosis_code: string;
             <div className="flex gap-2"><span className="bg-sky-200 text-sky-800 rounded-full w-5 h-5 flex items-center justify-center text-[10px] font-bold flex-shrink-0">1</span><p>会計画面「📄 レセ電」でUKEファイルをダウンロード</p></div>
             <div className="flex gap-2"><span className="bg-sky-200 text-sky-800 rounded-full w-5 h-5 flex items-center justify-center text-[10px] font-bold flex-shrink-0">2</span><p><strong>社保</strong>: <a href="https://www.ssk.or.jp/" target="_blank" className="text-sky-600 underline">支払基金オンラインシステム</a>にログイン → 請求ファイル送信</p></div>
             <div className="flex gap-2"><span className="bg-sky-200 text-sky-800 rounded-full w-5 h-5 flex items-center justify-center text-[10px] font-bold flex-shrink-0">3</span><p><strong>国保</strong>: <a href="https://www.kokuho.or.jp/" target="_blank" className="text-sky-600 underline">国保連合会ポータル</a>にログイン → 請求ファイル送信</p></div>
-            <div className="flex gap-2"><span className="bg-sky-200 text-sky-800 rounded-full w-5 h-5 flex items-center justify-center text-[10px] font-bold flex-shrink-0">4</span><p>送信後、返戻ファイルが届いたら上の「返戻管理」で読み込み → 修正 → 再請求</p></div>
+            <div className="flex gap-2"><span className="bg-sky-200 text-sky-800 rounded-full w-5 h-5 flex items-center justify-center text-[10px] font-bold flex-shrink-0">4</span><p>返戻内訳書・増減点連絡書が届いたら上の「返戻・査定管理」で読み込み → カルテ修正 → 「修正済」にすると再請求月のUKEに自動で含まれます</p></div>
           </div>
         </div>
       </main>
@@ -6,6 +6,8 @@ import {
   getClinicConfig, getTimeSlotsWithAvailability, getDoctors,
   type ClinicConfig, type TimeSlot, type DoctorOption,
 } from "@/lib/reservation-utils";
+import { resolveBurdenRatio } from "@/lib/burden-ratio";
+import { toothLabelJa } from "@/lib/tooth-notation";
 
 type Step = "select_type" | "new_patient_info" | "returning_lookup" | "treatment_summary" | "select_date" | "select_time" | "confirm" | "complete";
 
@@ -31,7 +33,7 @@ export default function PatientBookingPage() {
   const [configLoading, setConfigLoading] = useState(true);
   const [doctors, setDoctors] = useState<DoctorOption[]>([]);
 
-  const [form, setForm] = useState({ name_kanji: "", name_kana: "", date_of_birth: "", phone: "", sex: "1", insurance_type: "社保", burden_ratio: "0.3" });
+  const [form, setForm] = useState({ name_kanji: "", name_kana: "", date_of_birth: "", phone: "", sex: "1", insurance_type: "社保", burden_ratio: "" });
   const [lookupForm, setLookupForm] = useState({ name_kanji: "", date_of_birth: "", phone: "" });
   const [matchedPatient, setMatchedPatient] = useState<{ id: string; name_kanji: string } | null>(null);
 
@@ -230,7 +232,10 @@ export default function PatientBookingPage() {
         await supabase.from("patient_insurances").insert({
           patient_id: newPatient.id,
           insurance_type: form.insurance_type,
-          burden_ratio: parseFloat(form.burden_ratio),
+          // 未選択なら生年月日・保険種別・受診日から自動判定
+          burden_ratio: form.burden_ratio
+            ? parseFloat(form.burden_ratio)
+            : resolveBurdenRatio(form.date_of_birth, selectedDate || new Date().toISOString().split("T")[0], form.insurance_type).ratio,
           is_current: true,
         });
       }
@@ -309,16 +314,6 @@ export default function PatientBookingPage() {
     return d.toLocaleDateString("ja-JP", { year: "numeric", month: "long", day: "numeric" });
   }
 
-  function toothLabel(tooth: string) {
-    if (!tooth) return "";
-    const num = parseInt(tooth);
-    if (isNaN(num)) return tooth;
-    const quadrant = Math.floor(num / 10);
-    const position = num % 10;
-    const qLabel = quadrant === 1 ? "右上" : quadrant === 2 ? "左上" : quadrant === 3 ? "左下" : quadrant === 4 ? "右下" : "";
-    return qLabel + position + "番";
-  }
-
   if (configLoading) return <div className="min-h-screen bg-white flex items-center justify-center"><p className="text-gray-400">読み込み中...</p></div>;
   if (!config) return <div className="min-h-screen bg-white flex items-center justify-center p-4"><div className="text-center"><p className="text-gray-500 mb-2">クリニック情報が設定されていません</p></div></div>;
 
@@ -401,7 +396,7 @@ export default function PatientBookingPage() {
                   <label className="block text-sm font-bold text-gray-700 mb-1.5">負担割合</label>
                   <select value={form.burden_ratio} onChange={(e) => setForm({ ...form, burden_ratio: e.target.value })}
                     className="w-full border border-gray-300 rounded-xl px-4 py-3.5 text-base focus:outline-none focus:border-sky-400 bg-white">
-                    <option value="0.3">3割負担</option><option value="0.2">2割負担</option><option value="0.1">1割負担</option>
+                    <option value="">自動判定（生年月日から）</option><option value="0.3">3割負担</option><option value="0.2">2割負担</option><option value="0.1">1割負担</option>
                   </select>
                 </div>
               </div>
@@ -472,7 +467,7 @@ export default function PatientBookingPage() {
                         <div key={i} className="flex items-center gap-2 bg-orange-50 border border-orange-100 rounded-lg px-3 py-2">
                           {d.tooth_number_display && (
                             <span className="bg-orange-200 text-orange-800 text-xs font-bold px-2 py-0.5 rounded">
-                              {"#" + d.tooth_number_display + " " + toothLabel(d.tooth_number_display)}
+                              {"#" + d.tooth_number_display + " " + toothLabelJa(d.tooth_number_display || "")}
                             </span>
                           )}
                           <span className="text-sm font-bold text-gray-800">{d.name}</span>
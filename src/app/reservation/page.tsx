@@ -7,6 +7,8 @@ import {
   getClinicConfig, generateTimeSlots, getDoctors,
   type ClinicConfig, type DoctorOption,
 } from "@/lib/reservation-utils";
+import { toothLabelJa } from "@/lib/tooth-notation";
+import { promptCorrectionReason } from "@/lib/claim-snapshots";
 
 type Appointment = {
   id: string;
@@ -58,16 +60,6 @@ const STATUS_TRANSITIONS: Record<string, { next: string; label: string }[]> = {
 
 const STATUS_ORDER = ["reserved", "checked_in", "in_consultation", "completed", "billing_done", "cancelled"];
 
-function toothLabel(tooth: string) {
-  if (!tooth) return "";
-  const num = parseInt(tooth);
-  if (isNaN(num)) return tooth;
-  const quadrant = Math.floor(num / 10);
-  const position = num % 10;
-  const qLabel = quadrant === 1 ? "右上" : quadrant === 2 ? "左上" : quadrant === 3 ? "左下" : quadrant === 4 ? "右下" : "";
-  return `${qLabel}${position}番`;
-}
-
 export default function ReservationManagePage() {
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [selectedDate, setSelectedDate] = useState(() => new Date().toISOString().split("T")[0]);
@@ -139,7 +131,25 @@ export default function ReservationManagePage() {
     setLoading(false);
   }
 
+  // 会計を精算済みにする（締め済みの会計は訂正理由を入力して再送。キャンセルは false）
+  async function markBillingPaid(billingId: string, correctionReason?: string): Promise<boolean> {
+    const { data: { session: _sbp } } = await supabase.auth.getSession();
+    const res = await fetch("/api/billing-payment", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sbp?.access_token}` }, body: JSON.stringify({ billing_id: billingId, correction_reason: correctionReason }) });
+    const data = await res.json();
+    if (res.status === 409 && data.lock && !correctionReason) {
+      const reason = promptCorrectionReason(data.lock);
+      return reason ? markBillingPaid(billingId, reason) : false;
+    }
+    if (!res.ok) { alert("❌ 精算できませんでした: " + (data.error || "不明なエラー")); return false; }
+    return true;
+  }
+
   async function updateStatus(appointment: Appointment, newStatus: string, cancelType?: string) {
+    // 会計済みにする前に会計を精算する（精算できなければ予約の状態も変えない）
+    if (newStatus === "billing_done" && appointment.medical_records?.length) {
+      const { data: billing } = await supabase.from("billing").select("id").eq("record_id", appointment.medical_records[0].id).maybeSingle();
+      if (billing && !(await markBillingPaid(billing.id))) return;
+    }
     const updateData: Record<string, unknown> = { status: newStatus };
     if (cancelType) updateData.cancel_type = cancelType;
     await supabase.from("appointments").update(updateData).eq("id", appointment.id);
@@ -161,11 +171,6 @@ export default function ReservationManagePage() {
         }
         await supabase.from("queue").update({ status: "done" }).eq("appointment_id", appointment.id);
         break;
-      case "billing_done":
-        if (appointment.medical_records?.length) {
-          await supabase.from("billing").update({ payment_status: "paid" }).eq("record_id", appointment.medical_records[0].id);
-        }
-        break;
     }
 
     setAppointments((prev) => prev.map((a) => a.id === appointment.id ? { ...a, status: newStatus } : a));
@@ -700,7 +705,7 @@ export default function ReservationManagePage() {
                               <div key={i} className="flex items-center gap-1.5 text-xs">
                                 {d.tooth_number_display && (
                                   <span className="bg-orange-100 text-orange-700 font-bold px-1.5 py-0.5 rounded text-[10px]">
-                                    #{d.tooth_number_display} {toothLabel(d.tooth_number_display)}
+                                    #{d.tooth_number_display} {toothLabelJa(d.tooth_number_display || "")}
                                   </span>
                                 )}
                                 <span className="text-gray-800 font-bold">{d.name}</span>
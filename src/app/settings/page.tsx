@@ -3,8 +3,11 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import type { UKEImportBatch, UKEMigrationIssue, UKEMigrationSummary } from "@/lib/uke-migration";
+import type { BillingMissRule } from "@/lib/receipt-rules";
+import type { BillingMissSuggestion } from "@/lib/billing-miss";
 
-type Tab = "clinic" | "units" | "staff" | "slots" | "facility" | "setup";
+type Tab = "clinic" | "units" | "staff" | "slots" | "facility" | "master" | "miss" | "setup";
 
 type Clinic = {
   id: string; name: string; address: string; phone: string;
@@ -94,11 +97,57 @@ export default function SettingsPage() {
   const [ukeEditPatterns, setUkeEditPatterns] = useState<UkePattern[]>([]);
   const [ukeInsights, setUkeInsights] = useState<string[]>([]);
   const [ukeMissingClaims, setUkeMissingClaims] = useState<{ procedure_name: string; reason: string }[]>([]);
+  const [migrationFiles, setMigrationFiles] = useState<File[]>([]);
+  const [migrationRunning, setMigrationRunning] = useState(false);
+  const [migrationResult, setMigrationResult] = useState<{ dryRun: boolean; summary: UKEMigrationSummary; issues: UKEMigrationIssue[]; issues_total: number } | null>(null);
+  const [migrationBatches, setMigrationBatches] = useState<UKEImportBatch[]>([]);
+  const [migrationMsg, setMigrationMsg] = useState("");
   const [feeSearchQuery, setFeeSearchQuery] = useState("");
   const [feeSearchResults, setFeeSearchResults] = useState<{ sub_code: string; name: string; points: number }[]>([]);
   const [feeSearching, setFeeSearching] = useState(false);
   const [editingPatternIdx, setEditingPatternIdx] = useState<number | null>(null);
 
+  // === 診療行為マスター（版管理）取込 ===
+  type FeeImportSummary = {
+    valid_from: string; total: number; inserted: number; overwritten: number;
+    unchanged: number; abolished: number; closed: number; baseline: number; current_updated: number; dry_run: boolean;
+  };
+  const [feeMasterFile, setFeeMasterFile] = useState<File | null>(null);
+  const [feeMasterValidFrom, setFeeMasterValidFrom] = useState("");
+  const [feeMasterImporting, setFeeMasterImporting] = useState(false);
+  const [feeMasterResult, setFeeMasterResult] = useState<{ summary: FeeImportSummary; skipped_total: number } | null>(null);
+  const [feeMasterMsg, setFeeMasterMsg] = useState("");
+
+  // === 医薬品・特定器材マスター（価格履歴）取込 ===
+  type PriceDiffView = {
+    counts: { added: number; removed: number; changed: number };
+    added: { code: string; name: string; unit_price: number }[];
+    removed: { code: string; name: string; unit_price: number }[];
+    changed: { code: string; name: string; old_price: number; new_price: number }[];
+  };
+  const [priceKind, setPriceKind] = useState<"drug" | "material">("drug");
+  const [priceFile, setPriceFile] = useState<File | null>(null);
+  const [priceValidFrom, setPriceValidFrom] = useState("");
+  const [priceImporting, setPriceImporting] = useState(false);
+  const [priceDryRun, setPriceDryRun] = useState(false);
+  const [priceDiff, setPriceDiff] = useState<PriceDiffView | null>(null);
+  const [priceMsg, setPriceMsg] = useState("");
+  const [priceCompare, setPriceCompare] = useState({ from: "", to: "" });
+
+  // === 算定漏れルール（m_billing_miss_rules） ===
+  const emptyMissRule = {
+    trigger_code: "", trigger_category: "", companion_code: "", level: "required" as BillingMissRule["level"],
+    scope: "same_day" as BillingMissRule["scope"], tooth_condition: "" as NonNullable<BillingMissRule["tooth_condition"]> | "",
+    age_min: "", age_max: "", message: "",
+  };
+  const [missRules, setMissRules] = useState<BillingMissRule[]>([]);
+  const [newMissRule, setNewMissRule] = useState(emptyMissRule);
+  const [missSuggestions, setMissSuggestions] = useState<BillingMissSuggestion[]>([]);
+  const [missChecked, setMissChecked] = useState<Set<string>>(new Set());
+  const [missSuggestParams, setMissSuggestParams] = useState({ min_support: "5", min_confidence: "0.8" });
+  const [missLoading, setMissLoading] = useState(false);
+  const [missMsg, setMissMsg] = useState("");
+
   // === CP-8: 傾向ダッシュボード ===
   const [dashPatterns, setDashPatterns] = useState<{
     id: string;
@@ -157,6 +206,52 @@ export default function SettingsPage() {
   useEffect(() => { initializeData(); }, []);
 
   // CP-8: setupタブを開いた時にダッシュボードデータを取得
+  // 過去UKEの移行取込（dry_run で件数と問題点だけ確認してから本取込）
+  async function runUkeMigration(dryRun: boolean) {
+    if (migrationFiles.length === 0) return;
+    if (!dryRun && !confirm(`${migrationFiles.length}ファイルを取り込みます。患者・保険・傷病名・来院履歴が作成されます。よろしいですか？`)) return;
+    setMigrationRunning(true);
+    setMigrationMsg("");
+    try {
+      const fd = new FormData();
+      migrationFiles.forEach(f => fd.append("files", f));
+      fd.append("dry_run", String(dryRun));
+      const { data: { session: _sm } } = await supabase.auth.getSession();
+      const res = await fetch("/api/uke-migration", { method: "POST", body: fd, headers: { Authorization: `Bearer ${_sm?.access_token}` } });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "取り込みに失敗しました");
+      setMigrationResult({ dryRun, summary: json.summary, issues: json.issues, issues_total: json.issues_total });
+      if (!dryRun) {
+        setMigrationFiles([]);
+        await loadMigrationBatches();
+      }
+    } catch (e) {
+      setMigrationMsg(`❌ ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setMigrationRunning(false);
+    }
+  }
+
+  async function loadMigrationBatches() {
+    const { data: { session: _sb } } = await supabase.auth.getSession();
+    const res = await fetch("/api/uke-migration", { headers: { Authorization: `Bearer ${_sb?.access_token}` } });
+    const json = await res.json();
+    if (res.ok) setMigrationBatches(json.batches || []);
+  }
+
+  async function rollbackMigration(batch: UKEImportBatch) {
+    if (!confirm(`${new Date(batch.created_at).toLocaleString("ja-JP")} の取込（${batch.source_files.length}ファイル）で作成したデータをすべて削除しますか？`)) return;
+    const { data: { session: _sr } } = await supabase.auth.getSession();
+    const res = await fetch("/api/uke-migration", { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sr?.access_token}` }, body: JSON.stringify({ batch_id: batch.id, action: "rollback" }) });
+    const json = await res.json();
+    setMigrationMsg(res.ok ? `✅ ロールバックしました（${Object.entries(json.deleted as Record<string, number>).map(([t, n]) => `${t} ${n}`).join(" / ")}）` : `❌ ${json.error}`);
+    await loadMigrationBatches();
+  }
+
+  useEffect(() => {
+    if (activeTab === "miss") loadMissRules();
+  }, [activeTab]);
+
   useEffect(() => {
     if (activeTab !== "setup") return;
     setDashLoading(true);
@@ -249,6 +344,180 @@ export default function SettingsPage() {
     }
   }
 
+  async function importFeeMasterFile(dryRun: boolean) {
+    if (!feeMasterFile || !feeMasterValidFrom) return;
+    setFeeMasterImporting(true);
+    setFeeMasterMsg("");
+    try {
+      const fd = new FormData();
+      fd.append("file", feeMasterFile);
+      fd.append("valid_from", feeMasterValidFrom);
+      fd.append("dry_run", String(dryRun));
+      const { data: { session: _sf } } = await supabase.auth.getSession();
+      const res = await fetch("/api/fee-master-import", { method: "POST", body: fd, headers: { Authorization: `Bearer ${_sf?.access_token}` } });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "取込失敗");
+      setFeeMasterResult({ summary: json.summary, skipped_total: json.skipped_total });
+      if (!dryRun) setFeeMasterMsg(`✅ ${feeMasterValidFrom}施行の版として取り込みました`);
+    } catch (e) {
+      setFeeMasterMsg(`❌ エラー: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setFeeMasterImporting(false);
+    }
+  }
+
+  async function importPriceMasterFile(dryRun: boolean) {
+    if (!priceFile || !priceValidFrom) return;
+    setPriceImporting(true);
+    setPriceMsg("");
+    try {
+      const fd = new FormData();
+      fd.append("file", priceFile);
+      fd.append("kind", priceKind);
+      fd.append("valid_from", priceValidFrom);
+      fd.append("dry_run", String(dryRun));
+      const { data: { session: _sp } } = await supabase.auth.getSession();
+      const res = await fetch("/api/price-master-import", { method: "POST", body: fd, headers: { Authorization: `Bearer ${_sp?.access_token}` } });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "取込失敗");
+      setPriceDiff(json.diff);
+      setPriceDryRun(dryRun);
+      if (!dryRun) setPriceMsg(`✅ ${priceValidFrom}施行の価格として取り込みました（現行マスタ更新 ${json.summary.current_updated}件${json.summary.baseline ? ` / 旧単価を版として保存 ${json.summary.baseline}件` : ""}）`);
+    } catch (e) {
+      setPriceMsg(`❌ エラー: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setPriceImporting(false);
+    }
+  }
+
+  async function comparePriceVersions() {
+    if (!priceCompare.from || !priceCompare.to) return;
+    setPriceImporting(true);
+    setPriceMsg("");
+    try {
+      const { data: { session: _sc } } = await supabase.auth.getSession();
+      const q = new URLSearchParams({ kind: priceKind, from: priceCompare.from, to: priceCompare.to });
+      const res = await fetch(`/api/price-master-import?${q}`, { headers: { Authorization: `Bearer ${_sc?.access_token}` } });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "比較失敗");
+      setPriceDiff(json.diff);
+      setPriceDryRun(false);
+    } catch (e) {
+      setPriceMsg(`❌ エラー: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setPriceImporting(false);
+    }
+  }
+
+  async function loadMissRules() {
+    const { data: { session: _sl } } = await supabase.auth.getSession();
+    const res = await fetch("/api/billing-miss-rules", { headers: { Authorization: `Bearer ${_sl?.access_token}` } });
+    const json = await res.json();
+    if (res.ok) setMissRules(json.rules || []);
+    else setMissMsg(`❌ ${json.error}`);
+  }
+
+  async function postMissRules(rules: Record<string, unknown>[]): Promise<{ saved: number; errors: string[] }> {
+    const { data: { session: _sp } } = await supabase.auth.getSession();
+    const res = await fetch("/api/billing-miss-rules", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sp?.access_token}` },
+      body: JSON.stringify({ rules }),
+    });
+    const json = await res.json();
+    if (!res.ok) return { saved: 0, errors: [json.error] };
+    return { saved: (json.saved || []).length, errors: (json.errors || []).map((e: { error: string }) => e.error) };
+  }
+
+  async function addMissRule() {
+    setMissLoading(true);
+    setMissMsg("");
+    const { saved, errors } = await postMissRules([{
+      ...newMissRule,
+      tooth_condition: newMissRule.tooth_condition || null,
+      age_min: newMissRule.age_min === "" ? null : Number(newMissRule.age_min),
+      age_max: newMissRule.age_max === "" ? null : Number(newMissRule.age_max),
+      source: "manual",
+    }]);
+    setMissMsg(saved > 0 ? "✅ ルールを追加しました" : `❌ ${errors.join(" / ")}`);
+    if (saved > 0) {
+      setNewMissRule(emptyMissRule);
+      await loadMissRules();
+    }
+    setMissLoading(false);
+  }
+
+  async function updateMissRule(rule: BillingMissRule, patch: Partial<BillingMissRule>) {
+    const { saved, errors } = await postMissRules([{ ...rule, ...patch }]);
+    if (saved === 0) setMissMsg(`❌ ${errors.join(" / ")}`);
+    await loadMissRules();
+  }
+
+  async function deleteMissRule(rule: BillingMissRule) {
+    if (!confirm(`「${rule.trigger_name || rule.trigger_category}」→「${rule.companion_name}」のルールを削除しますか？`)) return;
+    const { data: { session: _sd } } = await supabase.auth.getSession();
+    const res = await fetch(`/api/billing-miss-rules?id=${rule.id}`, { method: "DELETE", headers: { Authorization: `Bearer ${_sd?.access_token}` } });
+    if (!res.ok) setMissMsg(`❌ ${(await res.json()).error}`);
+    await loadMissRules();
+  }
+
+  // 以前の組み込みルール（抜髄→浸麻 等）のうち、この医院の点数マスタにあるコードの組み合わせを登録する
+  async function seedStandardMissRules() {
+    setMissLoading(true);
+    setMissMsg("");
+    try {
+      const { data: { session: _sd } } = await supabase.auth.getSession();
+      const res = await fetch("/api/billing-miss-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${_sd?.access_token}` },
+        body: JSON.stringify({ seed: "standard" }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "標準ルールの登録に失敗しました");
+      const unresolved = (json.unresolved || []) as string[];
+      setMissMsg(`${unresolved.length === 0 ? "✅" : "⚠️"} 標準ルールを${(json.saved || []).length}件登録しました${unresolved.length > 0 ? `（点数マスタに見つからない項目: ${unresolved.join("、")}）` : ""}`);
+      await loadMissRules();
+    } catch (e) {
+      setMissMsg(`❌ ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setMissLoading(false);
+    }
+  }
+
+  async function loadMissSuggestions() {
+    setMissLoading(true);
+    setMissMsg("");
+    try {
+      const { data: { session: _ss } } = await supabase.auth.getSession();
+      const q = new URLSearchParams({ suggest: "1", ...missSuggestParams });
+      const res = await fetch(`/api/billing-miss-rules?${q}`, { headers: { Authorization: `Bearer ${_ss?.access_token}` } });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "提案の取得に失敗しました");
+      setMissSuggestions(json.suggestions || []);
+      setMissChecked(new Set());
+      if ((json.suggestions || []).length === 0) setMissMsg("✅ 新しい提案はありません");
+    } catch (e) {
+      setMissMsg(`❌ ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setMissLoading(false);
+    }
+  }
+
+  async function adoptMissSuggestions() {
+    const selected = missSuggestions.filter(s => missChecked.has(`${s.trigger_code}>${s.companion_code}`));
+    if (selected.length === 0) return;
+    setMissLoading(true);
+    const { saved, errors } = await postMissRules(selected.map(s => ({
+      trigger_code: s.trigger_code, companion_code: s.companion_code, level: "suggested", scope: "same_day",
+      source: "clinic_patterns", support_count: s.support_count, confidence: s.confidence,
+    })));
+    setMissMsg(errors.length === 0 ? `✅ ${saved}件のルールを登録しました` : `⚠️ ${saved}件登録・${errors.length}件失敗（${errors.slice(0, 3).join(" / ")}）`);
+    setMissSuggestions(prev => prev.filter(s => !missChecked.has(`${s.trigger_code}>${s.companion_code}`)));
+    setMissChecked(new Set());
+    await loadMissRules();
+    setMissLoading(false);
+  }
+
   // level_groupごとにグループ化して表示
   const facilityGroups = facilities.reduce((acc, f) => {
     const group = f.level_group || "その他";
@@ -462,6 +731,8 @@ export default function SettingsPage() {
     { key: "staff", label: "スタッフ", icon: "👥" },
     { key: "slots", label: "予約枠", icon: "📅" },
     { key: "facility", label: "施設基準", icon: "📋" },
+    { key: "master", label: "マスタ", icon: "🗂️" },
+    { key: "miss", label: "算定漏れ", icon: "🔍" },
     { key: "setup", label: "初期設定", icon: "📥" },
   ];
 
@@ -969,6 +1240,286 @@ export default function SettingsPage() {
           </div>
         )}
 
+        {activeTab === "master" && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl border border-gray-200 p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-1">🗂️ 歯科診療行為マスター取込</h2>
+              <p className="text-xs text-gray-400 mb-4">
+                支払基金の歯科診療行為マスター（CSV / Shift-JIS）を施行日付きの版として取り込みます。<br />
+                旧版は施行日の前日で締められ、レセプトチェック・UKE照合は算定日時点の点数で判定します。
+              </p>
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">マスターファイル</label>
+                  <input type="file" accept=".csv,.CSV,.txt" onChange={e => { setFeeMasterFile(e.target.files?.[0] || null); setFeeMasterResult(null); }}
+                    className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">施行日（valid_from）</label>
+                  <input type="date" value={feeMasterValidFrom} onChange={e => { setFeeMasterValidFrom(e.target.value); setFeeMasterResult(null); }}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => importFeeMasterFile(true)} disabled={!feeMasterFile || !feeMasterValidFrom || feeMasterImporting}
+                  className="flex-1 bg-gray-100 text-gray-700 py-2.5 rounded-lg text-sm font-bold hover:bg-gray-200 disabled:opacity-50">
+                  {feeMasterImporting ? "🔄 確認中..." : "🔍 差分を確認（ドライラン）"}
+                </button>
+                <button onClick={() => { if (confirm(`${feeMasterValidFrom}施行の版として取り込みますか？`)) importFeeMasterFile(false); }}
+                  disabled={!feeMasterFile || !feeMasterValidFrom || feeMasterImporting || !feeMasterResult?.summary.dry_run}
+                  className="flex-1 bg-sky-600 text-white py-2.5 rounded-lg text-sm font-bold hover:bg-sky-700 disabled:opacity-50">
+                  📥 取り込む
+                </button>
+              </div>
+              {feeMasterResult && (
+                <div className="mt-4 grid grid-cols-4 gap-2 text-center">
+                  {[
+                    { l: "新しい版", v: feeMasterResult.summary.inserted, c: "text-sky-600" },
+                    { l: "同日版の上書き", v: feeMasterResult.summary.overwritten, c: "text-amber-600" },
+                    { l: "変更なし", v: feeMasterResult.summary.unchanged, c: "text-gray-400" },
+                    { l: "廃止", v: feeMasterResult.summary.abolished, c: "text-red-500" },
+                    { l: "旧版を締め", v: feeMasterResult.summary.closed, c: "text-gray-600" },
+                    { l: "現行点数を旧版に保存", v: feeMasterResult.summary.baseline, c: "text-gray-600" },
+                    { l: "現行マスタ更新", v: feeMasterResult.summary.current_updated, c: "text-emerald-600" },
+                    { l: "取込対象", v: feeMasterResult.summary.total, c: "text-gray-900" },
+                    { l: "読み飛ばし行", v: feeMasterResult.skipped_total, c: "text-gray-400" },
+                  ].map(x => (
+                    <div key={x.l} className="bg-gray-50 rounded-lg p-2">
+                      <p className={`text-lg font-bold ${x.c}`}>{x.v}</p>
+                      <p className="text-[10px] text-gray-400">{x.l}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {feeMasterMsg && <p className={`mt-3 text-sm text-center font-bold ${feeMasterMsg.startsWith("✅") ? "text-green-600" : "text-red-500"}`}>{feeMasterMsg}</p>}
+            </div>
+
+            <div className="bg-white rounded-xl border border-gray-200 p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-1">💊 医薬品・特定器材マスター取込</h2>
+              <p className="text-xs text-gray-400 mb-4">
+                医薬品マスター / 特定器材マスター（CSV / Shift-JIS）を施行日付きの価格履歴として取り込みます。<br />
+                ファイルにない現行コードは施行日の前日で終了し、IY・TOレコードは算定日時点の単価を使用します。
+              </p>
+              <div className="flex gap-2 mb-4">
+                {([["drug", "💊 医薬品"], ["material", "🦷 特定器材"]] as const).map(([k, label]) => (
+                  <button key={k} onClick={() => { setPriceKind(k); setPriceDiff(null); }}
+                    className={`px-4 py-2 rounded-lg text-sm font-bold ${priceKind === k ? "bg-sky-600 text-white" : "bg-gray-100 text-gray-500 hover:bg-gray-200"}`}>{label}</button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">マスターファイル</label>
+                  <input type="file" accept=".csv,.CSV,.txt" onChange={e => { setPriceFile(e.target.files?.[0] || null); setPriceDiff(null); }}
+                    className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">施行日（valid_from）</label>
+                  <input type="date" value={priceValidFrom} onChange={e => { setPriceValidFrom(e.target.value); setPriceDiff(null); }}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => importPriceMasterFile(true)} disabled={!priceFile || !priceValidFrom || priceImporting}
+                  className="flex-1 bg-gray-100 text-gray-700 py-2.5 rounded-lg text-sm font-bold hover:bg-gray-200 disabled:opacity-50">
+                  {priceImporting ? "🔄 確認中..." : "🔍 差分を確認（ドライラン）"}
+                </button>
+                <button onClick={() => { if (confirm(`${priceValidFrom}施行の価格として取り込みますか？`)) importPriceMasterFile(false); }}
+                  disabled={!priceFile || !priceValidFrom || priceImporting || !priceDryRun}
+                  className="flex-1 bg-sky-600 text-white py-2.5 rounded-lg text-sm font-bold hover:bg-sky-700 disabled:opacity-50">
+                  📥 取り込む
+                </button>
+              </div>
+              <div className="flex items-end gap-2 mt-4 pt-4 border-t border-gray-100">
+                <div className="flex-1">
+                  <label className="text-xs text-gray-400 block mb-1">比較元（この日に有効な版）</label>
+                  <input type="date" value={priceCompare.from} onChange={e => setPriceCompare({ ...priceCompare, from: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs text-gray-400 block mb-1">比較先</label>
+                  <input type="date" value={priceCompare.to} onChange={e => setPriceCompare({ ...priceCompare, to: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+                <button onClick={comparePriceVersions} disabled={!priceCompare.from || !priceCompare.to || priceImporting}
+                  className="bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-gray-700 disabled:opacity-50">版を比較</button>
+              </div>
+              {priceDiff && (
+                <div className="mt-4 space-y-3">
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="bg-sky-50 rounded-lg p-2"><p className="text-lg font-bold text-sky-600">{priceDiff.counts.added}</p><p className="text-[10px] text-gray-400">追加</p></div>
+                    <div className="bg-red-50 rounded-lg p-2"><p className="text-lg font-bold text-red-500">{priceDiff.counts.removed}</p><p className="text-[10px] text-gray-400">削除</p></div>
+                    <div className="bg-amber-50 rounded-lg p-2"><p className="text-lg font-bold text-amber-600">{priceDiff.counts.changed}</p><p className="text-[10px] text-gray-400">価格変更</p></div>
+                  </div>
+                  <div className="max-h-64 overflow-y-auto text-xs divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                    {priceDiff.changed.map(c => (
+                      <div key={`c-${c.code}`} className="px-3 py-1.5 flex justify-between"><span><span className="text-amber-600 font-bold mr-2">変更</span>{c.code} {c.name}</span><span className="text-gray-500">¥{c.old_price} → <span className="font-bold text-gray-900">¥{c.new_price}</span></span></div>
+                    ))}
+                    {priceDiff.added.map(a => (
+                      <div key={`a-${a.code}`} className="px-3 py-1.5 flex justify-between"><span><span className="text-sky-600 font-bold mr-2">追加</span>{a.code} {a.name}</span><span className="text-gray-500">¥{a.unit_price}</span></div>
+                    ))}
+                    {priceDiff.removed.map(r => (
+                      <div key={`r-${r.code}`} className="px-3 py-1.5 flex justify-between"><span><span className="text-red-500 font-bold mr-2">削除</span>{r.code} {r.name}</span><span className="text-gray-400 line-through">¥{r.unit_price}</span></div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {priceMsg && <p className={`mt-3 text-sm text-center font-bold ${priceMsg.startsWith("✅") ? "text-green-600" : "text-red-500"}`}>{priceMsg}</p>}
+            </div>
+          </div>
+        )}
+
+        {activeTab === "miss" && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl border border-gray-200 p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-1">🔍 算定漏れルール</h2>
+              <p className="text-xs text-gray-400 mb-4">
+                トリガーの診療行為（コードまたは処置区分）を算定したときに、同時に算定すべき項目がなければ診察画面で追加を提案します。<br />
+                「必須」はレセプトチェックで警告、「推奨」は情報として表示します。追加候補の点数は点数マスタから算定します。
+              </p>
+              <div className="grid grid-cols-4 gap-3 mb-3">
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">トリガーのコード（9桁）</label>
+                  <input value={newMissRule.trigger_code} onChange={e => setNewMissRule({ ...newMissRule, trigger_code: e.target.value })}
+                    placeholder="例: 309000110" className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">または処置区分・診療識別</label>
+                  <input value={newMissRule.trigger_category} onChange={e => setNewMissRule({ ...newMissRule, trigger_category: e.target.value })}
+                    placeholder="例: endo / 40" className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">追加する項目のコード（9桁）</label>
+                  <input value={newMissRule.companion_code} onChange={e => setNewMissRule({ ...newMissRule, companion_code: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">区分</label>
+                  <select value={newMissRule.level} onChange={e => setNewMissRule({ ...newMissRule, level: e.target.value as BillingMissRule["level"] })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400">
+                    <option value="required">必須</option>
+                    <option value="suggested">推奨</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">算定済みとみなす範囲</label>
+                  <select value={newMissRule.scope} onChange={e => setNewMissRule({ ...newMissRule, scope: e.target.value as BillingMissRule["scope"] })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400">
+                    <option value="same_day">同日</option>
+                    <option value="same_month">同月</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">部位の条件</label>
+                  <select value={newMissRule.tooth_condition} onChange={e => setNewMissRule({ ...newMissRule, tooth_condition: e.target.value as typeof newMissRule.tooth_condition })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400">
+                    <option value="">なし</option>
+                    <option value="same_tooth">同じ歯に算定</option>
+                    <option value="deciduous">乳歯のとき</option>
+                    <option value="permanent">永久歯のとき</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">年齢（下限〜上限）</label>
+                  <div className="flex items-center gap-1">
+                    <input type="number" value={newMissRule.age_min} onChange={e => setNewMissRule({ ...newMissRule, age_min: e.target.value })}
+                      className="w-full border border-gray-200 rounded-lg px-2 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                    <span className="text-gray-400 text-xs">〜</span>
+                    <input type="number" value={newMissRule.age_max} onChange={e => setNewMissRule({ ...newMissRule, age_max: e.target.value })}
+                      className="w-full border border-gray-200 rounded-lg px-2 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 block mb-1">メッセージ（省略可）</label>
+                  <input value={newMissRule.message} onChange={e => setNewMissRule({ ...newMissRule, message: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+              </div>
+              <button onClick={addMissRule} disabled={missLoading || !newMissRule.companion_code || (!newMissRule.trigger_code && !newMissRule.trigger_category)}
+                className="w-full bg-sky-600 text-white py-2.5 rounded-lg text-sm font-bold hover:bg-sky-700 disabled:opacity-50">➕ ルールを追加</button>
+              <button onClick={seedStandardMissRules} disabled={missLoading}
+                className="w-full mt-2 border border-sky-200 text-sky-700 py-2 rounded-lg text-sm font-bold hover:bg-sky-50 disabled:opacity-50">📋 標準ルールを登録（抜髄→浸麻・根管充填→根管貼薬 など）</button>
+              {missMsg && <p className={`mt-3 text-sm text-center font-bold ${missMsg.startsWith("✅") ? "text-green-600" : "text-red-500"}`}>{missMsg}</p>}
+
+              <div className="mt-4 border border-gray-100 rounded-lg divide-y divide-gray-100">
+                {missRules.length === 0 && <p className="px-3 py-4 text-xs text-gray-400 text-center">登録済みのルールはありません。「標準ルールを登録」か、下の「診療パターンからの提案」から登録できます</p>}
+                {missRules.map(r => (
+                  <div key={r.id} className={`px-3 py-2 flex items-center gap-3 text-xs ${r.is_active ? "" : "opacity-50"}`}>
+                    <input type="checkbox" checked={r.is_active} onChange={() => updateMissRule(r, { is_active: !r.is_active })}
+                      className="w-4 h-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500" />
+                    <span className={`px-1.5 py-0.5 rounded font-bold ${r.level === "required" ? "bg-red-50 text-red-600" : "bg-sky-50 text-sky-600"}`}>{r.level === "required" ? "必須" : "推奨"}</span>
+                    <div className="flex-1">
+                      <p className="text-gray-900">
+                        {r.trigger_name || r.trigger_category}<span className="text-gray-400 mx-1">{r.trigger_code || `区分 ${r.trigger_category}`}</span>
+                        → <span className="font-bold">{r.companion_name}</span><span className="text-gray-400 ml-1">{r.companion_code}</span>
+                      </p>
+                      <p className="text-[10px] text-gray-400">
+                        {r.scope === "same_month" ? "同月" : "同日"}
+                        {r.tooth_condition === "same_tooth" ? " / 同じ歯" : r.tooth_condition === "deciduous" ? " / 乳歯" : r.tooth_condition === "permanent" ? " / 永久歯" : ""}
+                        {(r.age_min !== null || r.age_max !== null) && ` / ${r.age_min ?? ""}〜${r.age_max ?? ""}歳`}
+                        {r.source === "standard" && " / 標準ルール"}
+                        {r.source === "clinic_patterns" && ` / 診療パターンから（${r.support_count}件・${Math.round((r.confidence || 0) * 100)}%）`}
+                        {r.message && ` / ${r.message}`}
+                      </p>
+                    </div>
+                    <button onClick={() => updateMissRule(r, { level: r.level === "required" ? "suggested" : "required" })} className="text-gray-400 hover:text-gray-600">区分変更</button>
+                    <button onClick={() => updateMissRule(r, { scope: r.scope === "same_day" ? "same_month" : "same_day" })} className="text-gray-400 hover:text-gray-600">範囲変更</button>
+                    <button onClick={() => deleteMissRule(r)} className="text-red-400 hover:text-red-600">削除</button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl border border-gray-200 p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-1">📊 診療パターンからの提案</h2>
+              <p className="text-xs text-gray-400 mb-4">
+                取り込んだ診療パターン（clinic_patterns）で一緒に算定されている組み合わせから、未登録のルールを提案します。<br />
+                件数は両方を算定した回数、割合はトリガーを算定したうち追加項目も算定した割合です。登録時は「推奨・同日」になります。
+              </p>
+              <div className="flex items-end gap-2 mb-4">
+                <div className="flex-1">
+                  <label className="text-xs text-gray-400 block mb-1">最低件数</label>
+                  <input type="number" value={missSuggestParams.min_support} onChange={e => setMissSuggestParams({ ...missSuggestParams, min_support: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs text-gray-400 block mb-1">最低割合（0〜1）</label>
+                  <input type="number" step="0.05" value={missSuggestParams.min_confidence} onChange={e => setMissSuggestParams({ ...missSuggestParams, min_confidence: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-400" />
+                </div>
+                <button onClick={loadMissSuggestions} disabled={missLoading}
+                  className="bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-gray-700 disabled:opacity-50">{missLoading ? "🔄 集計中..." : "提案を取得"}</button>
+              </div>
+              {missSuggestions.length > 0 && (
+                <>
+                  <div className="max-h-80 overflow-y-auto text-xs divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                    {missSuggestions.map(s => {
+                      const key = `${s.trigger_code}>${s.companion_code}`;
+                      return (
+                        <label key={key} className="px-3 py-1.5 flex items-center gap-3 cursor-pointer hover:bg-gray-50">
+                          <input type="checkbox" checked={missChecked.has(key)}
+                            onChange={() => setMissChecked(prev => { const next = new Set(prev); if (next.has(key)) next.delete(key); else next.add(key); return next; })}
+                            className="w-4 h-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500" />
+                          <span className="flex-1">{s.trigger_name} → <span className="font-bold">{s.companion_name}</span><span className="text-gray-400 ml-1">{s.companion_code}・{s.companion_points}点</span></span>
+                          <span className="text-gray-500">{s.support_count}/{s.trigger_count}件</span>
+                          <span className="font-bold text-sky-600 w-10 text-right">{Math.round(s.confidence * 100)}%</span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <div className="flex gap-2 mt-3">
+                    <button onClick={() => setMissChecked(new Set(missSuggestions.map(s => `${s.trigger_code}>${s.companion_code}`)))}
+                      className="bg-gray-100 text-gray-700 px-4 py-2.5 rounded-lg text-sm font-bold hover:bg-gray-200">すべて選択</button>
+                    <button onClick={adoptMissSuggestions} disabled={missLoading || missChecked.size === 0}
+                      className="flex-1 bg-sky-600 text-white py-2.5 rounded-lg text-sm font-bold hover:bg-sky-700 disabled:opacity-50">
+                      ✅ 選択した{missChecked.size}件をルールに登録
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
         {activeTab === "setup" && (
           <div className="space-y-6">
 
@@ -1107,6 +1658,22 @@ export default function SettingsPage() {
                   <div className="flex items-center justify-between mb-4">
                     <h2 className="text-lg font-bold text-gray-900">📋 レセプトデータ確認</h2>
                     <div className="flex gap-2 text-xs">
+                      {ukeFile && (
+                        <button
+                          onClick={async () => {
+                            // 様式第三の印刷用プレビューを別タブで開く
+                            const fd = new FormData();
+                            fd.append("file", ukeFile);
+                            const { data: { session: _sp } } = await supabase.auth.getSession();
+                            const res = await fetch("/api/receipt-preview", { method: "POST", body: fd, headers: { Authorization: `Bearer ${_sp?.access_token}` } });
+                            if (!res.ok) { const json = await res.json(); alert(`❌ ${json.error}`); return; }
+                            window.open(URL.createObjectURL(await res.blob()), "_blank");
+                          }}
+                          className="bg-white border border-gray-200 text-gray-600 px-2 py-1 rounded-full font-bold hover:bg-gray-50"
+                        >
+                          🖨 レセプトプレビュー
+                        </button>
+                      )}
                       <span className="bg-sky-100 text-sky-700 px-2 py-1 rounded-full font-bold">{ukeSummary.total_patients}名</span>
                       <span className="bg-emerald-100 text-emerald-700 px-2 py-1 rounded-full font-bold">{ukeGrouped.length}パターン検出</span>
                     </div>
@@ -1560,6 +2127,72 @@ export default function SettingsPage() {
               </div>
             )}
 
+            {/* ===== 過去UKEの移行取込 ===== */}
+            <div className="bg-white rounded-xl border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-1">
+                <h2 className="text-lg font-bold text-gray-900">🚚 過去UKEの移行取込</h2>
+                <button onClick={loadMigrationBatches} className="text-xs font-bold text-gray-500 border border-gray-200 px-3 py-1.5 rounded-lg hover:bg-gray-50">取込履歴</button>
+              </div>
+              <p className="text-xs text-gray-400 mb-4">
+                旧レセコンの1年分程度のUKEから、患者・保険・傷病名・来院履歴（会計・処置）を作成します。<br />
+                回数制限などの長期ルールが初月から判定できるようになります。既存患者とは氏名＋生年月日で照合し、会計がある月は取り込みません。
+              </p>
+              <div className="flex items-center gap-2 mb-3">
+                <label className="cursor-pointer flex-1">
+                  <span className="text-xs px-3 py-2 rounded-lg border border-gray-200 bg-gray-50 hover:bg-gray-100 block truncate text-gray-600">
+                    {migrationFiles.length > 0 ? `📂 ${migrationFiles.length}ファイル選択中（${migrationFiles.map(f => f.name).join(", ")}）` : "📂 UKEファイルを選択（複数可）"}
+                  </span>
+                  <input type="file" accept=".uke,.UKE" multiple className="hidden" onChange={e => { setMigrationFiles(Array.from(e.target.files || [])); setMigrationResult(null); e.target.value = ""; }} />
+                </label>
+                <button onClick={() => runUkeMigration(true)} disabled={migrationFiles.length === 0 || migrationRunning} className="text-xs font-bold px-4 py-2 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50">
+                  {migrationRunning ? "⏳ 処理中..." : "🔍 事前確認"}
+                </button>
+                <button onClick={() => runUkeMigration(false)} disabled={migrationFiles.length === 0 || migrationRunning || !migrationResult?.dryRun} className="text-xs font-bold px-4 py-2 rounded-lg bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-50">
+                  取り込む
+                </button>
+              </div>
+              {migrationMsg && <p className="text-xs text-gray-600 mb-3">{migrationMsg}</p>}
+              {migrationResult && (
+                <div className={`rounded-lg p-3 mb-3 text-xs ${migrationResult.dryRun ? "bg-gray-50" : "bg-emerald-50"}`}>
+                  <p className="font-bold text-gray-700 mb-2">{migrationResult.dryRun ? "🔍 事前確認（まだ保存していません）" : "✅ 取り込みました"}</p>
+                  <div className="grid grid-cols-4 gap-2 text-gray-600">
+                    <span>レセプト <strong>{migrationResult.summary.receipts}</strong></span>
+                    <span>既存患者 <strong>{migrationResult.summary.patients_matched}</strong></span>
+                    <span>新規患者 <strong>{migrationResult.summary.patients_created}</strong></span>
+                    <span>保険 <strong>{migrationResult.summary.insurances_created}</strong></span>
+                    <span>傷病名 <strong>{migrationResult.summary.diagnoses_created}</strong>（既存 {migrationResult.summary.diagnoses_existing}）</span>
+                    <span>来院 <strong>{migrationResult.summary.visits_created}</strong></span>
+                    <span>処置 <strong>{migrationResult.summary.procedures_created}</strong></span>
+                    <span>スキップ月 <strong>{migrationResult.summary.months_skipped}</strong></span>
+                  </div>
+                  {migrationResult.issues_total > 0 && (
+                    <div className="mt-2 max-h-40 overflow-y-auto space-y-0.5">
+                      <p className="font-bold text-amber-700">⚠️ 要確認 {migrationResult.issues_total}件{migrationResult.issues_total > migrationResult.issues.length && `（先頭${migrationResult.issues.length}件を表示）`}</p>
+                      {migrationResult.issues.map((is, i) => (
+                        <p key={i} className="text-gray-500">{is.file} #{is.receipt_no} {is.patient_name}（{is.shinryo_ym}）: {is.reason}</p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              {migrationBatches.length > 0 && (
+                <div className="space-y-1">
+                  {migrationBatches.map(b => (
+                    <div key={b.id} className="flex items-center gap-3 text-xs border border-gray-100 rounded-lg px-3 py-2">
+                      <span className="text-gray-500">{new Date(b.created_at).toLocaleString("ja-JP")}</span>
+                      <span className="flex-1 truncate text-gray-700">{b.source_files.join(", ")}</span>
+                      <span className="text-gray-400">患者{b.summary.patients_created} / 来院{b.summary.visits_created}</span>
+                      {b.status === "importing" && <span className="text-amber-600">取込未完了</span>}
+                      {b.status === "rolling_back" && <span className="text-amber-600">ロールバック未完了</span>}
+                      {b.status === "rolled_back"
+                        ? <span className="text-gray-400">ロールバック済</span>
+                        : <button onClick={() => rollbackMigration(b)} className="text-red-500 font-bold hover:underline">ロールバック</button>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
           </div>
         )}
       </main>
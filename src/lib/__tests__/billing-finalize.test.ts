@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "./helpers/fake-supabase";
+import { finalizeBilling } from "@/lib/billing-finalize";
+
+// 算定確定の途中失敗と取り消し
+function db() {
+  return createFakeSupabase({
+    medical_records: [{
+      id: "m1", patient_id: "p1", appointment_id: "a1", treatment_schedule: null,
+      structured_procedures: [{ id: "s1", tooth: "", category: "basic", procedure_name: "歯科初診料", fee_code: "301000110", points: 267 }],
+    }],
+    appointments: [{ id: "a1", status: "in_consultation", scheduled_at: "2025-06-10T01:30:00Z" }],
+    patients: [{ id: "p1", date_of_birth: "1980-05-10", current_tooth_chart: null }],
+    m_fees: [{ sub_code: "301000110", name: "歯科初診料", points: 267 }],
+  });
+}
+
+describe("finalizeBilling", () => {
+  it("確定すると会計と処置を1件ずつ作り、予約を完了にする", async () => {
+    const fake = db();
+    const result = await finalizeBilling(fake.client, { medical_record_id: "m1" });
+    expect(result).toMatchObject({ already_finalized: false, total_points: 267, procedure_count: 1 });
+    expect(fake.tables.billing).toHaveLength(1);
+    expect(fake.tables.appointments[0].status).toBe("completed");
+
+    const again = await finalizeBilling(fake.client, { medical_record_id: "m1" });
+    expect(again).toMatchObject({ already_finalized: true });
+    expect(fake.tables.billing).toHaveLength(1);
+  });
+
+  it("途中で失敗したら書き込みを取り消す", async () => {
+    const fake = db();
+    fake.failures.appointments = { update: "予約の更新エラー" };
+    await expect(finalizeBilling(fake.client, { medical_record_id: "m1" })).rejects.toThrow("元に戻しました");
+    expect(fake.tables.billing).toEqual([]);
+    expect(fake.tables.receipt_procedures).toEqual([]);
+  });
+
+  it("取り消しに失敗したら元に戻せなかった処理を返す", async () => {
+    const fake = db();
+    fake.failures.appointments = { update: "予約の更新エラー" };
+    fake.failures.receipt_procedures = { delete: "削除権限がありません" };
+    const error = await finalizeBilling(fake.client, { medical_record_id: "m1" }).catch((e: Error) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain("一部を元に戻せませんでした");
+    expect((error as Error).message).toContain("処置の削除（削除権限がありません）");
+    expect((error as Error).message).not.toContain("元に戻しました");
+  });
+
+  it("会計は最後に作るため、会計の作成で落ちたら再送で確定し直せる", async () => {
+    const fake = db();
+    fake.failures.billing = { insert: "接続が切れました" };
+    fake.failures.receipt_procedures = { delete: "接続が切れました" };
+    await expect(finalizeBilling(fake.client, { medical_record_id: "m1" })).rejects.toThrow("一部を元に戻せませんでした");
+    expect(fake.tables.billing).toEqual([]);
+    expect(fake.tables.receipt_procedures).toHaveLength(1);
+
+    delete fake.failures.billing;
+    delete fake.failures.receipt_procedures;
+    const retry = await finalizeBilling(fake.client, { medical_record_id: "m1" });
+    expect(retry).toMatchObject({ already_finalized: false, total_points: 267, procedure_count: 1 });
+    expect(fake.tables.billing).toHaveLength(1);
+    expect(fake.tables.receipt_procedures).toHaveLength(1);
+  });
+
+  it("同じカルテが先に確定されていたら、こちらの書き込みを取り消して先の会計を返す", async () => {
+    const fake = db();
+    fake.failures.billing = { insert: { message: "duplicate key", code: "23505" } };
+    // 既存会計の確認の後、処置を書き始めた時点で別の確定が会計を作ったことにする
+    const from = fake.client.from.bind(fake.client);
+    fake.client.from = ((table: string) => {
+      if (table === "receipt_procedures" && !fake.tables.billing?.length) fake.tables.billing = [{ id: "b-first", medical_record_id: "m1", total_points: 267 }];
+      return from(table);
+    }) as typeof fake.client.from;
+    const result = await finalizeBilling(fake.client, { medical_record_id: "m1" });
+    expect(result).toMatchObject({ billing_id: "b-first", already_finalized: true });
+    expect(fake.tables.receipt_procedures).toEqual([]);
+    expect(fake.tables.appointments[0].status).toBe("in_consultation");
+  });
+
+  it("算定日は確定した日ではなく来院日（JST）にする", async () => {
+    const fake = db();
+    await finalizeBilling(fake.client, { medical_record_id: "m1" });
+    expect(fake.tables.billing[0].created_at).toBe("2025-06-10T01:30:00Z");
+    expect(fake.tables.receipt_procedures[0].performed_at).toBe("2025-06-10T01:30:00Z");
+  });
+});
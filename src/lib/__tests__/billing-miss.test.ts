@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "./helpers/fake-supabase";
+import { seedStandardBillingMissRules } from "@/lib/billing-miss";
+
+function db() {
+  return createFakeSupabase({
+    m_fees: [
+      { sub_code: "309002110", name: "抜髄（単根管）", points: 234 },
+      { sub_code: "309002310", name: "抜髄（３根管以上）", points: 598 },
+      { sub_code: "305000110", name: "浸潤麻酔", points: 30 },
+      { sub_code: "310000110", name: "抜歯（乳歯）", points: 130 },
+      { sub_code: "310004410", name: "難抜歯加算", points: 230 },
+      { sub_code: "309008010", name: "根管充填（単根管）", points: 72 },
+      { sub_code: "309004010", name: "根管貼薬（単根管）", points: 34 },
+      { sub_code: "309009310", name: "スケーリング", points: 72 },
+      { sub_code: "302000110", name: "歯科疾患管理料", points: 100 },
+    ],
+  });
+}
+
+describe("seedStandardBillingMissRules", () => {
+  it("標準ルールを診療行為コードで登録し、必要な組み合わせは required にする", async () => {
+    const fake = db();
+    const { saved, unresolved } = await seedStandardBillingMissRules(fake.client);
+    const pairs = saved.map(r => `${r.trigger_code}>${r.companion_code}:${r.level}`).sort();
+    expect(pairs).toEqual([
+      "309002110>305000110:required",    // 抜髄 → 浸麻（根管数ごと）
+      "309002310>305000110:required",
+      "309008010>309004010:required",    // 根管充填 → 根管貼薬
+      "309009310>302000110:suggested",   // スケーリング → 歯科疾患管理料
+      "310000110>305000110:required",    // 抜歯 → 浸麻（加算は対象外）
+    ]);
+    expect(saved.every(r => r.source === "standard")).toBe(true);
+    expect(saved.find(r => r.trigger_code === "309008010")).toMatchObject({ scope: "same_month", trigger_name: "根管充填（単根管）", companion_name: "根管貼薬（単根管）" });
+    // この医院のマスタにないコードはコードと名称で返す
+    expect(unresolved).toContain("313024110 充填１（単純なもの）");
+    expect(unresolved).toContain("309004110 根管貼薬（２根管）");
+    expect(unresolved).not.toContain("305000110 浸潤麻酔");
+  });
+
+  it("2回目は登録済みの組み合わせを飛ばす", async () => {
+    const fake = db();
+    await seedStandardBillingMissRules(fake.client);
+    const { saved } = await seedStandardBillingMissRules(fake.client);
+    expect(saved).toEqual([]);
+    expect(fake.tables.m_billing_miss_rules).toHaveLength(5);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { isElderlyRecipient, isLateElderly, isPreschool, resolveBurdenRatio, resolveBurdenRatioForMonth } from "@/lib/burden-ratio";
+
+// 負担割合: 未就学2割 / 一般3割 / 高齢受給者2割（現役並み3割） / 後期高齢1割・2割・3割 / 自費10割
+describe("年齢区分の境界", () => {
+  const cases: [string, (dob: string, ref: string) => boolean, string, string, boolean][] = [
+    // 6歳に達する日以後の最初の3月31日まで
+    ["4月2日生まれは翌年3月31日まで未就学", isPreschool, "2019-04-02", "2026-03-31", true],
+    ["4月2日生まれの4月1日は就学", isPreschool, "2019-04-02", "2026-04-01", false],
+    ["4月1日生まれは6歳の3月31日まで", isPreschool, "2019-04-01", "2025-03-31", true],
+    ["4月1日生まれの6歳の4月1日は就学", isPreschool, "2019-04-01", "2025-04-01", false],
+    // 70歳に達する日の属する月の翌月1日から（1日生まれは誕生月から）
+    ["70歳到達月はまだ高齢受給者でない", isElderlyRecipient, "1955-06-15", "2025-06-30", false],
+    ["70歳到達月の翌月1日から高齢受給者", isElderlyRecipient, "1955-06-15", "2025-07-01", true],
+    ["1日生まれは誕生月の1日から", isElderlyRecipient, "1955-06-01", "2025-06-01", true],
+    ["区切りなしの日付も読む", isElderlyRecipient, "19550601", "20250601", true],
+    // 75歳の誕生日当日から
+    ["75歳の誕生日前日は後期高齢でない", isLateElderly, "1950-06-15", "2025-06-14", false],
+    ["75歳の誕生日当日から後期高齢", isLateElderly, "1950-06-15", "2025-06-15", true],
+    ["日付が読めなければ該当しない", isLateElderly, "", "2025-06-15", false],
+  ];
+
+  it.each(cases)("%s", (_label, judge, dob, ref, expected) => {
+    expect(judge(dob, ref)).toBe(expected);
+  });
+});
+
+describe("resolveBurdenRatio", () => {
+  const cases: [string, Parameters<typeof resolveBurdenRatio>, number, string, boolean][] = [
+    ["自費は10割", ["1980-05-10", "2025-06-10", "自費", null], 1.0, "自費", false],
+    ["未就学は2割", ["2020-08-01", "2025-06-10", "国保", null], 0.2, "未就学", false],
+    ["6〜69歳は3割", ["1980-05-10", "2025-06-10", "社保", null], 0.3, "一般", false],
+    ["生年月日未登録は3割", [null, "2025-06-10", "社保", null], 0.3, "一般", false],
+    ["高齢受給者一般は2割", ["1953-01-10", "2025-06-10", "国保", "general"], 0.2, "高齢受給者", false],
+    ["高齢受給者の低所得も2割", ["1953-01-10", "2025-06-10", "国保", "低所得"], 0.2, "高齢受給者", false],
+    ["高齢受給者の現役並みは3割", ["1953-01-10", "2025-06-10", "国保", "active"], 0.3, "高齢受給者", false],
+    ["後期高齢一般は1割", ["1945-01-10", "2025-06-10", "後期高齢", "general"], 0.1, "後期高齢", false],
+    ["後期高齢の一定以上所得は2割", ["1945-01-10", "2025-06-10", "後期高齢", "一定以上"], 0.2, "後期高齢", false],
+    ["後期高齢の現役並みは3割", ["1945-01-10", "2025-06-10", "後期高齢", "現役並み所得"], 0.3, "後期高齢", false],
+    ["障害認定の後期高齢（74歳以下）は保険種別を優先", ["1955-01-10", "2025-06-10", "後期高齢", null], 0.1, "後期高齢", false],
+    ["75歳到達で後期高齢になっていなければ不一致", ["1950-06-15", "2025-06-15", "社保", null], 0.1, "後期高齢", true],
+  ];
+
+  it.each(cases)("%s", (_label, args, ratio, category, mismatch) => {
+    expect(resolveBurdenRatio(...args)).toMatchObject({ ratio, category, insurance_type_mismatch: mismatch });
+  });
+});
+
+describe("resolveBurdenRatioForMonth", () => {
+  it("月の途中で75歳になれば誕生日を切替日として返す", () => {
+    const { start, end, changed_on } = resolveBurdenRatioForMonth("1950-06-15", "2025-06", "社保");
+    expect([start.ratio, end.ratio, changed_on]).toEqual([0.2, 0.1, "2025-06-15"]);
+  });
+
+  it("切り替わらない月は changed_on なし", () => {
+    expect(resolveBurdenRatioForMonth("1980-05-10", "2025-06", "社保").changed_on).toBeNull();
+    // 高齢受給者は月初から切り替わる
+    expect(resolveBurdenRatioForMonth("1955-06-15", "2025-07", "社保")).toMatchObject({ start: { ratio: 0.2 }, changed_on: null });
+  });
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { NextRequest } from "next/server";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fake-supabase";
+
+// 締め済み（locked_at あり）の会計をサーバー側の書き込みAPIが変更しないことを確認する
+const mock = vi.hoisted(() => ({ db: null as FakeSupabase | null }));
+vi.mock("@supabase/supabase-js", () => ({ createClient: () => mock.db!.client }));
+vi.mock("@/lib/api-auth", () => ({ verifyAuth: async () => ({ user: { id: "user-1" }, error: null }) }));
+
+import { POST as burdenCalculate } from "@/app/api/burden-calculate/route";
+import { POST as burdenRatioCheck } from "@/app/api/burden-ratio-check/route";
+import { POST as billingFinalize } from "@/app/api/billing-finalize/route";
+import { POST as billingPayment } from "@/app/api/billing-payment/route";
+import { findClosedSnapshots, saveMonthlyClose, type ClaimSnapshotInput } from "@/lib/claim-snapshots";
+
+function post(handler: (req: NextRequest) => Promise<Response>, body: Record<string, unknown>) {
+  const request = new Request("http://localhost/api/test", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: "Bearer test" },
+    body: JSON.stringify(body),
+  });
+  return handler(request as unknown as NextRequest);
+}
+
+const thisMonth = new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().substring(0, 7);
+
+function fixture(): Record<string, Record<string, unknown>[]> {
+  return {
+    billing: [
+      {
+        id: "b1", patient_id: "p1", medical_record_id: "m1", created_at: `${thisMonth}-02T10:00:00`,
+        total_points: 355, burden_ratio: 0.3, patient_burden: 0, payment_status: "unpaid", claim_snapshot_id: "s1", locked_at: `${thisMonth}-28T00:00:00`,
+      },
+    ],
+    patients: [
+      { id: "p1", date_of_birth: "1980-05-10", patient_insurances: [{ id: "i1", insurance_type: "社保", burden_ratio: 0.3, is_current: true }] },
+    ],
+    patient_insurances: [{ id: "i1", patient_id: "p1", insurance_type: "社保", burden_ratio: 0.3, is_current: true }],
+    medical_records: [{ id: "m2", patient_id: "p1", appointment_id: null, structured_procedures: [], treatment_schedule: null }],
+  };
+}
+
+describe("締め済みの会計のロック", () => {
+  beforeEach(() => {
+    mock.db = createFakeSupabase(fixture());
+  });
+
+  it("burden-calculate: 訂正理由がなければ 409 で更新しない", async () => {
+    const res = await post(burdenCalculate, { billing_id: "b1", apply: true });
+    expect(res.status).toBe(409);
+    expect((await res.json()).lock.snapshot_id).toBe("s1");
+    expect(mock.db!.tables.billing[0].patient_burden).toBe(0);
+  });
+
+  it("burden-calculate: 訂正理由があれば更新して訂正履歴を残す", async () => {
+    const res = await post(burdenCalculate, { billing_id: "b1", apply: true, correction_reason: "負担額の誤り" });
+    expect(res.status).toBe(200);
+    expect(mock.db!.tables.billing[0].patient_burden).toBe(1070);
+    expect(mock.db!.tables.claim_corrections).toMatchObject([
+      { snapshot_id: "s1", billing_id: "b1", target_table: "billing", action: "update", reason: "負担額の誤り" },
+    ]);
+  });
+
+  it("burden-calculate: apply なしの試算はロック中でも返す", async () => {
+    const res = await post(burdenCalculate, { billing_id: "b1" });
+    expect(res.status).toBe(200);
+    expect((await res.json()).result.patient_amount).toBe(1070);
+  });
+
+  it("burden-ratio-check: 締め済みの月以降に会計がある患者の負担割合は変えない", async () => {
+    const res = await post(burdenRatioCheck, { updates: [{ insurance_id: "i1", burden_ratio: 0.2 }], yearMonth: thisMonth });
+    expect(res.status).toBe(409);
+    expect(mock.db!.tables.patient_insurances[0].burden_ratio).toBe(0.3);
+  });
+
+  it("billing-finalize: 同じ月が締め済みなら会計を作らない", async () => {
+    const res = await post(billingFinalize, { medical_record_id: "m2" });
+    expect(res.status).toBe(409);
+    expect(mock.db!.tables.billing).toHaveLength(1);
+  });
+
+  it("billing-payment: 訂正理由がなければ 409 で精算済みにしない", async () => {
+    const res = await post(billingPayment, { billing_id: "b1" });
+    expect(res.status).toBe(409);
+    expect(mock.db!.tables.billing[0].payment_status).toBe("unpaid");
+  });
+
+  it("billing-payment: 訂正理由があれば精算済みにして訂正履歴を残す", async () => {
+    const res = await post(billingPayment, { billing_id: "b1", correction_reason: "窓口で精算済み" });
+    expect(res.status).toBe(200);
+    expect(mock.db!.tables.billing[0].payment_status).toBe("paid");
+    expect(mock.db!.tables.claim_corrections).toMatchObject([
+      { snapshot_id: "s1", billing_id: "b1", target_table: "billing", action: "update", reason: "窓口で精算済み" },
+    ]);
+  });
+});
+
+describe("月次締め（saveMonthlyClose）", () => {
+  const input = (destination: string, billingId: string): ClaimSnapshotInput => ({
+    snapshot: {
+      year_month: "202506", destination, file_name: `${destination}.UKE`, uke_base64: "", content_hash: "h",
+      receipt_count: 1, total_points: 100, validation_errors: 0, validation_warnings: 0, closed_by: "user-1",
+    },
+    receipts: [{ year_month: "202506", shinryo_ym: "202506", patient_id: "p1", billing_ids: [billingId], receipt_no: 1, content: "RE", content_hash: "h" }],
+  });
+
+  beforeEach(() => {
+    mock.db = createFakeSupabase({
+      billing: [
+        { id: "b1", claim_snapshot_id: null, locked_at: null },
+        { id: "b2", claim_snapshot_id: null, locked_at: null },
+      ],
+    });
+  });
+
+  it("送付先ごとに保存して会計をロックする", async () => {
+    const saved = await saveMonthlyClose(mock.db!.client, [input("shaho", "b1"), input("kokuho", "b2")]);
+    expect(saved.map(s => s.destination)).toEqual(["shaho", "kokuho"]);
+    expect(mock.db!.tables.billing.map(b => b.claim_snapshot_id)).toEqual(saved.map(s => s.id));
+    expect(mock.db!.tables.claim_snapshot_receipts).toHaveLength(2);
+  });
+
+  it("途中で失敗したら保存済みの締めを取り消し、締め直せる状態に戻す", async () => {
+    mock.db!.failures.claim_snapshot_receipts = { insert: "disk full" };
+    await expect(saveMonthlyClose(mock.db!.client, [input("shaho", "b1"), input("kokuho", "b2")]))
+      .rejects.toThrow("月次締めに失敗したため、保存した締めを取り消しました（レセプト内容の保存に失敗しました: disk full）");
+    expect(mock.db!.tables.claim_snapshots).toEqual([]);
+    expect(await findClosedSnapshots(mock.db!.client, "202506")).toEqual([]);
+    expect(mock.db!.tables.billing.every(b => b.locked_at === null)).toBe(true);
+  });
+
+  it("取り消せなかった処理はエラーに含める", async () => {
+    mock.db!.failures.billing = { update: "timeout" };
+    await expect(saveMonthlyClose(mock.db!.client, [input("shaho", "b1")]))
+      .rejects.toThrow("取り消せなかった処理: 会計のロック解除（timeout）");
+    expect(mock.db!.tables.claim_snapshots).toEqual([]);
+  });
+});
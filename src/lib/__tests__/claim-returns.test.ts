@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "./helpers/fake-supabase";
+import { matchClaimReturns, type ClaimReturnRow } from "@/lib/claim-returns";
+
+// 返戻・査定の行は、窓口の精算状態ではなく請求済み（claim_ym あり）の会計に結びつける
+const row: ClaimReturnRow = {
+  line: 1, shinryo_ym: "202505", patient_name: "山田　太郎", birth_date: "1980-05-10",
+  insurer_number: "06130012", insured_number: "3456", search_no: "", receipt_no: "1",
+  original_points: null, adjusted_points: null, items: [],
+};
+
+describe("matchClaimReturns", () => {
+  it("請求済みの会計は窓口未収でも対象にし、未請求の会計は含めない", async () => {
+    const { client } = createFakeSupabase({
+      patients: [{ id: "p1", name_kanji: "山田　太郎", name_kana: "ﾔﾏﾀﾞ ﾀﾛｳ", date_of_birth: "1980-05-10" }],
+      billing: [
+        { id: "b1", patient_id: "p1", total_points: 355, created_at: "2025-05-10T10:00:00", payment_status: "unpaid", claim_status: "claimed", claim_ym: "202506" },
+        { id: "b2", patient_id: "p1", total_points: 58, created_at: "2025-05-17T10:00:00", payment_status: "paid", claim_status: "paid", claim_ym: "202506" },
+        { id: "b3", patient_id: "p1", total_points: 58, created_at: "2025-05-24T10:00:00", payment_status: "paid", claim_status: "draft", claim_ym: null },
+        { id: "b4", patient_id: "p1", total_points: 58, created_at: "2025-06-03T10:00:00", payment_status: "paid", claim_status: "claimed", claim_ym: "202507" },
+      ],
+    });
+    const [match] = await matchClaimReturns(client, [row]);
+    expect(match).toMatchObject({ patient_id: "p1", match_status: "matched", billing_ids: ["b1", "b2"], billed_points: 413 });
+  });
+});
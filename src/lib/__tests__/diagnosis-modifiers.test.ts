@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  composeDiagnosisName,
+  decomposeDiagnosisName,
+  isSuspectedDiagnosis,
+  modifierCodesField,
+  parseModifierCodes,
+  type DiagnosisModifier,
+} from "@/lib/diagnosis-modifiers";
+
+// 傷病名 = 前置修飾語 + 基本傷病名 + 後置修飾語（HS の修飾語コード欄は4桁を連結）
+const MODIFIERS: DiagnosisModifier[] = [
+  { modifier_code: "2056", modifier_name: "急性", modifier_position: "prefix" },
+  { modifier_code: "2136", modifier_name: "急性化膿性", modifier_position: "prefix" },
+  { modifier_code: "3047", modifier_name: "慢性", modifier_position: "prefix" },
+  { modifier_code: "8002", modifier_name: "の疑い", modifier_position: "suffix" },
+];
+const BASE_NAMES = new Set(["歯髄炎", "化膿性歯髄炎", "歯周炎"]);
+const isBaseName = (name: string) => BASE_NAMES.has(name);
+
+describe("修飾語コード欄", () => {
+  it.each([
+    ["80021057", ["8002", "1057"]],
+    ["8002 1057", ["8002", "1057"]],
+    ["", []],
+    [null, []],
+  ])("%s → %o", (value, codes) => {
+    expect(parseModifierCodes(value)).toEqual(codes);
+  });
+
+  it("HS の修飾語コード欄は区切りなしで連結し、4桁でないものは出さない", () => {
+    expect(modifierCodesField(["2136", "8002"])).toBe("21368002");
+    expect(modifierCodesField(["2136", "80", "ABCD"])).toBe("2136");
+    expect(modifierCodesField([])).toBe("");
+  });
+
+  it("「の疑い」のコードがあれば疑い病名", () => {
+    expect(isSuspectedDiagnosis("21368002")).toBe(true);
+    expect(isSuspectedDiagnosis("2136")).toBe(false);
+    expect(isSuspectedDiagnosis(null)).toBe(false);
+  });
+});
+
+describe("composeDiagnosisName", () => {
+  const cases: [string, string, string[] | string | null, string][] = [
+    ["修飾語なし", "歯髄炎", null, "歯髄炎"],
+    ["前置と後置", "歯髄炎", ["2136", "8002"], "急性化膿性歯髄炎の疑い"],
+    ["コード欄の文字列も読む", "歯周炎", "30478002", "慢性歯周炎の疑い"],
+    ["後置を先に書いても前置は前", "歯周炎", ["8002", "3047"], "慢性歯周炎の疑い"],
+    ["マスタにないコードは無視", "歯周炎", ["9999", "3047"], "慢性歯周炎"],
+  ];
+
+  it.each(cases)("%s", (_label, base, codes, expected) => {
+    expect(composeDiagnosisName(base, codes, MODIFIERS)).toBe(expected);
+  });
+});
+
+describe("decomposeDiagnosisName", () => {
+  const cases: [string, string, { base_name: string; modifier_codes: string[] } | null][] = [
+    ["基本傷病名そのもの", "歯髄炎", { base_name: "歯髄炎", modifier_codes: [] }],
+    ["前置と後置を剥がす", "急性化膿性歯髄炎の疑い", { base_name: "歯髄炎", modifier_codes: ["2136", "8002"] }],
+    ["長い修飾語を先に試す", "急性化膿性歯髄炎", { base_name: "歯髄炎", modifier_codes: ["2136"] }],
+    ["後置だけ", "歯周炎の疑い", { base_name: "歯周炎", modifier_codes: ["8002"] }],
+    ["分解できなければ null", "顎関節症の疑い", null],
+  ];
+
+  it.each(cases)("%s: %s", (_label, name, expected) => {
+    expect(decomposeDiagnosisName(name, MODIFIERS, isBaseName)).toEqual(expected);
+  });
+
+  it("分解した結果を組み立て直すと元の傷病名になる", () => {
+    const { base_name, modifier_codes } = decomposeDiagnosisName("慢性歯周炎の疑い", MODIFIERS, isBaseName)!;
+    expect(composeDiagnosisName(base_name, modifierCodesField(modifier_codes), MODIFIERS)).toBe("慢性歯周炎の疑い");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { judgeDiagnosisOutcome, type DatedProcedure, type OutcomeJudgement } from "@/lib/diagnosis-outcomes";
+
+// 転帰の提案: 歯の治療完了 → 治癒 / 関連する処置が idleMonths 以上ない → 中止
+const YM = "202506";
+const VISITS = ["2025-06-17", "2025-06-10"];
+const proc = (date: string, fee_name: string, teeth: string[] = ["46"]): DatedProcedure => ({ date, fee_name, teeth });
+const diag = (diagnosis_name: string, tooth_number_display: string | null = "46", started_at = "2025-05-01") =>
+  ({ diagnosis_name, tooth_number_display, started_at });
+
+describe("judgeDiagnosisOutcome", () => {
+  const cases: [string, ReturnType<typeof diag>, DatedProcedure[], Partial<OutcomeJudgement> | null][] = [
+    ["歯髄炎は充填で治癒", diag("急性化膿性歯髄炎"), [proc("2025-06-10", "CR充填")],
+      { outcome: "cured", ended_at: "2025-06-10", reason: "2025-06-10 CR充填（歯髄炎・根尖性歯周炎の治療完了）" }],
+    ["根管充填は根治の途中なので治癒にしない", diag("急性化膿性歯髄炎"), [proc("2025-06-10", "根管充填（単根管）")], null],
+    ["う蝕は装着で治癒", diag("う蝕第２度"), [proc("2025-06-17", "インレー装着")], { outcome: "cured", ended_at: "2025-06-17" }],
+    ["略称（C2）もう蝕として判定", diag("C2"), [proc("2025-06-17", "CR充填")], { outcome: "cured" }],
+    ["智歯周囲炎は充填では治癒にしない", diag("智歯周囲炎", "38"), [proc("2025-06-10", "CR充填", ["38"])], null],
+    ["智歯周囲炎は抜歯で治癒", diag("智歯周囲炎", "38"), [proc("2025-06-10", "抜歯（臼歯）", ["38"])], { outcome: "cured", ended_at: "2025-06-10" }],
+    ["脱離は再装着で治癒", diag("インレー脱離"), [proc("2025-06-10", "装着")], { outcome: "cured" }],
+    ["歯周病は自動で治癒にしない", diag("歯周炎", "46-47"), [proc("2025-06-10", "スケーリング", ["46", "47"])], null],
+    ["別の歯の処置では治癒にしない", diag("歯髄炎"), [proc("2025-06-10", "CR充填", ["47"])], null],
+    ["部位のない傷病名は治癒にしない", diag("歯髄炎", null), [proc("2025-06-10", "CR充填")], null],
+    ["過去月に完了していれば当月の初回来院日で治癒", diag("歯髄炎"), [proc("2025-05-20", "CR充填")], { outcome: "cured", ended_at: "2025-06-10" }],
+    ["開始日より前の処置は見ない", diag("歯髄炎", "46", "2025-06-01"), [proc("2025-05-20", "CR充填")], null],
+    ["開始から3か月以上処置がなければ当月の最終来院日で中止", diag("歯髄炎", "46", "2025-01-10"), [],
+      { outcome: "suspended", ended_at: "2025-06-17", reason: "開始日 2025-01-10 以降に関連する処置なし（3か月以上）", last_related_at: null }],
+    ["最後の関連処置から3か月以上で中止", diag("歯髄炎", "46", "2025-01-10"), [proc("2025-02-20", "根管貼薬（単根管）")],
+      { outcome: "suspended", reason: "最終の関連処置 2025-02-20 から3か月以上処置なし", last_related_at: "2025-02-20" }],
+    ["3か月以内に関連処置があれば中止にしない", diag("歯髄炎", "46", "2025-01-10"), [proc("2025-03-05", "根管貼薬（単根管）")], null],
+  ];
+
+  it.each(cases)("%s", (_label, d, procedures, expected) => {
+    const judged = judgeDiagnosisOutcome(d, procedures, VISITS, YM, 3);
+    if (expected === null) expect(judged).toBeNull();
+    else expect(judged).toMatchObject(expected);
+  });
+
+  it("中止までの月数を変えられる", () => {
+    const d = diag("歯髄炎", "46", "2025-03-05");
+    expect(judgeDiagnosisOutcome(d, [], VISITS, YM, 3)).toBeNull();
+    expect(judgeDiagnosisOutcome(d, [], VISITS, YM, 2)).toMatchObject({ outcome: "suspended" });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import * as iconv from "iconv-lite";
+import { createFakeSupabase } from "./helpers/fake-supabase";
+import { addDays, importFeeMaster, loadFeeMaster, parseFeeMasterBuffer, ukeServiceDate, type FeeMasterRow } from "@/lib/fee-master";
+
+const row = (sub_code: string, name: string, points: number, change_kubun = "5"): FeeMasterRow => ({
+  line: 1, change_kubun, sub_code, name, point_kind: "3", points,
+});
+
+function db() {
+  return createFakeSupabase({
+    m_fees: [
+      { sub_code: "301000110", name: "歯科初診料", points: 264, shinryo_shikibetsu: "11" },
+      { sub_code: "301001610", name: "歯科再診料", points: 56, shinryo_shikibetsu: "12" },
+      { sub_code: "302000110", name: "旧管理料", points: 100, shinryo_shikibetsu: "13" },
+    ],
+  });
+}
+
+describe("importFeeMaster（初回インポート）", () => {
+  const rows = [
+    row("301000110", "歯科初診料", 267),
+    row("301001610", "歯科再診料", 56),
+    row("302000110", "旧管理料", 100, "9"),
+    row("309999910", "新設の処置", 50, "3"),
+  ];
+
+  it("施行日前の算定日は取込前の m_fees の点数で引ける", async () => {
+    const fake = db();
+    const summary = await importFeeMaster(fake.client, rows, "2024-06-01", { today: "2024-06-10" });
+    expect(summary).toMatchObject({ baseline: 3, inserted: 2, unchanged: 1, closed: 1, abolished: 1, current_updated: 2 });
+
+    const fees = await loadFeeMaster(fake.client, rows.map(r => r.sub_code));
+    expect(fees.resolve("301000110", "2024-05-31")?.points).toBe(264);
+    expect(fees.resolve("301000110", "2024-06-01")?.points).toBe(267);
+    expect(fees.resolve("301000110", "2024-05-31")?.shinryo_shikibetsu).toBe("11");
+    // 変更なしのコードは旧版がそのまま現行
+    expect(fees.resolve("301001610", "2020-01-01")?.points).toBe(56);
+    expect(fees.resolve("301001610", "2024-07-01")?.points).toBe(56);
+    // 廃止は施行日から引けない
+    expect(fees.resolve("302000110", "2024-05-31")?.points).toBe(100);
+    expect(fees.resolve("302000110", "2024-06-01")).toBeNull();
+    // 新設コードは施行日前には存在しない
+    expect(fees.resolve("309999910", "2024-05-31")).toBeNull();
+    expect(fees.resolve("309999910", "2024-06-01")?.points).toBe(50);
+  });
+
+  it("2回目のインポートでは旧版を作り直さない", async () => {
+    const fake = db();
+    await importFeeMaster(fake.client, rows, "2024-06-01", { today: "2024-06-10" });
+    const summary = await importFeeMaster(fake.client, [row("301000110", "歯科初診料", 270)], "2026-06-01", { today: "2026-06-10" });
+    expect(summary.baseline).toBe(0);
+    const fees = await loadFeeMaster(fake.client, ["301000110"]);
+    expect([fees.resolve("301000110", "2024-05-01")?.points, fees.resolve("301000110", "2025-01-01")?.points, fees.resolve("301000110", "2026-06-01")?.points])
+      .toEqual([264, 267, 270]);
+  });
+
+  it("m_fees の更新に失敗したらエラーにする", async () => {
+    const fake = db();
+    fake.failures.m_fees = { update: "permission denied" };
+    await expect(importFeeMaster(fake.client, rows, "2024-06-01", { today: "2024-06-10" })).rejects.toThrow("permission denied");
+  });
+});
+
+describe("ukeServiceDate", () => {
+  const cases: [string, string, string, string | null][] = [
+    ["算定日8桁はそのまま", "20250617", "202506", "2025-06-17"],
+    ["日だけの算定日は診療年月の日付", "17", "202506", "2025-06-17"],
+    ["和暦（令和）の診療年月", "5", "50706", "2025-06-05"],
+    ["和暦（平成）の診療年月", "", "43103", "2019-03-01"],
+    ["算定日がなければ月初", "", "202506", "2025-06-01"],
+    ["日として読めない算定日も月初", "45", "202506", "2025-06-01"],
+    ["診療年月が読めなければ null", "", "2025", null],
+    ["月が範囲外なら null", "", "202513", null],
+  ];
+
+  it.each(cases)("%s", (_label, santeiDate, ym, expected) => {
+    expect(ukeServiceDate(santeiDate, ym)).toBe(expected);
+  });
+});
+
+describe("addDays", () => {
+  it.each([
+    ["2024-05-31", 1, "2024-06-01"],
+    ["2024-06-01", -1, "2024-05-31"],
+    ["2024-02-28", 1, "2024-02-29"],
+    ["2024-12-31", 1, "2025-01-01"],
+  ])("%s + %i日 → %s", (date, days, expected) => {
+    expect(addDays(date, days)).toBe(expected);
+  });
+});
+
+describe("parseFeeMasterBuffer", () => {
+  const line = (cols: Record<number, string>) => Array.from({ length: 12 }, (_, i) => cols[i] ?? "").join(",");
+
+  it("Shift_JIS のCSVを列位置で読み、コード・点数が不正な行は理由付きで飛ばす", () => {
+    const text = [
+      line({ 0: "5", 1: "S", 2: "301000110", 4: "歯科初診料", 10: "3", 11: "267" }),
+      line({ 0: "", 1: "S", 2: "309002110", 4: "抜髄（単根管）", 10: "3", 11: "234" }),
+      "",
+      line({ 0: "3", 1: "S", 2: "30900", 4: "桁不足", 10: "3", 11: "10" }),
+      line({ 0: "3", 1: "S", 2: "309999910", 4: "点数なし", 10: "3", 11: "-" }),
+    ].join("\r\n");
+    const { rows, skipped } = parseFeeMasterBuffer(iconv.encode(text, "Shift_JIS"));
+    expect(rows).toEqual([
+      { line: 1, change_kubun: "5", sub_code: "301000110", name: "歯科初診料", point_kind: "3", points: 267 },
+      { line: 2, change_kubun: "0", sub_code: "309002110", name: "抜髄（単根管）", point_kind: "3", points: 234 },
+    ]);
+    expect(skipped).toEqual([
+      { line: 4, reason: "診療行為コードが9桁ではありません（30900）" },
+      { line: 5, reason: "点数が数値ではありません（309999910）" },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ============================================================
+// テスト用のインメモリ Supabase クライアント
+// from(table) のクエリビルダーのうち、このリポジトリで使うフィルタ（eq/in/gte/lte/is/not 等）と
+// insert/update/delete を配列に対して評価する。or() は "col.op.value" のカンマ区切り（is/eq/gte/lte/gt/lt）のみ
+// ============================================================
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+function orFilter(expr: string): Filter {
+  const conds: Filter[] = expr.split(",").map(part => {
+    const [col, op, ...rest] = part.split(".");
+    const v = rest.join(".");
+    const cell = (r: Row) => (r[col] ?? null);
+    switch (op) {
+      case "is": return r => cell(r) === (v === "null" ? null : v);
+      case "eq": return r => cell(r) !== null && String(cell(r)) === v;
+      case "gte": return r => cell(r) !== null && String(cell(r)) >= v;
+      case "lte": return r => cell(r) !== null && String(cell(r)) <= v;
+      case "gt": return r => cell(r) !== null && String(cell(r)) > v;
+      case "lt": return r => cell(r) !== null && String(cell(r)) < v;
+      default: return () => true;
+    }
+  });
+  return r => conds.some(c => c(r));
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  /** テーブルごとの書き込み失敗を指定する（例: { billing: { update: "boom" } } / { billing: { insert: { message, code: "23505" } } }） */
+  failures: Record<string, Partial<Record<"insert" | "update" | "delete", string | { message: string; code?: string }>>>;
+}
+
+let seq = 0;
+
+export function createFakeSupabase(initial: Record<string, Row[]> = {}): FakeSupabase {
+  const tables: Record<string, Row[]> = {};
+  for (const [name, rows] of Object.entries(initial)) tables[name] = rows.map(r => ({ ...r }));
+  const failures: FakeSupabase["failures"] = {};
+
+  const from = (table: string) => {
+    const filters: Filter[] = [];
+    let op: "select" | "insert" | "update" | "delete" = "select";
+    let payload: Row | Row[] | null = null;
+    let limitCount: number | null = null;
+    let offset = 0;
+    let mode: "many" | "single" | "maybe" = "many";
+    let returning = false;
+    const rowsOf = () => (tables[table] ||= []);
+
+    const exec = () => {
+      const failure = op !== "select" ? failures[table]?.[op] : undefined;
+      if (failure) return { data: null, error: typeof failure === "string" ? { message: failure } : failure };
+      let result: Row[];
+      if (op === "insert") {
+        const inserted = (Array.isArray(payload) ? payload : [payload!]).map(r => ({ id: `fake-${++seq}`, ...r }));
+        rowsOf().push(...inserted);
+        result = inserted;
+      } else if (op === "update") {
+        result = rowsOf().filter(r => filters.every(f => f(r)));
+        for (const r of result) Object.assign(r, payload);
+      } else if (op === "delete") {
+        result = rowsOf().filter(r => filters.every(f => f(r)));
+        tables[table] = rowsOf().filter(r => !result.includes(r));
+      } else {
+        result = rowsOf().filter(r => filters.every(f => f(r)));
+      }
+      if (limitCount !== null) result = result.slice(offset, offset + limitCount);
+      const data = op !== "select" && !returning ? null : result.map(r => ({ ...r }));
+      if (mode === "many") return { data, error: null };
+      if (mode === "single" && result.length !== 1) return { data: null, error: { message: `expected 1 row, got ${result.length}` } };
+      return { data: data?.[0] ?? null, error: null };
+    };
+
+    const builder = {
+      select() { if (op !== "select") returning = true; return builder; },
+      insert(values: Row | Row[]) { op = "insert"; payload = values; return builder; },
+      update(values: Row) { op = "update"; payload = values; return builder; },
+      delete() { op = "delete"; return builder; },
+      eq(col: string, v: unknown) { filters.push(r => r[col] === v); return builder; },
+      neq(col: string, v: unknown) { filters.push(r => r[col] !== v); return builder; },
+      in(col: string, vs: unknown[]) { filters.push(r => vs.includes(r[col])); return builder; },
+      gte(col: string, v: unknown) { filters.push(r => r[col] != null && String(r[col]) >= String(v)); return builder; },
+      lte(col: string, v: unknown) { filters.push(r => r[col] != null && String(r[col]) <= String(v)); return builder; },
+      gt(col: string, v: unknown) { filters.push(r => r[col] != null && String(r[col]) > String(v)); return builder; },
+      lt(col: string, v: unknown) { filters.push(r => r[col] != null && String(r[col]) < String(v)); return builder; },
+      is(col: string, v: unknown) { filters.push(r => (r[col] ?? null) === v); return builder; },
+      not(col: string, operator: string, v: unknown) {
+        if (operator === "is") filters.push(r => (r[col] ?? null) !== v);
+        return builder;
+      },
+      ilike(col: string, pattern: string) {
+        const re = new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/%/g, ".*")}$`, "i");
+        filters.push(r => re.test(String(r[col] ?? "")));
+        return builder;
+      },
+      or(expr: string) { filters.push(orFilter(expr)); return builder; },
+      order() { return builder; },
+      limit(n: number) { limitCount = n; return builder; },
+      range(from: number, to: number) { offset = from; limitCount = to - from + 1; return builder; },
+      single() { mode = "single"; return builder; },
+      maybeSingle() { mode = "maybe"; return builder; },
+      then<T>(resolve: (v: ReturnType<typeof exec>) => T, reject?: (e: unknown) => T) {
+        return Promise.resolve().then(exec).then(resolve, reject);
+      },
+    };
+    return builder;
+  };
+
+  const client = { from } as unknown as SupabaseClient;
+  return { client, tables, failures };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "./helpers/fake-supabase";
+import { reconcileClaims, reductionInsurerAmount } from "@/lib/insurer-payments";
+
+// 査定（増減点）が入金見込みに与える額は、点数×10円のうち窓口で払っていない分だけ
+describe("reductionInsurerAmount", () => {
+  it("3割負担なら減点の7割が入金から減る", () => {
+    expect(reductionInsurerAmount(-100, [{ total_points: 1000, patient_burden: 3000, burden_ratio: 0.3 }])).toBe(-700);
+  });
+
+  it("会計の負担割合で計算する（1割負担なら9割）", () => {
+    expect(reductionInsurerAmount(-100, [{ total_points: 1000, patient_burden: 1000, burden_ratio: 0.1 }])).toBe(-900);
+  });
+
+  it("公費が患者負担を肩代わりしていた分も入金から減る", () => {
+    // 公費で窓口負担0円 → 全額
+    expect(reductionInsurerAmount(-100, [{ total_points: 1000, patient_burden: 0, burden_ratio: 0.3 }])).toBe(-1000);
+    // 公費で窓口負担が1割分（1,000円）に減っている → 9割
+    expect(reductionInsurerAmount(-100, [{ total_points: 1000, patient_burden: 1000, burden_ratio: 0.3 }])).toBe(-900);
+  });
+
+  it("レセプト内の複数の会計は合算した窓口負担で見る", () => {
+    expect(reductionInsurerAmount(-50, [
+      { total_points: 600, patient_burden: 1800, burden_ratio: 0.3 },
+      { total_points: 400, patient_burden: 1200, burden_ratio: 0.3 },
+    ])).toBe(-350);
+  });
+});
+
+describe("reconcileClaims", () => {
+  it("入金見込みは請求額に保険者分の査定額を足したもの", async () => {
+    const { client } = createFakeSupabase({
+      billing: [
+        { id: "b1", patient_id: "p1", total_points: 1000, patient_burden: 3000, burden_ratio: 0.3, claim_status: "reduced", claim_ym: "202506" },
+        { id: "b2", patient_id: "p2", total_points: 500, patient_burden: 1500, burden_ratio: 0.3, claim_status: "claimed", claim_ym: "202506" },
+      ],
+      insurer_payments: [{ destination: "shaho", claim_ym: "202506", decided_amount: 9800, transfer_amount: 9800, paid_on: "2025-08-20" }],
+      claim_returns: [{ kind: "zougen", billing_ids: ["b1"], delta_points: -100 }],
+    });
+    const [row] = await reconcileClaims(client, ["202506"]);
+    expect(row).toMatchObject({
+      destination: "shaho",
+      claimed_amount: 10500,
+      reduced_amount: -700,
+      expected_amount: 9800,
+      difference: 0,
+      status: "matched",
+    });
+  });
+});
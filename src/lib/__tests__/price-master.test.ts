@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "./helpers/fake-supabase";
+import { importPriceMaster, loadPriceMaster, type PriceMasterRow } from "@/lib/price-master";
+
+const row = (code: string, name: string, unit_price: number, change_kubun = "5"): PriceMasterRow => ({
+  line: 1, change_kubun, code, name, unit: "個", unit_price, yj_code: "", dosage_form: "",
+});
+
+function db() {
+  return createFakeSupabase({
+    m_materials: [
+      { material_code: "700010000", name: "歯科用合着・接着材料Ⅰ", unit: "g", unit_price: 590 },
+      { material_code: "700020000", name: "CAD/CAM冠用材料", unit: "個", unit_price: 1800 },
+    ],
+  });
+}
+
+describe("importPriceMaster（初回インポート）", () => {
+  const rows = [
+    row("700010000", "歯科用合着・接着材料Ⅰ", 560),
+    row("700020000", "CAD/CAM冠用材料", 1800),
+    row("700030000", "新規材料", 120, "3"),
+  ];
+
+  it("上書き前の現行単価を施行日前日までの版として残す", async () => {
+    const fake = db();
+    const { summary, diff } = await importPriceMaster(fake.client, "material", rows, "2024-06-01", { today: "2024-06-10" });
+    expect(summary).toMatchObject({ baseline: 2, added: 1, changed: 1, unchanged: 1, current_updated: 2 });
+    expect(diff.changed).toEqual([{ code: "700010000", name: "歯科用合着・接着材料Ⅰ", old_price: 590, new_price: 560 }]);
+    expect(fake.tables.m_materials.find(m => m.material_code === "700010000")?.unit_price).toBe(560);
+
+    const prices = await loadPriceMaster(fake.client, "material", rows.map(r => r.code));
+    expect(prices.resolve("700010000", "2024-05-31")?.unit_price).toBe(590);
+    expect(prices.resolve("700010000", "2024-06-01")?.unit_price).toBe(560);
+    expect(prices.resolve("700020000", "2023-01-01")?.unit_price).toBe(1800);
+    expect(prices.resolve("700030000", "2024-05-31")).toBeNull();
+  });
+
+  it("試算（dry_run）でも現行単価との差分を出し、何も書き込まない", async () => {
+    const fake = db();
+    const { summary } = await importPriceMaster(fake.client, "material", rows, "2024-06-01", { dryRun: true });
+    expect(summary).toMatchObject({ baseline: 2, added: 1, changed: 1, unchanged: 1 });
+    expect(fake.tables.m_material_prices || []).toEqual([]);
+  });
+
+  it("現行キャッシュの更新に失敗したらエラーにする", async () => {
+    const fake = db();
+    fake.failures.m_materials = { insert: "duplicate key" };
+    await expect(importPriceMaster(fake.client, "material", rows, "2024-06-01", { today: "2024-06-10" })).rejects.toThrow("duplicate key");
+  });
+});
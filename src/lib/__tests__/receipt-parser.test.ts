@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import * as iconv from "iconv-lite";
+import { parseReceiptCSV, parsedUKEToReceiptFile, receiptFileToParsedUKE } from "@/lib/receipt-parser";
+import { parseUKEBuffer, parseUKEText } from "@/lib/uke-parser";
+import { emptySanteiDays } from "@/lib/santei-days";
+import type { ParsedUKE } from "@/types/uke";
+
+// 他社CSV ⇔ ParsedUKE の変換で落ちる項目・残る項目を固定する
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+const daysOf = (entries: Record<number, number>) => {
+  const days = emptySanteiDays();
+  for (const [day, count] of Object.entries(entries)) days[Number(day) - 1] = count;
+  return days;
+};
+
+// 比較に使う項目だけを取り出す
+function summarize(parsed: ParsedUKE) {
+  return {
+    uk: { clinic_code: parsed.uk?.clinic_code, clinic_name: parsed.uk?.clinic_name, shinryo_yearmonth: parsed.uk?.shinryo_yearmonth },
+    go: parsed.go,
+    patients: parsed.patients.map(p => ({
+      re: { receipt_no: p.re.receipt_no, receipt_type: p.re.receipt_type, shinryo_yearmonth: p.re.shinryo_yearmonth, patient_name: p.re.patient_name, sex: p.re.sex, date_of_birth: p.re.date_of_birth },
+      ho: p.ho.map(h => ({ insurer_no: h.insurer_no, insured_symbol: h.insured_symbol, insured_no: h.insured_no, total_points: h.total_points })),
+      ko: p.ko.map(k => ({ public_insurer_no: k.public_insurer_no, public_recipient_no: k.public_recipient_no })),
+      hs: p.hs.map(h => ({ tooth_code: h.tooth_code, diagnosis_code: h.diagnosis_code, diagnosis_name: h.diagnosis_name })),
+      ss: p.ss.map(s => ({
+        shinryo_shikibetsu: s.shinryo_shikibetsu, fee_code: s.fee_code, quantity: s.quantity, points: s.points, count: s.count,
+        comment_code_1: s.comment_code_1, santei_date: s.santei_date, santei_days: s.santei_days,
+      })),
+      co: p.co.map(c => ({ comment_code: c.comment_code, comment_text: c.comment_text })),
+    })),
+  };
+}
+
+describe("他社CSV → ParsedUKE → ReceiptFile", () => {
+  const text = fixture("vendor-receipt.csv");
+
+  it("患者・保険・診療行為・コメントを読む", () => {
+    const file = parseReceiptCSV(text);
+    expect(file).toMatchObject({ clinicCode: "3101471", clinicName: "テスト歯科医院", claimYearMonth: "202506", phone: "052-000-0000", totalReceipts: 2, totalPoints: 619 });
+    const [yamada, sato] = file.patients;
+    expect(yamada).toMatchObject({
+      receiptNo: 1, receiptType: "3112", name: "山田　太郎", nameKana: "ﾔﾏﾀﾞ ﾀﾛｳ", sex: "男", birthDate: "1980/05/10",
+      firstVisitDate: "2025/06/02", insurerNumber: "06130012", insuredSymbol: "12", insuredNumber: "3456", toothChart: "101100", totalPoints: 352,
+    });
+    expect(yamada.procedures.map(p => [p.code, p.points, p.count, p.details])).toEqual([
+      ["301001610", 58, 1, []],
+      ["309002110", 234, 1, ["CA001"]],
+      ["305000110", 30, 2, ["CB002", "CE003"]],
+    ]);
+    expect(yamada.comments).toEqual([{ code: "820100001", text: "RB使用" }]);
+    expect(sato).toMatchObject({ publicInsurer: "88230012", publicRecipient: "1234567", totalPoints: 267 });
+    expect(sato.returns).toEqual([{ yearMonth: "202505", reason: "SS点数誤り" }]);
+  });
+
+  it("算定日のない他社CSVは santei_days が31日すべて0になる", () => {
+    const parsed = receiptFileToParsedUKE(parseReceiptCSV(text));
+    const ss = parsed.patients[0].ss;
+    expect(ss.map(s => s.santei_days)).toEqual([emptySanteiDays(), emptySanteiDays(), emptySanteiDays()]);
+    expect(ss.map(s => s.santei_date)).toEqual(["", "", ""]);
+    expect(ss[2]).toMatchObject({ fee_code: "305000110", points: "30", count: "2", comment_code_1: "CB002", comment_code_2: "CE003" });
+    expect(parsed.patients[0].ho[0].insured_symbol).toBe("１２");
+    expect(parsed.patients[0].co[0].comment_text).toBe("ＲＢ使用");
+  });
+
+  it("往復すると元の ReceiptFile に戻る（カナ・初診日・歯式・返戻は UKE に持てない）", () => {
+    const file = parseReceiptCSV(text);
+    const back = parsedUKEToReceiptFile(receiptFileToParsedUKE(file));
+    expect(back).toEqual({
+      ...file,
+      patients: file.patients.map(p => ({ ...p, nameKana: "", firstVisitDate: "", toothChart: "", returns: [] })),
+    });
+  });
+
+  it("parseUKEBuffer は Shift_JIS の他社CSVを判定して同じ結果を返す", () => {
+    const parsed = parseUKEBuffer(iconv.encode(text, "Shift_JIS"));
+    expect(summarize(parsed)).toEqual(summarize(receiptFileToParsedUKE(parseReceiptCSV(text))));
+  });
+});
+
+describe("UKE → ReceiptFile → ParsedUKE", () => {
+  const parsed = parseUKEText(fixture("official.uke"));
+
+  it("SS の算定日情報を読む", () => {
+    expect(parsed.parse_errors).toEqual([]);
+    expect(parsed.patients[0].ss.map(s => [s.fee_code, s.santei_date, s.santei_days])).toEqual([
+      ["301001610", "10", daysOf({ 10: 1, 17: 1 })],
+      ["309002110", "10", daysOf({ 10: 1 })],
+      ["305000110", "10", daysOf({ 10: 2, 17: 1 })],
+    ]);
+  });
+
+  it("ReceiptFile の procedures に算定日と歯式が残る", () => {
+    const file = parsedUKEToReceiptFile(parsed);
+    const procedure = file.patients[0].procedures[2];
+    expect(procedure).toMatchObject({ code: "305000110", points: 30, count: 3, toothPositions: ["101100"] });
+    expect(procedure.santeiDays).toEqual(daysOf({ 10: 2, 17: 1 }));
+    expect(file.patients[0].totalPoints).toBe(440);
+    expect(file.patients[1]).toMatchObject({ publicInsurer: "88230012", totalPoints: 267 });
+  });
+
+  it("往復しても RE/HO/KO/HS/SS/CO の内容が変わらない", () => {
+    const roundTrip = receiptFileToParsedUKE(parsedUKEToReceiptFile(parsed));
+    expect(summarize(roundTrip)).toEqual(summarize(parsed));
+  });
+});
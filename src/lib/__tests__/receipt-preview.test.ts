@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { renderReceiptPreviewHtml } from "@/lib/receipt-preview";
+import { emptySanteiDays } from "@/lib/santei-days";
+import type { MatchedHS, MatchedPatientReceipt, MatchedSS, MatchedUKE } from "@/lib/uke-matcher";
+import type { HORecord, RERecord, UKRecord } from "@/types/uke";
+
+// 様式第三のプレビュー: 1患者1ページ・診療識別ごとの小計・請求点数と明細合計の照合
+const ss = (shinryo_shikibetsu: string, fee_code: string, procedure_name: string, points: number, days: number[], quantity = ""): MatchedSS => {
+  const santei_days = emptySanteiDays();
+  for (const d of days) santei_days[d - 1] += 1;
+  return {
+    shinryo_shikibetsu, futan_kubun: "", fee_code, procedure_name, points, quantity, count: String(days.length),
+    santei_date: "", santei_days, matched: true,
+  };
+};
+
+const hs = (tooth_code: string, diagnosis_name: string, matched = true): MatchedHS =>
+  ({ tooth_code, diagnosis_code: "5220004", diagnosis_name, modifier_codes: "", matched });
+
+const patient = (name: string, total: number, lines: MatchedSS[], diagnoses: MatchedHS[] = []): MatchedPatientReceipt => ({
+  re: { receipt_no: "1", receipt_type: "3112", shinryo_yearmonth: "202506", patient_name: name, sex: "1", date_of_birth: "19800510", benefit_ratio: "" } as RERecord,
+  ho: [{ insurer_no: "06130012", insured_symbol: "12", insured_no: "3456", visit_days: "2", total_points: String(total), burden_amount: "1240" } as HORecord],
+  sn: [], ko: [], jd: [], mf: [], co: [], iy: [], to: [],
+  hs: diagnoses,
+  ss: lines,
+});
+
+const matched = (patients: MatchedPatientReceipt[], unmatched: string[] = []): MatchedUKE => ({
+  patients,
+  unmatched_codes: { ss: unmatched, hs: [], iy: [], to: [] },
+  summary: { total_patients: patients.length, total_ss: 0, total_hs: 0, total_iy: 0, total_to: 0, unmatched_total: unmatched.length },
+});
+
+const text = (html: string) => html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ");
+
+describe("renderReceiptPreviewHtml", () => {
+  const YAMADA = patient("山田　太郎", 617, [
+    ss("40", "309002110", "抜髄（単根管）", 234, [10], "101100"),
+    ss("12", "301001610", "歯科再診料", 58, [10, 17]),
+    ss("11", "301000110", "歯科初診料", 267, [3]),
+  ], [hs("104600104700", "急性化膿性歯髄炎"), hs("101100", "未登録の病名", false)]);
+
+  it("表紙に集計、患者ごとに1ページ", () => {
+    const html = renderReceiptPreviewHtml(matched([YAMADA, patient("佐藤　花子", 267, [ss("11", "301000110", "歯科初診料", 267, [12])])]), {
+      uk: { clinic_name: "テスト歯科", clinic_code: "3101471" } as UKRecord,
+    });
+    expect(html.match(/<section class="page">/g)).toHaveLength(3);
+    const cover = text(html.substring(0, html.indexOf("山田")));
+    expect(cover).toContain("レセプト（様式第三）2025年6月");
+    expect(cover).toContain("医療機関 テスト歯科 医療機関コード 3101471");
+    expect(cover).toContain("件数 2件 合計点数 884点");
+    expect(cover).toContain("マスタ未照合 なし");
+  });
+
+  it("診療行為は診療識別順に並べて小計を付け、歯式・算定日を表示する", () => {
+    const body = text(renderReceiptPreviewHtml(matched([YAMADA])));
+    expect(body.indexOf("歯科初診料")).toBeLessThan(body.indexOf("歯科再診料"));
+    expect(body.indexOf("歯科再診料")).toBeLessThan(body.indexOf("抜髄（単根管）"));
+    expect(body).toContain("12 再診 歯科再診料 58 2 10日 17日 小計 116点");
+    expect(body).toContain("抜髄（単根管） 11 234 1 10日 小計 234点");
+    expect(body).toContain("生年月日 1980/05/10");
+    // 傷病名の部位は歯式で、マスタにない傷病名には印を付ける
+    expect(body).toContain("46・47 急性化膿性歯髄炎");
+    expect(body).toContain("⚠ 未登録の病名");
+  });
+
+  it("請求点数と明細の合計が合わなければ差を表示する", () => {
+    expect(text(renderReceiptPreviewHtml(matched([YAMADA])))).not.toContain("明細合計");
+    const short = { ...YAMADA, ho: [{ ...YAMADA.ho[0], total_points: "500" }] };
+    const body = text(renderReceiptPreviewHtml(matched([short], ["309999910"])));
+    expect(body).toContain("請求点数 500点 一部負担金 1240 明細合計 617点（差 -117）");
+    expect(body).toContain("マスタ未照合 309999910");
+  });
+
+  it("氏名・名称は HTML エスケープする", () => {
+    const html = renderReceiptPreviewHtml(matched([patient("<script>", 0, [])]));
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).not.toContain("<script>");
+    expect(text(html)).toContain("診療行為なし");
+  });
+});
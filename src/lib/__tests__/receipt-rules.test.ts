@@ -0,0 +1,374 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "./helpers/fake-supabase";
+import {
+  calcAge,
+  runReceiptRules,
+  type BillingMissRule,
+  type CalcRule,
+  type DiagReq,
+  type ReceiptContext,
+  type ReceiptDiagnosis,
+  type ReceiptProcedure,
+  type ReceiptRuleSet,
+  type ReceiptVisit,
+} from "@/lib/receipt-rules";
+import { calculateVisitPoints } from "@/lib/point-calculator";
+import type { FeeVersion } from "@/lib/fee-master";
+
+// 評価器ごとに「指摘なし」「指摘あり」の組を1つ以上置く（DBなし・ReceiptContext を直接組み立てる）
+const SERVICE_DATE = "2025-06-10";
+
+const proc = (fee_code: string, fee_name: string, extra: Partial<ReceiptProcedure> = {}): ReceiptProcedure => ({
+  id: `rp-${fee_code}`, medical_record_id: "m1", patient_id: "p1", fee_code, fee_name,
+  points: 100, count: 1, shinryo_shikibetsu: "40", futan_kubun: "", tooth_codes: null, ...extra,
+});
+
+const diag = (diagnosis_name: string, extra: Partial<ReceiptDiagnosis> = {}): ReceiptDiagnosis => ({
+  id: `d-${diagnosis_name}`, patient_id: "p1", diagnosis_code: "", diagnosis_name,
+  tooth_number_display: null, started_at: "2025-06-01", ended_at: null, outcome: null, ...extra,
+});
+
+const visit = (billing_id: string, created_at: string, procedures: ReceiptProcedure[], total_points = 355): ReceiptVisit => ({
+  billing_id, created_at, date: created_at.substring(0, 10), total_points, procedures,
+});
+
+const calcRule = (rule_type: string, target_code: string, extra: Partial<CalcRule> = {}): CalcRule => ({
+  id: `${rule_type}-${target_code}`, rule_type, target_code, condition_code: null, limit_count: null, limit_period: null,
+  age_min: null, age_max: null, description: null, ...extra,
+});
+
+const missRule = (trigger_code: string, companion_code: string, extra: Partial<BillingMissRule> = {}): BillingMissRule => ({
+  id: `${trigger_code}-${companion_code}`, trigger_code, trigger_category: null, trigger_name: null,
+  companion_code, companion_name: null, level: "required", scope: "same_day", tooth_condition: null,
+  age_min: null, age_max: null, message: null, source: "manual", support_count: null, confidence: null, is_active: true, ...extra,
+});
+
+const rules = (partial: Partial<ReceiptRuleSet> = {}): ReceiptRuleSet => ({
+  calculation_rules: [], diagnosis_requirements: [], billing_miss_rules: [], ...partial,
+});
+
+/** 6/10 の会計1件（355点・3割・¥1,070）。history は当該会計のみ */
+function context(procedures: ReceiptProcedure[], overrides: Partial<ReceiptContext> = {}): ReceiptContext {
+  const created_at = `${SERVICE_DATE}T10:00:00`;
+  return {
+    billing: {
+      id: "b1", patient_id: "p1", medical_record_id: "m1", total_points: 355, patient_burden: 1070, burden_ratio: 0.3,
+      ai_check_warnings: [], document_provided: false, created_at,
+    },
+    service_date: SERVICE_DATE,
+    patient: { id: "p1", name: "山田　太郎", date_of_birth: "1980-05-10" },
+    insurance: { insurance_type: "社保", burden_ratio: 0.3, is_current: true },
+    diagnoses: [diag("歯髄炎", { tooth_number_display: "11" })],
+    procedures,
+    history: [visit("b1", created_at, procedures)],
+    ...overrides,
+  };
+}
+
+const ruleIds = (ctx: ReceiptContext, ruleSet: ReceiptRuleSet, id: string) =>
+  runReceiptRules(ctx, ruleSet, { only: [id] }).map(f => f.rule_id);
+
+const PULPECTOMY = proc("309002110", "抜髄（単根管）", { points: 234, tooth_codes: "101100" });
+const ANESTHESIA = proc("305000110", "浸潤麻酔", { points: 30, shinryo_shikibetsu: "54", tooth_codes: "101100" });
+
+describe("basic（基本項目）", () => {
+  it("傷病名・処置・保険があれば指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY]), rules(), "basic")).toEqual([]);
+  });
+
+  it("傷病名がなく保険種別も未設定なら error", () => {
+    const ctx = context([PULPECTOMY], { diagnoses: [], insurance: null });
+    expect(ruleIds(ctx, rules(), "basic")).toEqual(["basic.diagnosis", "basic.insurance"]);
+  });
+});
+
+describe("burden（窓口負担）", () => {
+  it("計算どおりの負担額なら指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY]), rules(), "burden")).toEqual([]);
+  });
+
+  it("登録値が計算と違えば error", () => {
+    const ctx = context([PULPECTOMY]);
+    ctx.billing!.patient_burden = 1000;
+    const [f] = runReceiptRules(ctx, rules(), { only: ["burden"] });
+    expect(f).toMatchObject({ rule_id: "burden.amount", severity: "error" });
+    expect(f.message).toContain("¥1,070");
+  });
+});
+
+describe("h2-h4（加算の基本項目）", () => {
+  const ruleSet = rules({ calculation_rules: [calcRule("h2", "309002110", { condition_code: "305000110" })] });
+
+  it("基本項目を同時に算定していれば指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY, ANESTHESIA]), ruleSet, "h2-h4")).toEqual([]);
+  });
+
+  it("基本項目がなければ warning", () => {
+    const [f] = runReceiptRules(context([PULPECTOMY]), ruleSet, { only: ["h2-h4"] });
+    expect(f).toMatchObject({ rule_id: "h2-h4.base", severity: "warning", fee_codes: ["309002110", "305000110"] });
+  });
+});
+
+describe("h5（材料）", () => {
+  const ruleSet = rules({ calculation_rules: [calcRule("h5", "309002110")] });
+
+  it("特定器材（TO）があれば指摘なし", () => {
+    const material = proc("700010000", "歯科用合着材", { shinryo_shikibetsu: "TO" });
+    expect(ruleIds(context([PULPECTOMY, material]), ruleSet, "h5")).toEqual([]);
+  });
+
+  it("特定器材がなければ warning", () => {
+    expect(ruleIds(context([PULPECTOMY]), ruleSet, "h5")).toEqual(["h5.material"]);
+  });
+
+  it("器材コードの指定があれば別の器材では満たさず、処置ごとに指摘する", () => {
+    const CANAL = proc("309008010", "根管充填（単根管）", { points: 72 });
+    const specific = rules({ calculation_rules: [calcRule("h5", "309002110", { condition_code: "700020000" }), calcRule("h5", "309008010", { condition_code: "700030000" })] });
+    const other = proc("700010000", "歯科用合着材", { shinryo_shikibetsu: "TO" });
+    const findings = runReceiptRules(context([PULPECTOMY, CANAL, other]), specific, { only: ["h5"] });
+    expect(findings.map(f => f.fee_codes)).toEqual([["309002110", "700020000"], ["309008010", "700030000"]]);
+
+    const required = proc("700020000", "根管用器材", { shinryo_shikibetsu: "TO" });
+    expect(runReceiptRules(context([PULPECTOMY, CANAL, required]), specific, { only: ["h5"] }).map(f => f.fee_codes[0])).toEqual(["309008010"]);
+  });
+});
+
+describe("h6（算定回数制限）", () => {
+  const SCALING = proc("309009310", "スケーリング", { points: 72 });
+  const monthly = rules({ calculation_rules: [calcRule("h6", "309009310", { limit_count: 1, limit_period: "month" })] });
+
+  it("月1回までの項目を当月1回だけ算定したら指摘なし", () => {
+    const ctx = context([SCALING], { history: [visit("b0", "2025-05-20T10:00:00", [SCALING]), visit("b1", `${SERVICE_DATE}T10:00:00`, [SCALING])] });
+    expect(ruleIds(ctx, monthly, "h6")).toEqual([]);
+  });
+
+  it("同月の先行会計で算定済みなら超過した会計に error", () => {
+    const ctx = context([SCALING], { history: [visit("b0", "2025-06-03T10:00:00", [SCALING]), visit("b1", `${SERVICE_DATE}T10:00:00`, [SCALING])] });
+    const [f] = runReceiptRules(ctx, monthly, { only: ["h6"] });
+    expect(f).toMatchObject({ rule_id: "h6.frequency", severity: "error" });
+    expect(f.message).toContain("現在: 2回");
+  });
+
+  it("前回算定からの間隔が足りなければ error（足りていれば指摘なし）", () => {
+    const interval = rules({ calculation_rules: [calcRule("h6", "309009310", { limit_count: 1, limit_period: "interval_3months" })] });
+    const history = (prev: string) => [visit("b0", `${prev}T10:00:00`, [SCALING]), visit("b1", `${SERVICE_DATE}T10:00:00`, [SCALING])];
+    expect(ruleIds(context([SCALING], { history: history("2025-03-10") }), interval, "h6")).toEqual([]);
+    expect(ruleIds(context([SCALING], { history: history("2025-04-10") }), interval, "h6")).toEqual(["h6.interval"]);
+  });
+});
+
+describe("h7（きざみ点数）", () => {
+  const ruleSet = rules({ calculation_rules: [calcRule("h7", "309002110", { limit_count: 2 })] });
+
+  it("きざみ単位の倍数なら指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY]), ruleSet, "h7")).toEqual([]);
+  });
+
+  it("きざみ単位と合わなければ warning", () => {
+    expect(ruleIds(context([{ ...PULPECTOMY, points: 235 }]), ruleSet, "h7")).toEqual(["h7.increment"]);
+  });
+});
+
+describe("h8（年齢制限）", () => {
+  const FLUORIDE = proc("309013110", "フッ化物歯面塗布処置", { points: 110 });
+  const ruleSet = rules({ calculation_rules: [calcRule("h8", "309013110", { age_max: 15 })] });
+
+  it("対象年齢なら指摘なし", () => {
+    const ctx = context([FLUORIDE], { patient: { id: "p1", name: "佐藤　花子", date_of_birth: "2020-08-01" } });
+    expect(ruleIds(ctx, ruleSet, "h8")).toEqual([]);
+  });
+
+  it("上限を超えた年齢なら warning", () => {
+    const [f] = runReceiptRules(context([FLUORIDE]), ruleSet, { only: ["h8"] });
+    expect(f).toMatchObject({ rule_id: "h8.age_max", severity: "warning" });
+    expect(f.message).toContain("患者: 45歳");
+  });
+});
+
+describe("calcAge", () => {
+  it.each([
+    ["1980-06-10", "2025-06-10", 45],
+    ["1980-06-11", "2025-06-10", 44],
+    ["2000-02-29", "2025-02-28", 24],
+    ["2000-02-29", "2025-03-01", 25],
+    ["1980-06-10", "2025-06-10T00:30:00+09:00", 45],
+  ])("%s 生まれは %s に %i 歳", (dob, ref, age) => {
+    expect(calcAge(dob, ref)).toBe(age);
+  });
+
+  it("生年月日がなければ null", () => {
+    expect(calcAge(null, SERVICE_DATE)).toBeNull();
+  });
+});
+
+describe("h9（併算定不可）", () => {
+  const FIRST = proc("301000110", "歯科初診料", { points: 267, shinryo_shikibetsu: "11" });
+  const REVISIT = proc("301001610", "歯科再診料", { points: 58, shinryo_shikibetsu: "12" });
+  const ruleSet = rules({ calculation_rules: [calcRule("h9", "301000110", { condition_code: "301001610" })] });
+
+  it("片方だけなら指摘なし", () => {
+    expect(ruleIds(context([FIRST, PULPECTOMY]), ruleSet, "h9")).toEqual([]);
+  });
+
+  it("同日に両方あれば error", () => {
+    expect(ruleIds(context([FIRST, REVISIT]), ruleSet, "h9")).toEqual(["h9.same_day"]);
+  });
+
+  it("同月の別会計にあれば warning", () => {
+    const ctx = context([REVISIT], { history: [visit("b0", "2025-06-03T10:00:00", [FIRST]), visit("b1", `${SERVICE_DATE}T10:00:00`, [REVISIT])] });
+    expect(ruleIds(ctx, ruleSet, "h9")).toEqual(["h9.same_month"]);
+  });
+});
+
+describe("h10（実日数）", () => {
+  const REVISIT = proc("301001610", "歯科再診料", { points: 58, shinryo_shikibetsu: "12" });
+  const ruleSet = rules({ calculation_rules: [calcRule("h10", "301001610", { limit_count: 1 })] });
+
+  it("来院日数の範囲内なら指摘なし", () => {
+    const ctx = context([REVISIT], { history: [visit("b0", "2025-06-03T10:00:00", [REVISIT]), visit("b1", `${SERVICE_DATE}T10:00:00`, [REVISIT])] });
+    expect(ruleIds(ctx, ruleSet, "h10")).toEqual([]);
+  });
+
+  it("同じ日に2回算定して実日数を超えれば error", () => {
+    const ctx = context([REVISIT], { history: [visit("b0", `${SERVICE_DATE}T09:00:00`, [REVISIT]), visit("b1", `${SERVICE_DATE}T10:00:00`, [REVISIT])] });
+    const [f] = runReceiptRules(ctx, ruleSet, { only: ["h10"] });
+    expect(f).toMatchObject({ rule_id: "h10.jitsunissu", severity: "error" });
+    expect(f.message).toContain("実日数（1日）");
+  });
+});
+
+describe("fee_master（点数マスタ）", () => {
+  const version = (points: number): FeeVersion => ({
+    sub_code: "309002110", name: "抜髄（単根管）", points, point_kind: "3", shinryo_shikibetsu: "40", valid_from: "2024-06-01", valid_to: null,
+  });
+
+  it("算定日時点の版と点数が一致すれば指摘なし", () => {
+    const ctx = context([PULPECTOMY], { fee_master: { resolve: () => version(234) } });
+    expect(ruleIds(ctx, rules(), "fee_master")).toEqual([]);
+  });
+
+  it("点数が違う・版がない場合は warning", () => {
+    expect(ruleIds(context([PULPECTOMY], { fee_master: { resolve: () => version(230) } }), rules(), "fee_master")).toEqual(["fee_master.points"]);
+    expect(ruleIds(context([PULPECTOMY], { fee_master: { resolve: () => null } }), rules(), "fee_master")).toEqual(["fee_master.missing"]);
+  });
+});
+
+describe("diagnosis（傷病名要件）", () => {
+  const requirement: DiagReq = {
+    id: "r1", procedure_code_pattern: "3090021", required_diagnosis_keywords: ["歯髄炎"], required_icd_prefixes: [],
+    message: "抜髄には歯髄炎等の傷病名が必要です", error_level: "error", legal_basis: "療担規則",
+  };
+
+  it("必要な傷病名があれば指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY]), rules({ diagnosis_requirements: [requirement] }), "diagnosis")).toEqual([]);
+  });
+
+  it("傷病名がなければ error_level の重さで指摘する", () => {
+    const ctx = context([PULPECTOMY], { diagnoses: [diag("う蝕", { tooth_number_display: "11" })] });
+    const [f] = runReceiptRules(ctx, rules({ diagnosis_requirements: [requirement] }), { only: ["diagnosis"] });
+    expect(f).toMatchObject({ rule_id: "diagnosis.requirement", severity: "error", fee_codes: ["309002110"] });
+  });
+});
+
+describe("tooth（部位整合性）", () => {
+  it("処置の部位に有効な傷病名があれば指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY]), rules(), "tooth")).toEqual([]);
+  });
+
+  it("傷病名のない部位・変換できない歯式は指摘する", () => {
+    const ctx = context([{ ...PULPECTOMY, tooth_codes: "102600" }, { ...ANESTHESIA, tooth_codes: "1011" }]);
+    expect(ruleIds(ctx, rules(), "tooth")).toEqual(["tooth.diagnosis", "tooth.code"]);
+  });
+
+  it("成人の乳歯部位は warning", () => {
+    const ctx = context([{ ...PULPECTOMY, tooth_codes: "105100" }], { diagnoses: [diag("歯髄炎", { tooth_number_display: "51" })] });
+    expect(ruleIds(ctx, rules(), "tooth")).toEqual(["tooth.deciduous_diagnosis", "tooth.deciduous"]);
+  });
+
+  it("欠損歯への算定は error（当月に抜歯した歯は除く）", () => {
+    const chart = { "11": { status: "missing" } };
+    expect(ruleIds(context([PULPECTOMY], { tooth_chart: chart }), rules(), "tooth")).toEqual(["tooth.missing"]);
+
+    const extraction = proc("310000110", "抜歯（前歯）", { tooth_codes: "101100" });
+    const ctx = context([PULPECTOMY], {
+      tooth_chart: chart,
+      history: [visit("b0", "2025-06-03T10:00:00", [extraction]), visit("b1", `${SERVICE_DATE}T10:00:00`, [PULPECTOMY])],
+    });
+    expect(ruleIds(ctx, rules(), "tooth")).toEqual([]);
+  });
+});
+
+describe("ai（AI算定チェック）", () => {
+  it("警告がなければ指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY]), rules(), "ai")).toEqual([]);
+  });
+
+  it("警告を指摘にする（提供済みの管理計画書は除く）", () => {
+    const ctx = context([PULPECTOMY]);
+    ctx.billing!.ai_check_warnings = ["管理計画書の提供が必要です", "再診料の算定を確認してください"];
+    ctx.billing!.document_provided = true;
+    const findings = runReceiptRules(ctx, rules(), { only: ["ai"] });
+    expect(findings.map(f => f.message)).toEqual(["再診料の算定を確認してください"]);
+  });
+});
+
+describe("miss（算定漏れ）", () => {
+  const ruleSet = rules({ billing_miss_rules: [missRule("309002110", "305000110", { companion_name: "浸潤麻酔", tooth_condition: "same_tooth" })] });
+
+  it("同じ歯に同時算定していれば指摘なし", () => {
+    expect(ruleIds(context([PULPECTOMY, ANESTHESIA]), ruleSet, "miss")).toEqual([]);
+  });
+
+  it("同時算定がない歯を追加候補として返す", () => {
+    const ctx = context([PULPECTOMY, { ...ANESTHESIA, tooth_codes: "102100" }]);
+    const [f] = runReceiptRules(ctx, ruleSet, { only: ["miss"] });
+    expect(f).toMatchObject({
+      rule_id: "miss.309002110-305000110", severity: "warning",
+      add_procedure: { name: "浸潤麻酔", fee_code: "305000110", tooth: "11" },
+    });
+  });
+});
+
+// h11・h12 は指摘ではなく点数算定（point-calculator）で適用する
+describe("h11・h12（点数算定）", () => {
+  function db(calculation_rules: CalcRule[], date_of_birth = "2022-04-01") {
+    return createFakeSupabase({
+      m_calculation_rules: calculation_rules.map(r => ({ ...r, is_active: true })),
+      patients: [{ id: "p1", date_of_birth }],
+      m_fees: [
+        { sub_code: "309002110", name: "抜髄（単根管）", points: 234 },
+        { sub_code: "301000110", name: "歯科初診料", points: 267 },
+        { sub_code: "301000770", name: "乳幼児加算（初診）", points: 40 },
+      ],
+    });
+  }
+
+  it("h11: limit_count 回を超えた分だけ逓減する", async () => {
+    const rule = calcRule("h11", "309002110", { limit_count: 2, reduction_rate: 0.5 });
+    const within = await calculateVisitPoints(db([rule]).client, {
+      service_date: SERVICE_DATE, procedures: [{ procedure_name: "抜髄", fee_code: "309002110", count: 2 }],
+    });
+    expect(within.total_points).toBe(468);
+
+    const over = await calculateVisitPoints(db([rule]).client, {
+      service_date: SERVICE_DATE, procedures: [{ procedure_name: "抜髄", fee_code: "309002110", count: 3 }],
+    });
+    expect(over.total_points).toBe(468 + 117);
+    expect(over.items[0].notes.some(n => n.startsWith("逓減"))).toBe(true);
+  });
+
+  it("h12: 対象年齢の患者だけ年齢加算を付ける", async () => {
+    const rule = calcRule("h12", "301000110", { condition_code: "301000770", age_max: 5 });
+    const infant = await calculateVisitPoints(db([rule]).client, {
+      patient_id: "p1", service_date: SERVICE_DATE, procedures: [{ procedure_name: "歯科初診料", fee_code: "301000110" }],
+    });
+    expect(infant.items.map(i => [i.fee_code, i.source])).toEqual([["301000110", "master"], ["301000770", "age_addition"]]);
+    expect(infant.total_points).toBe(307);
+
+    const adult = await calculateVisitPoints(db([rule], "1980-05-10").client, {
+      patient_id: "p1", service_date: SERVICE_DATE, procedures: [{ procedure_name: "歯科初診料", fee_code: "301000110" }],
+    });
+    expect(adult.items.map(i => i.fee_code)).toEqual(["301000110"]);
+    expect(adult.total_points).toBe(267);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { resolveReceiptType, resolveRelationship, type ReceiptTypeInput } from "@/lib/receipt-type";
+
+// レセプト種別コード（4桁）: 点数表3 + 保険の種類 + 併用数 + 本人家族区分
+describe("resolveReceiptType", () => {
+  const cases: [string, ReceiptTypeInput, string][] = [
+    // 医保単独（社保・国保）
+    ["社保本人外来", { insuranceType: "社保", hasInsurer: true, relationship: "本人", publicCount: 0 }, "3112"],
+    ["社保家族外来", { insuranceType: "社保", hasInsurer: true, relationship: "家族", publicCount: 0 }, "3116"],
+    ["国保本人外来", { insuranceType: "国保", hasInsurer: true, relationship: "本人", publicCount: 0 }, "3112"],
+    ["未就学外来", { insuranceType: "国保", hasInsurer: true, relationship: "六歳未満", publicCount: 0 }, "3114"],
+    ["高齢受給者一般外来", { insuranceType: "国保", hasInsurer: true, relationship: "高齢受給者一般", publicCount: 0 }, "3118"],
+    ["高齢受給者7割外来", { insuranceType: "社保", hasInsurer: true, relationship: "高齢受給者7割", publicCount: 0 }, "3110"],
+    ["社保本人入院", { insuranceType: "社保", hasInsurer: true, relationship: "本人", publicCount: 0, inpatient: true }, "3111"],
+    ["社保家族入院", { insuranceType: "社保", hasInsurer: true, relationship: "家族", publicCount: 0, inpatient: true }, "3115"],
+    // 公費併用
+    ["本人+公費1種", { insuranceType: "社保", hasInsurer: true, relationship: "本人", publicCount: 1 }, "3122"],
+    ["家族+公費1種", { insuranceType: "国保", hasInsurer: true, relationship: "家族", publicCount: 1 }, "3126"],
+    ["未就学+公費2種", { insuranceType: "国保", hasInsurer: true, relationship: "六歳未満", publicCount: 2 }, "3134"],
+    ["本人+公費4種は5併", { insuranceType: "社保", hasInsurer: true, relationship: "本人", publicCount: 4 }, "3152"],
+    ["公費は4件までで打ち切り", { insuranceType: "社保", hasInsurer: true, relationship: "本人", publicCount: 6 }, "3152"],
+    // 後期高齢者
+    ["後期一般外来", { insuranceType: "後期高齢", hasInsurer: true, relationship: "高齢受給者一般", publicCount: 0 }, "3318"],
+    ["後期7割外来", { insuranceType: "後期高齢", hasInsurer: true, relationship: "高齢受給者7割", publicCount: 0 }, "3310"],
+    ["後期一般+公費1種", { insuranceType: "後期高齢", hasInsurer: true, relationship: "高齢受給者一般", publicCount: 1 }, "3328"],
+    // 公費単独
+    ["公費単独", { insuranceType: null, hasInsurer: false, relationship: "本人", publicCount: 1 }, "3212"],
+    ["公費単独の家族は本人扱い", { insuranceType: null, hasInsurer: false, relationship: "家族", publicCount: 1 }, "3212"],
+    ["公費単独の未就学は区分を維持", { insuranceType: null, hasInsurer: false, relationship: "六歳未満", publicCount: 1 }, "3214"],
+    ["公費2種併用（保険なし）", { insuranceType: null, hasInsurer: false, relationship: "本人", publicCount: 2 }, "3222"],
+    ["保険者番号も公費もなければ医保単独", { insuranceType: "社保", hasInsurer: false, relationship: "本人", publicCount: 0 }, "3112"],
+  ];
+
+  it.each(cases)("%s → %s", (_label, input, expected) => {
+    expect(resolveReceiptType(input)).toBe(expected);
+  });
+});
+
+describe("resolveRelationship", () => {
+  const cases: [string, Parameters<typeof resolveRelationship>, string][] = [
+    ["続柄なしは本人", [null, "1980-05-10", "2025-06-30", "社保", 0.3], "本人"],
+    ["family は家族", ["family", "1980-05-10", "2025-06-30", "社保", 0.3], "家族"],
+    ["「家族」表記も家族", ["家族", "1980-05-10", "2025-06-30", "国保", 0.3], "家族"],
+    ["後期高齢1割は高齢受給者一般", ["self", "1945-01-10", "2025-06-30", "後期高齢", 0.1], "高齢受給者一般"],
+    ["後期高齢3割は高齢受給者7割", ["self", "1945-01-10", "2025-06-30", "後期高齢", 0.3], "高齢受給者7割"],
+    ["負担割合未登録の高齢者は一般", ["self", "1945-01-10", "2025-06-30", "後期高齢", null], "高齢受給者一般"],
+    // 70歳到達月の翌月1日から高齢受給者（1日生まれは誕生月から）
+    ["70歳到達月はまだ本人", [null, "1955-06-15", "2025-06-30", "社保", 0.2], "本人"],
+    ["70歳到達月の翌月から高齢受給者", [null, "1955-06-15", "2025-07-01", "社保", 0.2], "高齢受給者一般"],
+    ["1日生まれは誕生月から高齢受給者", [null, "1955-06-01", "2025-06-01", "国保", 0.3], "高齢受給者7割"],
+    ["高齢受給者は家族でも高齢区分", ["family", "1955-06-15", "2025-07-01", "社保", 0.2], "高齢受給者一般"],
+    // 6歳到達後の最初の3月31日まで未就学
+    ["6歳到達年度末までは六歳未満", ["family", "2019-04-02", "2026-03-31", "社保", 0.2], "六歳未満"],
+    ["年度が替われば家族", ["family", "2019-04-02", "2026-04-01", "社保", 0.3], "家族"],
+    ["4月1日生まれは前年度末で就学", ["family", "2019-04-01", "2025-04-01", "社保", 0.3], "家族"],
+    ["生年月日なしは続柄のまま", ["family", null, "2025-04-01", "社保", 0.3], "家族"],
+  ];
+
+  it.each(cases)("%s", (_label, args, expected) => {
+    expect(resolveRelationship(...args)).toBe(expected);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { decodeSanteiDays, emptySanteiDays, encodeSanteiDays, jstDayOfMonth, santeiDates, santeiDaysLabel } from "@/lib/santei-days";
+
+// 算定日情報（SS/IY/TO の「1日の情報」〜「31日の情報」）
+const daysOf = (entries: Record<number, number>) => {
+  const days = emptySanteiDays();
+  for (const [day, count] of Object.entries(entries)) days[Number(day) - 1] = count;
+  return days;
+};
+
+describe("encodeSanteiDays / decodeSanteiDays", () => {
+  it("31項目に書いて読み戻すと同じ回数になる", () => {
+    const days = daysOf({ 1: 1, 10: 2, 31: 1 });
+    const encoded = encodeSanteiDays(days);
+    expect(encoded.split(",")).toHaveLength(31);
+    expect(encoded.startsWith("1,,,,,,,,,2,")).toBe(true);
+    const fields = ["SS", "1", "", ...encoded.split(",")];
+    expect(decodeSanteiDays(fields, 3)).toEqual({ santei_date: "1", santei_days: days });
+  });
+
+  it("回数0の日は空欄、全日0なら算定日なし", () => {
+    expect(encodeSanteiDays(emptySanteiDays())).toBe(",".repeat(30));
+    expect(decodeSanteiDays(["SS", ...encodeSanteiDays(emptySanteiDays()).split(",")], 1)).toEqual({ santei_date: "", santei_days: emptySanteiDays() });
+  });
+
+  it("旧形式（算定日1項目・YYYYMMDD）はその日に1回", () => {
+    expect(decodeSanteiDays(["SS", "20250617"], 1)).toEqual({ santei_date: "20250617", santei_days: daysOf({ 17: 1 }) });
+  });
+});
+
+describe("santeiDates / santeiDaysLabel", () => {
+  it("診療年月（西暦・和暦）から日付に戻し、月末を超える日は捨てる", () => {
+    const days = daysOf({ 3: 1, 28: 2, 30: 1 });
+    expect(santeiDates(days, "202502")).toEqual([
+      { date: "2025-02-03", count: 1 },
+      { date: "2025-02-28", count: 2 },
+    ]);
+    expect(santeiDates(daysOf({ 5: 1 }), "50706")).toEqual([{ date: "2025-06-05", count: 1 }]);
+    expect(santeiDates(undefined, "202506")).toEqual([]);
+  });
+
+  it("表示は「日」と回数", () => {
+    expect(santeiDaysLabel(daysOf({ 3: 1, 10: 2 }))).toBe("3日 10日×2");
+    expect(santeiDaysLabel(undefined)).toBe("");
+  });
+});
+
+describe("jstDayOfMonth", () => {
+  it("UTCで前日の早朝来院は JST の日付になる", () => {
+    expect(jstDayOfMonth("2025-06-16T23:30:00Z")).toBe(17);
+    expect(jstDayOfMonth("2025-05-31T15:00:00+00:00")).toBe(1);
+    expect(jstDayOfMonth("2025-06-17T14:59:59Z")).toBe(17);
+  });
+});
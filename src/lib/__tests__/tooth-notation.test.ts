@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALL_TEETH,
+  UPPER_TEETH,
+  expandToothRange,
+  formatTeeth,
+  fromUkeToothCode,
+  parseToothNotation,
+  parseUkeToothCodes,
+  toUkeToothCode,
+  toothLabelJa,
+  toothLabelPalmer,
+  toothRef,
+  type ToothRef,
+} from "@/lib/tooth-notation";
+
+// 歯式: FDI ⇔ UKE 6桁歯式コード（区分2桁 + FDI2桁 + 状態2桁）・表示・自由記述のパース
+const plain = (...fdi: string[]) => fdi.map(t => toothRef(t));
+
+describe("toUkeToothCode / fromUkeToothCode", () => {
+  const cases: [string, ToothRef, string][] = [
+    ["通常", toothRef("46"), "104600"],
+    ["部分", toothRef("46", "partial"), "104601"],
+    ["支台", toothRef("47", "abutment"), "104702"],
+    ["ポンティック", toothRef("46", "pontic"), "104603"],
+    ["過剰歯", toothRef("11", "normal", true), "111100"],
+    ["乳歯", toothRef("55"), "105500"],
+  ];
+
+  it.each(cases)("%s: %o ⇔ %s", (_label, ref, code) => {
+    expect(toUkeToothCode(ref)).toBe(code);
+    expect(fromUkeToothCode(code)).toEqual(ref);
+  });
+
+  it("m_tooth_chart の対応があれば通常状態の歯に使う", () => {
+    const codeByFdi = new Map([["46", "104699"]]);
+    expect(toUkeToothCode("#46", codeByFdi)).toBe("104699");
+    expect(toUkeToothCode(toothRef("46", "pontic"), codeByFdi)).toBe("104603");
+  });
+
+  it("読めないコードは null", () => {
+    expect(fromUkeToothCode("109900")).toBeNull();
+    expect(fromUkeToothCode("104609")).toBeNull();
+  });
+});
+
+describe("parseUkeToothCodes", () => {
+  it("連結・区切り・FDI2桁をまとめて読み、読めないものは unknown に返す", () => {
+    expect(parseUkeToothCodes("104600104702 #11,1234")).toEqual({
+      teeth: [toothRef("46"), toothRef("47", "abutment"), toothRef("11")],
+      unknown: ["1234"],
+    });
+  });
+});
+
+describe("表示", () => {
+  it.each([
+    ["46", "右下6番", "6┐"],
+    ["16", "右上6番", "6┘"],
+    ["36", "左下6番", "┌6"],
+    ["61", "左上A", "└A"],
+    ["55", "右上E", "E┘"],
+  ])("%s → %s / %s", (fdi, ja, palmer) => {
+    expect(toothLabelJa(fdi)).toBe(ja);
+    expect(toothLabelPalmer(fdi)).toBe(palmer);
+  });
+
+  it("状態・過剰歯を付記する", () => {
+    expect(toothLabelJa(toothRef("47", "abutment"))).toBe("右下7番（支台）");
+    expect(toothLabelJa(toothRef("11", "normal", true))).toBe("右上1番過剰歯");
+  });
+
+  it("全顎はまとめ、残りは1歯ずつ並べる", () => {
+    expect(formatTeeth(ALL_TEETH)).toBe("全顎");
+    expect(formatTeeth([...UPPER_TEETH, "46"])).toBe("上顎全顎・46");
+    expect(formatTeeth([toothRef("46"), toothRef("47", "abutment")], "ja")).toBe("右下6番・右下7番（支台）");
+    expect(formatTeeth([toothRef("46"), toothRef("47", "abutment")])).toBe("46・47(支台)");
+  });
+});
+
+describe("expandToothRange", () => {
+  it.each([
+    ["13", "23", ["13", "12", "11", "21", "22", "23"]],
+    ["23", "13", ["23", "22", "21", "11", "12", "13"]],
+    ["45", "47", ["45", "46", "47"]],
+    ["55", "53", ["55", "54", "53"]],
+    ["46", "26", []],
+  ])("%s-%s", (from, to, expected) => {
+    expect(expandToothRange(from, to)).toEqual(expected);
+  });
+});
+
+describe("parseToothNotation", () => {
+  const cases: [string, string, ToothRef[], string[]][] = [
+    ["FDI・#付き・全角", "#46, ４７", plain("46", "47"), []],
+    ["日本語・Palmer", "右上6番 ┌6 右上E", plain("16", "36", "55"), []],
+    ["範囲", "13～23", plain("13", "12", "11", "21", "22", "23"), []],
+    ["2歯のブリッジは両端とも支台", "46-47Br", [toothRef("46", "abutment"), toothRef("47", "abutment")], []],
+    ["間の歯はポンティック", "45～47Br", [toothRef("45", "abutment"), toothRef("46", "pontic"), toothRef("47", "abutment")], []],
+    ["6桁歯式コード", "104602104603", [toothRef("46", "abutment"), toothRef("46", "pontic")], []],
+    ["顎をまたぐ範囲は読めない", "46-26", [], ["46-26"]],
+    ["歯式でない語", "46 奥", plain("46"), ["奥"]],
+  ];
+
+  it.each(cases)("%s: %s", (_label, text, teeth, unknown) => {
+    expect(parseToothNotation(text)).toEqual({ teeth, unknown });
+  });
+
+  it("上顎全顎は上顎16歯", () => {
+    expect(parseToothNotation("上顎全顎").teeth.map(t => t.fdi)).toEqual(UPPER_TEETH);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { diffUKE } from "@/lib/uke-diff";
+import { emptySanteiDays } from "@/lib/santei-days";
+import type { MatchedPatientReceipt, MatchedSS, MatchedUKE } from "@/lib/uke-matcher";
+import type { HORecord, RERecord } from "@/types/uke";
+
+// 患者は 氏名＋生年月日＋保険者番号（だめなら 氏名＋生年月日）で対応付け、明細は並び順を無視して比べる
+const ss = (fee_code: string, points: number, day: number, extra: Partial<MatchedSS> = {}): MatchedSS => {
+  const santei_days = emptySanteiDays();
+  santei_days[day - 1] = 1;
+  return {
+    shinryo_shikibetsu: "40", futan_kubun: "", fee_code, procedure_name: fee_code, points, quantity: "", count: "1",
+    santei_date: String(day), santei_days, matched: true, ...extra,
+  };
+};
+
+const patient = (name: string, insurer_no: string, total: number, lines: MatchedSS[], receipt_no = "1"): MatchedPatientReceipt => ({
+  re: { receipt_no, patient_name: name, date_of_birth: "19800510" } as RERecord,
+  ho: [{ insurer_no, total_points: String(total) } as HORecord],
+  sn: [], ko: [], jd: [], mf: [], co: [], hs: [], iy: [], to: [],
+  ss: lines,
+});
+
+const uke = (...patients: MatchedPatientReceipt[]) => ({ patients } as MatchedUKE);
+
+const FIRST = ss("301000110", 267, 10, { shinryo_shikibetsu: "11" });
+const PULP = ss("309002110", 234, 10);
+const PULP_17 = ss("309002110", 234, 17);
+
+describe("diffUKE", () => {
+  it("並び順・氏名の空白の違いは差分にしない", () => {
+    const diff = diffUKE(
+      uke(patient("山田　太郎", "06130012", 501, [FIRST, PULP])),
+      uke(patient("山田 太郎", "06130012", 501, [PULP, FIRST])),
+    );
+    expect(diff.summary).toMatchObject({ paired: 1, differing: 0, only_left: 0, only_right: 0, points_delta: 0 });
+    expect(diff.patients).toEqual([]);
+  });
+
+  it("保険者番号だけが違う患者は 氏名＋生年月日 で対応付けて insurer_changed を立てる", () => {
+    const diff = diffUKE(
+      uke(patient("山田　太郎", "06130012", 501, [FIRST, PULP])),
+      uke(patient("山田　太郎", "01130012", 501, [FIRST, PULP])),
+    );
+    expect(diff.patients).toMatchObject([{ insurer_changed: true, only_left: [], only_right: [], points_delta: 0 }]);
+  });
+
+  it("同じ行の回数違い・算定日違いは多重集合の差として出す", () => {
+    const diff = diffUKE(
+      uke(patient("山田　太郎", "06130012", 735, [FIRST, PULP, PULP])),
+      uke(patient("山田　太郎", "06130012", 735, [FIRST, PULP, PULP_17])),
+    );
+    const [p] = diff.patients;
+    expect(p.only_left.map(l => [l.record, l.detail, l.points])).toEqual([["SS", "識別 40 / 1回 / 算定日 10日", 234]]);
+    expect(p.only_right.map(l => l.detail)).toEqual(["識別 40 / 1回 / 算定日 17日"]);
+    expect(p.points_delta).toBe(0);
+  });
+
+  it("片方にしかない患者は only_left / only_right、差分のある患者は点数差の大きい順", () => {
+    const diff = diffUKE(
+      uke(
+        patient("山田　太郎", "06130012", 501, [FIRST, PULP], "1"),
+        patient("佐藤　花子", "06130012", 267, [FIRST], "2"),
+        patient("鈴木　一郎", "06130012", 267, [FIRST], "3"),
+      ),
+      uke(
+        patient("山田　太郎", "06130012", 267, [FIRST], "1"),
+        patient("佐藤　花子", "06130012", 501, [FIRST, PULP_17], "2"),
+        patient("田中　次郎", "06130012", 58, [ss("301001610", 58, 17, { shinryo_shikibetsu: "12" })], "3"),
+      ),
+    );
+    expect(diff.summary).toEqual({
+      left_patients: 3, right_patients: 3, paired: 2, differing: 2, only_left: 1, only_right: 1,
+      left_points: 1035, right_points: 826, points_delta: -209,
+    });
+    expect(diff.only_left.map(p => p.name)).toEqual(["鈴木　一郎"]);
+    expect(diff.only_right.map(p => p.name)).toEqual(["田中　次郎"]);
+    expect(diff.patients.map(p => [p.left.name, p.points_delta])).toEqual([["山田　太郎", -234], ["佐藤　花子", 234]]);
+  });
+});
@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { NextRequest } from "next/server";
+import * as iconv from "iconv-lite";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fake-supabase";
+import { validateUKEBuffer } from "@/lib/uke-validator";
+import { parseUKEBuffer } from "@/lib/uke-parser";
+
+// receipt-generate が出力した UKE が uke-validator の検証を通ることを確認する
+const mock = vi.hoisted(() => ({ db: null as FakeSupabase | null }));
+vi.mock("@supabase/supabase-js", () => ({ createClient: () => mock.db!.client }));
+vi.mock("@/lib/api-auth", () => ({ verifyAuth: async () => ({ user: { id: "user-1" }, error: null }) }));
+
+import { POST } from "@/app/api/receipt-generate/route";
+
+function fixture(): Record<string, Record<string, unknown>[]> {
+  return {
+    billing: [
+      { id: "b1", patient_id: "p1", medical_record_id: "m1", created_at: "2025-06-10T10:00:00", payment_status: "paid", total_points: 355, procedures_detail: [] },
+      { id: "b2", patient_id: "p1", medical_record_id: "m2", created_at: "2025-06-17T10:00:00", payment_status: "paid", total_points: 58, procedures_detail: [] },
+      { id: "b3", patient_id: "p2", medical_record_id: "m3", created_at: "2025-06-12T09:30:00", payment_status: "paid", total_points: 267, procedures_detail: [] },
+    ],
+    patients: [
+      {
+        id: "p1", name_kanji: "山田　太郎", name_kana: "ﾔﾏﾀﾞ ﾀﾛｳ", sex: "1", date_of_birth: "1980-05-10",
+        patient_insurances: [{ id: "i1", patient_id: "p1", insurance_type: "社保", burden_ratio: 0.3, insurer_number: "06130012", insured_symbol: "12", insured_number: "3456", insurance_relation: "self", branch_code: "1", is_current: true }],
+      },
+      {
+        id: "p2", name_kanji: "佐藤　花子", name_kana: "ｻﾄｳ ﾊﾅｺ", sex: "2", date_of_birth: "2020-08-01",
+        patient_insurances: [{ id: "i2", patient_id: "p2", insurance_type: "国保", burden_ratio: 0.2, insurer_number: "231001", insured_symbol: "", insured_number: "778899", insurance_relation: "family", public_insurer: "88230012", public_recipient: "1234567", is_current: true }],
+      },
+    ],
+    medical_records: [
+      { id: "m1", online_qualification_confirmed: true, qualification_method: "card" },
+      { id: "m2", online_qualification_confirmed: true, qualification_method: "card" },
+      { id: "m3", online_qualification_confirmed: false },
+    ],
+    receipt_procedures: [
+      { medical_record_id: "m1", performed_at: "2025-06-10T10:00:00", fee_code: "301000110", fee_name: "歯科初診料", points: 267, count: 1, shinryo_shikibetsu: "11", futan_kubun: "", tooth_codes: null },
+      { medical_record_id: "m1", performed_at: "2025-06-10T10:00:00", fee_code: "309002110", fee_name: "抜髄（単根管）", points: 88, count: 1, shinryo_shikibetsu: "40", futan_kubun: "", tooth_codes: "101100" },
+      { medical_record_id: "m2", performed_at: "2025-06-17T10:00:00", fee_code: "301001610", fee_name: "歯科再診料", points: 58, count: 1, shinryo_shikibetsu: "12", futan_kubun: "", tooth_codes: null },
+      { medical_record_id: "m3", performed_at: "2025-06-12T09:30:00", fee_code: "301000110", fee_name: "歯科初診料", points: 267, count: 1, shinryo_shikibetsu: "11", futan_kubun: "", tooth_codes: null },
+    ],
+    m_fees: [
+      { sub_code: "301000110", shinryo_shikibetsu: "11" },
+      { sub_code: "301001610", shinryo_shikibetsu: "12" },
+      { sub_code: "309002110", shinryo_shikibetsu: "40" },
+    ],
+    receipt_diagnoses: [
+      { id: "d1", patient_id: "p1", diagnosis_code: "5220004", diagnosis_name: "急性化膿性歯髄炎", outcome: null, started_at: "2025-06-10", ended_at: null, tooth_number_display: "11", modifier_codes: null, is_primary: true },
+      { id: "d2", patient_id: "p2", diagnosis_code: "5210011", diagnosis_name: "う蝕第２度", outcome: null, started_at: "2025-06-12", ended_at: null, tooth_number_display: "54", modifier_codes: null, is_primary: true },
+    ],
+    m_diagnoses: [
+      { diagnosis_code: "5220004", icd10_code: "K040", diagnosis_name: "急性化膿性歯髄炎", is_active: true },
+      { diagnosis_code: "5210011", icd10_code: "K021", diagnosis_name: "う蝕第２度", is_active: true },
+    ],
+    clinics: [{ name: "テスト歯科", phone: "052-000-0000", clinic_code: "3101471", prefecture_code: "23" }],
+    clinic_settings: [{ facility_code: "0117" }],
+  };
+}
+
+async function generate(body: Record<string, unknown>) {
+  const request = new Request("http://localhost/api/receipt-generate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: "Bearer test" },
+    body: JSON.stringify(body),
+  });
+  return POST(request as unknown as NextRequest);
+}
+
+describe("receipt-generate の出力", () => {
+  beforeEach(() => {
+    mock.db = createFakeSupabase(fixture());
+  });
+
+  it("請求先ごとの UKE がエラー・警告なしで検証を通る", async () => {
+    const res = await generate({ yearMonth: "202506", format: "validate" });
+    const json = await res.json();
+    expect(json.files.map((f: { destination: string }) => f.destination)).toEqual(["shaho", "kokuho"]);
+    for (const f of json.files) {
+      expect(f.validation.issues).toEqual([]);
+    }
+    expect(res.status).toBe(200);
+  });
+
+  it("strict: true でもファイルを返す", async () => {
+    const res = await generate({ yearMonth: "202506", strict: true });
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.success).toBe(true);
+    expect(json.totalPoints).toBe(355 + 58 + 267);
+  });
+
+  it("再パースした UK の診療年月・MF の窓口負担額が生成時の値と一致する", async () => {
+    const res = await generate({ yearMonth: "202506" });
+    const json = await res.json();
+    const shaho = json.files.find((f: { destination: string }) => f.destination === "shaho");
+    const buffer = iconv.encode(shaho.csv, "Shift_JIS");
+    const parsed = parseUKEBuffer(buffer);
+    expect(parsed.uk?.shinryo_yearmonth).toBe("202506");
+    expect(parsed.uk?.clinic_code).toBe("3101471");
+    // 3割負担: 355点 → 1,070円（10円未満四捨五入）、58点 → 170円
+    expect(parsed.patients[0].mf[0].window_burden_amount).toBe("1240");
+    expect(parsed.patients[0].sn[0].branch_code).toBe("01");
+    expect(validateUKEBuffer(buffer).valid).toBe(true);
+  });
+
+  it("各レコードの項目が仕様の位置に出力される", async () => {
+    const res = await generate({ yearMonth: "202506" });
+    const json = await res.json();
+    const records = (destination: string) => {
+      const csv: string = json.files.find((f: { destination: string }) => f.destination === destination).csv;
+      return csv.split(/\r?\n/).filter(Boolean).map(line => line.split(","));
+    };
+    const record = (rows: string[][], type: string) => rows.find(r => r[0] === type)!;
+
+    const shaho = records("shaho");
+    expect(record(shaho, "UK").slice(0, 8)).toEqual(["UK", "1", "", "202506", "3101471", "23", "3", "テスト歯科"]);
+    expect(record(shaho, "IR").slice(0, 9)).toEqual(["IR", "1", "23", "3", "3101471", "", "テスト歯科", "202506", "052-000-0000"]);
+    expect(record(shaho, "RE").slice(0, 7)).toEqual(["RE", "1", "3112", "202506", "山田　太郎", "1", "19800510"]);
+    // 記号・番号・診療実日数（6/10・6/17 の2日）・合計点数
+    expect(record(shaho, "HO").slice(0, 6)).toEqual(["HO", "06130012", "１２", "3456", "2", "413"]);
+    const jd = record(shaho, "JD");
+    expect(jd.slice(-31).flatMap((v, i) => (v === "1" ? [i + 1] : []))).toEqual([10, 17]);
+    expect(record(shaho, "MF")).toEqual(["MF", "00", "1240"]);
+
+    const kokuho = records("kokuho");
+    expect(record(kokuho, "UK").slice(0, 4)).toEqual(["UK", "2", "", "202506"]);
+    expect(record(kokuho, "HO").slice(0, 6)).toEqual(["HO", "00231001", "", "778899", "1", "267"]);
+    expect(record(kokuho, "KO").slice(0, 6)).toEqual(["KO", "88230012", "1234567", "", "1", "267"]);
+    expect(record(kokuho, "GO").slice(0, 3)).toEqual(["GO", "1", "267"]);
+  });
+
+  it("早朝の来院（UTCでは前日）も JST の日付で JD・算定日に出る", async () => {
+    // 6/17 08:30 JST の来院
+    mock.db!.tables.billing[1].created_at = "2025-06-16T23:30:00Z";
+    mock.db!.tables.receipt_procedures[2].performed_at = "2025-06-16T23:30:00Z";
+    const res = await generate({ yearMonth: "202506" });
+    const json = await res.json();
+    const shaho = json.files.find((f: { destination: string }) => f.destination === "shaho");
+    const parsed = parseUKEBuffer(iconv.encode(shaho.csv, "Shift_JIS"));
+    const jd = shaho.csv.split(/\r?\n/).find((line: string) => line.startsWith("JD,")).split(",");
+    expect(jd.slice(-31).flatMap((v: string, i: number) => (v === "1" ? [i + 1] : []))).toEqual([10, 17]);
+    const saishin = parsed.patients[0].ss.find(s => s.fee_code === "301001610");
+    expect(saishin?.santei_date).toBe("17");
+  });
+
+  it("IY は算定日時点の薬価で点数を出し、合計点数もそれに合わせる", async () => {
+    // 会計時の薬価（旧価格）で 2点 → 6/17 時点の薬価 45.5円 で 5点
+    const db = mock.db!.tables;
+    db.billing[1].total_points = 60;
+    db.billing[1].procedures_detail = [{ code: "DRUG-1149019F1560", name: "ロキソプロフェン錠", points: 2, count: 1 }];
+    db.m_drugs = [{ yj_code: "1149019F1560", receipt_code: "620098801", dosage_form: "内服", name: "ロキソプロフェン錠", unit_price: 10.1, unit: "錠" }];
+    db.m_drug_prices = [
+      { code: "620098801", name: "ロキソプロフェン錠", unit: "錠", unit_price: 10.1, valid_from: "2024-04-01", valid_to: "2025-03-31" },
+      { code: "620098801", name: "ロキソプロフェン錠", unit: "錠", unit_price: 45.5, valid_from: "2025-04-01", valid_to: null },
+    ];
+    const res = await generate({ yearMonth: "202506" });
+    const json = await res.json();
+    const shaho = json.files.find((f: { destination: string }) => f.destination === "shaho");
+    const rows = shaho.csv.split(/\r?\n/).map((line: string) => line.split(","));
+    expect(rows.find((r: string[]) => r[0] === "IY").slice(0, 7)).toEqual(["IY", "21", "", "620098801", "1", "5", "1"]);
+    expect(rows.find((r: string[]) => r[0] === "HO").slice(4, 6)).toEqual(["2", "418"]);
+    expect(shaho.validation.issues).toEqual([]);
+    expect(json.warnings).toBeUndefined();
+
+    // 算定日の薬価がなければ会計の点数のまま出して警告する
+    db.m_drug_prices = [];
+    db.m_drugs = [{ yj_code: "1149019F1560", receipt_code: "620098801", dosage_form: "内服", name: "ロキソプロフェン錠", unit_price: 0, unit: "錠" }];
+    const fallback = await (await generate({ yearMonth: "202506" })).json();
+    expect(fallback.warnings).toContain("2025-06-17時点の薬価がありません: ロキソプロフェン錠（会計の2点で出力）");
+  });
+
+  it("HS に傷病名コード・修飾語コード・歯式コードを出す（修飾語コードのない旧データは名称から分解）", async () => {
+    const db = mock.db!.tables;
+    db.receipt_diagnoses[0] = { ...db.receipt_diagnoses[0], modifier_codes: "8002", tooth_number_display: "46-47Br" };
+    db.receipt_diagnoses[1] = { ...db.receipt_diagnoses[1], diagnosis_code: "", diagnosis_name: "う蝕第２度の疑い" };
+    db.m_diagnosis_modifiers = [{ modifier_code: "8002", modifier_name: "の疑い", modifier_position: "suffix", is_active: true }];
+    const json = await (await generate({ yearMonth: "202506" })).json();
+    const hs = (destination: string) => {
+      const csv: string = json.files.find((f: { destination: string }) => f.destination === destination).csv;
+      return csv.split(/\r?\n/).find(line => line.startsWith("HS,"))!.split(",").slice(0, 7);
+    };
+    expect(hs("shaho")).toEqual(["HS", "", "", "104602104702", "5220004", "8002", ""]);
+    expect(hs("kokuho")).toEqual(["HS", "", "", "105400", "5210011", "8002", ""]);
+  });
+
+  it("項目がずれた HO・合計点数の誤りを検出する", async () => {
+    const res = await generate({ yearMonth: "202506" });
+    const json = await res.json();
+    const csv: string = json.files.find((f: { destination: string }) => f.destination === "shaho").csv;
+    const shifted = csv.replace(/^HO,.*$/m, "HO,06130012,,１２,3456,413,,,,,,,,");
+    const report = validateUKEBuffer(iconv.encode(shifted, "Shift_JIS"));
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(i => i.message)).toContain("レセプト1: HO診療実日数（3456）とJDの受診日数（2）が一致しません");
+
+    const wrongTotal = csv.replace(/^HO,(.*?),2,413,/m, "HO,$1,2,400,");
+    expect(validateUKEBuffer(iconv.encode(wrongTotal, "Shift_JIS")).issues.map(i => i.message))
+      .toContain("レセプト1: HO合計点数（400）と診療行為の合計（413）が一致しません");
+  });
+});
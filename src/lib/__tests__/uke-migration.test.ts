@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { createFakeSupabase, type FakeSupabase } from "./helpers/fake-supabase";
+import { parseUKEText } from "@/lib/uke-parser";
+import { migrateUKE, rollbackUKEMigration } from "@/lib/uke-migration";
+
+// 過去UKEの移行取込: 窓口負担の計算・バッチの状態・ロールバックの可否
+const parsed = parseUKEText(readFileSync(join(__dirname, "fixtures", "official.uke"), "utf8"));
+
+async function migrate(fake: FakeSupabase) {
+  return migrateUKE(fake.client, [{ name: "202506.UKE", parsed }], { dryRun: false, userId: null });
+}
+
+describe("migrateUKE", () => {
+  it("窓口負担は負担計算エンジンで出す（公費の子ども医療助成は窓口0円）", async () => {
+    const fake = createFakeSupabase({});
+    await migrate(fake);
+    expect(fake.tables.billing.map(b => [b.created_at, b.total_points, b.patient_burden, b.insurance_claim])).toEqual([
+      ["2025-06-10T12:00:00", 352, 1060, 2460],
+      ["2025-06-17T12:00:00", 88, 260, 620],
+      ["2025-06-12T12:00:00", 267, 0, 2140],
+    ]);
+  });
+
+  it("最後の書き込みまで終わったらバッチを imported にする", async () => {
+    const fake = createFakeSupabase({});
+    const { batch_id } = await migrate(fake);
+    expect(fake.tables.uke_import_batches).toMatchObject([{ id: batch_id, status: "imported" }]);
+
+    const failing = createFakeSupabase({});
+    failing.failures.receipt_procedures = { insert: "timeout" };
+    await expect(migrate(failing)).rejects.toThrow("receipt_procedures の作成に失敗しました");
+    expect(failing.tables.uke_import_batches).toMatchObject([{ status: "importing" }]);
+  });
+});
+
+describe("rollbackUKEMigration", () => {
+  it("バッチで作った行をすべて削除する", async () => {
+    const fake = createFakeSupabase({});
+    const { batch_id } = await migrate(fake);
+    const deleted = await rollbackUKEMigration(fake.client, batch_id!);
+    expect(deleted).toMatchObject({ billing: 3, medical_records: 3, patients: 2 });
+    expect(fake.tables.patients).toEqual([]);
+    expect(fake.tables.uke_import_batches).toMatchObject([{ status: "rolled_back" }]);
+  });
+
+  it("取込後に登録された来院・予約が取込した患者を参照していれば何も削除しない", async () => {
+    const fake = createFakeSupabase({});
+    const { batch_id } = await migrate(fake);
+    const patientId = fake.tables.patients[0].id;
+    fake.tables.appointments = [{ id: "a1", patient_id: patientId }];
+    fake.tables.billing.push({ id: "b-new", patient_id: patientId, medical_record_id: "m-new", import_batch_id: null });
+    await expect(rollbackUKEMigration(fake.client, batch_id!))
+      .rejects.toThrow("取込後に登録されたデータが取込した患者・カルテを参照しているためロールバックできません（予約 1件 / 会計 1件）");
+    expect(fake.tables.patients).toHaveLength(2);
+    expect(fake.tables.uke_import_batches).toMatchObject([{ status: "imported" }]);
+  });
+});
@@ -0,0 +1,320 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { calculateVisitPoints, type PointItem } from "@/lib/point-calculator";
+import { findPatientLock, recordClaimCorrection, type ClaimLock } from "@/lib/claim-snapshots";
+import { determineVisitFee, SAISHIN_FEE_CODE, SHOSHIN_FEE_CODE, type VisitFeeDetermination } from "@/lib/visit-fee";
+
+// ============================================================
+// 算定確定（カルテ → 会計）
+// カルテ1件分の 会計（billing）・処置（receipt_procedures）・施設基準加算・
+// 予約/患者の更新・症状詳記 をサーバー側でまとめて書き込む
+//
+// - 点数はカルテの structured_procedures を点数算定サービス（point-calculator）で再計算し、
+//   会計の明細（procedures_detail）と receipt_procedures に同じ内訳を書く
+// - 初診料/再診料と歯科疾患管理料は visit-fee の判定結果でカルテの処置を置き換え・追加する
+// - supabase-js には複数テーブルのトランザクションがないため、書き込みごとに取り消し処理を積み、
+//   途中で失敗したら逆順に取り消して確定前の状態に戻す（半端な確定を残さない）
+//   取り消し自体が失敗した場合は「元に戻せなかった処理」をエラーに含めて返す
+// - 冪等: カルテに会計が既にあれば何も書かずにその会計を返す（再送・二重押下でも1件）
+//   会計は他の書き込みがすべて終わってから最後に作る。途中でプロセスが落ちても会計がなければ未確定なので、
+//   再送すると残った処置・症状詳記を置き換えて確定し直す
+//   billing.medical_record_id の一意制約違反（23505）は先に確定されたものとして、こちらの書き込みを取り消す
+// - 算定日（判定・点数計算・処置の実施日時）は現在日時ではなく来院日（予約日時、なければカルテ作成日時）
+// - 同じ月に締め済みの会計がある患者は、訂正理由がなければ書き込まずに { locked } を返す
+// ============================================================
+
+export interface FinalizeBillingInput {
+  medical_record_id: string;
+  treatment_schedule?: unknown[] | null;
+  tooth_chart?: Record<string, unknown> | null;
+  symptom_details?: { kubun: string; text: string }[];
+  correction_reason?: string | null;   // 締め済みの月に来院を追加するときの訂正理由
+}
+
+export interface FinalizeBillingResult {
+  billing_id: string;
+  appointment_id: string | null;
+  total_points: number;
+  procedure_count: number;
+  bonus_count: number;
+  already_finalized: boolean;
+  visit_fee: VisitFeeDetermination | null;
+}
+
+type StructuredProcedure = {
+  id: string;
+  tooth: string;
+  diagnosis_code?: string;
+  diagnosis_name?: string;
+  category: string;
+  procedure_name: string;
+  fee_code: string;
+  points: number;
+  timestamp?: string;
+};
+
+type MedicalRecordRow = {
+  id: string;
+  patient_id: string;
+  appointment_id: string | null;
+  created_at: string | null;
+  structured_procedures: StructuredProcedure[] | null;
+  treatment_schedule: unknown[] | null;
+};
+
+/**
+ * 判定した初診料/再診料・歯科疾患管理料をカルテの処置に反映する
+ * 判定と異なる初診料/再診料は外し、なければ追加する。管理料は算定可能で未入力なら追加する
+ */
+function applyVisitFee(procs: StructuredProcedure[], visitFee: VisitFeeDetermination, timestamp: string): StructuredProcedure[] {
+  const out = procs.filter(p => !((p.fee_code === SHOSHIN_FEE_CODE || p.fee_code === SAISHIN_FEE_CODE) && p.fee_code !== visitFee.fee_code));
+  if (!out.some(p => p.fee_code === visitFee.fee_code)) {
+    out.unshift({
+      id: `auto-visit-fee-${visitFee.fee_code}`, tooth: "", diagnosis_code: "", diagnosis_name: visitFee.kind === "initial" ? "初診" : "再診",
+      procedure_name: visitFee.fee_name, fee_code: visitFee.fee_code, points: 0, category: "basic", timestamp,
+    });
+  }
+  const m = visitFee.management;
+  if (m.eligible && m.fee_code && !out.some(p => p.fee_code === m.fee_code || (p.procedure_name || "").includes(m.name))) {
+    out.push({
+      id: `auto-management-${m.fee_code}`, tooth: "", diagnosis_code: "", diagnosis_name: "",
+      procedure_name: m.name, fee_code: m.fee_code, points: 0, category: "basic", timestamp,
+    });
+  }
+  return out;
+}
+
+function toJSTDate(timestamp: string): string {
+  return new Date(new Date(timestamp).getTime() + 9 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+async function findBilling(supabase: SupabaseClient, medicalRecordId: string): Promise<{ id: string; total_points: number } | null> {
+  const { data } = await supabase
+    .from("billing")
+    .select("id, total_points")
+    .eq("medical_record_id", medicalRecordId)
+    .order("created_at")
+    .order("id")
+    .limit(1);
+  return ((data || []) as { id: string; total_points: number }[])[0] || null;
+}
+
+export async function finalizeBilling(
+  supabase: SupabaseClient,
+  input: FinalizeBillingInput
+): Promise<FinalizeBillingResult | { locked: ClaimLock }> {
+  const { data: record, error: recErr } = await supabase
+    .from("medical_records")
+    .select("id, patient_id, appointment_id, structured_procedures, treatment_schedule, created_at")
+    .eq("id", input.medical_record_id)
+    .single();
+  if (recErr || !record) throw new Error("カルテが見つかりません");
+  const mr = record as MedicalRecordRow;
+
+  const existing = await findBilling(supabase, mr.id);
+  if (existing) {
+    return { billing_id: existing.id, appointment_id: mr.appointment_id, total_points: existing.total_points, procedure_count: 0, bonus_count: 0, already_finalized: true, visit_fee: null };
+  }
+
+  // 来院日時: 予約日時 → カルテ作成日時 → 現在（後日まとめて確定しても来院日で算定する）
+  const { data: appointment } = mr.appointment_id
+    ? await supabase.from("appointments").select("status, scheduled_at").eq("id", mr.appointment_id).maybeSingle()
+    : { data: null };
+  const appt = appointment as { status: string | null; scheduled_at: string | null } | null;
+  const performedAt = appt?.scheduled_at || mr.created_at || new Date().toISOString();
+  const serviceDate = toJSTDate(performedAt);
+
+  // 同じ月のレセプトが提出済みなら、来院の追加は提出済みの内容を変える
+  const lock = await findPatientLock(supabase, mr.patient_id, serviceDate);
+  const correctionReason = (input.correction_reason || "").trim();
+  if (lock && !correctionReason) return { locked: lock };
+
+  const visitFee = await determineVisitFee(supabase, { patient_id: mr.patient_id, service_date: serviceDate, medical_record_id: mr.id });
+  const structured = applyVisitFee(mr.structured_procedures || [], visitFee, performedAt);
+  const breakdown = await calculateVisitPoints(supabase, {
+    patient_id: mr.patient_id,
+    service_date: serviceDate,
+    procedures: structured.map(p => ({ id: p.id, procedure_name: p.procedure_name, fee_code: p.fee_code, points: p.points, category: p.category, tooth: p.tooth })),
+  });
+  const totalPoints = breakdown.total_points;
+  const billed = breakdown.items.filter(i => !i.excluded);
+  const itemById = new Map(breakdown.items.filter(i => i.id).map(i => [i.id!, i]));
+  for (const item of breakdown.items) {
+    if (item.fee_code === visitFee.fee_code && item.source !== "facility") item.notes.push(`自動判定: ${visitFee.reasons.join(" / ")}`);
+    if (item.id?.startsWith("auto-management-")) item.notes.push(`自動追加: ${visitFee.management.reason}`);
+  }
+  const procs = structured.map(p => {
+    const item = itemById.get(p.id);
+    return item ? { ...p, fee_code: item.fee_code || p.fee_code, points: item.excluded ? 0 : item.subtotal } : p;
+  });
+
+  // CP-9: receipt_proceduresにfee_code（9桁）で正規化保存（CP-12 施設基準加算・年齢加算を含む）
+  const toRow = (i: PointItem) => ({
+    medical_record_id: mr.id,
+    patient_id: mr.patient_id,
+    fee_code: i.fee_code!,
+    fee_name: i.name,
+    points: Math.round(i.subtotal / i.count),
+    count: i.count,
+    shinryo_shikibetsu: "",
+    futan_kubun: "",
+    performed_at: performedAt,
+  });
+  const procedureInserts = billed.filter(i => i.fee_code && i.source !== "facility").map(toRow);
+  const bonusInserts = billed.filter(i => i.fee_code && i.source === "facility").map(toRow);
+  // 会計画面・領収書の明細（点数の根拠付き）
+  const proceduresDetail = billed.map(i => ({
+    code: i.fee_code || "",
+    name: i.name,
+    points: Math.round(i.subtotal / i.count),
+    category: i.category,
+    count: i.count,
+    note: i.notes.join(" / "),
+    tooth_numbers: i.tooth ? [i.tooth] : [],
+  }));
+
+  type WriteResult = { error: { message: string } | null };
+  const undo: { label: string; run: () => PromiseLike<WriteResult> }[] = [];
+  const must = (label: string, error: { message: string } | null) => {
+    if (error) throw new Error(`${label}: ${error.message}`);
+  };
+  // 積んだ取り消し処理を逆順に実行し、失敗したものを返す
+  const rollback = async (): Promise<string[]> => {
+    const failed: string[] = [];
+    for (const step of undo.splice(0).reverse()) {
+      try {
+        const { error: uErr } = await step.run();
+        if (uErr) failed.push(`${step.label}（${uErr.message}）`);
+      } catch (e) {
+        failed.push(`${step.label}（${e instanceof Error ? e.message : String(e)}）`);
+      }
+    }
+    return failed;
+  };
+  // 先に確定された会計があれば、こちらの書き込みを取り消してその会計を返す
+  let yielded = false;
+  const yieldTo = async (first: { id: string; total_points: number }): Promise<FinalizeBillingResult> => {
+    yielded = true;
+    const failed = await rollback();
+    if (failed.length > 0) {
+      throw new Error(`同じカルテが先に確定されましたが、こちらの書き込みの一部を元に戻せませんでした。戻せなかった処理: ${failed.join(" / ")}。処置を確認してください`);
+    }
+    return { billing_id: first.id, appointment_id: mr.appointment_id, total_points: first.total_points, procedure_count: 0, bonus_count: 0, already_finalized: true, visit_fee: null };
+  };
+
+  try {
+    // 旧画面や前回の確定の途中失敗で残った処置・症状詳記は置き換える
+    const [{ data: staleProcs }, { data: staleSymptoms }] = await Promise.all([
+      supabase.from("receipt_procedures").select("*").eq("medical_record_id", mr.id),
+      supabase.from("receipt_symptom_details").select("*").eq("medical_record_id", mr.id),
+    ]);
+    if (staleProcs && staleProcs.length > 0) {
+      must("処置の置き換えに失敗しました", (await supabase.from("receipt_procedures").delete().eq("medical_record_id", mr.id)).error);
+      undo.push({ label: "既存の処置の復元", run: () => supabase.from("receipt_procedures").insert(staleProcs) });
+    }
+    if (staleSymptoms && staleSymptoms.length > 0) {
+      must("症状詳記の置き換えに失敗しました", (await supabase.from("receipt_symptom_details").delete().eq("medical_record_id", mr.id)).error);
+      undo.push({ label: "既存の症状詳記の復元", run: () => supabase.from("receipt_symptom_details").insert(staleSymptoms) });
+    }
+
+    const rpRows = [...procedureInserts, ...bonusInserts];
+    if (rpRows.length > 0) {
+      const { data: inserted, error } = await supabase.from("receipt_procedures").insert(rpRows).select("id");
+      must("処置の保存に失敗しました", error);
+      const ids = ((inserted || []) as { id: string }[]).map(r => r.id);
+      undo.push({ label: "処置の削除", run: () => supabase.from("receipt_procedures").delete().in("id", ids) });
+    }
+
+    // UKE-10: 症状詳記
+    const validSymptoms = (input.symptom_details || []).filter(s => s && String(s.text || "").trim() !== "");
+    if (validSymptoms.length > 0) {
+      const { data: inserted, error } = await supabase
+        .from("receipt_symptom_details")
+        .insert(validSymptoms.map((s, idx) => ({
+          medical_record_id: mr.id,
+          patient_id: mr.patient_id,
+          symptom_kubun: s.kubun,
+          symptom_text: s.text,
+          display_order: idx + 1,
+        })))
+        .select("id");
+      must("症状詳記の保存に失敗しました", error);
+      const ids = ((inserted || []) as { id: string }[]).map(r => r.id);
+      undo.push({ label: "症状詳記の削除", run: () => supabase.from("receipt_symptom_details").delete().in("id", ids) });
+    }
+
+    // 自動判定で足した・外した処置をカルテにも反映する
+    const before = mr.structured_procedures;
+    must("カルテの処置の更新に失敗しました", (await supabase.from("medical_records").update({ structured_procedures: procs }).eq("id", mr.id)).error);
+    undo.push({ label: "カルテの処置の復元", run: () => supabase.from("medical_records").update({ structured_procedures: before }).eq("id", mr.id) });
+
+    if (input.treatment_schedule && input.treatment_schedule.length > 0) {
+      const before = mr.treatment_schedule;
+      must("治療計画の保存に失敗しました", (await supabase.from("medical_records").update({ treatment_schedule: input.treatment_schedule }).eq("id", mr.id)).error);
+      undo.push({ label: "治療計画の復元", run: () => supabase.from("medical_records").update({ treatment_schedule: before }).eq("id", mr.id) });
+    }
+
+    if (mr.appointment_id) {
+      must("予約の更新に失敗しました", (await supabase.from("appointments").update({ status: "completed" }).eq("id", mr.appointment_id)).error);
+      undo.push({ label: "予約の状態の復元", run: () => supabase.from("appointments").update({ status: appt?.status ?? null }).eq("id", mr.appointment_id) });
+    }
+
+    if (input.tooth_chart) {
+      const { data: patient } = await supabase.from("patients").select("current_tooth_chart").eq("id", mr.patient_id).single();
+      must("歯式の保存に失敗しました", (await supabase.from("patients").update({ current_tooth_chart: input.tooth_chart }).eq("id", mr.patient_id)).error);
+      undo.push({ label: "歯式の復元", run: () => supabase.from("patients").update({ current_tooth_chart: (patient as { current_tooth_chart: unknown } | null)?.current_tooth_chart ?? null }).eq("id", mr.patient_id) });
+    }
+
+    // 会計は最後に作る（この行があれば確定済み）
+    const { data: billing, error: bErr } = await supabase
+      .from("billing")
+      .insert({
+        patient_id: mr.patient_id,
+        appointment_id: mr.appointment_id,
+        medical_record_id: mr.id,
+        created_at: performedAt,   // 請求月・受診日は会計の作成日時で集計されるため来院日時にする
+        procedures: procs,
+        procedures_detail: proceduresDetail,
+        total_points: totalPoints,
+        status: "pending",
+      })
+      .select("id")
+      .single();
+    if (bErr?.code === "23505") {
+      const first = await findBilling(supabase, mr.id);
+      if (first) return await yieldTo(first);
+    }
+    must("会計の作成に失敗しました", bErr);
+    const billingId = (billing as { id: string }).id;
+    undo.push({ label: "会計の削除", run: () => supabase.from("billing").delete().eq("id", billingId) });
+
+    // 一意制約がなく同時に確定された場合も、先に作られた会計を正とし、こちらは取り消す
+    const first = await findBilling(supabase, mr.id);
+    if (first && first.id !== billingId) return await yieldTo(first);
+
+    if (lock) {
+      await recordClaimCorrection(supabase, {
+        snapshot_id: lock.snapshot_id, patient_id: mr.patient_id, billing_id: billingId,
+        target_table: "billing", target_id: billingId, action: "insert", reason: correctionReason,
+        detail: { medical_record_id: mr.id, total_points: totalPoints },
+      });
+    }
+
+    return {
+      billing_id: billingId,
+      appointment_id: mr.appointment_id,
+      total_points: totalPoints,
+      procedure_count: procedureInserts.length,
+      bonus_count: bonusInserts.length,
+      already_finalized: false,
+      visit_fee: visitFee,
+    };
+  } catch (error: unknown) {
+    if (yielded) throw error;
+    const cause = error instanceof Error ? error.message : "Unknown error";
+    const failed = await rollback();
+    if (failed.length > 0) {
+      throw new Error(`算定確定に失敗し、一部を元に戻せませんでした（${cause}）。戻せなかった処理: ${failed.join(" / ")}。会計・処置を確認してください`);
+    }
+    throw new Error(`算定確定に失敗したため元に戻しました（${cause}）`);
+  }
+}
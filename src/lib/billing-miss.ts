@@ -0,0 +1,354 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadReceiptRuleSet } from "@/lib/receipt-context";
+import { calculateVisitPoints, type PointInput } from "@/lib/point-calculator";
+import { runReceiptRules, type BillingMissRule, type ReceiptProcedure, type ReceiptVisit } from "@/lib/receipt-rules";
+import { parseToothNotation, toUkeToothCode } from "@/lib/tooth-notation";
+import { SAISHIN_FEE_CODE, SHOSHIN_FEE_CODE } from "@/lib/visit-fee";
+
+// ============================================================
+// 算定漏れルール（m_billing_miss_rules）
+// - 診察中のチェック: カルテの処置と当月の算定済み処置にルール（receipt-rules の "miss"）を適用し、
+//   追加候補を点数算定サービスで m_fees のコード・点数に解決して返す
+// - ルールの保存: トリガー・追加項目のコードを m_fees で確認し、名称を補完する
+// - 提案: clinic_patterns の処置の共起（同じパターン・同じバリエーション内）から
+//   「Aを算定するときは多くの場合Bも算定している」組み合わせを未登録のものに限って返す
+// - 標準ルール: 以前コードに直書きしていた組み合わせを診療行為コードで持ち、この医院の m_fees にあるものを登録する
+// ============================================================
+
+const IN_CHUNK = 500;
+const FEE_CODE = /^\d{9}$/;
+const LEVELS = ["required", "suggested"] as const;
+const SCOPES = ["same_day", "same_month"] as const;
+const TOOTH_CONDITIONS = ["same_tooth", "deciduous", "permanent"] as const;
+
+export interface BillingMissCandidate {
+  rule_id: string;
+  level: "required" | "suggested";
+  message: string;
+  procedure_name: string;
+  fee_code: string;
+  points: number;
+  tooth: string;
+}
+
+export interface BillingMissSuggestion {
+  trigger_code: string;
+  trigger_name: string;
+  companion_code: string;
+  companion_name: string;
+  companion_points: number;
+  support_count: number;      // 両方を算定したパターン件数（use_count / variant_count の合計）
+  trigger_count: number;      // トリガーを算定したパターン件数
+  confidence: number;         // support_count / trigger_count
+}
+
+export type BillingMissRuleInput = Partial<Omit<BillingMissRule, "id">> & { id?: string | null };
+
+export interface StandardBillingMissRule {
+  trigger_code: string;
+  companion_code: string;
+  level: BillingMissRule["level"];
+  scope: BillingMissRule["scope"];
+  message: string;
+}
+
+// 標準ルールで使う診療行為コード（社会保険診療報酬支払基金の歯科診療行為マスター）
+export const STANDARD_FEE_NAMES: Record<string, string> = {
+  "302000110": "歯科疾患管理料",
+  "305000110": "浸潤麻酔",
+  "309002110": "抜髄（単根管）",
+  "309002210": "抜髄（２根管）",
+  "309002310": "抜髄（３根管以上）",
+  "309004010": "根管貼薬（単根管）",
+  "309004110": "根管貼薬（２根管）",
+  "309004210": "根管貼薬（３根管以上）",
+  "309008010": "根管充填（単根管）",
+  "309008110": "根管充填（２根管）",
+  "309008210": "根管充填（３根管以上）",
+  "309009310": "スケーリング",
+  "310000110": "抜歯（乳歯）",
+  "310000210": "抜歯（前歯）",
+  "310000310": "抜歯（臼歯）",
+  "310000410": "抜歯（埋伏歯）",
+  "313024110": "充填１（単純なもの）",
+  "313024210": "充填１（複雑なもの）",
+};
+
+const pairs = (
+  codes: [trigger: string, companion: string][],
+  level: BillingMissRule["level"], scope: BillingMissRule["scope"], message: string
+): StandardBillingMissRule[] =>
+  codes.map(([trigger_code, companion_code]) => ({ trigger_code, companion_code, level, scope, message }));
+
+// 以前コードに直書きしていた組み合わせ（「必要です」は required、「検討」「算定が可能」は suggested）
+// ラバーダム防湿は単独の診療行為コードがないため含めない
+export const STANDARD_BILLING_MISS_RULES: StandardBillingMissRule[] = [
+  ...pairs([["309002110", "305000110"], ["309002210", "305000110"], ["309002310", "305000110"]], "required", "same_day", "抜髄には浸麻が必要です"),
+  ...pairs([["310000110", "305000110"], ["310000210", "305000110"], ["310000310", "305000110"], ["310000410", "305000110"]], "required", "same_day", "抜歯には浸麻が必要です"),
+  ...pairs([["309008010", "309004010"], ["309008110", "309004110"], ["309008210", "309004210"]], "required", "same_month", "根管充填前に根管貼薬が必要です"),
+  ...pairs([["313024110", "302000110"], ["313024210", "302000110"]], "suggested", "same_month", "CR充填時は歯科疾患管理料の算定が可能です"),
+  ...pairs([["309009310", "302000110"]], "suggested", "same_month", "歯周治療時は歯科疾患管理料の算定が可能です"),
+];
+
+/**
+ * 来院1回分の算定漏れチェック
+ * 当月の他の来院（会計済み）で算定した処置は same_month のルールで参照する
+ */
+export async function checkVisitBillingMiss(
+  supabase: SupabaseClient,
+  params: { patient_id: string; service_date: string; medical_record_id?: string | null; procedures: PointInput[] }
+): Promise<BillingMissCandidate[]> {
+  const ruleSet = await loadReceiptRuleSet(supabase);
+  if (ruleSet.billing_miss_rules.length === 0 || params.procedures.length === 0) return [];
+
+  const ym = params.service_date.substring(0, 7);
+  const monthEnd = new Date(Number(ym.substring(0, 4)), Number(ym.substring(5, 7)), 0).getDate();
+  const [{ data: patient }, { data: billingData }, { data: toothChartData }, priced] = await Promise.all([
+    supabase.from("patients").select("id, name_kanji, date_of_birth").eq("id", params.patient_id).maybeSingle(),
+    supabase
+      .from("billing")
+      .select("id, medical_record_id, total_points, created_at")
+      .eq("patient_id", params.patient_id)
+      .gte("created_at", `${ym}-01T00:00:00`)
+      .lte("created_at", `${ym}-${String(monthEnd).padStart(2, "0")}T23:59:59`)
+      .order("created_at"),
+    supabase.from("m_tooth_chart").select("tooth_code, fdi_number").not("fdi_number", "is", null),
+    // 処置名だけの行も診療行為コードに解決してからトリガーと照合する
+    calculateVisitPoints(supabase, { patient_id: params.patient_id, service_date: params.service_date, procedures: params.procedures }),
+  ]);
+
+  const billings = ((billingData || []) as { id: string; medical_record_id: string | null; total_points: number; created_at: string }[])
+    .filter(b => b.medical_record_id && b.medical_record_id !== params.medical_record_id);
+  const recordIds = billings.map(b => b.medical_record_id!);
+  const procsByRecord = new Map<string, ReceiptProcedure[]>();
+  for (let i = 0; i < recordIds.length; i += IN_CHUNK) {
+    const { data } = await supabase
+      .from("receipt_procedures")
+      .select("id, medical_record_id, patient_id, fee_code, fee_name, points, count, shinryo_shikibetsu, futan_kubun, tooth_codes")
+      .in("medical_record_id", recordIds.slice(i, i + IN_CHUNK));
+    for (const p of (data || []) as ReceiptProcedure[]) {
+      if (!procsByRecord.has(p.medical_record_id)) procsByRecord.set(p.medical_record_id, []);
+      procsByRecord.get(p.medical_record_id)!.push(p);
+    }
+  }
+  const history: ReceiptVisit[] = billings.map(b => ({
+    billing_id: b.id,
+    created_at: b.created_at,
+    date: b.created_at.substring(0, 10),
+    total_points: b.total_points,
+    procedures: procsByRecord.get(b.medical_record_id!) || [],
+  }));
+
+  const toothRows = (toothChartData || []) as { tooth_code: string; fdi_number: string | number }[];
+  const toothMaster = new Map(toothRows.map(t => [String(t.tooth_code), String(t.fdi_number)]));
+  const codeByFdi = new Map(toothRows.map(t => [String(t.fdi_number), String(t.tooth_code)]));
+  const procedures: ReceiptProcedure[] = priced.items
+    .filter(i => !i.excluded && i.fee_code && i.source !== "facility")
+    .map((i, idx) => ({
+      id: i.id || `item-${idx}`, medical_record_id: params.medical_record_id || "", patient_id: params.patient_id,
+      fee_code: i.fee_code!, fee_name: i.name, points: i.points, count: i.count,
+      shinryo_shikibetsu: "", futan_kubun: "", category: i.category,
+      tooth_codes: i.tooth ? parseToothNotation(i.tooth).teeth.map(t => toUkeToothCode(t, codeByFdi)).join("") : null,
+    }));
+
+  const p = patient as { id: string; name_kanji: string; date_of_birth: string | null } | null;
+  const findings = runReceiptRules({
+    billing: null,
+    service_date: params.service_date,
+    patient: p ? { id: p.id, name: p.name_kanji, date_of_birth: p.date_of_birth } : null,
+    insurance: null,
+    diagnoses: [],
+    procedures,
+    history,
+    tooth_master: toothMaster,
+  }, ruleSet, { only: ["miss"] }).filter(f => f.add_procedure);
+  if (findings.length === 0) return [];
+
+  // 追加候補を既存の処置と一緒に算定し、加算・年齢制限を反映した点数にする
+  const candidates: PointInput[] = findings.map(f => ({
+    id: f.rule_id, procedure_name: f.add_procedure!.name, fee_code: f.add_procedure!.fee_code || null,
+    tooth: f.add_procedure!.tooth || null, category: "basic",
+  }));
+  const withCandidates = await calculateVisitPoints(supabase, {
+    patient_id: params.patient_id, service_date: params.service_date, procedures: [...params.procedures, ...candidates],
+  });
+  const itemById = new Map(withCandidates.items.filter(i => i.id).map(i => [i.id!, i]));
+  return findings.map(f => {
+    const item = itemById.get(f.rule_id);
+    return {
+      rule_id: f.rule_id,
+      level: f.severity === "warning" ? "required" : "suggested",
+      message: f.message,
+      procedure_name: item?.fee_code ? item.name : f.add_procedure!.name,
+      fee_code: item?.fee_code || f.add_procedure!.fee_code || "",
+      points: item && !item.excluded ? item.subtotal : 0,
+      tooth: f.add_procedure!.tooth || "",
+    };
+  });
+}
+
+/**
+ * ルール1件の入力を検証し、保存する行に整える（名称は m_fees から補完）
+ */
+export async function normalizeBillingMissRule(
+  supabase: SupabaseClient,
+  input: BillingMissRuleInput
+): Promise<{ row: Omit<BillingMissRule, "id"> & { id?: string }; error?: undefined } | { row?: undefined; error: string }> {
+  const triggerCode = String(input.trigger_code || "").trim();
+  const triggerCategory = String(input.trigger_category || "").trim();
+  const companionCode = String(input.companion_code || "").trim();
+  if (!triggerCode && !triggerCategory) return { error: "トリガーの診療行為コードまたは区分を指定してください" };
+  if (triggerCode && !FEE_CODE.test(triggerCode)) return { error: `トリガーの診療行為コード（${triggerCode}）は9桁で指定してください` };
+  if (!FEE_CODE.test(companionCode)) return { error: "追加する項目の診療行為コード（9桁）を指定してください" };
+  if (triggerCode === companionCode) return { error: "トリガーと追加する項目が同じです" };
+
+  const level = input.level || "suggested";
+  const scope = input.scope || "same_day";
+  const toothCondition = input.tooth_condition || null;
+  if (!LEVELS.includes(level)) return { error: `level が不正です（${level}）` };
+  if (!SCOPES.includes(scope)) return { error: `scope が不正です（${scope}）` };
+  if (toothCondition && !TOOTH_CONDITIONS.includes(toothCondition)) return { error: `tooth_condition が不正です（${toothCondition}）` };
+  const ageMin = input.age_min === null || input.age_min === undefined || String(input.age_min) === "" ? null : Number(input.age_min);
+  const ageMax = input.age_max === null || input.age_max === undefined || String(input.age_max) === "" ? null : Number(input.age_max);
+  if ((ageMin !== null && !Number.isInteger(ageMin)) || (ageMax !== null && !Number.isInteger(ageMax))) return { error: "年齢は整数で指定してください" };
+  if (ageMin !== null && ageMax !== null && ageMin > ageMax) return { error: "年齢の下限が上限を超えています" };
+
+  const codes = [companionCode, ...(triggerCode ? [triggerCode] : [])];
+  const { data: fees } = await supabase.from("m_fees").select("sub_code, name").in("sub_code", codes);
+  const nameByCode = new Map(((fees || []) as { sub_code: string; name: string }[]).map(f => [f.sub_code, f.name]));
+  for (const code of codes) {
+    if (!nameByCode.has(code)) return { error: `診療行為コード ${code} が点数マスタにありません` };
+  }
+
+  return {
+    row: {
+      ...(input.id ? { id: input.id } : {}),
+      trigger_code: triggerCode || null,
+      trigger_category: triggerCategory || null,
+      trigger_name: triggerCode ? nameByCode.get(triggerCode)! : (input.trigger_name || triggerCategory),
+      companion_code: companionCode,
+      companion_name: nameByCode.get(companionCode)!,
+      level,
+      scope,
+      tooth_condition: toothCondition,
+      age_min: ageMin,
+      age_max: ageMax,
+      message: String(input.message || "").trim() || null,
+      source: input.source || "manual",
+      support_count: input.support_count ?? null,
+      confidence: input.confidence ?? null,
+      is_active: input.is_active ?? true,
+    },
+  };
+}
+
+/**
+ * clinic_patterns の共起からルールの候補を作る
+ * パターン内のバリエーション（variant_name）ごとに1回の治療として数え、variant_count（なければ use_count）で重み付けする
+ */
+export async function suggestBillingMissRules(
+  supabase: SupabaseClient,
+  options: { minSupport?: number; minConfidence?: number; limit?: number } = {}
+): Promise<BillingMissSuggestion[]> {
+  const minSupport = options.minSupport ?? 5;
+  const minConfidence = options.minConfidence ?? 0.8;
+  const [{ data: patterns }, { data: existing }] = await Promise.all([
+    supabase
+      .from("clinic_patterns")
+      .select("id, use_count, clinic_pattern_items(fee_code, variant_name, variant_count)")
+      .eq("is_active", true),
+    supabase.from("m_billing_miss_rules").select("trigger_code, companion_code"),
+  ]);
+  // 初診料・再診料は来院ごとに自動判定するため対象外
+  const ignored = new Set([SHOSHIN_FEE_CODE, SAISHIN_FEE_CODE]);
+  const registered = new Set(((existing || []) as { trigger_code: string | null; companion_code: string }[]).map(r => `${r.trigger_code}>${r.companion_code}`));
+
+  const codeCount = new Map<string, number>();
+  const pairCount = new Map<string, number>();
+  for (const pattern of (patterns || []) as { use_count: number | null; clinic_pattern_items: { fee_code: string; variant_name: string | null; variant_count: number | null }[] | null }[]) {
+    const byVariant = new Map<string, { codes: Set<string>; weight: number }>();
+    for (const item of pattern.clinic_pattern_items || []) {
+      if (!FEE_CODE.test(item.fee_code || "") || ignored.has(item.fee_code)) continue;
+      const key = item.variant_name || "";
+      if (!byVariant.has(key)) byVariant.set(key, { codes: new Set(), weight: Number(item.variant_count) || Number(pattern.use_count) || 1 });
+      byVariant.get(key)!.codes.add(item.fee_code);
+    }
+    for (const { codes, weight } of byVariant.values()) {
+      for (const a of codes) {
+        codeCount.set(a, (codeCount.get(a) || 0) + weight);
+        for (const b of codes) {
+          if (a !== b) pairCount.set(`${a}>${b}`, (pairCount.get(`${a}>${b}`) || 0) + weight);
+        }
+      }
+    }
+  }
+
+  const pairs = [...pairCount.entries()]
+    .map(([key, support]) => {
+      const [a, b] = key.split(">");
+      return { key, a, b, support, total: codeCount.get(a) || 0 };
+    })
+    .filter(p => p.support >= minSupport && p.total > 0 && p.support / p.total >= minConfidence && !registered.has(p.key))
+    .sort((x, y) => y.support / y.total - x.support / x.total || y.support - x.support)
+    .slice(0, options.limit ?? 100);
+  if (pairs.length === 0) return [];
+
+  // 提案は点数マスタにあるコードに限る（名称・点数はマスタのもの）
+  const codes = [...new Set(pairs.flatMap(p => [p.a, p.b]))];
+  const feeByCode = new Map<string, { name: string; points: number }>();
+  for (let i = 0; i < codes.length; i += IN_CHUNK) {
+    const { data } = await supabase.from("m_fees").select("sub_code, name, points").in("sub_code", codes.slice(i, i + IN_CHUNK));
+    for (const f of (data || []) as { sub_code: string; name: string; points: number }[]) feeByCode.set(f.sub_code, { name: f.name, points: Number(f.points) || 0 });
+  }
+  return pairs
+    .filter(p => feeByCode.has(p.a) && feeByCode.has(p.b))
+    .map(p => ({
+      trigger_code: p.a,
+      trigger_name: feeByCode.get(p.a)!.name,
+      companion_code: p.b,
+      companion_name: feeByCode.get(p.b)!.name,
+      companion_points: feeByCode.get(p.b)!.points,
+      support_count: p.support,
+      trigger_count: p.total,
+      confidence: Math.round((p.support / p.total) * 1000) / 1000,
+    }));
+}
+
+/**
+ * 標準ルールを登録する（登録済みの組み合わせは飛ばす）
+ * この医院の m_fees にないコードは「コード 名称」で unresolved に返し、そのコードを使うルールは登録しない
+ */
+export async function seedStandardBillingMissRules(
+  supabase: SupabaseClient
+): Promise<{ saved: BillingMissRule[]; unresolved: string[] }> {
+  const { data: existing, error: exErr } = await supabase.from("m_billing_miss_rules").select("trigger_code, companion_code");
+  if (exErr) throw new Error(exErr.message);
+  const registered = new Set(((existing || []) as { trigger_code: string | null; companion_code: string }[]).map(r => `${r.trigger_code}>${r.companion_code}`));
+
+  const codes = Object.keys(STANDARD_FEE_NAMES);
+  const found = new Set<string>();
+  for (let i = 0; i < codes.length; i += IN_CHUNK) {
+    const { data, error } = await supabase.from("m_fees").select("sub_code").in("sub_code", codes.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(error.message);
+    for (const f of (data || []) as { sub_code: string }[]) found.add(f.sub_code);
+  }
+
+  const saved: BillingMissRule[] = [];
+  const unresolved = new Set<string>();
+  for (const rule of STANDARD_BILLING_MISS_RULES) {
+    const missing = [rule.trigger_code, rule.companion_code].filter(code => !found.has(code));
+    if (missing.length > 0) {
+      for (const code of missing) unresolved.add(`${code} ${STANDARD_FEE_NAMES[code]}`);
+      continue;
+    }
+    const key = `${rule.trigger_code}>${rule.companion_code}`;
+    if (registered.has(key)) continue;
+    const { row, error } = await normalizeBillingMissRule(supabase, { ...rule, source: "standard" });
+    if (!row) throw new Error(error);
+    const { data, error: insErr } = await supabase.from("m_billing_miss_rules").insert(row).select().single();
+    if (insErr) throw new Error(`算定漏れルールの登録に失敗しました: ${insErr.message}`);
+    registered.add(key);
+    saved.push(data as BillingMissRule);
+  }
+  return { saved, unresolved: [...unresolved] };
+}
@@ -0,0 +1,188 @@
+// ============================================================
+// 窓口負担計算エンジン
+// 点数 × 10円 を 医療保険（保険者負担 / 一部負担金）→ 公費（第1〜第4）→ 患者負担 に按分する
+// receipt-generate（MF）/ receipt-check（負担額チェック）/ 会計（burden-calculate API）共通
+//
+// 端数処理: 一部負担金・公費適用後の患者負担は10円未満四捨五入（療担規則第5条）
+// 月額上限: 同月の既往来院分の負担額を差し引いて上限まで（公費ごと・高額療養費）
+// ============================================================
+
+export interface PublicExpenseConfig {
+  insurer_no: string;              // 公費負担者番号（8桁・先頭2桁が法別番号）
+  recipient_no: string;
+  patient_ratio: number;           // 公費適用後の患者負担割合（0=全額公費）
+  per_visit_cap: number | null;    // 1回あたりの患者負担上限（円）
+  monthly_cap: number | null;      // 月額の患者負担上限（円）
+}
+
+export interface BurdenConfig {
+  burden_ratio: number;            // 医療保険の負担割合（公費単独は1.0）
+  has_insurance: boolean;          // false = 公費単独
+  monthly_cap: number | null;      // 医療保険の自己負担限度額（高額療養費）
+  public_expenses: PublicExpenseConfig[];
+}
+
+// 同月の既往来院分（月額上限の判定用）
+export interface PriorBurden {
+  patient_amount: number;
+  public_patient_amounts: number[];   // 公費ごとの適用後患者負担の累計（public_expensesと同順）
+}
+
+export interface BurdenResult {
+  total_amount: number;            // 総医療費（点数×10）
+  copay_amount: number;            // 一部負担金（医療保険の負担割合で算出・10円単位）
+  insurer_amount: number;          // 保険者負担（高額療養費の償還分を含む）
+  public_amounts: { insurer_no: string; amount: number }[];
+  patient_amount: number;          // 窓口負担額
+  capped: boolean;                 // 上限額が適用されたか
+}
+
+// ============================================================
+// 法別番号ごとの既定値（受給者証に記載がない場合の初期値）
+// ============================================================
+const PUBLIC_LAW_DEFAULTS: Record<string, { label: string; patient_ratio: number; per_visit_cap: number | null; monthly_cap: number | null }> = {
+  "12": { label: "生活保護",               patient_ratio: 0,   per_visit_cap: null, monthly_cap: null },
+  "15": { label: "自立支援（更生医療）",   patient_ratio: 0.1, per_visit_cap: null, monthly_cap: null },
+  "16": { label: "自立支援（育成医療）",   patient_ratio: 0.1, per_visit_cap: null, monthly_cap: null },
+  "21": { label: "自立支援（精神通院）",   patient_ratio: 0.1, per_visit_cap: null, monthly_cap: null },
+  "54": { label: "難病医療",               patient_ratio: 0.2, per_visit_cap: null, monthly_cap: null },
+  "88": { label: "子ども医療助成",         patient_ratio: 0,   per_visit_cap: null, monthly_cap: null },
+};
+
+export function publicLawCode(insurerNo: string): string {
+  return String(insurerNo || "").replace(/\D/g, "").padStart(8, "0").substring(0, 2);
+}
+
+export function publicLawLabel(insurerNo: string): string {
+  return PUBLIC_LAW_DEFAULTS[publicLawCode(insurerNo)]?.label ?? `公費（法別${publicLawCode(insurerNo)}）`;
+}
+
+/** 10円未満四捨五入 */
+export function roundTo10Yen(amount: number): number {
+  return Math.round(amount / 10) * 10;
+}
+
+/**
+ * 1回の来院分の負担を計算する
+ */
+export function calculateBurden(points: number, config: BurdenConfig, prior?: PriorBurden): BurdenResult {
+  const total = Math.max(0, Math.round(points)) * 10;
+  const ratio = config.has_insurance ? config.burden_ratio : 1;
+
+  const copay = Math.min(total, roundTo10Yen(total * ratio));
+  let insurer = total - copay;
+  let liability = copay;
+  let capped = false;
+
+  // 公費を第1→第4の順に適用
+  const publicAmounts = config.public_expenses.map((pe, i) => {
+    let next = Math.min(liability, roundTo10Yen(total * pe.patient_ratio));
+    if (pe.per_visit_cap !== null && next > pe.per_visit_cap) {
+      next = pe.per_visit_cap;
+      capped = true;
+    }
+    if (pe.monthly_cap !== null) {
+      const remaining = Math.max(0, pe.monthly_cap - (prior?.public_patient_amounts[i] ?? 0));
+      if (next > remaining) {
+        next = remaining;
+        capped = true;
+      }
+    }
+    const amount = liability - next;
+    liability = next;
+    return { insurer_no: pe.insurer_no, amount };
+  });
+
+  // 高額療養費（医療保険の月額上限）: 超過分は保険者負担
+  if (config.has_insurance && config.monthly_cap !== null) {
+    const remaining = Math.max(0, config.monthly_cap - (prior?.patient_amount ?? 0));
+    if (liability > remaining) {
+      insurer += liability - remaining;
+      liability = remaining;
+      capped = true;
+    }
+  }
+
+  return {
+    total_amount: total,
+    copay_amount: copay,
+    insurer_amount: insurer,
+    public_amounts: publicAmounts,
+    patient_amount: liability,
+    capped,
+  };
+}
+
+/**
+ * 同月の複数来院を来院順に計算する（月額上限を来院をまたいで適用）
+ * 戻り値の visits[i] は points[i] に対応する
+ */
+export function calculateMonthlyBurden(points: number[], config: BurdenConfig): { visits: BurdenResult[]; total: BurdenResult } {
+  const prior: PriorBurden = {
+    patient_amount: 0,
+    public_patient_amounts: config.public_expenses.map(() => 0),
+  };
+  const visits: BurdenResult[] = [];
+  for (const p of points) {
+    const r = calculateBurden(p, config, prior);
+    visits.push(r);
+    prior.patient_amount += r.patient_amount;
+    // 公費ごとの適用後患者負担 = その公費適用前の負担 - 公費負担額の累積
+    let liability = r.copay_amount;
+    r.public_amounts.forEach((pa, i) => {
+      liability -= pa.amount;
+      prior.public_patient_amounts[i] += liability;
+    });
+  }
+  const total: BurdenResult = {
+    total_amount: visits.reduce((s, v) => s + v.total_amount, 0),
+    copay_amount: visits.reduce((s, v) => s + v.copay_amount, 0),
+    insurer_amount: visits.reduce((s, v) => s + v.insurer_amount, 0),
+    public_amounts: config.public_expenses.map((pe, i) => ({
+      insurer_no: pe.insurer_no,
+      amount: visits.reduce((s, v) => s + (v.public_amounts[i]?.amount ?? 0), 0),
+    })),
+    patient_amount: prior.patient_amount,
+    capped: visits.some(v => v.capped),
+  };
+  return { visits, total };
+}
+
+// ============================================================
+// patient_insurancesの行からBurdenConfigを組み立てる
+// 公費の上限額は public_monthly_cap / public_visit_cap（第2以降は _2〜_4）
+// ============================================================
+type InsuranceRow = Record<string, unknown> & {
+  burden_ratio?: number | null;
+  insurer_number?: string | null;
+  monthly_cap?: number | null;
+};
+
+function numOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return isNaN(n) ? null : n;
+}
+
+export function burdenConfigFromInsurance(ins: InsuranceRow | null | undefined, defaultRatio = 0.3): BurdenConfig {
+  const row = ins || {};
+  const publicExpenses: PublicExpenseConfig[] = [];
+  for (const suffix of ["", "_2", "_3", "_4"]) {
+    const insurerNo = row[`public_insurer${suffix}`];
+    if (!insurerNo) continue;
+    const defaults = PUBLIC_LAW_DEFAULTS[publicLawCode(String(insurerNo))];
+    publicExpenses.push({
+      insurer_no: String(insurerNo).padStart(8, "0"),
+      recipient_no: String(row[`public_recipient${suffix}`] || ""),
+      patient_ratio: numOrNull(row[`public_burden_ratio${suffix}`]) ?? defaults?.patient_ratio ?? 0,
+      per_visit_cap: numOrNull(row[`public_visit_cap${suffix}`]) ?? defaults?.per_visit_cap ?? null,
+      monthly_cap: numOrNull(row[`public_monthly_cap${suffix}`]) ?? defaults?.monthly_cap ?? null,
+    });
+  }
+  return {
+    burden_ratio: numOrNull(row.burden_ratio) ?? defaultRatio,
+    has_insurance: !!row.insurer_number || publicExpenses.length === 0,
+    monthly_cap: numOrNull(row.monthly_cap),
+    public_expenses: publicExpenses,
+  };
+}
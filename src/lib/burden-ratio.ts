@@ -0,0 +1,163 @@
+// ============================================================
+// 負担割合リゾルバ
+// 生年月日・受診日・保険種別・所得区分から医療保険の負担割合を決定する
+//   未就学児（6歳到達後最初の3月31日まで）      → 2割
+//   6歳〜69歳                                      → 3割
+//   70〜74歳（高齢受給者・到達月の翌月1日から）   → 2割 / 現役並み3割
+//   75歳以上（後期高齢・誕生日当日から）           → 1割 / 一定以上2割 / 現役並み3割
+//   自費                                           → 10割
+// insurance-ocr / reservation/book / csv-import / 患者詳細 / burden-ratio-check 共通
+// ============================================================
+
+// patients.income_category の保存値
+export type IncomeCategory = "general" | "low" | "certain" | "active";
+
+export const INCOME_CATEGORY_LABELS: Record<IncomeCategory, string> = {
+  general: "一般",
+  low: "低所得",
+  certain: "一定以上所得（後期2割）",
+  active: "現役並み所得",
+};
+
+export type BurdenCategory = "未就学" | "一般" | "高齢受給者" | "後期高齢" | "自費";
+
+export interface BurdenRatioResult {
+  ratio: number;
+  category: BurdenCategory;
+  reason: string;
+  insurance_type_mismatch: boolean;   // 75歳到達なのに後期高齢になっていない等
+}
+
+function parseYMD(d: string): { y: number; m: number; d: number } | null {
+  const m = String(d || "").match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return m ? { y: Number(m[1]), m: Number(m[2]), d: Number(m[3]) } : null;
+}
+
+// 日付比較用の通し値（YYYYMMDD）
+function ymdKey(y: number, m: number, d: number): number {
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() * 10000 + (dt.getUTCMonth() + 1) * 100 + dt.getUTCDate();
+}
+
+function normalizeIncome(income: string | null | undefined): IncomeCategory {
+  const v = String(income || "").trim();
+  if (v === "active" || v === "現役並み" || v === "現役並み所得") return "active";
+  if (v === "certain" || v === "一定以上" || v === "一定以上所得") return "certain";
+  if (v === "low" || v === "低所得") return "low";
+  return "general";
+}
+
+/**
+ * 未就学児の判定: 6歳に達する日（6歳の誕生日の前日）以後の最初の3月31日までを「六歳未満」とする
+ */
+export function isPreschool(dateOfBirth: string, refDate: string): boolean {
+  const b = parseYMD(dateOfBirth);
+  const r = parseYMD(refDate);
+  if (!b || !r) return false;
+  const reach = ymdKey(b.y + 6, b.m, b.d - 1);
+  const reachYear = Math.floor(reach / 10000);
+  const reachMonth = Math.floor(reach / 100) % 100;
+  const endYear = reachMonth >= 4 ? reachYear + 1 : reachYear;
+  return ymdKey(r.y, r.m, r.d) <= ymdKey(endYear, 3, 31);
+}
+
+/**
+ * 高齢受給者の判定: 70歳に達する日の属する月の翌月1日から（1日生まれは誕生月から）
+ */
+export function isElderlyRecipient(dateOfBirth: string, refDate: string): boolean {
+  const b = parseYMD(dateOfBirth);
+  const r = parseYMD(refDate);
+  if (!b || !r) return false;
+  const reach = ymdKey(b.y + 70, b.m, b.d - 1);
+  const reachYear = Math.floor(reach / 10000);
+  const reachMonth = Math.floor(reach / 100) % 100;
+  return ymdKey(r.y, r.m, r.d) >= ymdKey(reachYear, reachMonth + 1, 1);
+}
+
+/**
+ * 後期高齢者医療の資格: 75歳の誕生日当日から
+ */
+export function isLateElderly(dateOfBirth: string, refDate: string): boolean {
+  const b = parseYMD(dateOfBirth);
+  const r = parseYMD(refDate);
+  if (!b || !r) return false;
+  return ymdKey(r.y, r.m, r.d) >= ymdKey(b.y + 75, b.m, b.d);
+}
+
+/**
+ * 受診日時点の負担割合を返す
+ */
+export function resolveBurdenRatio(
+  dateOfBirth: string | null | undefined,
+  visitDate: string,
+  insuranceType: string | null | undefined,
+  incomeCategory?: string | null
+): BurdenRatioResult {
+  const type = String(insuranceType || "").trim();
+  const income = normalizeIncome(incomeCategory);
+
+  if (type === "自費") {
+    return { ratio: 1.0, category: "自費", reason: "自費診療", insurance_type_mismatch: false };
+  }
+
+  // 後期高齢（65〜74歳の障害認定を含むため保険種別を優先）
+  const late = dateOfBirth ? isLateElderly(dateOfBirth, visitDate) : false;
+  if (type === "後期高齢" || late) {
+    const ratio = income === "active" ? 0.3 : income === "certain" ? 0.2 : 0.1;
+    return {
+      ratio,
+      category: "後期高齢",
+      reason: `後期高齢者（${INCOME_CATEGORY_LABELS[income]}）`,
+      insurance_type_mismatch: late && type !== "後期高齢",
+    };
+  }
+
+  if (!dateOfBirth) {
+    return { ratio: 0.3, category: "一般", reason: "生年月日未登録のため3割", insurance_type_mismatch: false };
+  }
+
+  if (isElderlyRecipient(dateOfBirth, visitDate)) {
+    const ratio = income === "active" ? 0.3 : 0.2;
+    return {
+      ratio,
+      category: "高齢受給者",
+      reason: `高齢受給者（70〜74歳・${income === "active" ? "現役並み所得" : "一般"}）`,
+      insurance_type_mismatch: false,
+    };
+  }
+
+  if (isPreschool(dateOfBirth, visitDate)) {
+    return { ratio: 0.2, category: "未就学", reason: "義務教育就学前", insurance_type_mismatch: false };
+  }
+
+  return { ratio: 0.3, category: "一般", reason: "6歳〜69歳", insurance_type_mismatch: false };
+}
+
+/**
+ * 指定月（YYYY-MM）内で負担割合が切り替わるかを判定する
+ * 月初と月末、切替日がある場合はその日を返す
+ */
+export function resolveBurdenRatioForMonth(
+  dateOfBirth: string | null | undefined,
+  yearMonth: string,
+  insuranceType: string | null | undefined,
+  incomeCategory?: string | null
+): { start: BurdenRatioResult; end: BurdenRatioResult; changed_on: string | null } {
+  const [y, m] = yearMonth.split("-").map(Number);
+  const lastDay = new Date(y, m, 0).getDate();
+  const day = (d: number) => `${yearMonth}-${String(d).padStart(2, "0")}`;
+
+  const start = resolveBurdenRatio(dateOfBirth, day(1), insuranceType, incomeCategory);
+  const end = resolveBurdenRatio(dateOfBirth, day(lastDay), insuranceType, incomeCategory);
+  let changedOn: string | null = null;
+  if (start.ratio !== end.ratio || start.category !== end.category) {
+    for (let d = 2; d <= lastDay; d++) {
+      const r = resolveBurdenRatio(dateOfBirth, day(d), insuranceType, incomeCategory);
+      if (r.ratio !== start.ratio || r.category !== start.category) {
+        changedOn = day(d);
+        break;
+      }
+    }
+  }
+  return { start, end, changed_on: changedOn };
+}
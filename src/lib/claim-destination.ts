@@ -0,0 +1,37 @@
+// ============================================================
+// 審査支払機関の振り分け
+// 社保（協会けんぽ・組合・共済等）→ 社会保険診療報酬支払基金
+// 国保・後期高齢 → 国民健康保険団体連合会
+// UKEのUK/IRレコード「審査支払機関」: 1=支払基金, 2=国保連
+// ============================================================
+
+export type ClaimDestination = "shaho" | "kokuho";
+
+export const CLAIM_DESTINATIONS: Record<ClaimDestination, { code: string; label: string }> = {
+  shaho:  { code: "1", label: "社会保険診療報酬支払基金" },
+  kokuho: { code: "2", label: "国民健康保険団体連合会" },
+};
+
+/**
+ * 患者の保険情報から請求先の審査支払機関を判定する
+ * 1) 保険者番号があれば桁数・法別番号で判定（保険証の記載が正）
+ *    6桁 = 市町村国保・国保組合 / 8桁の先頭2桁が39 = 後期高齢 / 67 = 退職者医療
+ * 2) 保険者番号がなければinsurance_type（国保/後期高齢/社保）で判定
+ * 3) どちらもない（公費単独など）場合は支払基金
+ */
+export function resolveClaimDestination(
+  insuranceType: string | null | undefined,
+  insurerNumber: string | null | undefined
+): ClaimDestination {
+  const insurer = String(insurerNumber || "").replace(/\D/g, "");
+  if (insurer.length > 0) {
+    if (insurer.length <= 6) return "kokuho";
+    const law = insurer.padStart(8, "0").substring(0, 2);
+    if (law === "39" || law === "67") return "kokuho";
+    return "shaho";
+  }
+
+  const type = String(insuranceType || "").trim();
+  if (type === "国保" || type === "後期高齢" || type === "退職") return "kokuho";
+  return "shaho";
+}
@@ -0,0 +1,456 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeDate, normalizeText, normalizeYearMonth, parseCsvNumber, splitCsvLine } from "@/lib/csv";
+import { updateBillingClaimStatus, type ClaimStatus } from "@/lib/insurer-payments";
+
+// ============================================================
+// 返戻・査定（増減点）管理
+// オンライン請求システムからダウンロードした返戻内訳書 / 増減点連絡書のCSVを取り込み、
+// 患者・会計（billing）と突き合わせて claim_returns に1レセプト1行で記録する
+// 状態: returned（返戻・査定）→ corrected（修正済）→ resubmitted（再請求済）→ accepted（決定）
+// 修正済の返戻は resubmit_ym の月のUKEに再請求分として出力される（receipt-generate）
+// ============================================================
+
+export type ClaimReturnKind = "henrei" | "zougen";
+export type ClaimReturnStatus = "returned" | "corrected" | "resubmitted" | "accepted";
+
+export const CLAIM_RETURN_KIND_LABELS: Record<ClaimReturnKind, string> = {
+  henrei: "返戻",
+  zougen: "増減点（査定）",
+};
+
+export const CLAIM_RETURN_STATUS_LABELS: Record<ClaimReturnStatus, string> = {
+  returned: "返戻・査定",
+  corrected: "修正済",
+  resubmitted: "再請求済",
+  accepted: "決定",
+};
+
+// 許可する状態遷移（再請求後に再度返戻された場合は returned に戻す）
+export const CLAIM_RETURN_TRANSITIONS: Record<ClaimReturnStatus, ClaimReturnStatus[]> = {
+  returned: ["corrected", "accepted"],
+  corrected: ["returned", "resubmitted"],
+  resubmitted: ["accepted", "returned"],
+  accepted: [],
+};
+
+// 増減点連絡書の事由記号
+export const ASSESSMENT_REASON_LABELS: Record<string, string> = {
+  A: "療養担当規則等に照らし、医学的に保険診療上適応とならないもの",
+  B: "療養担当規則等に照らし、医学的に保険診療上過剰・重複となるもの",
+  C: "療養担当規則等に照らし、A・B以外の医学的理由により適当と認められないもの",
+  D: "告示・通知の算定要件に合致していないと認められるもの",
+  F: "固定点数が誤っているもの",
+  G: "請求点数の集計が誤っているもの",
+  H: "縦計計算が誤っているもの",
+  K: "その他",
+};
+
+export interface ClaimReturnItem {
+  location: string;        // 箇所（診療行為名・区分）
+  reason_code: string;     // 事由記号（A/B/C/D…）・返戻事由コード
+  reason: string;
+  delta_points: number;    // 増減点数（減点はマイナス）
+}
+
+export interface ClaimReturnRow {
+  line: number;
+  shinryo_ym: string;      // YYYYMM
+  patient_name: string;
+  birth_date: string;      // YYYY-MM-DD（読めなければ空）
+  insurer_number: string;
+  insured_number: string;
+  search_no: string;       // 検索番号（再請求時にREへ記録）
+  receipt_no: string;
+  original_points: number | null;
+  adjusted_points: number | null;
+  items: ClaimReturnItem[];
+}
+
+export interface ClaimReturn {
+  id: string;
+  kind: ClaimReturnKind;
+  status: ClaimReturnStatus;
+  shinryo_ym: string;
+  patient_id: string | null;
+  billing_ids: string[];
+  patient_name: string;
+  birth_date: string | null;
+  insurer_number: string | null;
+  insured_number: string | null;
+  search_no: string | null;
+  receipt_no: string | null;
+  reason_code: string | null;
+  reason: string | null;
+  items: ClaimReturnItem[];
+  original_points: number;
+  adjusted_points: number | null;
+  delta_points: number;
+  resubmit_ym: string | null;
+  note: string | null;
+  source_file: string | null;
+  corrected_at: string | null;
+  resubmitted_at: string | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+// ============================================================
+// CSVパース
+// 返戻内訳書・増減点連絡書とも、ヘッダー行の列名で列位置を決める
+// （審査支払機関・ダウンロード時期で列順が異なるため）
+// ============================================================
+const HEADER_ALIASES: Record<string, string[]> = {
+  shinryo_ym: ["診療年月"],
+  patient_name: ["氏名", "患者氏名", "受診者氏名", "カナ氏名"],
+  birth_date: ["生年月日"],
+  insurer_number: ["保険者番号"],
+  insured_number: ["被保険者証等の番号", "記号番号", "被保険者番号", "被保険者証番号"],
+  search_no: ["検索番号"],
+  receipt_no: ["レセプト番号", "レセプト通番", "受付番号"],
+  reason_code: ["事由", "事由記号", "返戻事由コード", "事由コード"],
+  reason: ["返戻理由", "事由内容", "理由", "内容", "増減内容"],
+  location: ["箇所", "区分", "診療行為", "項目"],
+  original_points: ["請求点数", "原請求点数"],
+  adjusted_points: ["決定点数"],
+  delta_points: ["増減点数", "増減点", "査定点数"],
+};
+
+/** CSVテキスト（Shift_JISはAPI側でデコード済み）をレセプト単位の行にする */
+export function parseClaimReturnCsv(text: string, kind: ClaimReturnKind): { rows: ClaimReturnRow[]; skipped: { line: number; reason: string }[] } {
+  const lines = text.split(/\r?\n/);
+  const skipped: { line: number; reason: string }[] = [];
+
+  const headerIdx = lines.findIndex(l => l.includes("診療年月"));
+  if (headerIdx < 0) {
+    return { rows: [], skipped: [{ line: 1, reason: "ヘッダー行（診療年月）が見つかりません" }] };
+  }
+  const header = splitCsvLine(lines[headerIdx]).map(normalizeText);
+  const col: Record<string, number> = {};
+  for (const [key, aliases] of Object.entries(HEADER_ALIASES)) {
+    const idx = header.findIndex(h => aliases.some(a => h === a));
+    if (idx >= 0) col[key] = idx;
+  }
+  if (col.patient_name === undefined) {
+    return { rows: [], skipped: [{ line: headerIdx + 1, reason: "ヘッダー行に氏名の列がありません" }] };
+  }
+
+  // 増減点連絡書は1レセプトが複数行（箇所ごと）になるため、レセプト単位にまとめる
+  const byReceipt = new Map<string, ClaimReturnRow>();
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cols = splitCsvLine(lines[i]);
+    const get = (key: string) => (col[key] === undefined ? "" : cols[col[key]] || "");
+
+    const ym = normalizeYearMonth(get("shinryo_ym"));
+    const name = get("patient_name").trim();
+    if (!ym || !name) {
+      skipped.push({ line: i + 1, reason: !ym ? `診療年月が読めません（${get("shinryo_ym") || "空"}）` : "氏名が空です" });
+      continue;
+    }
+    const birth = normalizeDate(get("birth_date"));
+    const key = [ym, normalizeText(name), birth, get("search_no") || get("receipt_no")].join("|");
+    if (!byReceipt.has(key)) {
+      byReceipt.set(key, {
+        line: i + 1,
+        shinryo_ym: ym,
+        patient_name: name,
+        birth_date: birth,
+        insurer_number: normalizeText(get("insurer_number")),
+        insured_number: normalizeText(get("insured_number")),
+        search_no: normalizeText(get("search_no")),
+        receipt_no: normalizeText(get("receipt_no")),
+        original_points: parseCsvNumber(get("original_points")),
+        adjusted_points: parseCsvNumber(get("adjusted_points")),
+        items: [],
+      });
+    }
+    const row = byReceipt.get(key)!;
+    const reasonCode = normalizeText(get("reason_code")).toUpperCase();
+    const delta = parseCsvNumber(get("delta_points"));
+    const reason = get("reason").trim() || (kind === "zougen" ? ASSESSMENT_REASON_LABELS[reasonCode] || "" : "");
+    if (reasonCode || reason || delta !== null) {
+      row.items.push({ location: get("location").trim(), reason_code: reasonCode, reason, delta_points: delta ?? 0 });
+    }
+    if (row.original_points === null) row.original_points = parseCsvNumber(get("original_points"));
+    if (row.adjusted_points === null) row.adjusted_points = parseCsvNumber(get("adjusted_points"));
+  }
+
+  return { rows: [...byReceipt.values()], skipped };
+}
+
+// ============================================================
+// 患者・会計との突き合わせ
+// 生年月日＋氏名（漢字・カナ、NFKC正規化・空白除去）または被保険者番号で患者を特定し、
+// 診療年月の精算済み会計を紐づける
+// ============================================================
+const IN_CHUNK = 500;
+
+type PatientCandidate = {
+  id: string;
+  name_kanji: string | null;
+  name_kana: string | null;
+  date_of_birth: string | null;
+  patient_insurances?: { insurer_number: string | null; insured_number: string | null }[];
+};
+
+export interface ClaimReturnMatch {
+  row: ClaimReturnRow;
+  patient_id: string | null;
+  billing_ids: string[];
+  billed_points: number;
+  match_status: "matched" | "ambiguous" | "unmatched";
+}
+
+// 審査支払機関に提出済みの会計の請求状態（返戻・査定の対象になりうるもの）
+const SUBMITTED_CLAIM_STATUSES: ClaimStatus[] = ["claimed", "paid", "reduced", "returned"];
+
+function ymRange(ym: string): { start: string; end: string } {
+  const y = Number(ym.substring(0, 4));
+  const m = Number(ym.substring(4, 6));
+  const lastDay = new Date(y, m, 0).getDate();
+  return { start: `${ym.substring(0, 4)}-${ym.substring(4, 6)}-01T00:00:00`, end: `${ym.substring(0, 4)}-${ym.substring(4, 6)}-${String(lastDay).padStart(2, "0")}T23:59:59` };
+}
+
+export async function matchClaimReturns(supabase: SupabaseClient, rows: ClaimReturnRow[]): Promise<ClaimReturnMatch[]> {
+  const dobs = [...new Set(rows.map(r => r.birth_date).filter(Boolean))];
+  const insuredNumbers = [...new Set(rows.map(r => r.insured_number).filter(Boolean))];
+
+  const candidates = new Map<string, PatientCandidate>();
+  for (let i = 0; i < dobs.length; i += IN_CHUNK) {
+    const { data } = await supabase
+      .from("patients")
+      .select("id, name_kanji, name_kana, date_of_birth, patient_insurances(insurer_number, insured_number)")
+      .in("date_of_birth", dobs.slice(i, i + IN_CHUNK));
+    for (const p of (data || []) as PatientCandidate[]) candidates.set(p.id, p);
+  }
+  for (let i = 0; i < insuredNumbers.length; i += IN_CHUNK) {
+    const { data } = await supabase
+      .from("patient_insurances")
+      .select("patients(id, name_kanji, name_kana, date_of_birth, patient_insurances(insurer_number, insured_number))")
+      .in("insured_number", insuredNumbers.slice(i, i + IN_CHUNK));
+    for (const row of (data || []) as unknown as { patients: PatientCandidate | null }[]) {
+      if (row.patients) candidates.set(row.patients.id, row.patients);
+    }
+  }
+
+  const pool = [...candidates.values()];
+  const matches: ClaimReturnMatch[] = rows.map(row => {
+    const name = normalizeText(row.patient_name);
+    const hits = pool.filter(p => {
+      const dobOk = !row.birth_date || p.date_of_birth === row.birth_date;
+      const nameOk = name === normalizeText(p.name_kanji || "") || name === normalizeText(p.name_kana || "");
+      const insuredOk = !!row.insured_number && (p.patient_insurances || []).some(ins =>
+        normalizeText(ins.insured_number || "") === row.insured_number &&
+        (!row.insurer_number || normalizeText(ins.insurer_number || "").padStart(8, "0") === row.insurer_number.padStart(8, "0"))
+      );
+      return dobOk && (nameOk || insuredOk) && (!!row.birth_date || insuredOk);
+    });
+    return {
+      row,
+      patient_id: hits.length === 1 ? hits[0].id : null,
+      billing_ids: [],
+      billed_points: 0,
+      match_status: hits.length === 1 ? "matched" : hits.length > 1 ? "ambiguous" : "unmatched",
+    };
+  });
+
+  // 診療年月の請求済み会計（窓口の精算状態ではなく、UKEで提出した＝claim_ym のある会計）
+  const matched = matches.filter(m => m.patient_id);
+  const yms = [...new Set(matched.map(m => m.row.shinryo_ym))].sort();
+  if (yms.length > 0) {
+    const patientIds = [...new Set(matched.map(m => m.patient_id!))];
+    const billings: { id: string; patient_id: string; total_points: number; created_at: string }[] = [];
+    for (let i = 0; i < patientIds.length; i += IN_CHUNK) {
+      const { data } = await supabase
+        .from("billing")
+        .select("id, patient_id, total_points, created_at")
+        .in("patient_id", patientIds.slice(i, i + IN_CHUNK))
+        .in("claim_status", SUBMITTED_CLAIM_STATUSES)
+        .not("claim_ym", "is", null)
+        .gte("created_at", ymRange(yms[0]).start)
+        .lte("created_at", ymRange(yms[yms.length - 1]).end);
+      billings.push(...((data || []) as typeof billings));
+    }
+    for (const m of matched) {
+      const { start, end } = ymRange(m.row.shinryo_ym);
+      const own = billings.filter(b => b.patient_id === m.patient_id && b.created_at >= start && b.created_at <= end);
+      m.billing_ids = own.map(b => b.id);
+      m.billed_points = own.reduce((s, b) => s + (b.total_points || 0), 0);
+    }
+  }
+  return matches;
+}
+
+// ============================================================
+// インポート
+// 同じ種別・診療年月・氏名・生年月日・検索番号の行が既にあれば重複としてスキップ
+// ============================================================
+export interface ClaimReturnImportSummary {
+  kind: ClaimReturnKind;
+  total: number;
+  matched: number;
+  ambiguous: number;
+  unmatched: number;
+  duplicates: number;
+  inserted: number;
+  delta_points: number;
+  dry_run: boolean;
+}
+
+function dedupeKey(r: { shinryo_ym: string; patient_name: string; birth_date: string | null; search_no: string | null }): string {
+  return [r.shinryo_ym, normalizeText(r.patient_name), r.birth_date || "", r.search_no || ""].join("|");
+}
+
+export async function importClaimReturns(
+  supabase: SupabaseClient,
+  kind: ClaimReturnKind,
+  rows: ClaimReturnRow[],
+  options: { dryRun?: boolean; sourceFile?: string } = {}
+): Promise<{ summary: ClaimReturnImportSummary; matches: ClaimReturnMatch[] }> {
+  const dryRun = !!options.dryRun;
+  const matches = await matchClaimReturns(supabase, rows);
+  const summary: ClaimReturnImportSummary = {
+    kind, total: rows.length,
+    matched: matches.filter(m => m.match_status === "matched").length,
+    ambiguous: matches.filter(m => m.match_status === "ambiguous").length,
+    unmatched: matches.filter(m => m.match_status === "unmatched").length,
+    duplicates: 0, inserted: 0, delta_points: 0, dry_run: dryRun,
+  };
+
+  const yms = [...new Set(rows.map(r => r.shinryo_ym))];
+  const { data: existingData } = await supabase
+    .from("claim_returns")
+    .select("shinryo_ym, patient_name, birth_date, search_no")
+    .eq("kind", kind)
+    .in("shinryo_ym", yms);
+  const existing = new Set(((existingData || []) as { shinryo_ym: string; patient_name: string; birth_date: string | null; search_no: string | null }[]).map(dedupeKey));
+
+  const inserts: Record<string, unknown>[] = [];
+  for (const m of matches) {
+    const r = m.row;
+    if (existing.has(dedupeKey(r))) {
+      summary.duplicates++;
+      continue;
+    }
+    existing.add(dedupeKey(r));
+
+    // 返戻はレセプト全体が未収になる。査定は増減点数の合計
+    const original = r.original_points ?? m.billed_points;
+    const itemDelta = r.items.reduce((s, it) => s + it.delta_points, 0);
+    const adjusted = kind === "henrei" ? 0 : r.adjusted_points ?? original + itemDelta;
+    const delta = kind === "henrei" ? -original : (itemDelta !== 0 ? itemDelta : adjusted - original);
+    summary.delta_points += delta;
+
+    inserts.push({
+      kind,
+      status: "returned",
+      shinryo_ym: r.shinryo_ym,
+      patient_id: m.patient_id,
+      billing_ids: m.billing_ids,
+      patient_name: r.patient_name,
+      birth_date: r.birth_date || null,
+      insurer_number: r.insurer_number || null,
+      insured_number: r.insured_number || null,
+      search_no: r.search_no || null,
+      receipt_no: r.receipt_no || null,
+      reason_code: r.items.map(it => it.reason_code).filter(Boolean).join(",") || null,
+      reason: r.items.map(it => it.reason).filter(Boolean).join(" / ") || null,
+      items: r.items,
+      original_points: original,
+      adjusted_points: adjusted,
+      delta_points: delta,
+      source_file: options.sourceFile || null,
+    });
+  }
+  summary.inserted = inserts.length;
+
+  if (dryRun) return { summary, matches };
+
+  for (let i = 0; i < inserts.length; i += IN_CHUNK) {
+    const { error } = await supabase.from("claim_returns").insert(inserts.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(`claim_returnsへの登録に失敗しました: ${error.message}`);
+  }
+  // 照合できた会計の請求状態を返戻・査定にする
+  const billingIds = inserts.flatMap(r => r.billing_ids as string[]);
+  await updateBillingClaimStatus(supabase, billingIds, kind === "henrei" ? "returned" : "reduced");
+  return { summary, matches };
+}
+
+// ============================================================
+// 状態遷移
+// ============================================================
+
+/** 再請求するレセプトの請求月（診療年月の翌月以降で、既定は前月診療分＝今月提出分） */
+export function defaultResubmitYm(shinryoYm: string, today: string = new Date().toISOString().substring(0, 10)): string {
+  const d = new Date(`${today.substring(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() - 1);
+  const prev = d.toISOString().substring(0, 7).replace("-", "");
+  if (prev > shinryoYm) return prev;
+  const next = new Date(`${shinryoYm.substring(0, 4)}-${shinryoYm.substring(4, 6)}-01T00:00:00Z`);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  return next.toISOString().substring(0, 7).replace("-", "");
+}
+
+export async function transitionClaimReturn(
+  supabase: SupabaseClient,
+  id: string,
+  to: ClaimReturnStatus,
+  options: { note?: string; resubmitYm?: string } = {}
+): Promise<ClaimReturn> {
+  const { data: current, error: fetchError } = await supabase.from("claim_returns").select("*").eq("id", id).single();
+  if (fetchError || !current) throw new Error("返戻・査定データが見つかりません");
+  const cr = current as ClaimReturn;
+  if (!CLAIM_RETURN_TRANSITIONS[cr.status].includes(to)) {
+    throw new Error(`${CLAIM_RETURN_STATUS_LABELS[cr.status]}から${CLAIM_RETURN_STATUS_LABELS[to]}には変更できません`);
+  }
+
+  const now = new Date().toISOString();
+  const values: Record<string, unknown> = { status: to };
+  if (options.note !== undefined) values.note = options.note;
+  if (to === "corrected") {
+    const resubmitYm = options.resubmitYm || cr.resubmit_ym || defaultResubmitYm(cr.shinryo_ym);
+    if (!/^\d{6}$/.test(resubmitYm) || resubmitYm <= cr.shinryo_ym) {
+      throw new Error("再請求月は診療年月より後の月（YYYYMM）を指定してください");
+    }
+    values.resubmit_ym = resubmitYm;
+    values.corrected_at = now;
+  }
+  if (to === "resubmitted") values.resubmitted_at = now;
+  if (to === "returned") {
+    values.corrected_at = null;
+    values.resubmitted_at = null;
+  }
+  if (to === "accepted") {
+    values.accepted_at = now;
+    // 返戻の再請求が決定した場合、修正後の会計点数で増減を確定する
+    if (cr.kind === "henrei" && cr.billing_ids.length > 0) {
+      const { data: billings } = await supabase.from("billing").select("total_points").in("id", cr.billing_ids);
+      const adjusted = ((billings || []) as { total_points: number }[]).reduce((s, b) => s + (b.total_points || 0), 0);
+      values.adjusted_points = adjusted;
+      values.delta_points = adjusted - cr.original_points;
+    }
+  }
+
+  const { data: updated, error } = await supabase.from("claim_returns").update(values).eq("id", id).select("*").single();
+  if (error || !updated) throw new Error(`claim_returnsの更新に失敗しました: ${error?.message || ""}`);
+
+  // 返戻の再請求・再返戻は会計の請求状態にも反映（再請求分の請求月は resubmit_ym）
+  if (cr.kind === "henrei" && to === "resubmitted") {
+    await updateBillingClaimStatus(supabase, cr.billing_ids, "claimed", (updated as ClaimReturn).resubmit_ym || undefined);
+  }
+  if (cr.kind === "henrei" && to === "returned") {
+    await updateBillingClaimStatus(supabase, cr.billing_ids, "returned");
+  }
+  return updated as ClaimReturn;
+}
+
+/** 指定月のUKEに再請求分として含める返戻（修正済・再請求済で resubmit_ym が一致） */
+export async function loadResubmissions(supabase: SupabaseClient, yearMonth: string): Promise<ClaimReturn[]> {
+  const { data } = await supabase
+    .from("claim_returns")
+    .select("*")
+    .eq("kind", "henrei")
+    .eq("resubmit_ym", yearMonth)
+    .in("status", ["corrected", "resubmitted"]);
+  return ((data || []) as ClaimReturn[]).filter(cr => cr.patient_id && cr.billing_ids.length > 0);
+}
@@ -0,0 +1,188 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ============================================================
+// 月次締め（請求内容のスナップショット）
+// receipt-generate の format="close" で、提出するUKEをファイル単位（claim_snapshots）と
+// レセプト単位（claim_snapshot_receipts）に内容ハッシュ付きで保存し、元の会計をロックする
+// ロック中の会計・傷病名を変更するときは訂正理由を claim_corrections に記録する
+// 会計を書き換えるAPIはロック中なら 409（{ error, lock }）を返し、correction_reason 付きの再送だけ受け付ける
+// ============================================================
+
+export interface ClaimSnapshot {
+  id: string;
+  year_month: string;          // YYYYMM
+  destination: string;         // shaho / kokuho
+  file_name: string;
+  uke_base64: string;          // 提出したShift_JISのバイト列そのもの
+  content_hash: string;        // SHA-256（hex）
+  receipt_count: number;
+  total_points: number;
+  validation_errors: number;
+  validation_warnings: number;
+  closed_by: string | null;
+  closed_at: string;
+}
+
+export interface ClaimSnapshotReceipt {
+  snapshot_id: string;
+  year_month: string;
+  shinryo_ym: string;          // 返戻再請求分は元の診療年月
+  patient_id: string;
+  billing_ids: string[];
+  receipt_no: number;
+  content: string;             // RE〜SJ（CR+LF区切り）
+  content_hash: string;
+}
+
+export interface ClaimLock {
+  snapshot_id: string;
+  year_month: string;
+  locked_at: string;
+}
+
+export interface ClaimCorrection {
+  snapshot_id: string;
+  patient_id: string | null;
+  billing_id: string | null;
+  target_table: "billing" | "receipt_procedures" | "receipt_diagnoses" | "patient_insurances";
+  target_id: string | null;
+  action: "insert" | "update" | "delete";
+  reason: string;
+  detail: Record<string, unknown> | null;
+}
+
+const IN_CHUNK = 500;
+/** UKE本体（uke_base64）を除いたスナップショットの列 */
+export const SNAPSHOT_COLUMNS = "id, year_month, destination, file_name, content_hash, receipt_count, total_points, validation_errors, validation_warnings, closed_by, closed_at";
+
+/** 締め済みスナップショットの一覧（UKE本体は含まない） */
+export async function findClosedSnapshots(supabase: SupabaseClient, yearMonth: string): Promise<Omit<ClaimSnapshot, "uke_base64">[]> {
+  const { data, error } = await supabase
+    .from("claim_snapshots")
+    .select(SNAPSHOT_COLUMNS)
+    .eq("year_month", yearMonth)
+    .order("destination");
+  if (error) throw new Error(error.message);
+  return (data || []) as Omit<ClaimSnapshot, "uke_base64">[];
+}
+
+export interface ClaimSnapshotInput {
+  snapshot: Omit<ClaimSnapshot, "id" | "closed_at">;
+  receipts: Omit<ClaimSnapshotReceipt, "snapshot_id">[];
+}
+
+/**
+ * 月次締め：送付先ごとのスナップショットを保存し、含まれる会計をロックする
+ * ハッシュは呼び出し元（サーバー側）で計算して渡す
+ * 途中で失敗したら、それまでに保存したスナップショットとロックをすべて取り消す
+ * （一部だけ締まった状態だと findClosedSnapshots が締め済みと判定し、締め直せなくなるため）
+ */
+export async function saveMonthlyClose(supabase: SupabaseClient, inputs: ClaimSnapshotInput[]): Promise<ClaimSnapshot[]> {
+  const closedAt = new Date().toISOString();
+  const saved: ClaimSnapshot[] = [];
+  try {
+    for (const { snapshot, receipts } of inputs) {
+      const { data, error } = await supabase
+        .from("claim_snapshots")
+        .insert({ ...snapshot, closed_at: closedAt })
+        .select("*")
+        .single();
+      if (error || !data) throw new Error(`締めの保存に失敗しました: ${error?.message || ""}`);
+      const snap = data as ClaimSnapshot;
+      saved.push(snap);
+
+      for (let i = 0; i < receipts.length; i += IN_CHUNK) {
+        const { error: rErr } = await supabase
+          .from("claim_snapshot_receipts")
+          .insert(receipts.slice(i, i + IN_CHUNK).map(r => ({ ...r, snapshot_id: snap.id })));
+        if (rErr) throw new Error(`レセプト内容の保存に失敗しました: ${rErr.message}`);
+      }
+
+      const billingIds = Array.from(new Set(receipts.flatMap(r => r.billing_ids)));
+      for (let i = 0; i < billingIds.length; i += IN_CHUNK) {
+        const { error: bErr } = await supabase
+          .from("billing")
+          .update({ claim_snapshot_id: snap.id, locked_at: closedAt })
+          .in("id", billingIds.slice(i, i + IN_CHUNK));
+        if (bErr) throw new Error(`会計のロックに失敗しました: ${bErr.message}`);
+      }
+    }
+    return saved;
+  } catch (e) {
+    const cause = e instanceof Error ? e.message : String(e);
+    if (saved.length === 0) throw e;
+    const ids = saved.map(s => s.id);
+    // ロック解除 → レセプト内容 → スナップショットの順に消す（どれかが失敗しても残りは試す）
+    const failed: string[] = [];
+    const { error: uErr } = await supabase
+      .from("billing")
+      .update({ claim_snapshot_id: null, locked_at: null })
+      .in("claim_snapshot_id", ids);
+    if (uErr) failed.push(`会計のロック解除（${uErr.message}）`);
+    const { error: rErr } = await supabase.from("claim_snapshot_receipts").delete().in("snapshot_id", ids);
+    if (rErr) failed.push(`レセプト内容の削除（${rErr.message}）`);
+    const { error: sErr } = await supabase.from("claim_snapshots").delete().in("id", ids);
+    if (sErr) failed.push(`締めの削除（${sErr.message}）`);
+    if (failed.length > 0) {
+      throw new Error(`月次締めに失敗し、一部を取り消せませんでした（${cause}）。取り消せなかった処理: ${failed.join(" / ")}。締め一覧と会計のロックを確認してください`);
+    }
+    throw new Error(`月次締めに失敗したため、保存した締めを取り消しました（${cause}）`);
+  }
+}
+
+type LockedBilling = { claim_snapshot_id: string | null; locked_at: string | null; claim_snapshots: { year_month: string } | null };
+
+function toLock(b: LockedBilling | null): ClaimLock | null {
+  if (!b || !b.locked_at || !b.claim_snapshot_id) return null;
+  return { snapshot_id: b.claim_snapshot_id, year_month: b.claim_snapshots?.year_month || "", locked_at: b.locked_at };
+}
+
+/** 会計が締め済みかどうか */
+export async function findBillingLock(supabase: SupabaseClient, billingId: string): Promise<ClaimLock | null> {
+  const { data } = await supabase
+    .from("billing")
+    .select("claim_snapshot_id, locked_at, claim_snapshots(year_month)")
+    .eq("id", billingId)
+    .maybeSingle();
+  return toLock(data as unknown as LockedBilling | null);
+}
+
+/**
+ * 患者の締め済み会計のうち、指定日以降のもの（傷病名の変更が提出済みレセプトのHSに影響するか）
+ * 傷病名は開始日以降の全レセプトに載るため、開始日（終了日の変更なら変更日）以降を見る
+ */
+export async function findPatientLock(supabase: SupabaseClient, patientId: string, sinceDate: string): Promise<ClaimLock | null> {
+  const { data } = await supabase
+    .from("billing")
+    .select("claim_snapshot_id, locked_at, claim_snapshots(year_month)")
+    .eq("patient_id", patientId)
+    .not("locked_at", "is", null)
+    .gte("created_at", `${sinceDate.substring(0, 7)}-01T00:00:00`)
+    .order("created_at", { ascending: false })
+    .limit(1);
+  return toLock(((data || []) as unknown as LockedBilling[])[0] || null);
+}
+
+function lockMonthLabel(lock: ClaimLock): string {
+  return lock.year_month ? `${lock.year_month.substring(0, 4)}/${lock.year_month.substring(4, 6)}` : "";
+}
+
+/** ロック中の変更を拒否するときの 409 応答の本文（画面は lock を見て訂正理由を入力させ、再送する） */
+export function claimLockedError(lock: ClaimLock, target: string): { error: string; lock: ClaimLock } {
+  return { error: `${lockMonthLabel(lock)}請求で締め済みのレセプトに関わる${target}です。変更するには訂正理由（correction_reason）を指定してください`, lock };
+}
+
+/**
+ * 締め済みの内容を変更する前に訂正理由を入力させる（キャンセル・空欄は null）
+ * 画面側で使う
+ */
+export function promptCorrectionReason(lock: ClaimLock): string | null {
+  const ym = lockMonthLabel(lock);
+  const reason = prompt(`🔒 ${ym}請求で締め済みのレセプトに関わる変更です。\n提出済みのUKEとは内容が変わります。訂正理由を入力してください。`);
+  return reason && reason.trim() ? reason.trim() : null;
+}
+
+export async function recordClaimCorrection(supabase: SupabaseClient, correction: ClaimCorrection): Promise<void> {
+  const { error } = await supabase.from("claim_corrections").insert(correction);
+  if (error) throw new Error(`訂正履歴の記録に失敗しました: ${error.message}`);
+}
@@ -0,0 +1,90 @@
+// ============================================================
+// CSVユーティリティ（ダブルクォート・エスケープ対応）
+// マスター取込・返戻CSV・振込通知CSV取込で共通
+// ============================================================
+export function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') { cur += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cur += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") { out.push(cur); cur = ""; }
+    else cur += c;
+  }
+  out.push(cur);
+  return out.map(s => s.trim());
+}
+
+// ============================================================
+// オンライン請求システムのCSV値（和暦・全角・△付き数値）
+// ============================================================
+const ERA_OFFSETS: Record<string, number> = {
+  "1": 1867, M: 1867, 明治: 1867,
+  "2": 1911, T: 1911, 大正: 1911,
+  "3": 1925, S: 1925, 昭和: 1925,
+  "4": 1988, H: 1988, 平成: 1988,
+  "5": 2018, R: 2018, 令和: 2018,
+};
+
+export function normalizeText(s: string): string {
+  return String(s || "").normalize("NFKC").replace(/\s+/g, "").trim();
+}
+
+export function parseCsvNumber(s: string | undefined): number | null {
+  const v = String(s || "").normalize("NFKC").replace(/[,点円¥\s]/g, "");
+  if (!v || !/^[-+△▲]?\d+$/.test(v)) return null;
+  return /^[-△▲]/.test(v) ? -Number(v.replace(/^[-△▲]/, "")) : Number(v.replace(/^\+/, ""));
+}
+
+/** 和暦の年を西暦に（"R6" / "令和6" / "56" = 令和6） */
+function eraYear(era: string, year: string): number | null {
+  const offset = ERA_OFFSETS[era.toUpperCase()] ?? ERA_OFFSETS[era];
+  return offset === undefined ? null : offset + Number(year);
+}
+
+/**
+ * 診療年月を YYYYMM にする
+ * 202404 / 2024/04 / 2024-04 / 50604（GYYMM）/ R6.4 / 令和6年4月
+ */
+export function normalizeYearMonth(value: string): string {
+  const v = normalizeText(value);
+  let m = v.match(/^((?:19|20)\d{2})[/.\-年]?(\d{1,2})月?$/);
+  if (m) return `${m[1]}${m[2].padStart(2, "0")}`;
+  m = v.match(/^([1-5])(\d{2})(\d{2})$/);
+  if (m) {
+    const y = eraYear(m[1], m[2]);
+    return y ? `${y}${m[3]}` : "";
+  }
+  m = v.match(/^([MTSHR]|明治|大正|昭和|平成|令和)(\d{1,2})[/.\-年](\d{1,2})月?$/i);
+  if (m) {
+    const y = eraYear(m[1], m[2]);
+    return y ? `${y}${m[3].padStart(2, "0")}` : "";
+  }
+  return "";
+}
+
+/**
+ * 日付（生年月日・振込日）を YYYY-MM-DD にする
+ * 19800102 / 1980/01/02 / 3550102（GYYMMDD）/ S55.1.2 / 昭和55年1月2日
+ */
+export function normalizeDate(value: string): string {
+  const v = normalizeText(value);
+  let m = v.match(/^((?:19|20)\d{2})[/.\-年]?(\d{1,2})[/.\-月]?(\d{1,2})日?$/);
+  if (m) return `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}`;
+  m = v.match(/^([1-5])(\d{2})(\d{2})(\d{2})$/);
+  if (m) {
+    const y = eraYear(m[1], m[2]);
+    return y ? `${y}-${m[3]}-${m[4]}` : "";
+  }
+  m = v.match(/^([MTSHR]|明治|大正|昭和|平成|令和)(\d{1,2})[/.\-年](\d{1,2})[/.\-月](\d{1,2})日?$/i);
+  if (m) {
+    const y = eraYear(m[1], m[2]);
+    return y ? `${y}-${m[3].padStart(2, "0")}-${m[4].padStart(2, "0")}` : "";
+  }
+  return "";
+}
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ============================================================
+// 傷病名の修飾語（m_diagnosis_modifiers）
+// 傷病名 = 前置修飾語 + 基本傷病名（m_diagnoses）+ 後置修飾語
+// receipt_diagnoses には基本傷病名コードと修飾語コード（4桁を連結）を持ち、
+// UKE の HS レコードにはそのまま「修飾語コード」欄として出力する
+// ============================================================
+
+export interface DiagnosisModifier {
+  modifier_code: string;       // 4桁（UKE修飾語コード）
+  modifier_name: string;
+  modifier_position: string;   // "prefix" | "suffix"
+}
+
+// 「の疑い」（接尾語）。疑い病名はこのコードの有無で判定する
+export const SUSPECTED_MODIFIER_CODE = "8002";
+
+export async function loadDiagnosisModifiers(supabase: SupabaseClient): Promise<DiagnosisModifier[]> {
+  try {
+    const { data } = await supabase
+      .from("m_diagnosis_modifiers")
+      .select("modifier_code, modifier_name, modifier_position")
+      .eq("is_active", true);
+    return (data || []) as DiagnosisModifier[];
+  } catch {
+    // テーブルがない場合は修飾語なし
+    return [];
+  }
+}
+
+/** 修飾語コード欄（"80021057" や "8002 1057"）→ 4桁コードの配列 */
+export function parseModifierCodes(value: string | null | undefined): string[] {
+  return (String(value || "").replace(/\D/g, "").match(/\d{4}/g) || []);
+}
+
+/** 4桁コードの配列 → HS の修飾語コード欄（区切りなしで連結） */
+export function modifierCodesField(codes: string[]): string {
+  return codes.filter(c => /^\d{4}$/.test(c)).join("");
+}
+
+export function isSuspectedDiagnosis(modifierCodes: string | null | undefined): boolean {
+  return parseModifierCodes(modifierCodes).includes(SUSPECTED_MODIFIER_CODE);
+}
+
+/**
+ * 基本傷病名 + 修飾語コード → 表示用の傷病名
+ * 前置はコード順、後置もコード順に付ける。マスタにないコードは無視する
+ */
+export function composeDiagnosisName(baseName: string, modifierCodes: string[] | string | null | undefined, modifiers: DiagnosisModifier[]): string {
+  const codes = Array.isArray(modifierCodes) ? modifierCodes : parseModifierCodes(modifierCodes);
+  const byCode = new Map(modifiers.map(m => [m.modifier_code, m]));
+  const used = codes.map(c => byCode.get(c)).filter((m): m is DiagnosisModifier => !!m);
+  const prefix = used.filter(m => m.modifier_position === "prefix").map(m => m.modifier_name).join("");
+  const suffix = used.filter(m => m.modifier_position !== "prefix").map(m => m.modifier_name).join("");
+  return `${prefix}${baseName}${suffix}`;
+}
+
+/**
+ * 修飾語付きの傷病名 → 基本傷病名 + 修飾語コード
+ * 修飾語コードを持たない旧データの傷病名を分解するために使う
+ * isBaseName: 基本傷病名としてマスタにあるか（前後を1つずつ剥がしながら探す）
+ */
+export function decomposeDiagnosisName(
+  name: string,
+  modifiers: DiagnosisModifier[],
+  isBaseName: (name: string) => boolean
+): { base_name: string; modifier_codes: string[] } | null {
+  if (isBaseName(name)) return { base_name: name, modifier_codes: [] };
+  // 長い修飾語から試す（「慢性」より「急性化膿性」を先に）
+  const sorted = [...modifiers].sort((a, b) => b.modifier_name.length - a.modifier_name.length);
+  const search = (rest: string, prefixes: string[], suffixes: string[], depth: number): { base_name: string; modifier_codes: string[] } | null => {
+    if (depth > 4) return null;
+    for (const m of sorted) {
+      if (!m.modifier_name) continue;
+      if (m.modifier_position === "prefix" && rest.startsWith(m.modifier_name)) {
+        const next = rest.substring(m.modifier_name.length);
+        if (isBaseName(next)) return { base_name: next, modifier_codes: [...prefixes, m.modifier_code, ...suffixes] };
+        const found = search(next, [...prefixes, m.modifier_code], suffixes, depth + 1);
+        if (found) return found;
+      }
+      if (m.modifier_position !== "prefix" && rest.endsWith(m.modifier_name)) {
+        const next = rest.substring(0, rest.length - m.modifier_name.length);
+        if (isBaseName(next)) return { base_name: next, modifier_codes: [...prefixes, m.modifier_code, ...suffixes] };
+        const found = search(next, prefixes, [m.modifier_code, ...suffixes], depth + 1);
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+  return search(name, [], [], 0);
+}
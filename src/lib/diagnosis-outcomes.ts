@@ -0,0 +1,266 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { findPatientLock } from "@/lib/claim-snapshots";
+import { addMonths } from "@/lib/receipt-rules";
+import { parseToothNotation, parseUkeToothCodes } from "@/lib/tooth-notation";
+
+// ============================================================
+// 転帰アシスタント（receipt_diagnoses の治癒・中止の提案）
+// 請求前に当月の精算済み会計がある患者の継続中の傷病名を見て、
+// ・その歯の治療が完了している（CR充填・インレー/冠の装着・抜歯など）→ 治癒
+// ・N か月以上その傷病名に関係する処置がない → 中止
+// を提案する。転帰日は当月のレセプトに載る日にする（締め済みの過去月は変えない）
+// ============================================================
+
+export type OutcomeSuggestionKind = "cured" | "suspended";
+
+export interface OutcomeSuggestion {
+  id: string;                 // receipt_diagnoses.id
+  patient_id: string;
+  patient_name: string;
+  diagnosis_name: string;
+  tooth_number_display: string | null;
+  started_at: string | null;
+  outcome: OutcomeSuggestionKind;
+  ended_at: string;           // YYYY-MM-DD（当月内）
+  reason: string;
+  last_related_at: string | null;
+}
+
+export interface OutcomeApplyItem {
+  id: string;
+  outcome: OutcomeSuggestionKind;
+  ended_at: string;
+}
+
+type DiagnosisRow = {
+  id: string;
+  patient_id: string;
+  diagnosis_code: string;
+  diagnosis_name: string;
+  tooth_number_display: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  outcome: string | null;
+};
+
+type ProcedureRow = {
+  medical_record_id: string;
+  performed_at: string | null;
+  fee_name: string;
+  tooth_codes: string | null;
+};
+
+export type DatedProcedure = { date: string; fee_name: string; teeth: string[] };
+
+export type OutcomeJudgement = Pick<OutcomeSuggestion, "outcome" | "ended_at" | "reason" | "last_related_at">;
+
+const IN_CHUNK = 500;
+
+// 修復・補綴の完了（「根管充填」は根治の途中なので除く）
+const RESTORED = /充填|修復|インレー|装着|抜歯/;
+const EXTRACTED = /抜歯/;
+
+/**
+ * 傷病名ごとの「治療完了」とみなす処置
+ * 上から順に判定する（「根尖性歯周炎」を歯周病より先に）。cure: null は自動で治癒にしない
+ */
+const CURE_RULES: { label: string; match: RegExp; cure: RegExp | null }[] = [
+  { label: "智歯周囲炎", match: /智歯周囲炎|Perico/i, cure: EXTRACTED },
+  { label: "歯髄炎・根尖性歯周炎", match: /歯髄|根尖|歯根膜|^Pul|^Per/, cure: RESTORED },
+  { label: "う蝕", match: /う蝕|齲蝕|^C\d?$|^C[\s（(]/, cure: RESTORED },
+  { label: "脱離", match: /脱離/, cure: /充填|修復|インレー|装着/ },
+  { label: "歯周病", match: /歯周|歯肉|^P\d?$|^P[\s（(]|^G$/, cure: null },
+];
+
+function cureRule(d: Pick<DiagnosisRow, "diagnosis_name">): { label: string; cure: RegExp | null } {
+  const name = (d.diagnosis_name || "").normalize("NFKC").trim();
+  return CURE_RULES.find(r => r.match.test(name)) || { label: "その他", cure: EXTRACTED };
+}
+
+function completes(rule: RegExp, feeName: string): boolean {
+  return rule.test((feeName || "").replace(/根管充填/g, ""));
+}
+
+function monthBounds(ym: string): { start: string; end: string } {
+  const y = Number(ym.substring(0, 4));
+  const m = Number(ym.substring(4, 6));
+  const lastDay = new Date(y, m, 0).getDate();
+  return { start: `${ym.substring(0, 4)}-${ym.substring(4, 6)}-01`, end: `${ym.substring(0, 4)}-${ym.substring(4, 6)}-${String(lastDay).padStart(2, "0")}` };
+}
+
+/**
+ * 継続中の傷病名1件の転帰の判定（提案しない場合は null）
+ * procedures: 患者の処置（算定日・歯）、visits: 当月の来院日
+ */
+export function judgeDiagnosisOutcome(
+  d: Pick<DiagnosisRow, "diagnosis_name" | "tooth_number_display" | "started_at">,
+  procedures: DatedProcedure[],
+  visits: string[],
+  ym: string,
+  idleMonths: number
+): OutcomeJudgement | null {
+  const { start, end } = monthBounds(ym);
+  const days = [...visits].sort();
+  const since = (d.started_at || "").substring(0, 10);
+  const teeth = new Set(parseToothNotation(d.tooth_number_display || "").teeth.map(t => t.fdi));
+  // 部位のある傷病名はその歯の処置、部位のない傷病名（全顎など）は全ての処置を関係ありとする
+  const related = procedures
+    .filter(p => p.date >= since && p.date <= end)
+    .filter(p => teeth.size === 0 || p.teeth.some(t => teeth.has(t)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const lastRelated = related.length > 0 ? related[related.length - 1].date : null;
+
+  const rule = cureRule(d);
+  const done = rule.cure && teeth.size > 0 ? related.find(p => completes(rule.cure!, p.fee_name)) : undefined;
+  if (done) {
+    // 過去月に完了していたものは当月の初回来院日で治癒にする
+    return {
+      outcome: "cured",
+      ended_at: done.date >= start ? done.date : days[0],
+      reason: `${done.date} ${done.fee_name}（${rule.label}の治療完了）`,
+      last_related_at: lastRelated,
+    };
+  }
+
+  const lastActivity = lastRelated && lastRelated > since ? lastRelated : since;
+  if (lastActivity && lastActivity < addMonths(start, -idleMonths)) {
+    return {
+      outcome: "suspended",
+      ended_at: days[days.length - 1],
+      reason: lastRelated ? `最終の関連処置 ${lastRelated} から${idleMonths}か月以上処置なし` : `開始日 ${since} 以降に関連する処置なし（${idleMonths}か月以上）`,
+      last_related_at: lastRelated,
+    };
+  }
+  return null;
+}
+
+/**
+ * 指定月（YYYYMM）の転帰の提案
+ * idleMonths: 関係する処置がこの月数以上ない傷病名を中止にする
+ */
+export async function suggestDiagnosisOutcomes(
+  supabase: SupabaseClient,
+  ym: string,
+  options: { idleMonths?: number } = {}
+): Promise<OutcomeSuggestion[]> {
+  const idleMonths = Math.max(1, options.idleMonths ?? 3);
+  const { start, end } = monthBounds(ym);
+
+  // 当月の精算済み会計（＝当月のレセプトに載る患者）
+  const { data: monthBillings } = await supabase
+    .from("billing")
+    .select("patient_id, created_at")
+    .eq("payment_status", "paid")
+    .gte("created_at", `${start}T00:00:00`)
+    .lte("created_at", `${end}T23:59:59`);
+  const visitsByPatient = new Map<string, string[]>();
+  for (const b of (monthBillings || []) as { patient_id: string; created_at: string }[]) {
+    if (!visitsByPatient.has(b.patient_id)) visitsByPatient.set(b.patient_id, []);
+    visitsByPatient.get(b.patient_id)!.push(b.created_at.substring(0, 10));
+  }
+  const patientIds = [...visitsByPatient.keys()];
+  if (patientIds.length === 0) return [];
+
+  const diagnoses: DiagnosisRow[] = [];
+  const names = new Map<string, string>();
+  const history: { id: string; patient_id: string; medical_record_id: string; created_at: string }[] = [];
+  for (let i = 0; i < patientIds.length; i += IN_CHUNK) {
+    const ids = patientIds.slice(i, i + IN_CHUNK);
+    const [{ data: diagData }, { data: patientData }, { data: billingData }] = await Promise.all([
+      supabase
+        .from("receipt_diagnoses")
+        .select("id, patient_id, diagnosis_code, diagnosis_name, tooth_number_display, started_at, ended_at, outcome")
+        .in("patient_id", ids)
+        .is("ended_at", null)
+        .lte("started_at", end),
+      supabase.from("patients").select("id, name_kanji").in("id", ids),
+      supabase
+        .from("billing")
+        .select("id, patient_id, medical_record_id, created_at")
+        .in("patient_id", ids)
+        .eq("payment_status", "paid")
+        .lte("created_at", `${end}T23:59:59`),
+    ]);
+    diagnoses.push(...((diagData || []) as DiagnosisRow[]).filter(d => !d.outcome || d.outcome === "continuing"));
+    for (const p of (patientData || []) as { id: string; name_kanji: string }[]) names.set(p.id, p.name_kanji);
+    history.push(...((billingData || []) as typeof history));
+  }
+  if (diagnoses.length === 0) return [];
+
+  // 処置（算定日: performed_at、なければカルテに紐づく会計の作成日）
+  const recordInfo = new Map(history.filter(b => b.medical_record_id).map(b => [b.medical_record_id, b]));
+  const recordIds = [...recordInfo.keys()];
+  const { data: toothChartData } = await supabase.from("m_tooth_chart").select("tooth_code, fdi_number").not("fdi_number", "is", null);
+  const toothMaster = new Map<string, string>(
+    ((toothChartData || []) as { tooth_code: string; fdi_number: string | number }[]).map(t => [String(t.tooth_code), String(t.fdi_number)])
+  );
+  const procsByPatient = new Map<string, DatedProcedure[]>();
+  for (let i = 0; i < recordIds.length; i += IN_CHUNK) {
+    const { data } = await supabase
+      .from("receipt_procedures")
+      .select("medical_record_id, performed_at, fee_name, tooth_codes")
+      .in("medical_record_id", recordIds.slice(i, i + IN_CHUNK));
+    for (const p of (data || []) as ProcedureRow[]) {
+      const b = recordInfo.get(p.medical_record_id);
+      if (!b) continue;
+      if (!procsByPatient.has(b.patient_id)) procsByPatient.set(b.patient_id, []);
+      procsByPatient.get(b.patient_id)!.push({
+        date: (p.performed_at || b.created_at).substring(0, 10),
+        fee_name: p.fee_name || "",
+        teeth: [...new Set(parseUkeToothCodes(p.tooth_codes, toothMaster).teeth.map(t => t.fdi))],
+      });
+    }
+  }
+
+  const suggestions: OutcomeSuggestion[] = [];
+  for (const d of diagnoses) {
+    const judged = judgeDiagnosisOutcome(d, procsByPatient.get(d.patient_id) || [], visitsByPatient.get(d.patient_id) || [], ym, idleMonths);
+    if (!judged) continue;
+    suggestions.push({
+      id: d.id,
+      patient_id: d.patient_id,
+      patient_name: names.get(d.patient_id) || "不明",
+      diagnosis_name: d.diagnosis_name,
+      tooth_number_display: d.tooth_number_display,
+      started_at: d.started_at,
+      ...judged,
+    });
+  }
+  return suggestions.sort((a, b) => a.patient_name.localeCompare(b.patient_name, "ja") || (a.started_at || "").localeCompare(b.started_at || ""));
+}
+
+/**
+ * 提案の一括反映
+ * 既に転帰が入っているもの・締め済みの月に関わるもの（訂正理由が必要）は反映せずに返す
+ */
+export async function applyDiagnosisOutcomes(
+  supabase: SupabaseClient,
+  items: OutcomeApplyItem[]
+): Promise<{ applied: number; skipped: { id: string; reason: string }[] }> {
+  const skipped: { id: string; reason: string }[] = [];
+  let applied = 0;
+  const byId = new Map<string, DiagnosisRow>();
+  const ids = items.map(i => i.id);
+  for (let i = 0; i < ids.length; i += IN_CHUNK) {
+    const { data } = await supabase
+      .from("receipt_diagnoses")
+      .select("id, patient_id, diagnosis_code, diagnosis_name, tooth_number_display, started_at, ended_at, outcome")
+      .in("id", ids.slice(i, i + IN_CHUNK));
+    for (const d of (data || []) as DiagnosisRow[]) byId.set(d.id, d);
+  }
+
+  for (const item of items) {
+    const d = byId.get(item.id);
+    if (!d) { skipped.push({ id: item.id, reason: "傷病名が見つかりません" }); continue; }
+    if (item.outcome !== "cured" && item.outcome !== "suspended") { skipped.push({ id: item.id, reason: "転帰は治癒・中止のみ指定できます" }); continue; }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(item.ended_at || "")) { skipped.push({ id: item.id, reason: "転帰日が不正です" }); continue; }
+    if (d.ended_at || (d.outcome && d.outcome !== "continuing")) { skipped.push({ id: item.id, reason: "既に転帰が入力されています" }); continue; }
+    if (d.started_at && item.ended_at < d.started_at.substring(0, 10)) { skipped.push({ id: item.id, reason: "転帰日が開始日より前です" }); continue; }
+    const lock = await findPatientLock(supabase, d.patient_id, item.ended_at);
+    if (lock) { skipped.push({ id: item.id, reason: "締め済みの月に関わるため、カルテから訂正理由を入力して変更してください" }); continue; }
+    const { error } = await supabase.from("receipt_diagnoses").update({ outcome: item.outcome, ended_at: item.ended_at }).eq("id", item.id);
+    if (error) { skipped.push({ id: item.id, reason: error.message }); continue; }
+    applied++;
+  }
+  return { applied, skipped };
+}
@@ -0,0 +1,316 @@
+import * as iconv from "iconv-lite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { splitCsvLine } from "@/lib/csv";
+
+// ============================================================
+// 歯科診療行為マスター（版管理）
+// 診療報酬改定ごとの点数を m_fee_versions に valid_from / valid_to 付きで保持し、
+// 算定日（SSの算定日・会計日）時点の点数を引けるようにする
+// m_fees は「現在有効な版」のキャッシュとして従来どおり参照される
+// fee-master-import / uke-matcher / receipt-check 共通
+// ============================================================
+
+export interface FeeVersion {
+  sub_code: string;                 // 9桁 診療行為コード
+  name: string;
+  points: number;
+  point_kind: string | null;        // 点数識別（1=金額 / 3=点数 等）
+  shinryo_shikibetsu: string | null;
+  valid_from: string;               // YYYY-MM-DD
+  valid_to: string | null;          // YYYY-MM-DD（null=現行）
+}
+
+export interface FeeMasterRow {
+  line: number;
+  change_kubun: string;             // 変更区分（0=変更なし / 1=抹消 / 3=新規 / 5=変更 / 9=廃止）
+  sub_code: string;
+  name: string;
+  point_kind: string;
+  points: number;
+}
+
+// 支払基金配布の歯科診療行為マスター（CSV・Shift_JIS・ヘッダーなし）の列位置（0始まり）
+const FEE_MASTER_COLUMNS = {
+  change_kubun: 0,
+  master_type: 1,
+  sub_code: 2,
+  name: 4,
+  point_kind: 10,
+  points: 11,
+} as const;
+
+const ABOLISH_KUBUN = new Set(["1", "9"]);
+// 初回インポート前の m_fees の値は開始日が分からないため、この日から有効な版として保存する
+export const BASELINE_VALID_FROM = "0001-01-01";
+
+// ============================================================
+// 日付ユーティリティ
+// ============================================================
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().substring(0, 10);
+}
+
+/**
+ * UKEの算定日・診療年月から照合に使う日付（YYYY-MM-DD）を決める
+ * 算定日が日付として読めない場合は診療年月の1日
+ * 診療年月は YYYYMM / 和暦GYYMM（4=平成, 5=令和）の両方を受け付ける
+ */
+export function ukeServiceDate(santeiDate: string, shinryoYearMonth: string): string | null {
+  const sd = String(santeiDate || "").replace(/\D/g, "");
+  if (sd.length === 8) return `${sd.substring(0, 4)}-${sd.substring(4, 6)}-${sd.substring(6, 8)}`;
+
+  const ym = String(shinryoYearMonth || "").replace(/\D/g, "");
+  let year: number | null = null;
+  let month = 0;
+  if (ym.length === 6) {
+    year = Number(ym.substring(0, 4));
+    month = Number(ym.substring(4, 6));
+  } else if (ym.length === 5) {
+    const era = ym[0] === "5" ? 2018 : ym[0] === "4" ? 1988 : null;
+    if (era !== null) year = era + Number(ym.substring(1, 3));
+    month = Number(ym.substring(3, 5));
+  }
+  if (year === null || month < 1 || month > 12) return null;
+  const day = sd.length > 0 && sd.length <= 2 && Number(sd) >= 1 && Number(sd) <= 31 ? Number(sd) : 1;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// ============================================================
+// CSVパース
+// ============================================================
+export function parseFeeMasterBuffer(buffer: Buffer): { rows: FeeMasterRow[]; skipped: { line: number; reason: string }[] } {
+  const text = iconv.decode(buffer, "Shift_JIS");
+  const lines = text.split(/\r?\n/);
+  const rows: FeeMasterRow[] = [];
+  const skipped: { line: number; reason: string }[] = [];
+
+  lines.forEach((raw, i) => {
+    if (!raw.trim()) return;
+    const cols = splitCsvLine(raw);
+    const code = cols[FEE_MASTER_COLUMNS.sub_code] || "";
+    if (!/^\d{9}$/.test(code)) {
+      skipped.push({ line: i + 1, reason: `診療行為コードが9桁ではありません（${code || "空"}）` });
+      return;
+    }
+    const points = Number(cols[FEE_MASTER_COLUMNS.points]);
+    if (isNaN(points)) {
+      skipped.push({ line: i + 1, reason: `点数が数値ではありません（${code}）` });
+      return;
+    }
+    rows.push({
+      line: i + 1,
+      change_kubun: cols[FEE_MASTER_COLUMNS.change_kubun] || "0",
+      sub_code: code,
+      name: cols[FEE_MASTER_COLUMNS.name] || "",
+      point_kind: cols[FEE_MASTER_COLUMNS.point_kind] || "",
+      points,
+    });
+  });
+
+  return { rows, skipped };
+}
+
+// ============================================================
+// 版の取得・解決
+// ============================================================
+const IN_CHUNK = 500;
+
+async function selectByCodes<T>(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  codes: string[]
+): Promise<T[]> {
+  const out: T[] = [];
+  for (let i = 0; i < codes.length; i += IN_CHUNK) {
+    const { data } = await supabase.from(table).select(columns).in("sub_code", codes.slice(i, i + IN_CHUNK));
+    out.push(...((data || []) as T[]));
+  }
+  return out;
+}
+
+export interface FeeMasterLookup {
+  /** 指定日に有効な版を返す（版がなければ m_fees の現行値） */
+  resolve(code: string, date: string | null): FeeVersion | null;
+}
+
+export async function loadFeeMaster(supabase: SupabaseClient, codes: string[]): Promise<FeeMasterLookup> {
+  const unique = [...new Set(codes.filter(Boolean))];
+  if (unique.length === 0) return { resolve: () => null };
+
+  const [versions, current] = await Promise.all([
+    selectByCodes<FeeVersion>(supabase, "m_fee_versions", "sub_code, name, points, point_kind, shinryo_shikibetsu, valid_from, valid_to", unique),
+    selectByCodes<{ sub_code: string; name: string; points: number; shinryo_shikibetsu: string | null }>(
+      supabase, "m_fees", "sub_code, name, points, shinryo_shikibetsu", unique
+    ),
+  ]);
+
+  const versionsByCode = new Map<string, FeeVersion[]>();
+  for (const v of versions) {
+    if (!versionsByCode.has(v.sub_code)) versionsByCode.set(v.sub_code, []);
+    versionsByCode.get(v.sub_code)!.push(v);
+  }
+  const currentByCode = new Map(current.map(c => [c.sub_code, c]));
+
+  return {
+    resolve(code, date) {
+      const cur = currentByCode.get(code);
+      const list = versionsByCode.get(code) || [];
+      const hit = date
+        ? list.find(v => v.valid_from <= date && (!v.valid_to || date <= v.valid_to))
+        : list.find(v => !v.valid_to);
+      if (hit) return { ...hit, shinryo_shikibetsu: hit.shinryo_shikibetsu ?? cur?.shinryo_shikibetsu ?? null };
+      // 版管理の対象外（未インポート）のコードは現行マスタで代用
+      if (list.length === 0 && cur) {
+        return { sub_code: code, name: cur.name, points: cur.points, point_kind: null, shinryo_shikibetsu: cur.shinryo_shikibetsu, valid_from: "", valid_to: null };
+      }
+      return null;
+    },
+  };
+}
+
+// ============================================================
+// インポート
+// 施行日（validFrom）で新しい版を作り、それまでの版を前日で締める
+// 同じ施行日での再インポートは上書き、点数・名称が同じなら版を作らない
+// 版のないコード（初回インポート）は m_fees の現行値を施行日の前日までの版として先に保存し、
+// 施行日前の算定日が引けなくならないようにする
+// ============================================================
+export interface FeeMasterImportSummary {
+  valid_from: string;
+  total: number;
+  inserted: number;        // 新しい版を追加
+  overwritten: number;     // 同じ施行日の版を上書き
+  unchanged: number;
+  abolished: number;       // 廃止・抹消で版を締めた
+  closed: number;          // 旧版の valid_to を設定
+  baseline: number;        // 版のないコードの m_fees 現行値を旧版として保存
+  current_updated: number; // m_fees（現行キャッシュ）を更新
+  dry_run: boolean;
+}
+
+export async function importFeeMaster(
+  supabase: SupabaseClient,
+  rows: FeeMasterRow[],
+  validFrom: string,
+  options: { dryRun?: boolean; sourceFile?: string; today?: string } = {}
+): Promise<FeeMasterImportSummary> {
+  const dryRun = !!options.dryRun;
+  const today = options.today || new Date().toISOString().substring(0, 10);
+  const summary: FeeMasterImportSummary = {
+    valid_from: validFrom, total: rows.length, inserted: 0, overwritten: 0,
+    unchanged: 0, abolished: 0, closed: 0, baseline: 0, current_updated: 0, dry_run: dryRun,
+  };
+
+  const codes = [...new Set(rows.map(r => r.sub_code))];
+  const existing = await selectByCodes<FeeVersion & { id: string }>(
+    supabase, "m_fee_versions", "id, sub_code, name, points, point_kind, shinryo_shikibetsu, valid_from, valid_to", codes
+  );
+  const byCode = new Map<string, (FeeVersion & { id: string })[]>();
+  for (const v of existing) {
+    if (!byCode.has(v.sub_code)) byCode.set(v.sub_code, []);
+    byCode.get(v.sub_code)!.push(v);
+  }
+
+  // 版のないコードは m_fees の現行値を旧版（id なし・未保存）として扱う
+  const baselines = new Set<FeeVersion & { id: string }>();
+  const unversioned = codes.filter(c => !byCode.has(c));
+  const currentFees = await selectByCodes<{ sub_code: string; name: string; points: number; shinryo_shikibetsu: string | null }>(
+    supabase, "m_fees", "sub_code, name, points, shinryo_shikibetsu", codes
+  );
+  const knownCodes = new Set(currentFees.map(f => f.sub_code));
+  for (const f of currentFees) {
+    if (!unversioned.includes(f.sub_code) || validFrom <= BASELINE_VALID_FROM) continue;
+    const v = { id: "", sub_code: f.sub_code, name: f.name, points: f.points, point_kind: null, shinryo_shikibetsu: f.shinryo_shikibetsu, valid_from: BASELINE_VALID_FROM, valid_to: null };
+    baselines.add(v);
+    byCode.set(f.sub_code, [v]);
+  }
+
+  const inserts: Record<string, unknown>[] = [];
+  const updates: { id: string; values: Record<string, unknown> }[] = [];
+  const currentRows: FeeMasterRow[] = [];
+  const closeVersion = (v: FeeVersion & { id: string }, validTo: string) => {
+    if (baselines.has(v)) v.valid_to = validTo;
+    else updates.push({ id: v.id, values: { valid_to: validTo } });
+  };
+
+  for (const row of rows) {
+    const versions = (byCode.get(row.sub_code) || []).sort((a, b) => a.valid_from.localeCompare(b.valid_from));
+    const covering = versions.find(v => v.valid_from <= validFrom && (!v.valid_to || validFrom <= v.valid_to));
+    const next = versions.find(v => v.valid_from > validFrom);
+
+    if (ABOLISH_KUBUN.has(row.change_kubun)) {
+      if (covering && covering.valid_from < validFrom) {
+        closeVersion(covering, addDays(validFrom, -1));
+        summary.abolished++;
+      }
+      continue;
+    }
+
+    if (covering && covering.valid_from === validFrom) {
+      if (covering.points !== row.points || covering.name !== row.name) {
+        updates.push({ id: covering.id, values: { name: row.name, points: row.points, point_kind: row.point_kind } });
+        summary.overwritten++;
+      } else {
+        summary.unchanged++;
+      }
+    } else if (covering && covering.points === row.points && covering.name === row.name) {
+      summary.unchanged++;
+      continue;
+    } else {
+      if (covering) {
+        closeVersion(covering, addDays(validFrom, -1));
+        summary.closed++;
+      }
+      inserts.push({
+        sub_code: row.sub_code,
+        name: row.name,
+        points: row.points,
+        point_kind: row.point_kind,
+        shinryo_shikibetsu: covering?.shinryo_shikibetsu ?? null,
+        valid_from: validFrom,
+        valid_to: next ? addDays(next.valid_from, -1) : null,
+        source_file: options.sourceFile || null,
+      });
+      summary.inserted++;
+    }
+
+    // 施行済みかつ後続の版がない場合は現行キャッシュ（m_fees）も更新
+    if (validFrom <= today && !next) currentRows.push(row);
+  }
+
+  const baselineInserts = [...baselines].map(v => ({
+    sub_code: v.sub_code, name: v.name, points: v.points, point_kind: v.point_kind,
+    shinryo_shikibetsu: v.shinryo_shikibetsu, valid_from: v.valid_from, valid_to: v.valid_to, source_file: null,
+  }));
+  summary.baseline = baselineInserts.length;
+  if (dryRun) {
+    summary.current_updated = currentRows.length;
+    return summary;
+  }
+
+  for (let i = 0; i < baselineInserts.length; i += IN_CHUNK) {
+    const { error } = await supabase.from("m_fee_versions").insert(baselineInserts.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(`現行点数の旧版としての保存に失敗しました: ${error.message}`);
+  }
+  for (let i = 0; i < inserts.length; i += IN_CHUNK) {
+    const { error } = await supabase.from("m_fee_versions").insert(inserts.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(`m_fee_versionsへの登録に失敗しました: ${error.message}`);
+  }
+  for (const u of updates) {
+    const { error } = await supabase.from("m_fee_versions").update(u.values).eq("id", u.id);
+    if (error) throw new Error(`m_fee_versionsの更新に失敗しました: ${error.message}`);
+  }
+
+  for (const row of currentRows) {
+    const { error } = knownCodes.has(row.sub_code)
+      ? await supabase.from("m_fees").update({ name: row.name, points: row.points }).eq("sub_code", row.sub_code)
+      : await supabase.from("m_fees").insert({ sub_code: row.sub_code, name: row.name, points: row.points });
+    if (error) throw new Error(`m_feesの更新に失敗しました（${row.sub_code}）: ${error.message}`);
+    summary.current_updated++;
+  }
+
+  return summary;
+}
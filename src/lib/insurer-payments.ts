@@ -0,0 +1,328 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeDate, normalizeText, normalizeYearMonth, parseCsvNumber, splitCsvLine } from "@/lib/csv";
+import { CLAIM_DESTINATIONS, resolveClaimDestination, type ClaimDestination } from "@/lib/claim-destination";
+
+// ============================================================
+// 保険請求のライフサイクルと入金照合
+// billing.payment_status は窓口の入金（unpaid/paid）、billing.claim_status は保険者への請求:
+//   draft（未請求）→ claimed（請求済・claim_ym=UKEの請求月）→ paid（入金済）
+//                               ↘ reduced（査定）/ returned（返戻）
+// 支払基金・国保連の振込通知（CSV）を insurer_payments に取り込み、
+// 請求月 × 審査支払機関ごとに請求額（点数×10円−窓口負担）と突き合わせる
+// ============================================================
+
+export type ClaimStatus = "draft" | "claimed" | "paid" | "reduced" | "returned";
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  draft: "未請求",
+  claimed: "請求済",
+  paid: "入金済",
+  reduced: "査定",
+  returned: "返戻",
+};
+
+/** 保険者への請求額（円）= 総点数×10円 − 窓口負担 */
+export function insurerAmount(b: { total_points: number; patient_burden: number }): number {
+  return (b.total_points || 0) * 10 - (b.patient_burden || 0);
+}
+
+/**
+ * 査定（増減点）のうち審査支払機関からの入金が変わる額（円）
+ * 保険者負担分（点数×10円×(1−負担割合)）に、公費が負担していた分（負担割合のうち窓口で払っていない割合）を加える
+ * 負担割合は査定されたレセプトの会計のもの
+ */
+export function reductionInsurerAmount(
+  deltaPoints: number,
+  billings: { total_points: number; patient_burden: number; burden_ratio: number }[]
+): number {
+  if (billings.length === 0) return deltaPoints * 10;
+  const ratio = billings[0].burden_ratio;
+  const amount = billings.reduce((s, b) => s + (b.total_points || 0) * 10, 0);
+  const paidAtWindow = amount > 0 ? billings.reduce((s, b) => s + (b.patient_burden || 0), 0) / amount : ratio;
+  const publicShare = Math.max(0, ratio - paidAtWindow);
+  return Math.round(deltaPoints * 10 * (1 - ratio + publicShare));
+}
+
+const IN_CHUNK = 500;
+
+export async function updateBillingClaimStatus(
+  supabase: SupabaseClient,
+  billingIds: string[],
+  status: ClaimStatus,
+  claimYm?: string
+): Promise<number> {
+  let updated = 0;
+  const values: Record<string, unknown> = { claim_status: status };
+  if (claimYm) values.claim_ym = claimYm;
+  for (let i = 0; i < billingIds.length; i += IN_CHUNK) {
+    const { data, error } = await supabase.from("billing").update(values).in("id", billingIds.slice(i, i + IN_CHUNK)).select("id");
+    if (error) throw new Error(`billingの請求状態の更新に失敗しました: ${error.message}`);
+    updated += (data || []).length;
+  }
+  return updated;
+}
+
+function ymRange(ym: string): { start: string; end: string } {
+  const y = ym.substring(0, 4);
+  const m = ym.substring(4, 6);
+  const lastDay = new Date(Number(y), Number(m), 0).getDate();
+  return { start: `${y}-${m}-01T00:00:00`, end: `${y}-${m}-${String(lastDay).padStart(2, "0")}T23:59:59` };
+}
+
+/**
+ * UKEを提出した月の会計を請求済にする（未請求・精算済みの当月分のみ）
+ * 返戻再請求分は claim-returns の状態遷移で請求済になる
+ */
+export async function markBillingsClaimed(supabase: SupabaseClient, yearMonth: string): Promise<{ claimed: number; already: number }> {
+  const { start, end } = ymRange(yearMonth);
+  const { data, error } = await supabase
+    .from("billing")
+    .select("id, claim_status")
+    .eq("payment_status", "paid")
+    .gte("created_at", start)
+    .lte("created_at", end);
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as { id: string; claim_status: string | null }[];
+  const targets = rows.filter(b => !b.claim_status || b.claim_status === "draft").map(b => b.id);
+  const claimed = await updateBillingClaimStatus(supabase, targets, "claimed", yearMonth);
+  return { claimed, already: rows.length - targets.length };
+}
+
+// ============================================================
+// 振込通知CSVパース（ヘッダー行の列名で列位置を決める）
+// 1ファイル = 1審査支払機関。同じ請求月の複数行（本人/家族・公費等）は合算する
+// ============================================================
+export interface InsurerPaymentRow {
+  line: number;
+  claim_ym: string;           // YYYYMM（請求したUKEの月）
+  receipt_count: number;
+  points: number;
+  decided_amount: number;     // 決定金額
+  transfer_amount: number;    // 振込額（手数料等の控除後）
+  paid_on: string | null;     // YYYY-MM-DD
+}
+
+const PAYMENT_HEADER_ALIASES: Record<string, string[]> = {
+  claim_ym: ["診療年月", "請求年月", "診療月"],
+  receipt_count: ["件数", "決定件数"],
+  points: ["決定点数", "点数"],
+  decided_amount: ["決定金額", "決定額", "請求金額", "金額"],
+  transfer_amount: ["振込額", "振込金額", "支払額", "差引支払額"],
+  paid_on: ["振込日", "振込年月日", "支払日"],
+};
+
+export function parseInsurerPaymentCsv(text: string): { rows: InsurerPaymentRow[]; skipped: { line: number; reason: string }[] } {
+  const lines = text.split(/\r?\n/);
+  const skipped: { line: number; reason: string }[] = [];
+  const headerIdx = lines.findIndex(l => PAYMENT_HEADER_ALIASES.claim_ym.some(a => l.includes(a)));
+  if (headerIdx < 0) {
+    return { rows: [], skipped: [{ line: 1, reason: "ヘッダー行（診療年月・請求年月）が見つかりません" }] };
+  }
+  const header = splitCsvLine(lines[headerIdx]).map(normalizeText);
+  const col: Record<string, number> = {};
+  for (const [key, aliases] of Object.entries(PAYMENT_HEADER_ALIASES)) {
+    const idx = header.findIndex(h => aliases.includes(h));
+    if (idx >= 0) col[key] = idx;
+  }
+
+  const byYm = new Map<string, InsurerPaymentRow>();
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cols = splitCsvLine(lines[i]);
+    // 合計行は明細と二重計上になるため読まない
+    if (cols.some(c => /^(合計|総計|計)$/.test(normalizeText(c)))) continue;
+    const get = (key: string) => (col[key] === undefined ? "" : cols[col[key]] || "");
+
+    const ym = normalizeYearMonth(get("claim_ym"));
+    if (!ym) {
+      skipped.push({ line: i + 1, reason: `請求年月が読めません（${get("claim_ym") || "空"}）` });
+      continue;
+    }
+    const decided = parseCsvNumber(get("decided_amount"));
+    const transfer = parseCsvNumber(get("transfer_amount"));
+    if (decided === null && transfer === null) {
+      skipped.push({ line: i + 1, reason: "決定金額・振込額がありません" });
+      continue;
+    }
+    if (!byYm.has(ym)) {
+      byYm.set(ym, { line: i + 1, claim_ym: ym, receipt_count: 0, points: 0, decided_amount: 0, transfer_amount: 0, paid_on: null });
+    }
+    const row = byYm.get(ym)!;
+    row.receipt_count += parseCsvNumber(get("receipt_count")) ?? 0;
+    row.points += parseCsvNumber(get("points")) ?? 0;
+    row.decided_amount += decided ?? transfer ?? 0;
+    row.transfer_amount += transfer ?? decided ?? 0;
+    row.paid_on = row.paid_on || normalizeDate(get("paid_on")) || null;
+  }
+  return { rows: [...byYm.values()], skipped };
+}
+
+// ============================================================
+// 請求月 × 審査支払機関の会計（照合・入金反映の共通）
+// ============================================================
+type ClaimedBilling = {
+  id: string;
+  patient_id: string;
+  total_points: number;
+  patient_burden: number;
+  burden_ratio: number | null;
+  claim_status: ClaimStatus | null;
+  claim_ym: string;
+  patients: { patient_insurances?: { insurance_type: string | null; insurer_number: string | null; burden_ratio: number | null; is_current: boolean }[] } | null;
+};
+
+/** 会計の負担割合（未設定なら現在の保険の割合、それもなければ3割） */
+function billingBurdenRatio(b: ClaimedBilling): number {
+  if (b.burden_ratio !== null && b.burden_ratio !== undefined) return Number(b.burden_ratio);
+  const ins = b.patients?.patient_insurances?.find(i => i.is_current);
+  return Number(ins?.burden_ratio ?? 0.3);
+}
+
+function billingDestination(b: ClaimedBilling): ClaimDestination {
+  const ins = b.patients?.patient_insurances?.find(i => i.is_current) || b.patients?.patient_insurances?.[0];
+  return resolveClaimDestination(ins?.insurance_type, ins?.insurer_number);
+}
+
+async function loadClaimedBillings(supabase: SupabaseClient, claimYms: string[]): Promise<ClaimedBilling[]> {
+  if (claimYms.length === 0) return [];
+  const { data, error } = await supabase
+    .from("billing")
+    .select("id, patient_id, total_points, patient_burden, burden_ratio, claim_status, claim_ym, patients(patient_insurances(insurance_type, insurer_number, burden_ratio, is_current))")
+    .in("claim_ym", claimYms);
+  if (error) throw new Error(error.message);
+  return (data || []) as unknown as ClaimedBilling[];
+}
+
+// ============================================================
+// インポート（同じ審査支払機関・請求月は上書き）
+// 取り込んだ月の請求済み・査定済みの会計を入金済にする（査定額は claim_returns に残る。返戻は再請求まで未収）
+// ============================================================
+export interface InsurerPaymentImportSummary {
+  destination: ClaimDestination;
+  total: number;
+  inserted: number;
+  overwritten: number;
+  billings_paid: number;
+  dry_run: boolean;
+}
+
+export async function importInsurerPayments(
+  supabase: SupabaseClient,
+  destination: ClaimDestination,
+  rows: InsurerPaymentRow[],
+  options: { dryRun?: boolean; sourceFile?: string } = {}
+): Promise<InsurerPaymentImportSummary> {
+  const dryRun = !!options.dryRun;
+  const summary: InsurerPaymentImportSummary = { destination, total: rows.length, inserted: 0, overwritten: 0, billings_paid: 0, dry_run: dryRun };
+
+  const yms = rows.map(r => r.claim_ym);
+  const { data: existingData } = await supabase
+    .from("insurer_payments")
+    .select("id, claim_ym")
+    .eq("destination", destination)
+    .in("claim_ym", yms);
+  const existingByYm = new Map(((existingData || []) as { id: string; claim_ym: string }[]).map(e => [e.claim_ym, e.id]));
+
+  const billings = await loadClaimedBillings(supabase, yms);
+  const toPay = billings.filter(b => (b.claim_status === "claimed" || b.claim_status === "reduced") && billingDestination(b) === destination).map(b => b.id);
+
+  for (const r of rows) {
+    if (existingByYm.has(r.claim_ym)) summary.overwritten++;
+    else summary.inserted++;
+  }
+  if (dryRun) {
+    summary.billings_paid = toPay.length;
+    return summary;
+  }
+
+  for (const r of rows) {
+    const values = {
+      destination,
+      claim_ym: r.claim_ym,
+      receipt_count: r.receipt_count,
+      points: r.points,
+      decided_amount: r.decided_amount,
+      transfer_amount: r.transfer_amount,
+      paid_on: r.paid_on,
+      source_file: options.sourceFile || null,
+    };
+    const id = existingByYm.get(r.claim_ym);
+    const { error } = id
+      ? await supabase.from("insurer_payments").update(values).eq("id", id)
+      : await supabase.from("insurer_payments").insert(values);
+    if (error) throw new Error(`insurer_paymentsへの登録に失敗しました: ${error.message}`);
+  }
+  summary.billings_paid = await updateBillingClaimStatus(supabase, toPay, "paid");
+  return summary;
+}
+
+// ============================================================
+// 照合: 請求額 − 返戻 + 査定 = 入金見込み と 決定金額 の差
+// ============================================================
+export interface ClaimReconciliation {
+  claim_ym: string;
+  destination: ClaimDestination;
+  destination_label: string;
+  claimed_count: number;
+  claimed_points: number;
+  claimed_amount: number;       // 請求額（円）
+  returned_amount: number;      // 返戻で未収（マイナス）
+  reduced_amount: number;       // 査定の増減（円、減点はマイナス）
+  expected_amount: number;      // 入金見込み
+  decided_amount: number | null;
+  transfer_amount: number | null;
+  paid_on: string | null;
+  difference: number | null;    // 決定金額 − 入金見込み
+  status: "awaiting" | "matched" | "mismatch";
+}
+
+export async function reconcileClaims(supabase: SupabaseClient, claimYms: string[]): Promise<ClaimReconciliation[]> {
+  const [billings, { data: paymentsData }, { data: reductionsData }] = await Promise.all([
+    loadClaimedBillings(supabase, claimYms),
+    supabase.from("insurer_payments").select("destination, claim_ym, decided_amount, transfer_amount, paid_on").in("claim_ym", claimYms),
+    supabase.from("claim_returns").select("billing_ids, delta_points").eq("kind", "zougen"),
+  ]);
+  const payments = (paymentsData || []) as { destination: ClaimDestination; claim_ym: string; decided_amount: number; transfer_amount: number; paid_on: string | null }[];
+  const reductions = (reductionsData || []) as { billing_ids: string[]; delta_points: number }[];
+
+  const out: ClaimReconciliation[] = [];
+  for (const ym of claimYms) {
+    for (const destination of Object.keys(CLAIM_DESTINATIONS) as ClaimDestination[]) {
+      const own = billings.filter(b => b.claim_ym === ym && billingDestination(b) === destination);
+      const payment = payments.find(p => p.claim_ym === ym && p.destination === destination);
+      if (own.length === 0 && !payment) continue;
+
+      const ownById = new Map(own.map(b => [b.id, b]));
+      const claimedAmount = own.reduce((s, b) => s + insurerAmount(b), 0);
+      const returnedAmount = -own.filter(b => b.claim_status === "returned").reduce((s, b) => s + insurerAmount(b), 0);
+      // 査定は1レセプト（患者×月）単位。レセプト内の会計が1件でも当月分なら計上
+      const reducedAmount = reductions.reduce((s, r) => {
+        const receiptBillings = (r.billing_ids || []).map(id => ownById.get(id)).filter((b): b is ClaimedBilling => !!b);
+        if (receiptBillings.length === 0) return s;
+        return s + reductionInsurerAmount(r.delta_points, receiptBillings.map(b => ({ ...b, burden_ratio: billingBurdenRatio(b) })));
+      }, 0);
+      const expected = claimedAmount + returnedAmount + reducedAmount;
+      const decided = payment ? payment.decided_amount : null;
+      const difference = decided === null ? null : decided - expected;
+
+      out.push({
+        claim_ym: ym,
+        destination,
+        destination_label: CLAIM_DESTINATIONS[destination].label,
+        claimed_count: own.length,
+        claimed_points: own.reduce((s, b) => s + (b.total_points || 0), 0),
+        claimed_amount: claimedAmount,
+        returned_amount: returnedAmount,
+        reduced_amount: reducedAmount,
+        expected_amount: expected,
+        decided_amount: decided,
+        transfer_amount: payment ? payment.transfer_amount : null,
+        paid_on: payment?.paid_on || null,
+        difference,
+        // 窓口負担の端数処理による差（1件あたり10円未満）は一致とみなす
+        status: difference === null ? "awaiting" : Math.abs(difference) < 10 * Math.max(own.length, 1) ? "matched" : "mismatch",
+      });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,222 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadFeeMaster } from "@/lib/fee-master";
+import { loadReceiptRuleSet } from "@/lib/receipt-context";
+import { calcAge, type CalcRule } from "@/lib/receipt-rules";
+
+// ============================================================
+// 点数算定サービス（来院1回分）
+// カルテの処置を9桁の診療行為コード（m_fees）に解決し、診療日時点の点数マスタの点数で
+// 加算（h2〜h4）・年齢制限（h8）・逓減（h11）・年齢加算（h12）・施設基準加算を適用して、
+// 1行ごとに根拠付きの内訳を返す。算定確定（billing-finalize）とカルテ画面の点数はこの結果を使う
+// ============================================================
+
+export interface PointInput {
+  id?: string | null;
+  procedure_name: string;
+  fee_code?: string | null;
+  points?: number | null;   // カルテ側の点数（マスタで確認できない場合のみ使う）
+  count?: number | null;
+  category?: string | null;
+  tooth?: string | null;
+}
+
+export type PointSource = "master" | "name" | "client" | "age_addition" | "facility";
+
+export interface PointItem {
+  id: string | null;              // 入力の処置id（自動追加の行は null）
+  fee_code: string | null;        // 9桁（解決できなければ null）
+  name: string;
+  points: number;                 // 1回あたり
+  count: number;
+  subtotal: number;
+  category: string;
+  tooth: string | null;
+  source: PointSource;
+  excluded: boolean;              // 算定できない（合計に含めない）
+  notes: string[];                // 点数の根拠・適用したルール
+}
+
+export interface PointBreakdown {
+  service_date: string;
+  age: number | null;
+  total_points: number;
+  items: PointItem[];
+  warnings: string[];
+}
+
+type FeeRow = { sub_code: string; name: string; points: number };
+type FacilityBonus = { label: string; points: number; fee_code: string };
+
+const IN_CHUNK = 500;
+
+function normalizeFeeName(name: string): string {
+  return (name || "").normalize("NFKC").replace(/\s+/g, "").replace(/^[★☆]/, "");
+}
+
+/**
+ * 処置名 → 診療行為（m_fees）
+ * 正規化（NFKC・空白除去）した名称の完全一致 → 名称を含むもののうち最短 → 名称に含まれるもののうち最長 の順
+ */
+export async function resolveFeesByName(supabase: SupabaseClient, names: string[]): Promise<Map<string, FeeRow>> {
+  const out = new Map<string, FeeRow>();
+  for (const name of [...new Set(names.filter(Boolean))]) {
+    const key = normalizeFeeName(name);
+    const head = key.replace(/[(（].*$/, "");
+    if (head.length < 2) continue;
+    const { data } = await supabase.from("m_fees").select("sub_code, name, points").ilike("name", `%${head}%`).limit(50);
+    const candidates = ((data || []) as FeeRow[]).filter(f => /^\d{9}$/.test(f.sub_code));
+    const byName = candidates.map(f => ({ fee: f, norm: normalizeFeeName(f.name) }));
+    const hit = byName.find(c => c.norm === key)
+      || byName.filter(c => c.norm.includes(key)).sort((a, b) => a.norm.length - b.norm.length)[0]
+      || byName.filter(c => key.includes(c.norm)).sort((a, b) => b.norm.length - a.norm.length)[0];
+    if (hit) out.set(name, hit.fee);
+  }
+  return out;
+}
+
+function ageInRange(rule: CalcRule, age: number | null): boolean {
+  if (age === null) return false;
+  return (rule.age_min === null || age >= rule.age_min) && (rule.age_max === null || age <= rule.age_max);
+}
+
+export async function calculateVisitPoints(
+  supabase: SupabaseClient,
+  params: { patient_id?: string | null; service_date: string; procedures: PointInput[] }
+): Promise<PointBreakdown> {
+  const serviceDate = params.service_date;
+  const warnings: string[] = [];
+
+  const [ruleSet, patientRes, { data: facilityStandards }] = await Promise.all([
+    loadReceiptRuleSet(supabase),
+    params.patient_id
+      ? supabase.from("patients").select("date_of_birth").eq("id", params.patient_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+    supabase
+      .from("m_facility_standards")
+      .select("standard_code, standard_name, bonuses")
+      .eq("is_registered", true)
+      .eq("is_active", true),
+  ]);
+  const age = calcAge((patientRes.data as { date_of_birth: string | null } | null)?.date_of_birth || null, serviceDate);
+  const rules = ruleSet.calculation_rules;
+
+  // 1. 9桁コードへの解決（コードがなければ処置名で m_fees を引く）
+  const byName = await resolveFeesByName(
+    supabase,
+    params.procedures.filter(p => !/^\d{9}$/.test(p.fee_code || "")).map(p => p.procedure_name)
+  );
+  const ageAdditionCodes = rules.filter(r => r.rule_type === "h12" && r.condition_code).map(r => r.condition_code!);
+  const codes = [
+    ...params.procedures.map(p => (/^\d{9}$/.test(p.fee_code || "") ? p.fee_code! : byName.get(p.procedure_name)?.sub_code || "")),
+    ...ageAdditionCodes,
+  ].filter(Boolean);
+  const master = await loadFeeMaster(supabase, codes);
+  const { data: feeNames } = codes.length > 0
+    ? await supabase.from("m_fees").select("sub_code, name, points").in("sub_code", [...new Set(codes)].slice(0, IN_CHUNK))
+    : { data: [] };
+  const feeNameByCode = new Map(((feeNames || []) as FeeRow[]).map(f => [f.sub_code, f.name]));
+
+  // 点数識別が点数（3）の版のみマスタの点数を使う（金額・加算率などはカルテの点数のまま）
+  const masterPoints = (code: string): { points: number; note: string } | null => {
+    const v = master.resolve(code, serviceDate);
+    if (!v || (v.point_kind && v.point_kind !== "3") || !(Number(v.points) > 0)) return null;
+    return { points: Number(v.points), note: v.valid_from ? `${v.valid_from}施行の点数マスタ` : "点数マスタ（現行）" };
+  };
+
+  const items: PointItem[] = params.procedures.map(p => {
+    const count = Math.max(1, Number(p.count) || 1);
+    const base = {
+      id: p.id || null, count, category: p.category || "", tooth: p.tooth || null, excluded: false,
+    };
+    const code = /^\d{9}$/.test(p.fee_code || "") ? p.fee_code! : byName.get(p.procedure_name)?.sub_code || null;
+    const resolved = code ? masterPoints(code) : null;
+    if (code && resolved) {
+      const source: PointSource = code === p.fee_code ? "master" : "name";
+      const notes = [source === "name" ? `処置名から「${feeNameByCode.get(code) || code}」に解決` : "", `${resolved.note}: ${resolved.points}点`].filter(Boolean);
+      return { ...base, fee_code: code, name: p.procedure_name, points: resolved.points, subtotal: 0, source, notes };
+    }
+    const clientPoints = Number(p.points) || 0;
+    const note = code ? `点数マスタで点数を確認できないため入力値（${clientPoints}点）` : `診療行為コードに解決できないため入力値（${clientPoints}点）`;
+    if (!code) warnings.push(`「${p.procedure_name}」を診療行為コードに解決できません`);
+    return { ...base, fee_code: code, name: p.procedure_name, points: clientPoints, subtotal: 0, source: "client" as PointSource, notes: [note] };
+  });
+
+  // 2. 年齢制限（h8）
+  for (const item of items) {
+    if (!item.fee_code || age === null) continue;
+    for (const rule of rules.filter(r => r.rule_type === "h8" && r.target_code === item.fee_code)) {
+      if ((rule.age_min !== null && age < rule.age_min) || (rule.age_max !== null && age > rule.age_max)) {
+        item.excluded = true;
+        item.notes.push(`年齢制限（${rule.age_min ?? ""}〜${rule.age_max ?? ""}歳）の対象外（患者: ${age}歳）`);
+      }
+    }
+  }
+
+  // 3. 年齢加算（h12）
+  const present = () => new Set(items.filter(i => !i.excluded && i.fee_code).map(i => i.fee_code!));
+  for (const rule of rules.filter(r => r.rule_type === "h12" && r.condition_code)) {
+    const codesNow = present();
+    if (!codesNow.has(rule.target_code) || codesNow.has(rule.condition_code!) || !ageInRange(rule, age)) continue;
+    const resolved = masterPoints(rule.condition_code!);
+    if (!resolved) {
+      warnings.push(`年齢加算「${rule.condition_code}」の点数が点数マスタにありません`);
+      continue;
+    }
+    items.push({
+      id: null, fee_code: rule.condition_code!, name: feeNameByCode.get(rule.condition_code!) || rule.description || rule.condition_code!,
+      points: resolved.points, count: 1, subtotal: 0, category: "basic", tooth: null, source: "age_addition", excluded: false,
+      notes: [`年齢加算（${rule.age_min ?? ""}〜${rule.age_max ?? ""}歳 / 患者: ${age}歳）`, `${resolved.note}: ${resolved.points}点`],
+    });
+  }
+
+  // 4. 加算の基本項目（h2〜h4）: 基本項目がなければ算定しない
+  const codesNow = present();
+  for (const item of items) {
+    if (!item.fee_code || item.excluded) continue;
+    const rule = rules.find(r => ["h2", "h3", "h4"].includes(r.rule_type) && r.target_code === item.fee_code && r.condition_code && !codesNow.has(r.condition_code));
+    if (rule) {
+      item.excluded = true;
+      item.notes.push(`基本項目「${feeNameByCode.get(rule.condition_code!) || rule.condition_code}」がないため算定不可`);
+    }
+  }
+
+  // 5. 逓減（h11）: 同一来院で limit_count 回を超えた分
+  const reducedItems = new Set<PointItem>();
+  for (const rule of rules.filter(r => r.rule_type === "h11" && r.limit_count && r.reduction_rate)) {
+    let seen = 0;
+    for (const item of items.filter(i => i.fee_code === rule.target_code && !i.excluded)) {
+      const full = Math.max(0, Math.min(item.count, rule.limit_count! - seen));
+      seen += item.count;
+      if (full === item.count) continue;
+      const reduced = Math.round(item.points * rule.reduction_rate!);
+      item.subtotal = item.points * full + reduced * (item.count - full);
+      reducedItems.add(item);
+      item.notes.push(`逓減: ${rule.limit_count}回を超えた分は${Math.round(rule.reduction_rate! * 100)}%（${reduced}点）${rule.description ? `（${rule.description}）` : ""}`);
+    }
+  }
+
+  // 6. 施設基準加算（届出済みの施設基準の bonuses のうち、今回算定したコードに紐づくもの）
+  const finalCodes = present();
+  for (const standard of (facilityStandards || []) as { standard_name: string; bonuses: FacilityBonus[] | null }[]) {
+    for (const bonus of standard.bonuses || []) {
+      if (!bonus.fee_code || !finalCodes.has(bonus.fee_code) || !(bonus.points > 0)) continue;
+      items.push({
+        id: null, fee_code: bonus.fee_code, name: `${standard.standard_name}（${bonus.label}）`,
+        points: bonus.points, count: 1, subtotal: 0, category: "facility", tooth: null, source: "facility", excluded: false,
+        notes: [`施設基準「${standard.standard_name}」の届出による加算`],
+      });
+    }
+  }
+
+  for (const item of items) {
+    if (item.excluded) item.subtotal = 0;
+    else if (!reducedItems.has(item)) item.subtotal = item.points * item.count;
+  }
+  return {
+    service_date: serviceDate,
+    age,
+    total_points: items.reduce((s, i) => s + i.subtotal, 0),
+    items,
+    warnings,
+  };
+}
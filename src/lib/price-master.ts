@@ -0,0 +1,401 @@
+import * as iconv from "iconv-lite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, BASELINE_VALID_FROM } from "@/lib/fee-master";
+import { splitCsvLine } from "@/lib/csv";
+
+// ============================================================
+// 医薬品マスター / 特定器材マスター（価格履歴）
+// 薬価・材料価格改定ごとの単価を m_drug_prices / m_material_prices に
+// valid_from / valid_to 付きで保持し、算定日時点の単価を引けるようにする
+// m_drugs / m_materials は「現在有効な単価」のキャッシュとして従来どおり参照される
+// price-master-import / receipt-generate（IY・TO）/ uke-matcher 共通
+// ============================================================
+
+export type PriceMasterKind = "drug" | "material";
+
+export interface PriceVersion {
+  code: string;                 // 医薬品コード / 特定器材コード（9桁）
+  name: string;
+  unit: string;
+  unit_price: number;           // 円
+  valid_from: string;           // YYYY-MM-DD（""=現行キャッシュからの代用）
+  valid_to: string | null;
+}
+
+export interface PriceMasterRow {
+  line: number;
+  change_kubun: string;         // 変更区分（0=変更なし / 1=抹消 / 3=新規 / 5=変更 / 9=廃止）
+  code: string;
+  name: string;
+  unit: string;
+  unit_price: number;
+  yj_code: string;              // 医薬品のみ: 薬価基準収載医薬品コード
+  dosage_form: string;          // 医薬品のみ: 剤形（1=内用 / 4=注射 / 6=外用）
+}
+
+export interface PriceDiff {
+  added: { code: string; name: string; unit_price: number }[];
+  removed: { code: string; name: string; unit_price: number }[];
+  changed: { code: string; name: string; old_price: number; new_price: number }[];
+}
+
+// 支払基金配布のマスター（CSV・Shift_JIS・ヘッダーなし）の列位置（0始まり）
+// 医薬品: Y / 特定器材: T。コード〜金額までは共通レイアウト
+const PRICE_MASTER_COLUMNS = {
+  change_kubun: 0,
+  master_type: 1,
+  code: 2,
+  name: 4,
+  unit: 9,
+  unit_price: 11,
+  dosage_form: 16,   // 医薬品のみ
+  yj_code: 31,       // 医薬品のみ
+} as const;
+
+const MASTER_TYPE: Record<PriceMasterKind, string> = { drug: "Y", material: "T" };
+
+const ABOLISH_KUBUN = new Set(["1", "9"]);
+
+const TABLES: Record<PriceMasterKind, { history: string; current: string; codeColumn: string; label: string }> = {
+  drug:     { history: "m_drug_prices",     current: "m_drugs",     codeColumn: "receipt_code",  label: "医薬品" },
+  material: { history: "m_material_prices", current: "m_materials", codeColumn: "material_code", label: "特定器材" },
+};
+
+const DOSAGE_FORM_LABEL: Record<string, string> = { "1": "内服", "4": "注射", "6": "外用" };
+
+// ============================================================
+// CSVパース
+// ============================================================
+export function parsePriceMasterBuffer(
+  buffer: Buffer,
+  kind: PriceMasterKind
+): { rows: PriceMasterRow[]; skipped: { line: number; reason: string }[] } {
+  const text = iconv.decode(buffer, "Shift_JIS");
+  const rows: PriceMasterRow[] = [];
+  const skipped: { line: number; reason: string }[] = [];
+  const c = PRICE_MASTER_COLUMNS;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) return;
+    const cols = splitCsvLine(raw);
+    const type = cols[c.master_type] || "";
+    if (type && type !== MASTER_TYPE[kind]) {
+      skipped.push({ line: i + 1, reason: `マスター種別が${TABLES[kind].label}ではありません（${type}）` });
+      return;
+    }
+    const code = cols[c.code] || "";
+    if (!/^\d{9}$/.test(code)) {
+      skipped.push({ line: i + 1, reason: `コードが9桁ではありません（${code || "空"}）` });
+      return;
+    }
+    const price = Number(cols[c.unit_price]);
+    if (isNaN(price)) {
+      skipped.push({ line: i + 1, reason: `金額が数値ではありません（${code}）` });
+      return;
+    }
+    rows.push({
+      line: i + 1,
+      change_kubun: cols[c.change_kubun] || "0",
+      code,
+      name: cols[c.name] || "",
+      unit: cols[c.unit] || "",
+      unit_price: price,
+      yj_code: kind === "drug" ? cols[c.yj_code] || "" : "",
+      dosage_form: kind === "drug" ? DOSAGE_FORM_LABEL[cols[c.dosage_form]] || "" : "",
+    });
+  });
+
+  return { rows, skipped };
+}
+
+// ============================================================
+// 取得ユーティリティ（1000件上限を超えるためページング）
+// ============================================================
+const IN_CHUNK = 500;
+const PAGE_SIZE = 1000;
+
+type HistoryRow = PriceVersion & { id: string };
+
+async function selectHistory(
+  supabase: SupabaseClient,
+  kind: PriceMasterKind,
+  filter: { codes?: string[]; openAt?: string }
+): Promise<HistoryRow[]> {
+  const table = TABLES[kind].history;
+  const columns = "id, code, name, unit, unit_price, valid_from, valid_to";
+  const out: HistoryRow[] = [];
+
+  if (filter.codes) {
+    for (let i = 0; i < filter.codes.length; i += IN_CHUNK) {
+      const { data } = await supabase.from(table).select(columns).in("code", filter.codes.slice(i, i + IN_CHUNK));
+      out.push(...((data || []) as HistoryRow[]));
+    }
+    return out;
+  }
+
+  // openAt時点で有効な版をすべて取得
+  const date = filter.openAt!;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data } = await supabase.from(table).select(columns)
+      .lte("valid_from", date)
+      .or(`valid_to.is.null,valid_to.gte.${date}`)
+      .order("code")
+      .range(from, from + PAGE_SIZE - 1);
+    out.push(...((data || []) as HistoryRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return out;
+}
+
+function coversDate(v: PriceVersion, date: string): boolean {
+  return v.valid_from <= date && (!v.valid_to || date <= v.valid_to);
+}
+
+// ============================================================
+// 版の解決
+// ============================================================
+export interface PriceMasterLookup {
+  /** 指定日に有効な単価を返す（履歴がなければ m_drugs / m_materials の現行値） */
+  resolve(code: string, date: string | null): PriceVersion | null;
+}
+
+export async function loadPriceMaster(
+  supabase: SupabaseClient,
+  kind: PriceMasterKind,
+  codes: string[]
+): Promise<PriceMasterLookup> {
+  const unique = [...new Set(codes.filter(Boolean))];
+  if (unique.length === 0) return { resolve: () => null };
+
+  const { current, codeColumn } = TABLES[kind];
+  const [history, currentRows] = await Promise.all([
+    selectHistory(supabase, kind, { codes: unique }),
+    (async () => {
+      const rows: Record<string, unknown>[] = [];
+      for (let i = 0; i < unique.length; i += IN_CHUNK) {
+        const { data } = await supabase.from(current).select("*").in(codeColumn, unique.slice(i, i + IN_CHUNK));
+        rows.push(...((data || []) as Record<string, unknown>[]));
+      }
+      return rows;
+    })(),
+  ]);
+
+  const historyByCode = new Map<string, HistoryRow[]>();
+  for (const h of history) {
+    if (!historyByCode.has(h.code)) historyByCode.set(h.code, []);
+    historyByCode.get(h.code)!.push(h);
+  }
+  const currentByCode = new Map(currentRows.map(r => [String(r[codeColumn]), r]));
+
+  return {
+    resolve(code, date) {
+      const list = historyByCode.get(code) || [];
+      const hit = date ? list.find(v => coversDate(v, date)) : list.find(v => !v.valid_to);
+      if (hit) return hit;
+      const cur = currentByCode.get(code);
+      if (list.length === 0 && cur) {
+        return {
+          code,
+          name: String(cur.name || ""),
+          unit: String(cur.unit || ""),
+          unit_price: Number(cur.unit_price) || 0,
+          valid_from: "",
+          valid_to: null,
+        };
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * 薬剤料の点数（1剤あたり）: 15円以下は1点、超える場合は (金額-15)/10 を切り上げて+1点
+ */
+export function drugPoints(unitPrice: number, quantity: number): number {
+  const amount = unitPrice * quantity;
+  if (amount <= 15) return 1;
+  return Math.ceil((amount - 15) / 10) + 1;
+}
+
+// ============================================================
+// 版の比較
+// ============================================================
+function diffVersions(before: PriceVersion[], after: PriceVersion[]): PriceDiff {
+  const beforeMap = new Map(before.map(v => [v.code, v]));
+  const afterMap = new Map(after.map(v => [v.code, v]));
+  const diff: PriceDiff = { added: [], removed: [], changed: [] };
+  for (const [code, a] of afterMap) {
+    const b = beforeMap.get(code);
+    if (!b) diff.added.push({ code, name: a.name, unit_price: a.unit_price });
+    else if (b.unit_price !== a.unit_price) diff.changed.push({ code, name: a.name, old_price: b.unit_price, new_price: a.unit_price });
+  }
+  for (const [code, b] of beforeMap) {
+    if (!afterMap.has(code)) diff.removed.push({ code, name: b.name, unit_price: b.unit_price });
+  }
+  return diff;
+}
+
+/**
+ * 2つの時点で有効なマスター版を比較する（例: 改定前日と施行日）
+ */
+export async function diffPriceMaster(
+  supabase: SupabaseClient,
+  kind: PriceMasterKind,
+  fromDate: string,
+  toDate: string
+): Promise<PriceDiff> {
+  const [before, after] = await Promise.all([
+    selectHistory(supabase, kind, { openAt: fromDate }),
+    selectHistory(supabase, kind, { openAt: toDate }),
+  ]);
+  return diffVersions(before, after);
+}
+
+// ============================================================
+// インポート
+// 配布マスターは全件ファイルのため、ファイルにない現行コードは施行日前日で締める（削除）
+// 履歴のないコード（初回インポート）は m_drugs / m_materials の現行単価を施行日前日までの版として
+// 先に保存する（上書き後も施行日前の算定日は旧単価で引ける）
+// ============================================================
+export interface PriceMasterImportSummary {
+  kind: PriceMasterKind;
+  valid_from: string;
+  total: number;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  baseline: number;          // 履歴のないコードの現行単価を旧版として保存
+  current_updated: number;   // m_drugs / m_materials（現行キャッシュ）を更新
+  dry_run: boolean;
+}
+
+export async function importPriceMaster(
+  supabase: SupabaseClient,
+  kind: PriceMasterKind,
+  rows: PriceMasterRow[],
+  validFrom: string,
+  options: { dryRun?: boolean; sourceFile?: string; today?: string } = {}
+): Promise<{ summary: PriceMasterImportSummary; diff: PriceDiff }> {
+  const dryRun = !!options.dryRun;
+  const today = options.today || new Date().toISOString().substring(0, 10);
+  const dayBefore = addDays(validFrom, -1);
+  const { history, current, codeColumn } = TABLES[kind];
+
+  const activeRows = rows.filter(r => !ABOLISH_KUBUN.has(r.change_kubun));
+  const codes = [...new Set(rows.map(r => r.code))];
+  const previous = await selectHistory(supabase, kind, { openAt: dayBefore });
+  const existing = await selectHistory(supabase, kind, { codes });
+
+  // 履歴のないコードは現行キャッシュの単価を旧版（id なし・未保存）として扱う
+  const currentRows: Record<string, unknown>[] = [];
+  for (let i = 0; i < codes.length; i += IN_CHUNK) {
+    const { data, error } = await supabase.from(current).select("*").in(codeColumn, codes.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(`${current}の取得に失敗しました: ${error.message}`);
+    currentRows.push(...((data || []) as Record<string, unknown>[]));
+  }
+  const currentCodes = new Set(currentRows.map(r => String(r[codeColumn])));
+  const historyCodes = new Set(existing.map(v => v.code));
+  const baselines = new Set<HistoryRow>();
+  for (const r of currentRows) {
+    const code = String(r[codeColumn]);
+    if (historyCodes.has(code) || dayBefore < BASELINE_VALID_FROM) continue;
+    const v: HistoryRow = {
+      id: "", code, name: String(r.name || ""), unit: String(r.unit || ""), unit_price: Number(r.unit_price) || 0,
+      valid_from: BASELINE_VALID_FROM, valid_to: null,
+    };
+    baselines.add(v);
+    previous.push(v);
+  }
+
+  const incoming: PriceVersion[] = activeRows.map(r => ({
+    code: r.code, name: r.name, unit: r.unit, unit_price: r.unit_price, valid_from: validFrom, valid_to: null,
+  }));
+  const diff = diffVersions(previous, incoming);
+
+  const summary: PriceMasterImportSummary = {
+    kind, valid_from: validFrom, total: rows.length,
+    added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length,
+    unchanged: activeRows.length - diff.added.length - diff.changed.length,
+    baseline: baselines.size, current_updated: 0, dry_run: dryRun,
+  };
+  if (dryRun) return { summary, diff };
+
+  const previousByCode = new Map(previous.map(v => [v.code, v]));
+  const existingByCode = new Map<string, HistoryRow[]>();
+  for (const v of existing) {
+    if (!existingByCode.has(v.code)) existingByCode.set(v.code, []);
+    existingByCode.get(v.code)!.push(v);
+  }
+
+  const inserts: Record<string, unknown>[] = [];
+  const updates: { id: string; values: Record<string, unknown> }[] = [];
+  const closeVersion = (v: HistoryRow) => {
+    if (baselines.has(v)) v.valid_to = dayBefore;
+    else updates.push({ id: v.id, values: { valid_to: dayBefore } });
+  };
+  for (const row of activeRows) {
+    const versions = existingByCode.get(row.code) || [];
+    const sameDay = versions.find(v => v.valid_from === validFrom);
+    const next = versions.filter(v => v.valid_from > validFrom).sort((a, b) => a.valid_from.localeCompare(b.valid_from))[0];
+    if (sameDay) {
+      if (sameDay.unit_price !== row.unit_price || sameDay.name !== row.name) {
+        updates.push({ id: sameDay.id, values: { name: row.name, unit: row.unit, unit_price: row.unit_price } });
+      }
+      continue;
+    }
+    const prev = previousByCode.get(row.code);
+    if (prev && prev.unit_price === row.unit_price && prev.name === row.name) continue;
+    if (prev) closeVersion(prev as HistoryRow);
+    inserts.push({
+      code: row.code,
+      name: row.name,
+      unit: row.unit,
+      unit_price: row.unit_price,
+      valid_from: validFrom,
+      valid_to: next ? addDays(next.valid_from, -1) : null,
+      source_file: options.sourceFile || null,
+    });
+  }
+  for (const r of diff.removed) {
+    const prev = previousByCode.get(r.code) as HistoryRow | undefined;
+    if (prev && !prev.valid_to) closeVersion(prev);
+  }
+
+  const baselineInserts = [...baselines].map(v => ({
+    code: v.code, name: v.name, unit: v.unit, unit_price: v.unit_price, valid_from: v.valid_from, valid_to: v.valid_to, source_file: null,
+  }));
+  for (let i = 0; i < baselineInserts.length; i += IN_CHUNK) {
+    const { error } = await supabase.from(history).insert(baselineInserts.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(`現行単価の旧版としての保存に失敗しました: ${error.message}`);
+  }
+  for (let i = 0; i < inserts.length; i += IN_CHUNK) {
+    const { error } = await supabase.from(history).insert(inserts.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(`${history}への登録に失敗しました: ${error.message}`);
+  }
+  for (const u of updates) {
+    const { error } = await supabase.from(history).update(u.values).eq("id", u.id);
+    if (error) throw new Error(`${history}の更新に失敗しました: ${error.message}`);
+  }
+
+  // 施行済みの版は現行キャッシュにも反映（追加・変更分のみ）
+  if (validFrom <= today) {
+    const touched = new Set([...diff.added.map(a => a.code), ...diff.changed.map(c => c.code)]);
+    const rowByCode = new Map(activeRows.map(r => [r.code, r]));
+    for (const code of touched) {
+      const row = rowByCode.get(code)!;
+      const values: Record<string, unknown> = { name: row.name, unit: row.unit, unit_price: row.unit_price };
+      const { error } = currentCodes.has(code)
+        ? await supabase.from(current).update(values).eq(codeColumn, code)
+        : await supabase.from(current).insert({
+            ...values,
+            [codeColumn]: code,
+            ...(kind === "drug" ? { yj_code: row.yj_code || null, dosage_form: row.dosage_form || null } : {}),
+          });
+      if (error) throw new Error(`${current}の更新に失敗しました（${code}）: ${error.message}`);
+      summary.current_updated++;
+    }
+  }
+
+  return { summary, diff };
+}
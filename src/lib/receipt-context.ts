@@ -0,0 +1,128 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadFeeMaster } from "@/lib/fee-master";
+import {
+  addMonths, lookbackMonths,
+  type BillingMissRule, type CalcRule, type DiagReq, type ReceiptBilling, type ReceiptContext,
+  type ReceiptDiagnosis, type ReceiptProcedure, type ReceiptRuleSet, type ReceiptVisit,
+} from "@/lib/receipt-rules";
+
+// ============================================================
+// レセプトチェック用コンテキストの読み込み
+// 会計・処置・傷病名・保険・過去の会計（回数制限の遡及期間）を一括取得し、
+// 会計ごとの ReceiptContext を組み立てる（N+1なし）
+// ============================================================
+
+const BILLING_COLUMNS = "id, patient_id, medical_record_id, total_points, patient_burden, burden_ratio, ai_check_warnings, document_provided, payment_status, created_at";
+const PROCEDURE_COLUMNS = "id, medical_record_id, patient_id, fee_code, fee_name, points, count, shinryo_shikibetsu, futan_kubun, tooth_codes";
+const IN_CHUNK = 500;
+
+type PatientRow = {
+  id: string;
+  name_kanji: string;
+  date_of_birth: string | null;
+  current_tooth_chart: Record<string, { status?: string }> | null;
+  patient_insurances?: ({ insurance_type: string | null; burden_ratio: number | null; is_current: boolean } & Record<string, unknown>)[];
+};
+
+export async function loadReceiptRuleSet(supabase: SupabaseClient): Promise<ReceiptRuleSet> {
+  const [{ data: calcRulesData }, { data: diagReqsData }, { data: missRulesData }] = await Promise.all([
+    supabase.from("m_calculation_rules").select("*").eq("is_active", true),
+    supabase.from("diagnosis_requirements").select("*").eq("is_active", true),
+    supabase.from("m_billing_miss_rules").select("*").eq("is_active", true),
+  ]);
+  return {
+    calculation_rules: (calcRulesData || []) as CalcRule[],
+    diagnosis_requirements: (diagReqsData || []) as DiagReq[],
+    billing_miss_rules: (missRulesData || []) as BillingMissRule[],
+  };
+}
+
+/**
+ * 指定月の精算済み会計（billingIds指定時はその会計）のコンテキストを読み込む
+ */
+export async function loadReceiptContexts(
+  supabase: SupabaseClient,
+  params: { yearMonth: string; billingIds?: string[]; ruleSet: ReceiptRuleSet }
+): Promise<ReceiptContext[]> {
+  const ym = params.yearMonth;
+  const startDate = `${ym}-01T00:00:00`;
+  const endDay = new Date(parseInt(ym.split("-")[0]), parseInt(ym.split("-")[1]), 0).getDate();
+  const endDate = `${ym}-${String(endDay).padStart(2, "0")}T23:59:59`;
+
+  const { data: billings } = params.billingIds && params.billingIds.length > 0
+    ? await supabase.from("billing").select(BILLING_COLUMNS).in("id", params.billingIds)
+    : await supabase.from("billing").select(BILLING_COLUMNS).eq("payment_status", "paid").gte("created_at", startDate).lte("created_at", endDate).order("created_at");
+  const targets = (billings || []) as unknown as ReceiptBilling[];
+  if (targets.length === 0) return [];
+
+  // 過去の会計（回数制限の遡及期間＋当月）
+  const patientIds = Array.from(new Set(targets.map(b => b.patient_id)));
+  const historyStart = addMonths(`${ym}-01`, -lookbackMonths(params.ruleSet)) + "T00:00:00";
+  const { data: historyData } = await supabase
+    .from("billing")
+    .select("id, patient_id, medical_record_id, total_points, created_at")
+    .in("patient_id", patientIds)
+    .eq("payment_status", "paid")
+    .gte("created_at", historyStart)
+    .lte("created_at", endDate);
+  const allBillings = new Map<string, { id: string; patient_id: string; medical_record_id: string; total_points: number; created_at: string }>();
+  for (const b of [...(historyData || []), ...targets]) allBillings.set(b.id, b);
+
+  const recordIds = [...new Set([...allBillings.values()].map(b => b.medical_record_id).filter(Boolean))];
+  const procsByRecord = new Map<string, ReceiptProcedure[]>();
+  for (let i = 0; i < recordIds.length; i += IN_CHUNK) {
+    const { data } = await supabase.from("receipt_procedures").select(PROCEDURE_COLUMNS).in("medical_record_id", recordIds.slice(i, i + IN_CHUNK));
+    for (const p of (data || []) as ReceiptProcedure[]) {
+      if (!procsByRecord.has(p.medical_record_id)) procsByRecord.set(p.medical_record_id, []);
+      procsByRecord.get(p.medical_record_id)!.push(p);
+    }
+  }
+
+  const historyByPatient = new Map<string, ReceiptVisit[]>();
+  for (const b of [...allBillings.values()].sort((a, c) => a.created_at.localeCompare(c.created_at))) {
+    if (!historyByPatient.has(b.patient_id)) historyByPatient.set(b.patient_id, []);
+    historyByPatient.get(b.patient_id)!.push({
+      billing_id: b.id,
+      created_at: b.created_at,
+      date: b.created_at.substring(0, 10),
+      total_points: b.total_points,
+      procedures: procsByRecord.get(b.medical_record_id) || [],
+    });
+  }
+
+  // 点数は会計日時点の版で照合する（改定後に改定前の月を再チェックしても旧点数で判定）
+  const targetCodes = targets.flatMap(b => (procsByRecord.get(b.medical_record_id) || []).map(p => p.fee_code));
+  const [feeMaster, { data: patientsData }, { data: diagsData }, { data: toothChartData }] = await Promise.all([
+    loadFeeMaster(supabase, targetCodes),
+    supabase.from("patients").select("id, name_kanji, date_of_birth, current_tooth_chart, patient_insurances(*)").in("id", patientIds),
+    supabase.from("receipt_diagnoses").select("id, patient_id, diagnosis_code, diagnosis_name, tooth_number_display, started_at, ended_at, outcome").in("patient_id", patientIds),
+    supabase.from("m_tooth_chart").select("tooth_code, fdi_number").not("fdi_number", "is", null),
+  ]);
+  const patientMap = new Map<string, PatientRow>(((patientsData || []) as PatientRow[]).map(p => [p.id, p]));
+  // 6桁歯式コード → FDI歯番号（receipt-generate の toothMap の逆引き）
+  const toothMaster = new Map<string, string>(
+    ((toothChartData || []) as { tooth_code: string; fdi_number: string | number }[]).map(t => [String(t.tooth_code), String(t.fdi_number)])
+  );
+  const diagsByPatient = new Map<string, ReceiptDiagnosis[]>();
+  for (const d of (diagsData || []) as ReceiptDiagnosis[]) {
+    if (!diagsByPatient.has(d.patient_id)) diagsByPatient.set(d.patient_id, []);
+    diagsByPatient.get(d.patient_id)!.push(d);
+  }
+
+  return targets.map(billing => {
+    const patient = patientMap.get(billing.patient_id);
+    const insurance = patient?.patient_insurances?.find(i => i.is_current) || patient?.patient_insurances?.[0] || null;
+    return {
+      billing,
+      service_date: billing.created_at.substring(0, 10),
+      patient: patient ? { id: patient.id, name: patient.name_kanji, date_of_birth: patient.date_of_birth } : null,
+      insurance,
+      diagnoses: diagsByPatient.get(billing.patient_id) || [],
+      procedures: procsByRecord.get(billing.medical_record_id) || [],
+      history: historyByPatient.get(billing.patient_id) || [],
+      fee_master: feeMaster,
+      tooth_chart: patient?.current_tooth_chart || null,
+      tooth_master: toothMaster,
+    };
+  });
+}
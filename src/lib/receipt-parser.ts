@@ -1,8 +1,16 @@
+import { emptySanteiDays } from "@/lib/santei-days";
+import type { ParsedUKE, PatientReceipt, SSRecord } from "@/types/uke";
+
 // レセ電データパーサー（歯科）
 // 厚労省レセプト電算処理フォーマット対応
+// 他社レセコンのCSV出力（チェックレコード付き・SSの点数が後方固定位置）を読む。
+// 正本の型は ParsedUKE（types/uke.ts）で、下の変換関数で相互に行き来できる。
+// parseUKEBuffer は他社CSVを自動判定してここを経由するので、
+// matchUKE・レセチェック・analyze-uke はどちらの形式でも同じように使える。
 
 export type ReceiptPatient = {
   receiptNo: number;
+  receiptType: string;
   name: string;
   nameKana: string;
   sex: string;
@@ -37,6 +45,7 @@ export type ProcedureGroup = {
   count: number;
   details: string[];
   toothPositions: string[];
+  santeiDays: number[];    // 1日〜31日の算定回数（他社CSVは算定日がないため全て0）
 };
 
 export type Comment = {
@@ -138,6 +147,7 @@ export function parseReceiptCSV(text: string): ReceiptFile {
         if (currentPatient) result.patients.push(currentPatient);
         currentPatient = {
           receiptNo: parseInt(fields[1]) || 0,
+          receiptType: fields[3] || "",
           name: fields[4] || "",
           nameKana: fields.length > 25 ? (fields[25] || "") : "",
           sex: getSex(fields[5] || ""),
@@ -243,6 +253,7 @@ export function parseReceiptCSV(text: string): ReceiptFile {
           count,
           details,
           toothPositions: [],
+          santeiDays: emptySanteiDays(),
         });
         currentPatient.totalPoints += points * count;
         break;
@@ -275,3 +286,199 @@ function toHalf(str: string): string {
     String.fromCharCode(ch.charCodeAt(0) - 0xfee0)
   ).replace(/\u3000/g, " ");
 }
+
+// 半角→全角変換（UKEの氏名・記号は全角で持つ）
+function toFull(str: string): string {
+  return str.replace(/[\u0021-\u007e]/g, (ch) =>
+    String.fromCharCode(ch.charCodeAt(0) + 0xfee0)
+  ).replace(/ /g, "\u3000");
+}
+
+// YYYY/MM/DD → YYYYMMDD
+function unfmtDate(d: string): string {
+  return d.replace(/\//g, "");
+}
+
+// ============================================================
+// ReceiptFile ⇔ ParsedUKE 変換
+// ============================================================
+
+/**
+ * 他社CSV（ReceiptFile）を ParsedUKE に変換する
+ * 元データに無い項目は空文字。傷病名・歯式・コメントコードはあるものだけ移す
+ */
+export function receiptFileToParsedUKE(file: ReceiptFile): ParsedUKE {
+  const patients: PatientReceipt[] = file.patients.map(p => {
+    const ss: SSRecord[] = p.procedures.map(proc => {
+      const firstDay = proc.santeiDays.findIndex(n => n > 0);
+      return {
+        shinryo_shikibetsu: proc.category,
+        futan_kubun:        "",
+        fee_code:           proc.code,
+        quantity:           proc.toothPositions.join(""),
+        points:             String(proc.points),
+        count:              String(proc.count),
+        comment_code_1:     proc.details[0] || "",
+        comment_text_1:     "",
+        comment_code_2:     proc.details[1] || "",
+        comment_text_2:     "",
+        comment_code_3:     proc.details[2] || "",
+        comment_text_3:     "",
+        santei_date:        firstDay >= 0 ? String(firstDay + 1) : "",
+        santei_days:        [...proc.santeiDays],
+      };
+    });
+    return {
+      re: {
+        receipt_no:        String(p.receiptNo),
+        receipt_type:      p.receiptType,
+        shinryo_yearmonth: file.claimYearMonth,
+        patient_name:      p.name,
+        sex:               p.sex === "男" ? "1" : p.sex === "女" ? "2" : "",
+        date_of_birth:     unfmtDate(p.birthDate),
+        benefit_ratio:     "",
+        admission_date:    "",
+        ward_kubun:        "",
+        copay_kubun:       "",
+        tokki:             "",
+        bed_count:         "",
+        karte_no:          "",
+        discount_kubun:    "",
+        referral:          "",
+        clinic_code:       file.clinicCode,
+        search_no:         "",
+      },
+      ho: p.insurerNumber ? [{
+        insurer_no:      p.insurerNumber,
+        insured_symbol:  toFull(p.insuredSymbol),
+        insured_no:      p.insuredNumber,
+        visit_days:      "",
+        total_points:    String(p.totalPoints),
+        burden_amount:   "",
+        food_therapy:    "",
+        claim:           "",
+        copay_amount:    "",
+        discount_ratio:  "",
+        discount_amount: "",
+      }] : [],
+      sn: [],
+      ko: p.publicInsurer ? [{
+        public_insurer_no:      p.publicInsurer,
+        public_recipient_no:    p.publicRecipient,
+        optional_benefit_kubun: "",
+        visit_days:             "",
+        total_points:           String(p.totalPoints),
+        public_burden_amount:   "",
+      }] : [],
+      jd: [],
+      mf: [],
+      hs: p.diagnoses.map(d => ({
+        tooth_code:     p.toothChart,
+        diagnosis_code: d.code,
+        modifier_codes: "",
+        diagnosis_name: d.name,
+      })),
+      ss,
+      iy: [],
+      to: [],
+      co: p.comments.map(c => ({
+        shinryo_shikibetsu: "",
+        futan_kubun:        "",
+        comment_code:       c.code,
+        comment_text:       toFull(c.text),
+        tooth_codes:        "",
+      })),
+    };
+  });
+
+  return {
+    uk: {
+      receipt_no:        "",
+      receipt_type:      "",
+      shinryo_yearmonth: file.claimYearMonth,
+      clinic_code:       file.clinicCode,
+      prefecture:        "",
+      fee_table:         "3",
+      clinic_name:       toFull(file.clinicName),
+    },
+    ir: {
+      clinic_identifier: "",
+      prefecture_no:     "",
+      fee_table:         "3",
+      clinic_code:       file.clinicCode,
+      billing_org_code:  "",
+      clinic_name:       toFull(file.clinicName),
+      claim_yearmonth:   file.claimYearMonth,
+      phone:             file.phone,
+    },
+    patients,
+    go: { total_receipts: String(file.totalReceipts || patients.length), total_points: String(file.totalPoints) },
+    parse_errors: [],
+    raw_line_count: 0,
+  };
+}
+
+/**
+ * ParsedUKE を ReceiptFile（画面表示向けの平たい形）に変換する
+ * SS/IY/TO はまとめて procedures に入れる。歯式は数量欄の6桁コードを拾う
+ */
+export function parsedUKEToReceiptFile(parsed: ParsedUKE): ReceiptFile {
+  const patients: ReceiptPatient[] = parsed.patients.map(p => {
+    const ho = p.ho[0];
+    const ko = p.ko[0];
+    const procedures: ProcedureGroup[] = [
+      ...p.ss.map(r => ({ category: r.shinryo_shikibetsu, code: r.fee_code, quantity: r.quantity, points: r.points, count: r.count, comments: [r.comment_code_1, r.comment_code_2, r.comment_code_3], days: r.santei_days })),
+      ...p.iy.map(r => ({ category: r.shinryo_shikibetsu, code: r.drug_code, quantity: "", points: r.points, count: r.count, comments: [r.comment_code_1, r.comment_code_2, r.comment_code_3], days: r.santei_days })),
+      ...p.to.map(r => ({ category: r.shinryo_shikibetsu, code: r.material_code, quantity: "", points: r.points, count: r.count, comments: [r.comment_code_1, r.comment_code_2, r.comment_code_3], days: r.santei_days })),
+    ].map(r => ({
+      category: r.category,
+      categoryName: getCategoryName(r.category),
+      code: r.code,
+      points: parseInt(r.points) || 0,
+      count: parseInt(r.count) || 1,
+      details: r.comments.filter(Boolean),
+      toothPositions: /^(\d{6})+$/.test(r.quantity) ? r.quantity.match(/\d{6}/g) || [] : [],
+      santeiDays: r.days ? [...r.days] : emptySanteiDays(),
+    }));
+    const linePoints = procedures.reduce((sum, proc) => sum + proc.points * proc.count, 0);
+    return {
+      receiptNo: parseInt(p.re.receipt_no) || 0,
+      receiptType: p.re.receipt_type,
+      name: p.re.patient_name,
+      nameKana: "",
+      sex: getSex(p.re.sex),
+      birthDate: fmtDate(p.re.date_of_birth),
+      insuranceType: getInsuranceType(p.re.receipt_type.charAt(0)),
+      firstVisitDate: "",
+      insurerNumber: ho?.insurer_no || "",
+      insuredSymbol: toHalf(ho?.insured_symbol || ""),
+      insuredNumber: ho?.insured_no || "",
+      publicInsurer: ko?.public_insurer_no || "",
+      publicRecipient: ko?.public_recipient_no || "",
+      totalPoints: parseInt(ho?.total_points || ko?.total_points || "") || linePoints,
+      diagnoses: p.hs.map(h => ({ code: h.diagnosis_code, name: h.diagnosis_name, startDate: "", outcome: "" })),
+      procedures,
+      toothChart: p.hs.find(h => h.tooth_code)?.tooth_code || "",
+      comments: p.co.map(c => ({ code: c.comment_code, text: toHalf(c.comment_text) })),
+      returns: [],
+    };
+  });
+
+  return {
+    clinicName: toHalf(parsed.ir?.clinic_name || parsed.uk?.clinic_name || ""),
+    clinicCode: parsed.ir?.clinic_code || parsed.uk?.clinic_code || "",
+    claimYearMonth: parsed.uk?.shinryo_yearmonth || parsed.patients[0]?.re.shinryo_yearmonth || "",
+    phone: parsed.ir?.phone || "",
+    totalReceipts: parseInt(parsed.go?.total_receipts || "") || patients.length,
+    totalPoints: parseInt(parsed.go?.total_points || "") || patients.reduce((sum, p) => sum + p.totalPoints, 0),
+    patients,
+  };
+}
+
+/**
+ * 他社CSV形式かどうか（数字で始まるチェックレコードがある、またはSSが公式仕様より大幅に長い）
+ */
+export function isVendorReceiptCSV(text: string): boolean {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  return lines.some(l => /^\d+,/.test(l)) || lines.some(l => l.startsWith("SS,") && l.split(",").length > 60);
+}
@@ -0,0 +1,225 @@
+import type { IRRecord, UKRecord } from "@/types/uke";
+import type { MatchedPatientReceipt, MatchedUKE } from "@/lib/uke-matcher";
+import { normalizeDate, normalizeYearMonth } from "@/lib/csv";
+import { santeiDaysLabel } from "@/lib/santei-days";
+import { formatTeeth, parseUkeToothCodes } from "@/lib/tooth-notation";
+
+// ============================================================
+// レセプトプレビュー（様式第三・歯科）
+// MatchedUKE を紙レセプトに近いレイアウトの印刷用HTMLにする
+// 1患者1ページ（@page A4）。先頭に月の集計と院長確認欄を付ける
+// 自院で生成したUKE・設定画面でアップロードしたUKEのどちらにも使う
+// ============================================================
+
+// 診療識別（電子レセプト 別表）
+export const SHINRYO_SHIKIBETSU_LABELS: Record<string, string> = {
+  "11": "初診", "12": "再診", "13": "医学管理等", "14": "在宅医療",
+  "21": "投薬（内服）", "22": "投薬（屯服）", "23": "投薬（外用）", "25": "処方", "26": "麻薬", "27": "調剤基本",
+  "31": "注射（皮下筋肉内）", "32": "注射（静脈内）", "33": "注射（その他）",
+  "40": "処置", "50": "手術", "54": "麻酔", "60": "検査", "70": "画像診断", "80": "その他",
+};
+
+export interface ReceiptPreviewOptions {
+  uk?: UKRecord | null;
+  ir?: IRRecord | null;
+  title?: string;
+  toothLabels?: Map<string, string>;   // 6桁歯式コード → 表示（例: 104600 → 46）
+}
+
+interface GridRow {
+  shikibetsu: string;
+  name: string;
+  detail: string;
+  points: number;
+  count: number;
+  date: string;
+}
+
+function esc(s: string | number | null | undefined): string {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function fmtYm(v: string): string {
+  const ym = normalizeYearMonth(v);
+  return /^\d{6}$/.test(ym) ? `${ym.substring(0, 4)}年${parseInt(ym.substring(4, 6))}月` : v;
+}
+
+function fmtDate(v: string): string {
+  const d = normalizeDate(v);
+  return /^\d{4}-\d{2}-\d{2}$/.test(d) ? d.replace(/-/g, "/") : v;
+}
+
+function num(s: string): number {
+  return parseInt(s || "0") || 0;
+}
+
+function teeth(code: string, labels?: Map<string, string>): string {
+  if (!code) return "";
+  const parsed = parseUkeToothCodes(code, labels);
+  return [formatTeeth(parsed.teeth), ...parsed.unknown].filter(Boolean).join("・");
+}
+
+function gridRows(p: MatchedPatientReceipt, labels?: Map<string, string>): GridRow[] {
+  const rows: GridRow[] = [
+    ...p.ss.map(r => ({
+      shikibetsu: r.shinryo_shikibetsu,
+      name: r.procedure_name || r.fee_code,
+      detail: teeth(r.quantity, labels),
+      points: r.points,
+      count: num(r.count) || 1,
+      date: santeiDaysLabel(r.santei_days) || r.santei_date,
+    })),
+    ...p.iy.map(r => ({
+      shikibetsu: r.shinryo_shikibetsu,
+      name: r.drug_name || r.drug_code,
+      detail: r.usage_amount,
+      points: num(r.points),
+      count: num(r.count) || 1,
+      date: santeiDaysLabel(r.santei_days) || r.santei_date,
+    })),
+    ...p.to.map(r => ({
+      shikibetsu: r.shinryo_shikibetsu,
+      name: r.material_name || r.material_code,
+      detail: r.quantity,
+      points: num(r.points),
+      count: num(r.count) || 1,
+      date: santeiDaysLabel(r.santei_days) || r.santei_date,
+    })),
+  ];
+  return rows.sort((a, b) => a.shikibetsu.localeCompare(b.shikibetsu));
+}
+
+function renderPatient(p: MatchedPatientReceipt, opts: ReceiptPreviewOptions): string {
+  const ho = p.ho[0];
+  const rows = gridRows(p, opts.toothLabels);
+  const groups = new Map<string, GridRow[]>();
+  for (const r of rows) {
+    if (!groups.has(r.shikibetsu)) groups.set(r.shikibetsu, []);
+    groups.get(r.shikibetsu)!.push(r);
+  }
+  const visitDays = ho?.visit_days || p.ko[0]?.visit_days || "";
+  const totalPoints = num(ho?.total_points || p.ko[0]?.total_points || "0");
+  const gridPoints = rows.reduce((s, r) => s + r.points * r.count, 0);
+
+  const grid = [...groups.entries()].map(([code, items]) => {
+    const subtotal = items.reduce((s, r) => s + r.points * r.count, 0);
+    return items.map((r, i) => `
+      <tr>
+        ${i === 0 ? `<th rowspan="${items.length + 1}" class="cat">${esc(code)}<br>${esc(SHINRYO_SHIKIBETSU_LABELS[code] || "")}</th>` : ""}
+        <td>${esc(r.name)}</td><td>${esc(r.detail)}</td>
+        <td class="r">${r.points.toLocaleString()}</td><td class="r">${r.count}</td><td>${esc(r.date)}</td>
+      </tr>`).join("") + `
+      <tr class="sub"><td colspan="2">小計</td><td class="r" colspan="2">${subtotal.toLocaleString()}点</td><td></td></tr>`;
+  }).join("");
+
+  return `
+  <section class="page">
+    <table class="head">
+      <tr>
+        <th>診療年月</th><td>${esc(fmtYm(p.re.shinryo_yearmonth))}</td>
+        <th>レセプト番号</th><td>${esc(p.re.receipt_no)}</td>
+        <th>種別</th><td>${esc(p.re.receipt_type)}</td>
+        <th>給付割合</th><td>${esc(p.re.benefit_ratio)}${p.re.benefit_ratio ? "%" : ""}</td>
+      </tr>
+      <tr>
+        <th>保険者番号</th><td>${esc(ho?.insurer_no || "")}</td>
+        <th>記号・番号</th><td colspan="3">${esc([ho?.insured_symbol, ho?.insured_no].filter(Boolean).join("・"))}</td>
+        <th>実日数</th><td>${esc(visitDays)}日</td>
+      </tr>
+      ${p.ko.map((k, i) => `
+      <tr>
+        <th>公費${i + 1} 負担者番号</th><td>${esc(k.public_insurer_no)}</td>
+        <th>受給者番号</th><td>${esc(k.public_recipient_no)}</td>
+        <th>実日数・点数</th><td>${esc(k.visit_days)}日・${esc(k.total_points)}点</td>
+        <th>公費負担金</th><td>${esc(k.public_burden_amount)}</td>
+      </tr>`).join("")}
+      <tr>
+        <th>氏名</th><td colspan="3" class="name">${esc(p.re.patient_name)}</td>
+        <th>性別</th><td>${p.re.sex === "1" ? "男" : p.re.sex === "2" ? "女" : esc(p.re.sex)}</td>
+        <th>生年月日</th><td>${esc(fmtDate(p.re.date_of_birth))}</td>
+      </tr>
+    </table>
+
+    <h3>傷病名</h3>
+    <table class="grid">
+      <tr><th>部位</th><th>傷病名</th><th>コード</th><th>修飾語</th></tr>
+      ${p.hs.map(h => `
+      <tr>
+        <td>${esc(teeth(h.tooth_code, opts.toothLabels))}</td>
+        <td>${h.matched ? "" : "⚠ "}${esc(h.diagnosis_name || h.diagnosis_code)}</td>
+        <td>${esc(h.diagnosis_code)}</td><td>${esc(h.modifier_codes)}</td>
+      </tr>`).join("") || `<tr><td colspan="4" class="empty">傷病名なし</td></tr>`}
+    </table>
+    ${p.jd.length > 0 ? `<p class="days">診療日: ${esc(p.jd.flatMap(j => j.visit_dates).join(" "))}</p>` : ""}
+
+    <h3>診療行為</h3>
+    <table class="grid">
+      <tr><th>診療識別</th><th>名称</th><th>部位・数量</th><th>点数</th><th>回数</th><th>算定日</th></tr>
+      ${grid || `<tr><td colspan="6" class="empty">診療行為なし</td></tr>`}
+    </table>
+    ${p.co.length > 0 ? `<h3>コメント</h3><ul>${p.co.map(c => `<li>${esc(c.comment_code)} ${esc(c.comment_text)}</li>`).join("")}</ul>` : ""}
+
+    <table class="total">
+      <tr>
+        <th>請求点数</th><td>${totalPoints.toLocaleString()}点</td>
+        <th>一部負担金</th><td>${esc(ho?.burden_amount || "")}</td>
+        ${gridPoints !== totalPoints ? `<td class="warn">明細合計 ${gridPoints.toLocaleString()}点（差 ${(totalPoints - gridPoints).toLocaleString()}）</td>` : ""}
+      </tr>
+    </table>
+  </section>`;
+}
+
+export function renderReceiptPreviewHtml(matched: MatchedUKE, opts: ReceiptPreviewOptions = {}): string {
+  const clinicName = opts.uk?.clinic_name || opts.ir?.clinic_name || "";
+  const ym = matched.patients[0]?.re.shinryo_yearmonth || "";
+  const totalPoints = matched.patients.reduce((s, p) => s + num(p.ho[0]?.total_points || p.ko[0]?.total_points || "0"), 0);
+  const title = opts.title || `レセプト（様式第三）${fmtYm(ym)}`;
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${esc(title)}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: "Hiragino Mincho ProN", "Yu Mincho", serif; font-size: 10.5pt; color: #111; }
+  .page { page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  h1 { font-size: 15pt; margin: 0 0 8px; }
+  h3 { font-size: 10.5pt; margin: 10px 0 4px; border-left: 4px solid #333; padding-left: 6px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #444; padding: 3px 5px; vertical-align: top; }
+  th { background: #f2f2f2; font-weight: normal; white-space: nowrap; }
+  .head th { width: 10%; }
+  .name { font-size: 13pt; font-weight: bold; }
+  .cat { width: 12%; text-align: center; }
+  .r { text-align: right; }
+  .sub td { background: #fafafa; font-size: 9pt; }
+  .empty { color: #999; text-align: center; }
+  .days { font-size: 9pt; margin: 4px 0; }
+  .total { margin-top: 10px; width: auto; }
+  .warn { color: #b00; border: none; }
+  .sign { margin-top: 24px; width: 50%; }
+  .sign td { height: 40px; }
+  @media screen { body { max-width: 210mm; margin: 16px auto; } .page { border-bottom: 2px dashed #ccc; padding-bottom: 16px; margin-bottom: 16px; } }
+</style>
+</head>
+<body>
+  <section class="page">
+    <h1>${esc(title)}</h1>
+    <table class="head">
+      <tr><th>医療機関</th><td>${esc(clinicName)}</td><th>医療機関コード</th><td>${esc(opts.uk?.clinic_code || opts.ir?.clinic_code || "")}</td></tr>
+      <tr><th>件数</th><td>${matched.patients.length}件</td><th>合計点数</th><td>${totalPoints.toLocaleString()}点</td></tr>
+      <tr><th>マスタ未照合</th><td colspan="3">${matched.summary.unmatched_total > 0
+        ? esc([...matched.unmatched_codes.ss, ...matched.unmatched_codes.hs, ...matched.unmatched_codes.iy, ...matched.unmatched_codes.to].join(", "))
+        : "なし"}</td></tr>
+    </table>
+    <table class="sign">
+      <tr><th>院長確認</th><td></td><th>確認日</th><td></td></tr>
+    </table>
+  </section>
+  ${matched.patients.map(p => renderPatient(p, opts)).join("")}
+</body>
+</html>`;
+}
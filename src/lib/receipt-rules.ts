@@ -0,0 +1,736 @@
+import type { FeeMasterLookup } from "@/lib/fee-master";
+import { burdenConfigFromInsurance, calculateMonthlyBurden } from "@/lib/burden-calculator";
+import { isDeciduous as isDeciduousTooth, parseUkeToothCodes } from "@/lib/tooth-notation";
+
+// ============================================================
+// レセプトチェック ルールエンジン
+// 会計1件分の ReceiptContext にルール評価器を順に適用し、構造化された指摘（ReceiptFinding）を返す
+// DBアクセスは行わない（読み込みは receipt-context.ts）。ブラウザ側でも実行できる
+// /api/receipt-check・レセプトチェック画面・診察画面の算定漏れチェック 共通
+// ============================================================
+
+// ============================================================
+// 型定義
+// ============================================================
+export interface ReceiptProcedure {
+  id: string;
+  medical_record_id: string;
+  patient_id: string;
+  fee_code: string;
+  fee_name: string;
+  points: number;
+  count: number;
+  shinryo_shikibetsu: string;
+  futan_kubun: string;
+  tooth_codes?: string | null;      // SSの歯式（6桁歯式コード、複数歯は連結）
+  category?: string | null;         // カルテの処置区分（診察中のチェックのみ）
+}
+
+export interface ReceiptDiagnosis {
+  id: string;
+  patient_id: string;
+  diagnosis_code: string;
+  diagnosis_name: string;
+  tooth_number_display: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  outcome: string | null;
+}
+
+export interface ReceiptBilling {
+  id: string;
+  patient_id: string;
+  medical_record_id: string;
+  total_points: number;
+  patient_burden: number;
+  burden_ratio: number;
+  ai_check_warnings: string[];
+  document_provided: boolean;
+  created_at: string;
+}
+
+// 同一患者の会計履歴（当月＋回数制限の遡及期間）
+export interface ReceiptVisit {
+  billing_id: string;
+  created_at: string;
+  date: string;                     // YYYY-MM-DD
+  total_points: number;
+  procedures: ReceiptProcedure[];
+}
+
+export interface ReceiptContext {
+  billing: ReceiptBilling | null;   // 診察中（会計前）のチェックでは null
+  service_date: string;             // YYYY-MM-DD
+  patient: { id: string; name: string; date_of_birth: string | null } | null;
+  insurance: ({ insurance_type: string | null; burden_ratio: number | null; is_current: boolean } & Record<string, unknown>) | null;
+  diagnoses: ReceiptDiagnosis[];
+  procedures: ReceiptProcedure[];
+  history: ReceiptVisit[];          // 当該会計を含む。created_at昇順
+  fee_master?: FeeMasterLookup;
+  tooth_chart?: Record<string, { status?: string }> | null;  // patients.current_tooth_chart（FDIキー）
+  tooth_master?: Map<string, string>;                         // 6桁歯式コード → FDI歯番号（m_tooth_chart）
+}
+
+// m_calculation_rules.rule_type
+//   h2〜h4: 加算の基本項目 / h5: 材料 / h6: 回数制限 / h7: きざみ / h8: 年齢制限 / h9: 併算定不可 / h10: 実日数
+//   h11: 逓減（target_code の limit_count 回を超えた分を reduction_rate 倍で算定）
+//   h12: 年齢加算（target_code の算定時、age_min〜age_max の患者に condition_code の加算を付ける）
+export interface CalcRule {
+  id: string;
+  rule_type: string;
+  target_code: string;
+  condition_code: string | null;
+  limit_count: number | null;
+  limit_period: string | null;
+  age_min: number | null;
+  age_max: number | null;
+  description: string | null;
+  reduction_rate?: number | null;
+}
+
+export interface DiagReq {
+  id: string;
+  procedure_code_pattern: string;
+  required_diagnosis_keywords: string[];
+  required_icd_prefixes: string[];
+  message: string;
+  error_level: string;
+  legal_basis: string | null;
+}
+
+// m_billing_miss_rules（算定漏れルール）
+//   trigger_code / trigger_category（カルテの処置区分または診療識別）を算定したときに companion_code が
+//   必要（required）/ 同時算定を検討（suggested）
+//   scope: "same_day"（同日に算定）/ "same_month"（同月内に算定済みなら可）
+//   tooth_condition: "same_tooth"（トリガーと同じ歯に算定）/ "deciduous"・"permanent"（トリガーの部位が乳歯・永久歯のとき）
+export interface BillingMissRule {
+  id: string;
+  trigger_code: string | null;
+  trigger_category: string | null;
+  trigger_name: string | null;
+  companion_code: string;
+  companion_name: string | null;
+  level: "required" | "suggested";
+  scope: "same_day" | "same_month";
+  tooth_condition: "same_tooth" | "deciduous" | "permanent" | null;
+  age_min: number | null;
+  age_max: number | null;
+  message: string | null;
+  source: string | null;            // "manual" / "clinic_patterns" / "standard"
+  support_count: number | null;     // clinic_patterns での共起回数（提案から登録した場合）
+  confidence: number | null;
+  is_active: boolean;
+}
+
+export interface ReceiptRuleSet {
+  calculation_rules: CalcRule[];
+  diagnosis_requirements: DiagReq[];
+  billing_miss_rules: BillingMissRule[];
+}
+
+export type FindingSeverity = "error" | "warning" | "info";
+
+export interface ReceiptFinding {
+  rule_id: string;                  // 例: "h6.frequency" / "diagnosis.requirement"
+  severity: FindingSeverity;
+  message: string;
+  legal_basis: string | null;       // 【】で表示する根拠（算定回数制限・療担規則 等）
+  fee_codes: string[];
+  fix: string | null;               // 修正の提案
+  add_procedure?: { name: string; fee_code?: string; tooth?: string };   // 算定漏れの追加候補（点数は point-calculator で解決する）
+}
+
+export interface ReceiptRule {
+  id: string;
+  label: string;
+  evaluate(ctx: ReceiptContext, ruleSet: ReceiptRuleSet): ReceiptFinding[];
+}
+
+// ============================================================
+// 共通ユーティリティ
+// ============================================================
+
+// 算定回数制限の期間（m_calculation_rules.limit_period）
+//   "day" / "month"                      : 同日・同月
+//   "6months" / "6月" / "year" / "年"     : 算定日を含む直近Nか月（ローリング）
+//   "interval_3months" / "前回から3月"    : 前回算定日からNか月経過が必要
+export type LimitPeriod =
+  | { kind: "day" }
+  | { kind: "month" }
+  | { kind: "window"; months: number }
+  | { kind: "interval"; months: number };
+
+export function parseLimitPeriod(period: string | null): LimitPeriod {
+  const p = String(period || "month").trim();
+  if (p === "day" || p === "日") return { kind: "day" };
+  if (p === "year" || p === "年") return { kind: "window", months: 12 };
+  let m = p.match(/^interval_(\d+)months?$/) || p.match(/^前回(?:算定)?から(\d+)(?:か|ヶ|カ)?月$/);
+  if (m) return { kind: "interval", months: Number(m[1]) };
+  m = p.match(/^(\d+)months?$/) || p.match(/^(\d+)(?:か|ヶ|カ)?月$/);
+  if (m) return Number(m[1]) <= 1 ? { kind: "month" } : { kind: "window", months: Number(m[1]) };
+  return { kind: "month" };
+}
+
+export function addMonths(date: string, months: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().substring(0, 10);
+}
+
+/** 回数制限の遡及に必要な月数（履歴の読み込み範囲） */
+export function lookbackMonths(ruleSet: ReceiptRuleSet): number {
+  const periods = ruleSet.calculation_rules.filter(r => r.rule_type === "h6").map(r => parseLimitPeriod(r.limit_period));
+  return Math.max(0, ...periods.map(p => (p.kind === "window" || p.kind === "interval" ? p.months : 0)));
+}
+
+function periodLabel(period: LimitPeriod): string {
+  if (period.kind === "day") return "1日";
+  if (period.kind === "month") return "月";
+  if (period.kind === "window") return period.months === 12 ? "1年" : period.months + "月";
+  return "";
+}
+
+export function calcAge(dob: string | null, refDate: string): number | null {
+  if (!dob) return null;
+  // 日付部分（YYYY-MM-DD）同士で比べる（Date に通すとタイムゾーンで日がずれる）
+  const birth = dob.substring(0, 10);
+  const ref = refDate.substring(0, 10);
+  const age = Number(ref.substring(0, 4)) - Number(birth.substring(0, 4));
+  return ref.substring(5) < birth.substring(5) ? age - 1 : age;
+}
+
+function rulesOf(ruleSet: ReceiptRuleSet, ...types: string[]): CalcRule[] {
+  return ruleSet.calculation_rules.filter(r => types.includes(r.rule_type));
+}
+
+function officialCodes(ctx: ReceiptContext): Set<string> {
+  return new Set(ctx.procedures.map(p => p.fee_code).filter(Boolean));
+}
+
+function countCode(visits: ReceiptVisit[], code: string): number {
+  let total = 0;
+  for (const v of visits) for (const p of v.procedures) if (p.fee_code === code) total += p.count;
+  return total;
+}
+
+// 当該会計以前の履歴（同日でも後の会計は含めない＝超過した会計に指摘を出す）
+function visitsUpTo(ctx: ReceiptContext): ReceiptVisit[] {
+  const until = ctx.billing?.created_at;
+  return until ? ctx.history.filter(v => v.created_at <= until) : ctx.history.filter(v => v.date <= ctx.service_date);
+}
+
+function monthVisits(ctx: ReceiptContext): ReceiptVisit[] {
+  const ym = ctx.service_date.substring(0, 7);
+  return ctx.history.filter(v => v.date.substring(0, 7) === ym);
+}
+
+function finding(
+  rule_id: string,
+  severity: FindingSeverity,
+  message: string,
+  legal_basis: string | null,
+  fee_codes: string[] = [],
+  fix: string | null = null
+): ReceiptFinding {
+  return { rule_id, severity, message, legal_basis, fee_codes, fix };
+}
+
+// ============================================================
+// 評価器
+// ============================================================
+const basicRule: ReceiptRule = {
+  id: "basic",
+  label: "基本項目",
+  evaluate(ctx) {
+    const out: ReceiptFinding[] = [];
+    if (ctx.billing && ctx.billing.total_points <= 0) out.push(finding("basic.points", "error", "合計点数が0以下です", "算定要件", [], "処置の入力内容を確認してください"));
+    if (ctx.diagnoses.length === 0) out.push(finding("basic.diagnosis", "error", "傷病名が1つも登録されていません", "療担規則", [], "処置に対応する傷病名を登録してください"));
+    if (ctx.procedures.length === 0) out.push(finding("basic.procedure", "warning", "処置が1件も登録されていません。処置内容の入力漏れがないか確認してください", null));
+    const allCured = ctx.diagnoses.length > 0 && ctx.diagnoses.every(d => d.outcome === "cured");
+    if (allCured && ctx.procedures.length > 0) out.push(finding("basic.cured", "warning", "全ての傷病名が治癒ですが処置が算定されています", null, [], "転帰日と処置日を確認してください"));
+    if (ctx.billing && !ctx.insurance?.insurance_type) out.push(finding("basic.insurance", "error", "保険種別が未設定です", "請求要件", [], "保険証情報を登録してください"));
+    return out;
+  },
+};
+
+// 窓口負担: 同月の先行来院分を既払いとして負担計算エンジンで再計算（公費・月額上限込み）
+const burdenRule: ReceiptRule = {
+  id: "burden",
+  label: "窓口負担",
+  evaluate(ctx) {
+    const billing = ctx.billing;
+    if (!billing) return [];
+    const config = { ...burdenConfigFromInsurance(ctx.insurance), burden_ratio: billing.burden_ratio };
+    const prior = monthVisits(ctx)
+      .filter(v => v.billing_id !== billing.id && v.created_at < billing.created_at)
+      .map(v => v.total_points);
+    const { visits } = calculateMonthlyBurden([...prior, billing.total_points], config);
+    const expected = visits[visits.length - 1].patient_amount;
+    if (billing.patient_burden === expected) return [];
+    return [finding(
+      "burden.amount", "error",
+      "患者負担額が計算と不一致です（計算値: ¥" + expected.toLocaleString() + " / 登録値: ¥" + billing.patient_burden.toLocaleString() + "）",
+      "算定要件", [], "会計画面で負担額を再計算してください"
+    )];
+  },
+};
+
+// h6: 算定回数制限（同日・同月・Nか月・年・前回算定から）
+const frequencyRule: ReceiptRule = {
+  id: "h6",
+  label: "算定回数制限",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const freqRules = rulesOf(ruleSet, "h6");
+    const past = visitsUpTo(ctx);
+    const current = ctx.billing?.id;
+    const month = ctx.service_date.substring(0, 7);
+    const seen = new Set<string>();
+    for (const proc of ctx.procedures) {
+      if (!proc.fee_code || seen.has(proc.fee_code)) continue;
+      seen.add(proc.fee_code);
+      for (const limit of freqRules.filter(r => r.target_code === proc.fee_code)) {
+        const period = parseLimitPeriod(limit.limit_period);
+        if (period.kind === "interval") {
+          const previous = past
+            .filter(v => v.billing_id !== current && v.date < ctx.service_date && countCode([v], proc.fee_code) > 0)
+            .sort((a, b) => b.date.localeCompare(a.date))[0];
+          if (previous && addMonths(previous.date, period.months) > ctx.service_date) {
+            out.push(finding(
+              "h6.interval", "error",
+              "「" + proc.fee_name + "」は前回算定（" + previous.date + "）から" + period.months + "月を経過していません",
+              "算定回数制限", [proc.fee_code], addMonths(previous.date, period.months) + "以降に算定してください"
+            ));
+          }
+          continue;
+        }
+        // 診察中は当該来院分が履歴に無いため、入力中の処置を加算する
+        const from = period.kind === "day" ? ctx.service_date
+          : period.kind === "month" ? month + "-01"
+          : addMonths(ctx.service_date, -period.months);
+        const inPeriod = past.filter(v => (period.kind === "window" ? v.date > from : v.date >= from));
+        const pending = ctx.billing ? 0 : ctx.procedures.filter(p => p.fee_code === proc.fee_code).reduce((s, p) => s + p.count, 0);
+        const total = countCode(inPeriod, proc.fee_code) + pending;
+        if (limit.limit_count !== null && total > limit.limit_count) {
+          out.push(finding(
+            "h6.frequency", "error",
+            "「" + proc.fee_name + "」は" + periodLabel(period) + limit.limit_count + "回までです（現在: " + total + "回）",
+            "算定回数制限", [proc.fee_code], "回数を超えた算定を削除してください"
+          ));
+        }
+      }
+    }
+    return out;
+  },
+};
+
+// h10: 月の算定回数が実日数（JDの来院日数）×1日あたり上限を超えないこと
+const jitsunissuRule: ReceiptRule = {
+  id: "h10",
+  label: "実日数",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const rules = rulesOf(ruleSet, "h10");
+    if (rules.length === 0) return out;
+    const codes = officialCodes(ctx);
+    const visits = monthVisits(ctx);
+    const dates = new Set(visits.map(v => v.date));
+    if (!ctx.billing) dates.add(ctx.service_date);
+    const jitsunissu = dates.size;
+    for (const rule of rules) {
+      if (!codes.has(rule.target_code)) continue;
+      const perDay = rule.limit_count ?? 1;
+      const pending = ctx.billing ? 0 : ctx.procedures.filter(p => p.fee_code === rule.target_code).reduce((s, p) => s + p.count, 0);
+      const monthCount = countCode(visits, rule.target_code) + pending;
+      if (monthCount > jitsunissu * perDay) {
+        const name = ctx.procedures.find(p => p.fee_code === rule.target_code)?.fee_name || rule.target_code;
+        out.push(finding(
+          "h10.jitsunissu", "error",
+          "「" + name + "」の算定回数（" + monthCount + "回）が実日数（" + jitsunissu + "日）を超えています" + (rule.description ? "（" + rule.description + "）" : ""),
+          "実日数", [rule.target_code], "来院日ごとの算定回数を確認してください"
+        ));
+      }
+    }
+    return out;
+  },
+};
+
+// h9: 併算定不可（同日・同月の別会計）
+const exclusiveRule: ReceiptRule = {
+  id: "h9",
+  label: "併算定不可",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const codes = officialCodes(ctx);
+    const exclRules = rulesOf(ruleSet, "h9");
+    for (const rule of exclRules) {
+      if (codes.has(rule.target_code) && rule.condition_code && codes.has(rule.condition_code)) {
+        out.push(finding(
+          "h9.same_day", "error",
+          "「" + rule.target_code + "」と「" + rule.condition_code + "」は同日に併算定できません" + (rule.description ? "（" + rule.description + "）" : ""),
+          "併算定不可",
+          [rule.target_code, rule.condition_code], "どちらか一方を削除してください"
+        ));
+      }
+    }
+    const others = monthVisits(ctx).filter(v => v.billing_id !== ctx.billing?.id);
+    if (others.length > 0) {
+      const otherCodes = new Set<string>();
+      for (const v of others) for (const p of v.procedures) if (p.fee_code) otherCodes.add(p.fee_code);
+      for (const rule of exclRules) {
+        if (!rule.condition_code) continue;
+        if ((codes.has(rule.target_code) && otherCodes.has(rule.condition_code)) || (codes.has(rule.condition_code) && otherCodes.has(rule.target_code))) {
+          out.push(finding(
+            "h9.same_month", "warning",
+            "「" + rule.target_code + "」と「" + rule.condition_code + "」が同月の別会計で算定されています",
+            "要確認", [rule.target_code, rule.condition_code], "算定要件（同月併算定の可否）を確認してください"
+          ));
+        }
+      }
+    }
+    return out;
+  },
+};
+
+// h8: 年齢制限
+const ageRule: ReceiptRule = {
+  id: "h8",
+  label: "年齢制限",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const age = calcAge(ctx.patient?.date_of_birth || null, ctx.service_date);
+    if (age === null) return out;
+    const ageRules = rulesOf(ruleSet, "h8");
+    for (const proc of ctx.procedures) {
+      if (!proc.fee_code) continue;
+      for (const rule of ageRules.filter(r => r.target_code === proc.fee_code)) {
+        if (rule.age_min !== null && age < rule.age_min) out.push(finding("h8.age_min", "warning", "「" + proc.fee_name + "」は" + rule.age_min + "歳以上が対象です（患者: " + age + "歳）", "年齢制限", [proc.fee_code], "年齢区分に合った項目を選択してください"));
+        if (rule.age_max !== null && age > rule.age_max) out.push(finding("h8.age_max", "warning", "「" + proc.fee_name + "」は" + rule.age_max + "歳以下が対象です（患者: " + age + "歳）", "年齢制限", [proc.fee_code], "年齢区分に合った項目を選択してください"));
+      }
+    }
+    return out;
+  },
+};
+
+// h2〜h4: 加算の基本項目
+const additionRule: ReceiptRule = {
+  id: "h2-h4",
+  label: "加算要件",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const codes = officialCodes(ctx);
+    const addRules = rulesOf(ruleSet, "h2", "h3", "h4");
+    for (const proc of ctx.procedures) {
+      if (!proc.fee_code) continue;
+      for (const rule of addRules.filter(r => r.target_code === proc.fee_code)) {
+        if (!rule.condition_code || codes.has(rule.condition_code)) continue;
+        out.push(finding(
+          "h2-h4.base", "warning",
+          "「" + proc.fee_name + "」は基本項目「" + rule.condition_code + "」の算定が前提です" + (rule.description ? "（" + rule.description + "）" : ""),
+          "加算要件",
+          [proc.fee_code, rule.condition_code], "基本項目「" + rule.condition_code + "」を算定してください"
+        ));
+      }
+    }
+    return out;
+  },
+};
+
+// h5: 特定器材の算定
+const materialRule: ReceiptRule = {
+  id: "h5",
+  label: "材料条件",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const materials = new Set(ctx.procedures.filter(p => p.shinryo_shikibetsu === "TO").map(p => p.fee_code));
+    const matRules = rulesOf(ruleSet, "h5");
+    for (const proc of ctx.procedures) {
+      if (!proc.fee_code) continue;
+      for (const rule of matRules.filter(r => r.target_code === proc.fee_code)) {
+        // 器材コードの指定があればその器材、なければいずれかの特定器材
+        if (rule.condition_code ? materials.has(rule.condition_code) : materials.size > 0) continue;
+        out.push(rule.condition_code
+          ? finding("h5.material", "warning", "「" + proc.fee_name + "」には特定器材「" + rule.condition_code + "」の算定が必要です", "材料条件", [proc.fee_code, rule.condition_code], "特定器材「" + rule.condition_code + "」を追加してください")
+          : finding("h5.material", "warning", "「" + proc.fee_name + "」には特定器材の算定が必要な場合があります", "材料条件", [proc.fee_code], "使用した特定器材を追加してください"));
+      }
+    }
+    return out;
+  },
+};
+
+// h7: きざみ点数
+const incrementRule: ReceiptRule = {
+  id: "h7",
+  label: "きざみ点数",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const incrRules = rulesOf(ruleSet, "h7");
+    for (const proc of ctx.procedures) {
+      if (!proc.fee_code) continue;
+      const rule = incrRules.find(r => r.target_code === proc.fee_code);
+      if (!rule || !rule.limit_count) continue;
+      if (proc.points > 0 && rule.limit_count > 0 && proc.points % rule.limit_count !== 0) {
+        out.push(finding("h7.increment", "warning", "「" + proc.fee_name + "」の点数（" + proc.points + "点）がきざみ単位（" + rule.limit_count + "点）と合いません", "きざみ点数", [proc.fee_code], rule.limit_count + "点単位に修正してください"));
+      }
+    }
+    return out;
+  },
+};
+
+// 点数マスタ: 算定日時点の版と点数を照合
+const feeMasterRule: ReceiptRule = {
+  id: "fee_master",
+  label: "点数マスタ",
+  evaluate(ctx) {
+    const out: ReceiptFinding[] = [];
+    if (!ctx.fee_master) return out;
+    for (const proc of ctx.procedures) {
+      if (!proc.fee_code) continue;
+      const master = ctx.fee_master.resolve(proc.fee_code, ctx.service_date);
+      if (!master) {
+        out.push(finding("fee_master.missing", "warning", "「" + proc.fee_name + "」（" + proc.fee_code + "）は" + ctx.service_date + "時点の点数マスタに存在しません", "点数マスタ", [proc.fee_code], "診療行為コードを確認してください"));
+        continue;
+      }
+      if (master.point_kind === "1" || !master.valid_from) continue;
+      if (proc.points !== master.points) {
+        out.push(finding("fee_master.points", "warning", "「" + proc.fee_name + "」の点数（" + proc.points + "点）が" + master.valid_from + "施行の点数マスタ（" + master.points + "点）と一致しません", "点数マスタ", [proc.fee_code], master.points + "点に修正してください"));
+      }
+    }
+    return out;
+  },
+};
+
+// diagnosis_requirements: 処置に必要な傷病名
+const diagnosisRequirementRule: ReceiptRule = {
+  id: "diagnosis",
+  label: "傷病名要件",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    for (const req of ruleSet.diagnosis_requirements) {
+      const matching = ctx.procedures.filter(p => p.fee_code === req.procedure_code_pattern || p.fee_code.startsWith(req.procedure_code_pattern));
+      if (matching.length === 0) continue;
+      const hasDiag = ctx.diagnoses.some(d => {
+        const nameMatch = req.required_diagnosis_keywords.some(kw => d.diagnosis_name.includes(kw));
+        const icdMatch = req.required_icd_prefixes.length > 0 ? req.required_icd_prefixes.some(prefix => d.diagnosis_code.startsWith(prefix)) : false;
+        return nameMatch || icdMatch;
+      });
+      if (!hasDiag) {
+        out.push(finding(
+          "diagnosis.requirement", req.error_level === "error" ? "error" : "warning",
+          req.message, req.legal_basis, matching.map(p => p.fee_code),
+          req.required_diagnosis_keywords.length > 0 ? "「" + req.required_diagnosis_keywords.join("」「") + "」等の傷病名を登録してください" : null
+        ));
+      }
+    }
+    return out;
+  },
+};
+
+// 部位整合性: 処置の歯式 × 傷病名の部位 × 現在の歯式チャート
+// 部位不一致は査定理由で最も多いものの一つ
+const ADULT_AGE = 20;
+const MISSING_TOOTH_ALLOWED = ["義歯", "ポンティック", "ブリッジ", "インプラント", "欠損"];
+
+/**
+ * 歯式の文字列をFDI歯番号の配列にする（tooth-notation の parseUkeToothCodes）
+ * m_tooth_chartにない6桁コードは10XY00形式とみなしてXYを読む
+ */
+function parseTeeth(value: string | null | undefined, master: Map<string, string> | undefined): { teeth: string[]; unknown: string[] } {
+  const { teeth, unknown } = parseUkeToothCodes(value, master);
+  return { teeth: [...new Set(teeth.map(t => t.fdi))], unknown };
+}
+
+function isActiveDiagnosis(d: ReceiptDiagnosis, date: string): boolean {
+  const start = (d.started_at || "").substring(0, 10);
+  const end = (d.ended_at || "").substring(0, 10);
+  return (!start || start <= date) && (!end || date <= end);
+}
+
+const toothConsistencyRule: ReceiptRule = {
+  id: "tooth",
+  label: "部位整合性",
+  evaluate(ctx) {
+    const out: ReceiptFinding[] = [];
+    const age = calcAge(ctx.patient?.date_of_birth || null, ctx.service_date);
+    const adult = age !== null && age >= ADULT_AGE;
+
+    // 算定日に有効な傷病名の部位
+    const diagTeeth = new Set<string>();
+    for (const d of ctx.diagnoses) {
+      const { teeth } = parseTeeth(d.tooth_number_display, ctx.tooth_master);
+      if (adult) {
+        const deciduous = teeth.filter(isDeciduousTooth);
+        if (deciduous.length > 0 && isActiveDiagnosis(d, ctx.service_date)) {
+          out.push(finding("tooth.deciduous_diagnosis", "warning", "成人（" + age + "歳）の傷病名「" + d.diagnosis_name + "」に乳歯の部位（" + deciduous.join(",") + "）が指定されています", "部位不一致", [], "永久歯の歯番号に修正してください（晩期残存乳歯の場合はそのままで可）"));
+        }
+      }
+      if (isActiveDiagnosis(d, ctx.service_date)) teeth.forEach(t => diagTeeth.add(t));
+    }
+
+    // 当月に抜歯した歯は現在の歯式で欠損になっているため欠損チェックの対象外
+    const extracted = new Set<string>();
+    for (const v of monthVisits(ctx)) {
+      for (const p of v.procedures) {
+        if (p.fee_name.includes("抜歯")) parseTeeth(p.tooth_codes, ctx.tooth_master).teeth.forEach(t => extracted.add(t));
+      }
+    }
+
+    for (const proc of ctx.procedures) {
+      if (!proc.tooth_codes) continue;
+      const { teeth, unknown } = parseTeeth(proc.tooth_codes, ctx.tooth_master);
+      if (unknown.length > 0) {
+        out.push(finding("tooth.code", "error", "「" + proc.fee_name + "」の歯式コード（" + unknown.join(",") + "）を歯番号に変換できません", "歯式コード", [proc.fee_code], "m_tooth_chartに存在する6桁歯式コードに修正してください"));
+      }
+
+      const noDiag = teeth.filter(t => !diagTeeth.has(t));
+      if (noDiag.length > 0) {
+        out.push(finding("tooth.diagnosis", "warning", "「" + proc.fee_name + "」の部位（" + noDiag.join(",") + "）に対応する傷病名がありません", "部位不一致", [proc.fee_code], noDiag.join(",") + "番の傷病名を登録するか、処置の部位を修正してください"));
+      }
+
+      if (adult) {
+        const deciduous = teeth.filter(isDeciduousTooth);
+        if (deciduous.length > 0) {
+          out.push(finding("tooth.deciduous", "warning", "成人（" + age + "歳）の「" + proc.fee_name + "」に乳歯の部位（" + deciduous.join(",") + "）が指定されています", "部位不一致", [proc.fee_code], "永久歯の歯番号に修正してください（晩期残存乳歯の場合はそのままで可）"));
+        }
+      }
+
+      if (ctx.tooth_chart && !MISSING_TOOTH_ALLOWED.some(kw => proc.fee_name.includes(kw))) {
+        const missing = teeth.filter(t => ctx.tooth_chart![t]?.status === "missing" && !extracted.has(t));
+        if (missing.length > 0) {
+          out.push(finding("tooth.missing", "error", "「" + proc.fee_name + "」が欠損歯（" + missing.join(",") + "）に算定されています", "部位不一致", [proc.fee_code], "歯式チャートまたは処置の部位を確認してください"));
+        }
+      }
+    }
+    return out;
+  },
+};
+
+// 会計時のAI算定チェックの警告（管理計画書は提供済みなら除外）
+const aiWarningRule: ReceiptRule = {
+  id: "ai",
+  label: "AI算定チェック",
+  evaluate(ctx) {
+    const billing = ctx.billing;
+    if (!billing?.ai_check_warnings?.length) return [];
+    return billing.ai_check_warnings
+      .filter(w => !(w.includes("管理計画書") && billing.document_provided))
+      .map(w => finding("ai.warning", "warning", w, null));
+  },
+};
+
+// 算定漏れ: m_billing_miss_rules のトリガーを算定したのに、必要・同時算定の項目がない
+// 同じ項目を複数のルールが求める場合は1件にまとめる（required を優先）
+const billingMissRule: ReceiptRule = {
+  id: "miss",
+  label: "算定漏れ",
+  evaluate(ctx, ruleSet) {
+    const out: ReceiptFinding[] = [];
+    const age = calcAge(ctx.patient?.date_of_birth || null, ctx.service_date);
+    const monthProcs = [...ctx.procedures, ...monthVisits(ctx).filter(v => v.billing_id !== ctx.billing?.id).flatMap(v => v.procedures)];
+    const teethOf = (p: ReceiptProcedure) => parseTeeth(p.tooth_codes, ctx.tooth_master).teeth;
+    const rules = [...(ruleSet.billing_miss_rules || [])].sort((a, b) => (a.level === b.level ? 0 : a.level === "required" ? -1 : 1));
+    const reported = new Set<string>();
+
+    for (const rule of rules) {
+      if (!rule.is_active || (!rule.trigger_code && !rule.trigger_category) || reported.has(rule.companion_code)) continue;
+      if (rule.age_min !== null || rule.age_max !== null) {
+        if (age === null || (rule.age_min !== null && age < rule.age_min) || (rule.age_max !== null && age > rule.age_max)) continue;
+      }
+      let triggers = ctx.procedures.filter(p =>
+        (!rule.trigger_code || p.fee_code === rule.trigger_code) &&
+        (!rule.trigger_category || p.category === rule.trigger_category || p.shinryo_shikibetsu === rule.trigger_category)
+      );
+      if (rule.tooth_condition === "deciduous" || rule.tooth_condition === "permanent") {
+        const deciduous = rule.tooth_condition === "deciduous";
+        triggers = triggers.filter(p => teethOf(p).some(t => isDeciduousTooth(t) === deciduous));
+      }
+      if (triggers.length === 0) continue;
+
+      const pool = (rule.scope === "same_month" ? monthProcs : ctx.procedures).filter(p => p.fee_code === rule.companion_code);
+      let missingTeeth: string[] = [];
+      if (rule.tooth_condition === "same_tooth" && triggers.some(p => teethOf(p).length > 0)) {
+        const covered = new Set(pool.flatMap(teethOf));
+        missingTeeth = [...new Set(triggers.flatMap(teethOf))].filter(t => !covered.has(t));
+        if (missingTeeth.length === 0) continue;
+      } else if (pool.length > 0) {
+        continue;
+      }
+
+      reported.add(rule.companion_code);
+      const triggerName = rule.trigger_name || triggers[0].fee_name;
+      const companionName = rule.companion_name || rule.companion_code;
+      const where = missingTeeth.length > 0 ? "（" + missingTeeth.join(",") + "番）" : "";
+      const message = rule.message || (rule.level === "required"
+        ? "「" + triggerName + "」には「" + companionName + "」が必要です" + where
+        : "「" + triggerName + "」では「" + companionName + "」を同時に算定することが多いです" + where);
+      out.push({
+        ...finding("miss." + rule.id, rule.level === "required" ? "warning" : "info", message, null, [rule.companion_code], "「" + companionName + "」の追加を検討してください"),
+        add_procedure: { name: companionName, fee_code: rule.companion_code, tooth: missingTeeth.join(",") || undefined },
+      });
+    }
+    return out;
+  },
+};
+
+// ============================================================
+// レジストリ
+// ============================================================
+const registry: ReceiptRule[] = [
+  basicRule,
+  burdenRule,
+  frequencyRule,
+  exclusiveRule,
+  ageRule,
+  additionRule,
+  materialRule,
+  incrementRule,
+  jitsunissuRule,
+  feeMasterRule,
+  diagnosisRequirementRule,
+  toothConsistencyRule,
+  aiWarningRule,
+  billingMissRule,
+];
+
+/** ルール評価器を追加する（同じidは置き換え） */
+export function registerReceiptRule(rule: ReceiptRule): void {
+  const idx = registry.findIndex(r => r.id === rule.id);
+  if (idx >= 0) registry[idx] = rule;
+  else registry.push(rule);
+}
+
+export function listReceiptRules(): { id: string; label: string }[] {
+  return registry.map(r => ({ id: r.id, label: r.label }));
+}
+
+/**
+ * 会計1件分のコンテキストにルールを適用する
+ * only を指定するとそのidのルールだけを評価する（例: 診察中の算定漏れチェック ["miss", "h6"]）
+ */
+export function runReceiptRules(
+  ctx: ReceiptContext,
+  ruleSet: ReceiptRuleSet,
+  options: { only?: string[] } = {}
+): ReceiptFinding[] {
+  const rules = options.only ? registry.filter(r => options.only!.includes(r.id)) : registry;
+  return rules.flatMap(r => r.evaluate(ctx, ruleSet));
+}
+
+/** 指摘を従来の表示形式（本文【根拠】）に整形する */
+export function formatFinding(f: ReceiptFinding): string {
+  return f.legal_basis ? f.message + "【" + f.legal_basis + "】" : f.message;
+}
+
+export function findingStatus(findings: ReceiptFinding[]): "ok" | "warn" | "error" {
+  if (findings.some(f => f.severity === "error")) return "error";
+  if (findings.some(f => f.severity === "warning")) return "warn";
+  return "ok";
+}
+
+export function countRulesByType(ruleSet: ReceiptRuleSet): Record<string, number> {
+  const byType: Record<string, number> = {};
+  for (const r of ruleSet.calculation_rules) byType[r.rule_type] = (byType[r.rule_type] || 0) + 1;
+  return byType;
+}
@@ -0,0 +1,80 @@
+import { isElderlyRecipient, isPreschool } from "@/lib/burden-ratio";
+
+// ============================================================
+// レセプト種別コード（4桁）リゾルバ - 記録条件仕様 別表「レセプト種別コード」
+// 1桁目: 点数表        3=歯科
+// 2桁目: 保険の種類    1=医保単独(社保・国保) / 2=公費単独 / 3=後期高齢者
+// 3桁目: 併用数        1=単独 / 2=2併 / 3=3併 / 4=4併 / 5=5併
+// 4桁目: 本人家族区分  下表（入院/入院外で分かれる）
+// ============================================================
+
+// 被保険者との続柄区分（4桁目の判定に使う）
+export type InsuredRelationship = "本人" | "家族" | "六歳未満" | "高齢受給者一般" | "高齢受給者7割";
+
+const FEE_TABLE_DENTAL = "3";
+
+const INSURANCE_KIND: Record<"medical" | "public_only" | "elderly", string> = {
+  medical: "1",
+  public_only: "2",
+  elderly: "3",
+};
+
+const RELATIONSHIP_DIGIT: Record<InsuredRelationship, { inpatient: string; outpatient: string }> = {
+  本人:           { inpatient: "1", outpatient: "2" },
+  六歳未満:       { inpatient: "3", outpatient: "4" },
+  家族:           { inpatient: "5", outpatient: "6" },
+  高齢受給者一般: { inpatient: "7", outpatient: "8" },
+  高齢受給者7割:  { inpatient: "9", outpatient: "0" },
+};
+
+export interface ReceiptTypeInput {
+  insuranceType: string | null;     // 社保 / 国保 / 後期高齢
+  hasInsurer: boolean;              // 保険者番号あり（なし=公費単独）
+  relationship: InsuredRelationship;
+  publicCount: number;              // 併用する公費の件数（public_insurer_*の登録数）
+  inpatient?: boolean;
+}
+
+/**
+ * レセプト種別コード（4桁）を返す
+ * 例: 社保本人外来 = "3112" / 国保家族+公費1種 = "3126" / 後期一般外来 = "3318" / 公費単独 = "3212"
+ */
+export function resolveReceiptType(input: ReceiptTypeInput): string {
+  const publicCount = Math.max(0, Math.min(input.publicCount, 4));
+
+  let kind: string;
+  let combined: number;
+  if (!input.hasInsurer && publicCount > 0) {
+    kind = INSURANCE_KIND.public_only;
+    combined = publicCount;
+  } else {
+    kind = input.insuranceType === "後期高齢" ? INSURANCE_KIND.elderly : INSURANCE_KIND.medical;
+    combined = 1 + publicCount;
+  }
+
+  // 公費単独は本人家族区分を問わず「本人」扱い（高齢受給者・未就学は区分を維持）
+  const relationship = kind === INSURANCE_KIND.public_only && input.relationship === "家族"
+    ? "本人"
+    : input.relationship;
+  const digits = RELATIONSHIP_DIGIT[relationship];
+
+  return `${FEE_TABLE_DENTAL}${kind}${Math.min(combined, 5)}${input.inpatient ? digits.inpatient : digits.outpatient}`;
+}
+
+/**
+ * 保存済みの続柄・生年月日・保険種別・負担割合から4桁目の区分を決める
+ * 後期高齢・高齢受給者（70歳到達月の翌月から）は3割=現役並み=7割給付、未就学児は六歳未満
+ */
+export function resolveRelationship(
+  relation: string | null | undefined,
+  dateOfBirth: string | null | undefined,
+  refDate: string,
+  insuranceType: string | null | undefined,
+  burdenRatio: number | null | undefined
+): InsuredRelationship {
+  if (insuranceType === "後期高齢" || (dateOfBirth && isElderlyRecipient(dateOfBirth, refDate))) {
+    return Number(burdenRatio) >= 0.3 ? "高齢受給者7割" : "高齢受給者一般";
+  }
+  if (dateOfBirth && isPreschool(dateOfBirth, refDate)) return "六歳未満";
+  return relation === "family" || relation === "家族" ? "家族" : "本人";
+}
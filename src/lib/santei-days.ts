@@ -0,0 +1,64 @@
+import { normalizeYearMonth } from "@/lib/csv";
+
+// ============================================================
+// 算定日情報（SS/IY/TO の「1日の情報」〜「31日の情報」）
+// 日ごとの算定回数を31項目で持つ。回数0の日は空欄
+// receipt-generate の出力と uke-parser の読み取りで共通
+// ============================================================
+
+export const SANTEI_DAY_FIELDS = 31;
+
+export function emptySanteiDays(): number[] {
+  return new Array(SANTEI_DAY_FIELDS).fill(0);
+}
+
+/**
+ * タイムスタンプ（UTC）→ JSTの日（1〜31）
+ * new Date(ts).getDate() はサーバーのタイムゾーンで読むため、早朝（UTCでは前日）の来院が前日になる
+ */
+export function jstDayOfMonth(timestamp: string): number {
+  return new Date(new Date(timestamp).getTime() + 9 * 60 * 60 * 1000).getUTCDate();
+}
+
+/** 日ごとの回数 → UKEの31項目（カンマ区切り） */
+export function encodeSanteiDays(days: number[]): string {
+  return Array.from({ length: SANTEI_DAY_FIELDS }, (_, i) => (days[i] > 0 ? String(days[i]) : "")).join(",");
+}
+
+/**
+ * UKEの項目配列から算定日情報を読む（start = 「1日の情報」の位置）
+ * 旧形式（算定日1項目・YYYYMMDD）はその日に1回として扱う
+ */
+export function decodeSanteiDays(fields: string[], start: number): { santei_date: string; santei_days: number[] } {
+  const days = emptySanteiDays();
+  const head = (fields[start] || "").trim();
+  if (/^\d{8}$/.test(head)) {
+    const day = Number(head.substring(6, 8));
+    if (day >= 1 && day <= SANTEI_DAY_FIELDS) days[day - 1] = 1;
+    return { santei_date: head, santei_days: days };
+  }
+  for (let i = 0; i < SANTEI_DAY_FIELDS; i++) {
+    days[i] = parseInt((fields[start + i] || "").trim(), 10) || 0;
+  }
+  const first = days.findIndex(n => n > 0);
+  return { santei_date: first >= 0 ? String(first + 1) : "", santei_days: days };
+}
+
+/** 算定日情報 → [{ date: YYYY-MM-DD, count }]（診療年月は YYYYMM / GYYMM） */
+export function santeiDates(days: number[] | undefined, shinryoYearMonth: string): { date: string; count: number }[] {
+  const ym = normalizeYearMonth(shinryoYearMonth);
+  if (!ym || !days) return [];
+  const lastDay = new Date(Number(ym.substring(0, 4)), Number(ym.substring(4, 6)), 0).getDate();
+  return days
+    .map((count, i) => ({ day: i + 1, count }))
+    .filter(d => d.count > 0 && d.day <= lastDay)
+    .map(d => ({ date: `${ym.substring(0, 4)}-${ym.substring(4, 6)}-${String(d.day).padStart(2, "0")}`, count: d.count }));
+}
+
+/** 表示用（"3日 10日×2"） */
+export function santeiDaysLabel(days: number[] | undefined): string {
+  return (days || [])
+    .map((count, i) => (count > 0 ? `${i + 1}日${count > 1 ? `×${count}` : ""}` : ""))
+    .filter(Boolean)
+    .join(" ");
+}
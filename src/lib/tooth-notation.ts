@@ -0,0 +1,274 @@
+// ============================================================
+// 歯式の表記変換（FDI ⇔ UKE 6桁歯式コード ⇔ 表示）
+// - FDI: "46"（永久歯 11〜48 / 乳歯 51〜85）
+// - UKE: 6桁歯式コード。m_tooth_chart にあればそれを優先し、
+//        なければ「区分2桁 + FDI2桁 + 状態2桁」（通常は 10XY00）とみなす
+// - 表示: Palmer（6┘ / └E）・日本語（右上6番 / 右上E）
+// - 範囲: 「上顎全顎」「下顎全顎」「全顎」「46-47Br」「13～23」
+// 画面・API の両方から使う（サーバー専用の依存は入れない）
+// ============================================================
+
+// 歯列順（チャート表示の並び。患者から見て右上→左上、右下→左下）
+export const UR = ["18","17","16","15","14","13","12","11"];
+export const UL = ["21","22","23","24","25","26","27","28"];
+export const LR = ["48","47","46","45","44","43","42","41"];
+export const LL = ["31","32","33","34","35","36","37","38"];
+export const UPPER_TEETH = [...UR, ...UL];
+export const LOWER_TEETH = [...LR, ...LL];
+export const ALL_TEETH = [...UPPER_TEETH, ...LOWER_TEETH];
+
+// 乳歯
+export const UR_D = ["55","54","53","52","51"];
+export const UL_D = ["61","62","63","64","65"];
+export const LR_D = ["85","84","83","82","81"];
+export const LL_D = ["71","72","73","74","75"];
+export const UPPER_DECIDUOUS = [...UR_D, ...UL_D];
+export const LOWER_DECIDUOUS = [...LR_D, ...LL_D];
+
+const ARCH_ROWS = [UPPER_TEETH, LOWER_TEETH, UPPER_DECIDUOUS, LOWER_DECIDUOUS];
+
+// 歯の状態（UKE歯式コードの下2桁）
+export type ToothState = "normal" | "partial" | "abutment" | "pontic";
+
+export const TOOTH_STATE_LABELS: Record<ToothState, string> = {
+  normal: "",
+  partial: "部分",
+  abutment: "支台",
+  pontic: "ポンティック",
+};
+
+const STATE_CODES: Record<ToothState, string> = {
+  normal: "00",
+  partial: "01",
+  abutment: "02",
+  pontic: "03",
+};
+
+// 区分（UKE歯式コードの上2桁）: 10=通常, 11=過剰歯
+const KUBUN_NORMAL = "10";
+const KUBUN_SUPERNUMERARY = "11";
+
+export interface ToothRef {
+  fdi: string;
+  state: ToothState;
+  supernumerary: boolean;   // 過剰歯（fdi は隣接する歯の番号）
+}
+
+export function toothRef(fdi: string, state: ToothState = "normal", supernumerary = false): ToothRef {
+  return { fdi, state, supernumerary };
+}
+
+export function isValidFdi(fdi: string): boolean {
+  return /^[1-4][1-8]$/.test(fdi) || /^[5-8][1-5]$/.test(fdi);
+}
+
+export function isDeciduous(fdi: string): boolean {
+  return /^[5-8]/.test(fdi);
+}
+
+/** "#46" / " 46 " → "46"（FDIとして読めなければ null） */
+export function normalizeFdi(value: string | number): string | null {
+  const v = String(value).normalize("NFKC").replace(/^#/, "").trim();
+  return isValidFdi(v) ? v : null;
+}
+
+// ============================================================
+// UKE 6桁歯式コード
+// ============================================================
+
+/**
+ * FDI（または ToothRef）→ 6桁歯式コード
+ * codeByFdi: m_tooth_chart の fdi_number → tooth_code（通常状態のみ。あれば優先）
+ */
+export function toUkeToothCode(tooth: string | ToothRef, codeByFdi?: Map<string, string>): string {
+  const ref = typeof tooth === "string" ? toothRef(tooth.replace(/^#/, "").trim()) : tooth;
+  if (/^\d{6}$/.test(ref.fdi)) return ref.fdi;
+  if (!ref.supernumerary && ref.state === "normal") {
+    const mapped = codeByFdi?.get(ref.fdi);
+    if (mapped) return mapped;
+  }
+  if (!isValidFdi(ref.fdi)) return ref.fdi;
+  return `${ref.supernumerary ? KUBUN_SUPERNUMERARY : KUBUN_NORMAL}${ref.fdi}${STATE_CODES[ref.state]}`;
+}
+
+/**
+ * 6桁歯式コード → ToothRef
+ * fdiByCode: m_tooth_chart の tooth_code → fdi_number（あれば優先）
+ */
+export function fromUkeToothCode(code: string, fdiByCode?: Map<string, string>): ToothRef | null {
+  const mapped = fdiByCode?.get(code);
+  if (mapped && isValidFdi(mapped)) return toothRef(mapped);
+  const m = code.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!m || !isValidFdi(m[2])) return null;
+  const state = (Object.keys(STATE_CODES) as ToothState[]).find(s => STATE_CODES[s] === m[3]);
+  if (!state) return null;
+  return toothRef(m[2], state, m[1] === KUBUN_SUPERNUMERARY);
+}
+
+/**
+ * 歯式の文字列 → ToothRef[]
+ * 6桁歯式コード（連結・区切りあり）・FDI2桁（#付き可）の両方を受け付ける
+ */
+export function parseUkeToothCodes(value: string | null | undefined, fdiByCode?: Map<string, string>): { teeth: ToothRef[]; unknown: string[] } {
+  const teeth: ToothRef[] = [];
+  const unknown: string[] = [];
+  for (const token of String(value || "").replace(/#/g, "").split(/[^0-9]+/).filter(Boolean)) {
+    if (isValidFdi(token)) {
+      teeth.push(toothRef(token));
+      continue;
+    }
+    if (token.length % 6 !== 0) {
+      unknown.push(token);
+      continue;
+    }
+    for (let i = 0; i < token.length; i += 6) {
+      const code = token.substring(i, i + 6);
+      const ref = fromUkeToothCode(code, fdiByCode);
+      if (ref) teeth.push(ref);
+      else unknown.push(code);
+    }
+  }
+  return { teeth, unknown };
+}
+
+// ============================================================
+// 表示
+// ============================================================
+
+const QUADRANT_JA: Record<string, string> = {
+  "1": "右上", "2": "左上", "3": "左下", "4": "右下",
+  "5": "右上", "6": "左上", "7": "左下", "8": "右下",
+};
+const DECIDUOUS_LETTERS = ["A", "B", "C", "D", "E"];
+
+function toothNumberLabel(fdi: string): string {
+  const pos = Number(fdi[1]);
+  return isDeciduous(fdi) ? DECIDUOUS_LETTERS[pos - 1] || fdi[1] : String(pos);
+}
+
+/** 「右上6番」「右上E」（過剰歯・状態があれば付記） */
+export function toothLabelJa(tooth: string | ToothRef): string {
+  const ref = typeof tooth === "string" ? toothRef(tooth.replace(/^#/, "").trim()) : tooth;
+  if (!isValidFdi(ref.fdi)) return ref.fdi;
+  const base = `${QUADRANT_JA[ref.fdi[0]]}${toothNumberLabel(ref.fdi)}${isDeciduous(ref.fdi) ? "" : "番"}`;
+  return `${base}${ref.supernumerary ? "過剰歯" : ""}${ref.state !== "normal" ? `（${TOOTH_STATE_LABELS[ref.state]}）` : ""}`;
+}
+
+/** Palmer（Zsigmondy）表記: 右上6 = "6┘", 左上E = "└E", 右下 = "6┐", 左下 = "┌6" */
+export function toothLabelPalmer(tooth: string | ToothRef): string {
+  const ref = typeof tooth === "string" ? toothRef(tooth.replace(/^#/, "").trim()) : tooth;
+  if (!isValidFdi(ref.fdi)) return ref.fdi;
+  const n = `${ref.supernumerary ? "過剰" : ""}${toothNumberLabel(ref.fdi)}`;
+  const q = Number(ref.fdi[0]) % 4 || 4;
+  return q === 1 ? `${n}┘` : q === 2 ? `└${n}` : q === 3 ? `┌${n}` : `${n}┐`;
+}
+
+export type ToothNotationStyle = "fdi" | "palmer" | "ja";
+
+/** 複数歯の表示（上顎・下顎の全顎はまとめて表示） */
+export function formatTeeth(teeth: (string | ToothRef)[], style: ToothNotationStyle = "fdi"): string {
+  const refs = teeth.map(t => (typeof t === "string" ? toothRef(t) : t));
+  const plain = new Set(refs.filter(r => r.state === "normal" && !r.supernumerary).map(r => r.fdi));
+  const labels: string[] = [];
+  let rest = refs;
+  for (const [name, row] of [["上顎全顎", UPPER_TEETH], ["下顎全顎", LOWER_TEETH]] as const) {
+    if (row.every(t => plain.has(t))) {
+      labels.push(name);
+      rest = rest.filter(r => !(r.state === "normal" && !r.supernumerary && row.includes(r.fdi)));
+    }
+  }
+  for (const r of rest) {
+    labels.push(style === "ja" ? toothLabelJa(r) : style === "palmer" ? toothLabelPalmer(r) : `${r.fdi}${r.supernumerary ? "過剰" : ""}${r.state !== "normal" ? `(${TOOTH_STATE_LABELS[r.state]})` : ""}`);
+  }
+  if (labels.length === 2 && labels[0] === "上顎全顎" && labels[1] === "下顎全顎") return "全顎";
+  return labels.join("・");
+}
+
+// ============================================================
+// 範囲・自由記述のパース
+// ============================================================
+
+/** 歯列順での範囲（13-23 → 13,12,11,21,22,23）。同じ顎でなければ空 */
+export function expandToothRange(from: string, to: string): string[] {
+  for (const row of ARCH_ROWS) {
+    const a = row.indexOf(from);
+    const b = row.indexOf(to);
+    if (a >= 0 && b >= 0) return a <= b ? row.slice(a, b + 1) : row.slice(b, a + 1).reverse();
+  }
+  return [];
+}
+
+const JA_TOOTH = /^(右上|左上|右下|左下)([1-8]|[A-E])(?:番)?(過剰歯)?$/;
+const PALMER_TOOTH = /^(?:([1-8A-E])([┘┐])|([└┌])([1-8A-E]))$/;
+const QUADRANT_FROM_JA: Record<string, [string, string]> = {
+  右上: ["1", "5"], 左上: ["2", "6"], 左下: ["3", "7"], 右下: ["4", "8"],
+};
+
+function singleTooth(token: string): ToothRef | null {
+  const fdi = normalizeFdi(token);
+  if (fdi) return toothRef(fdi);
+  let m = token.match(JA_TOOTH);
+  if (m) {
+    const deciduous = /[A-E]/.test(m[2]);
+    const pos = deciduous ? DECIDUOUS_LETTERS.indexOf(m[2]) + 1 : Number(m[2]);
+    return toothRef(`${QUADRANT_FROM_JA[m[1]][deciduous ? 1 : 0]}${pos}`, "normal", !!m[3]);
+  }
+  m = token.match(PALMER_TOOTH);
+  if (m) {
+    const n = m[1] || m[4];
+    const mark = m[2] || m[3];
+    const deciduous = /[A-E]/.test(n);
+    const q = { "┘": 1, "└": 2, "┌": 3, "┐": 4 }[mark] || 1;
+    const pos = deciduous ? DECIDUOUS_LETTERS.indexOf(n) + 1 : Number(n);
+    return toothRef(`${deciduous ? q + 4 : q}${pos}`);
+  }
+  return null;
+}
+
+/**
+ * 自由記述の歯式 → ToothRef[]
+ * 「46」「#46, 47」「右上6番」「6┘」「上顎全顎」「46-47Br」「45～47Br」・6桁歯式コードに対応
+ * Br は両端を支台、間をポンティックとする
+ */
+export function parseToothNotation(text: string): { teeth: ToothRef[]; unknown: string[] } {
+  const teeth: ToothRef[] = [];
+  const unknown: string[] = [];
+  const v = String(text || "").normalize("NFKC").replace(/[〜～~]/g, "-");
+  for (const raw of v.split(/[\s,、・/]+/).filter(Boolean)) {
+    const token = raw.replace(/^#/, "");
+    if (/^(\d{6})+$/.test(token)) {
+      const coded = parseUkeToothCodes(token);
+      teeth.push(...coded.teeth);
+      unknown.push(...coded.unknown);
+      continue;
+    }
+    if (token === "全顎") {
+      teeth.push(...ALL_TEETH.map(t => toothRef(t)));
+      continue;
+    }
+    if (token === "上顎全顎" || token === "上顎") {
+      teeth.push(...UPPER_TEETH.map(t => toothRef(t)));
+      continue;
+    }
+    if (token === "下顎全顎" || token === "下顎") {
+      teeth.push(...LOWER_TEETH.map(t => toothRef(t)));
+      continue;
+    }
+    const range = token.match(/^(.+?)-#?(.+?)(Br|BR|br)?$/);
+    if (range) {
+      const from = singleTooth(range[1]);
+      const to = singleTooth(range[2]);
+      const span = from && to ? expandToothRange(from.fdi, to.fdi) : [];
+      if (span.length > 0) {
+        teeth.push(...span.map((t, i) =>
+          toothRef(t, range[3] ? (i === 0 || i === span.length - 1 ? "abutment" : "pontic") : "normal")
+        ));
+        continue;
+      }
+    }
+    const single = singleTooth(token);
+    if (single) teeth.push(single);
+    else unknown.push(raw);
+  }
+  return { teeth, unknown };
+}
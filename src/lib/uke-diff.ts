@@ -0,0 +1,194 @@
+import type { MatchedPatientReceipt, MatchedUKE } from "@/lib/uke-matcher";
+import { santeiDaysLabel } from "@/lib/santei-days";
+
+// ============================================================
+// UKE差分 - 2つの請求ファイルを患者単位で突き合わせる
+// 旧レセコンのUKEと receipt-generate の出力を比較する移行確認用
+// 患者は 氏名（NFKC・空白除去）＋生年月日＋保険者番号 で対応付け、
+// 保険者番号だけが違う場合は 氏名＋生年月日 で対応付けて insurer_changed を立てる
+// HS/SS/IY/TO は行の内容をキーにした多重集合で比較する（並び順の違いは差分にしない）
+// ============================================================
+
+export type UKEDiffRecord = "HS" | "SS" | "IY" | "TO";
+
+export interface UKEDiffLine {
+  record: UKEDiffRecord;
+  key: string;              // 比較に使った内容
+  label: string;            // matchUKE の名称（不明時はコード）
+  detail: string;           // 部位・数量・回数・算定日など
+  points: number;           // 点数×回数（HSは0）
+}
+
+export interface UKEDiffPatientRef {
+  name: string;
+  date_of_birth: string;
+  insurer_no: string;
+  receipt_no: string;
+  total_points: number;     // HOの合計点数
+}
+
+export interface UKEDiffPatient {
+  left: UKEDiffPatientRef;
+  right: UKEDiffPatientRef;
+  insurer_changed: boolean;
+  only_left: UKEDiffLine[];
+  only_right: UKEDiffLine[];
+  points_delta: number;     // right − left（HO合計点数）
+}
+
+export interface UKEDiff {
+  summary: {
+    left_patients: number;
+    right_patients: number;
+    paired: number;
+    differing: number;
+    only_left: number;
+    only_right: number;
+    left_points: number;
+    right_points: number;
+    points_delta: number;
+  };
+  only_left: UKEDiffPatientRef[];   // 右に存在しない患者
+  only_right: UKEDiffPatientRef[];  // 左に存在しない患者
+  patients: UKEDiffPatient[];       // 差分のある患者のみ
+}
+
+function normalizeName(s: string): string {
+  return s.normalize("NFKC").replace(/[\s　]/g, "");
+}
+
+function patientRef(p: MatchedPatientReceipt): UKEDiffPatientRef {
+  return {
+    name: p.re.patient_name,
+    date_of_birth: p.re.date_of_birth,
+    insurer_no: p.ho[0]?.insurer_no || "",
+    receipt_no: p.re.receipt_no,
+    total_points: parseInt(p.ho[0]?.total_points || p.ko[0]?.total_points || "0") || 0,
+  };
+}
+
+function num(s: string): number {
+  return parseInt(s || "0") || 0;
+}
+
+/** 患者の明細を比較用の行にする */
+function diffLines(p: MatchedPatientReceipt): UKEDiffLine[] {
+  const lines: UKEDiffLine[] = [];
+  for (const r of p.hs) {
+    lines.push({
+      record: "HS",
+      key: [r.tooth_code, r.diagnosis_code, r.modifier_codes].join("|"),
+      label: r.diagnosis_name || r.diagnosis_code,
+      detail: [r.tooth_code && `部位 ${r.tooth_code}`, r.modifier_codes && `修飾語 ${r.modifier_codes}`].filter(Boolean).join(" / "),
+      points: 0,
+    });
+  }
+  for (const r of p.ss) {
+    lines.push({
+      record: "SS",
+      key: [r.shinryo_shikibetsu, r.futan_kubun, r.fee_code, r.quantity, r.count, santeiDaysLabel(r.santei_days)].join("|"),
+      label: r.procedure_name || r.fee_code,
+      detail: [`識別 ${r.shinryo_shikibetsu}`, r.quantity && `数量 ${r.quantity}`, `${r.count || 1}回`, santeiDaysLabel(r.santei_days) && `算定日 ${santeiDaysLabel(r.santei_days)}`].filter(Boolean).join(" / "),
+      points: r.points * (num(r.count) || 1),
+    });
+  }
+  for (const r of p.iy) {
+    lines.push({
+      record: "IY",
+      key: [r.shinryo_shikibetsu, r.futan_kubun, r.drug_code, r.usage_amount, r.points, r.count, santeiDaysLabel(r.santei_days)].join("|"),
+      label: r.drug_name || r.drug_code,
+      detail: [`使用量 ${r.usage_amount}`, `${r.count || 1}回`, santeiDaysLabel(r.santei_days) && `算定日 ${santeiDaysLabel(r.santei_days)}`].filter(Boolean).join(" / "),
+      points: num(r.points) * (num(r.count) || 1),
+    });
+  }
+  for (const r of p.to) {
+    lines.push({
+      record: "TO",
+      key: [r.shinryo_shikibetsu, r.futan_kubun, r.material_code, r.quantity, r.points, r.count, santeiDaysLabel(r.santei_days)].join("|"),
+      label: r.material_name || r.material_code,
+      detail: [`数量 ${r.quantity}`, `${r.count || 1}回`, santeiDaysLabel(r.santei_days) && `算定日 ${santeiDaysLabel(r.santei_days)}`].filter(Boolean).join(" / "),
+      points: num(r.points) * (num(r.count) || 1),
+    });
+  }
+  return lines;
+}
+
+/** 多重集合の差（left にあって right にない行） */
+function subtract(left: UKEDiffLine[], right: UKEDiffLine[]): UKEDiffLine[] {
+  const remaining = new Map<string, number>();
+  for (const l of right) remaining.set(l.record + l.key, (remaining.get(l.record + l.key) || 0) + 1);
+  const out: UKEDiffLine[] = [];
+  for (const l of left) {
+    const n = remaining.get(l.record + l.key) || 0;
+    if (n > 0) remaining.set(l.record + l.key, n - 1);
+    else out.push(l);
+  }
+  return out;
+}
+
+export function diffUKE(left: MatchedUKE, right: MatchedUKE): UKEDiff {
+  const fullKey = (p: MatchedPatientReceipt) => `${normalizeName(p.re.patient_name)}|${p.re.date_of_birth}|${p.ho[0]?.insurer_no || ""}`;
+  const personKey = (p: MatchedPatientReceipt) => `${normalizeName(p.re.patient_name)}|${p.re.date_of_birth}`;
+
+  const unpairedRight = new Set(right.patients.map((_, i) => i));
+  const pairs: { l: MatchedPatientReceipt; r: MatchedPatientReceipt; insurerChanged: boolean }[] = [];
+  const unpairedLeft: MatchedPatientReceipt[] = [];
+
+  // 1) 氏名＋生年月日＋保険者番号
+  for (const l of left.patients) {
+    const idx = right.patients.findIndex((r, i) => unpairedRight.has(i) && fullKey(r) === fullKey(l));
+    if (idx >= 0) {
+      unpairedRight.delete(idx);
+      pairs.push({ l, r: right.patients[idx], insurerChanged: false });
+    } else {
+      unpairedLeft.push(l);
+    }
+  }
+  // 2) 保険者番号の変更（月途中の切替・入力違い）は 氏名＋生年月日 で拾う
+  const stillLeft: MatchedPatientReceipt[] = [];
+  for (const l of unpairedLeft) {
+    const idx = right.patients.findIndex((r, i) => unpairedRight.has(i) && personKey(r) === personKey(l));
+    if (idx >= 0) {
+      unpairedRight.delete(idx);
+      pairs.push({ l, r: right.patients[idx], insurerChanged: true });
+    } else {
+      stillLeft.push(l);
+    }
+  }
+
+  const patients: UKEDiffPatient[] = [];
+  for (const { l, r, insurerChanged } of pairs) {
+    const lLines = diffLines(l);
+    const rLines = diffLines(r);
+    const leftRef = patientRef(l);
+    const rightRef = patientRef(r);
+    const onlyLeft = subtract(lLines, rLines);
+    const onlyRight = subtract(rLines, lLines);
+    const delta = rightRef.total_points - leftRef.total_points;
+    if (onlyLeft.length === 0 && onlyRight.length === 0 && delta === 0 && !insurerChanged) continue;
+    patients.push({ left: leftRef, right: rightRef, insurer_changed: insurerChanged, only_left: onlyLeft, only_right: onlyRight, points_delta: delta });
+  }
+  patients.sort((a, b) => Math.abs(b.points_delta) - Math.abs(a.points_delta));
+
+  const onlyLeft = stillLeft.map(patientRef);
+  const onlyRight = right.patients.filter((_, i) => unpairedRight.has(i)).map(patientRef);
+  const leftPoints = left.patients.reduce((s, p) => s + patientRef(p).total_points, 0);
+  const rightPoints = right.patients.reduce((s, p) => s + patientRef(p).total_points, 0);
+
+  return {
+    summary: {
+      left_patients: left.patients.length,
+      right_patients: right.patients.length,
+      paired: pairs.length,
+      differing: patients.length,
+      only_left: onlyLeft.length,
+      only_right: onlyRight.length,
+      left_points: leftPoints,
+      right_points: rightPoints,
+      points_delta: rightPoints - leftPoints,
+    },
+    only_left: onlyLeft,
+    only_right: onlyRight,
+    patients,
+  };
+}
@@ -1,5 +1,8 @@
 import { createClient } from "@supabase/supabase-js";
 import type { ParsedUKE, PatientReceipt } from "@/types/uke";
+import { loadFeeMaster, ukeServiceDate } from "@/lib/fee-master";
+import { loadPriceMaster } from "@/lib/price-master";
+import { composeDiagnosisName, loadDiagnosisModifiers } from "@/lib/diagnosis-modifiers";
 
 // ============================================================
 // UKE照合エンジン - CP-5
@@ -15,11 +18,12 @@ export interface MatchedSS {
   shinryo_shikibetsu: string;
   futan_kubun: string;
   fee_code: string;         // 9桁
-  procedure_name: string;   // m_fees.nameから取得
-  points: number;           // m_fees.pointsから取得
+  procedure_name: string;   // 算定日時点の版（m_fee_versions → m_fees）から取得
+  points: number;           // 算定日時点の版（m_fee_versions → m_fees）から取得
   quantity: string;
   count: string;
   santei_date: string;
+  santei_days: number[];    // 1日〜31日の算定回数
   matched: boolean;         // 照合OK/NG
 }
 
@@ -27,7 +31,7 @@ export interface MatchedSS {
 export interface MatchedHS {
   tooth_code: string;
   diagnosis_code: string;
-  diagnosis_name: string;   // m_diagnoses.diagnosis_nameから取得
+  diagnosis_name: string;   // m_diagnoses.diagnosis_name＋修飾語（m_diagnosis_modifiers）
   modifier_codes: string;
   matched: boolean;
 }
@@ -38,11 +42,12 @@ export interface MatchedIY {
   futan_kubun: string;
   drug_code: string;        // receipt_code
   drug_name: string;        // m_drugs.nameから取得
-  unit_price: number;       // m_drugs.unit_priceから取得
+  unit_price: number;       // 算定日時点の薬価（m_drug_prices → m_drugs）
   usage_amount: string;
   points: string;
   count: string;
   santei_date: string;
+  santei_days: number[];    // 1日〜31日の算定回数
   matched: boolean;
 }
 
@@ -52,11 +57,12 @@ export interface MatchedTO {
   futan_kubun: string;
   material_code: string;
   material_name: string;    // m_materials.nameから取得
-  unit_price: number;       // m_materials.unit_priceから取得
+  unit_price: number;       // 算定日時点の材料価格（m_material_prices → m_materials）
   quantity: string;
   points: string;
   count: string;
   santei_date: string;
+  santei_days: number[];    // 1日〜31日の算定回数
   matched: boolean;
 }
 
@@ -116,35 +122,22 @@ export async function matchUKE(parsed: ParsedUKE): Promise<MatchedUKE> {
   }
 
   // === 一括クエリ（N+1なし）===
-  const [feesRes, diagRes, drugRes, matRes] = await Promise.all([
-    allFeeCodes.size > 0
-      ? supabase.from("m_fees").select("sub_code, name, points, shinryo_shikibetsu")
-          .in("sub_code", [...allFeeCodes])
-      : Promise.resolve({ data: [] }),
+  // 診療行為・薬価・材料価格は改定ごとの版を持つため、算定日（なければ診療年月）で解決する
+  const [feeMaster, diagRes, drugMaster, matMaster, diagModifiers] = await Promise.all([
+    loadFeeMaster(supabase, [...allFeeCodes]),
     allDiagCodes.size > 0
       ? supabase.from("m_diagnoses").select("diagnosis_code, diagnosis_name")
           .in("diagnosis_code", [...allDiagCodes])
       : Promise.resolve({ data: [] }),
-    allDrugCodes.size > 0
-      ? supabase.from("m_drugs").select("receipt_code, name, unit_price")
-          .in("receipt_code", [...allDrugCodes])
-      : Promise.resolve({ data: [] }),
-    allMatCodes.size > 0
-      ? supabase.from("m_materials").select("material_code, name, unit_price")
-          .in("material_code", [...allMatCodes])
-      : Promise.resolve({ data: [] }),
+    loadPriceMaster(supabase, "drug", [...allDrugCodes]),
+    loadPriceMaster(supabase, "material", [...allMatCodes]),
+    loadDiagnosisModifiers(supabase),
   ]);
 
   // === Mapに変換（O(1)で名称・点数を取得）===
-  const feeMap  = new Map<string, { name: string; points: number; shinryo_shikibetsu: string }>();
   const diagMap = new Map<string, string>();
-  const drugMap = new Map<string, { name: string; unit_price: number }>();
-  const matMap  = new Map<string, { name: string; unit_price: number }>();
 
-  for (const r of feesRes.data ?? []) feeMap.set(r.sub_code, { name: r.name, points: r.points, shinryo_shikibetsu: r.shinryo_shikibetsu });
   for (const r of diagRes.data ?? []) diagMap.set(r.diagnosis_code, r.diagnosis_name);
-  for (const r of drugRes.data ?? []) drugMap.set(r.receipt_code, { name: r.name, unit_price: r.unit_price });
-  for (const r of matRes.data  ?? []) matMap.set(r.material_code, { name: r.name, unit_price: r.unit_price });
 
   // === 照合されなかったコードを記録 ===
   const unmatched = { ss: [] as string[], hs: [] as string[], iy: [] as string[], to: [] as string[] };
@@ -152,7 +145,7 @@ export async function matchUKE(parsed: ParsedUKE): Promise<MatchedUKE> {
   // === 患者ごとに照合済みデータを生成 ===
   const matchedPatients: MatchedPatientReceipt[] = parsed.patients.map(p => {
     const matchedSS: MatchedSS[] = p.ss.map(r => {
-      const hit = feeMap.get(r.fee_code);
+      const hit = feeMaster.resolve(r.fee_code, ukeServiceDate(r.santei_date, p.re.shinryo_yearmonth));
       if (!hit && r.fee_code && !unmatched.ss.includes(r.fee_code)) unmatched.ss.push(r.fee_code);
       return {
         shinryo_shikibetsu: r.shinryo_shikibetsu,
@@ -163,6 +156,7 @@ export async function matchUKE(parsed: ParsedUKE): Promise<MatchedUKE> {
         quantity:           r.quantity,
         count:              r.count,
         santei_date:        r.santei_date,
+        santei_days:        r.santei_days,
         matched:            !!hit,
       };
     });
@@ -173,14 +167,14 @@ export async function matchUKE(parsed: ParsedUKE): Promise<MatchedUKE> {
       return {
         tooth_code:      r.tooth_code,
         diagnosis_code:  r.diagnosis_code,
-        diagnosis_name:  name ?? r.diagnosis_name ?? "",
+        diagnosis_name:  name ? composeDiagnosisName(name, r.modifier_codes, diagModifiers) : r.diagnosis_name ?? "",
         modifier_codes:  r.modifier_codes,
         matched:         !!name,
       };
     });
 
     const matchedIY: MatchedIY[] = p.iy.map(r => {
-      const hit = drugMap.get(r.drug_code);
+      const hit = drugMaster.resolve(r.drug_code, ukeServiceDate(r.santei_date, p.re.shinryo_yearmonth));
       if (!hit && r.drug_code && !unmatched.iy.includes(r.drug_code)) unmatched.iy.push(r.drug_code);
       return {
         shinryo_shikibetsu: r.shinryo_shikibetsu,
@@ -192,12 +186,13 @@ export async function matchUKE(parsed: ParsedUKE): Promise<MatchedUKE> {
         points:             r.points,
         count:              r.count,
         santei_date:        r.santei_date,
+        santei_days:        r.santei_days,
         matched:            !!hit,
       };
     });
 
     const matchedTO: MatchedTO[] = p.to.map(r => {
-      const hit = matMap.get(r.material_code);
+      const hit = matMaster.resolve(r.material_code, ukeServiceDate(r.santei_date, p.re.shinryo_yearmonth));
       if (!hit && r.material_code && !unmatched.to.includes(r.material_code)) unmatched.to.push(r.material_code);
       return {
         shinryo_shikibetsu: r.shinryo_shikibetsu,
@@ -209,6 +204,7 @@ export async function matchUKE(parsed: ParsedUKE): Promise<MatchedUKE> {
         points:             r.points,
         count:              r.count,
         santei_date:        r.santei_date,
+        santei_days:        r.santei_days,
         matched:            !!hit,
       };
     });
@@ -0,0 +1,605 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ParsedUKE, PatientReceipt } from "@/types/uke";
+import { loadFeeMaster, ukeServiceDate } from "@/lib/fee-master";
+import { santeiDates } from "@/lib/santei-days";
+import { parseUkeToothCodes } from "@/lib/tooth-notation";
+import { composeDiagnosisName, loadDiagnosisModifiers } from "@/lib/diagnosis-modifiers";
+import { loadPriceMaster } from "@/lib/price-master";
+import { resolveBurdenRatio } from "@/lib/burden-ratio";
+import { burdenConfigFromInsurance, calculateMonthlyBurden, type BurdenConfig, type BurdenResult } from "@/lib/burden-calculator";
+
+// ============================================================
+// 過去UKEの移行取込（旧レセコンからの乗り換え時）
+// 1年分程度のUKEから 患者・保険・傷病名・来院（カルテ/会計/処置）を作り、
+// 回数制限・長期の算定ルールが初月から効くようにする
+//
+// - 患者: 氏名（NFKC・空白除去）＋生年月日 で既存患者と照合。1件なら紐付け、0件なら新規、
+//         複数件なら取り込まずに報告する
+// - 保険: HO/KO の保険者番号・記号番号が既存になければ追加（既存患者の現行保険は変えない）
+// - 傷病名: HS を 傷病名コード＋部位 で1件にまとめ、最初に出た月の初回来院日を開始日とする
+//           取込範囲の後の月に出てこなければ治癒（最後に出た月の最終来院日を終了日）とする
+// - 来院: SS/IY/TO を算定日ごとにまとめ、medical_records＋billing（入金済）＋receipt_procedures を作る
+//         すでに会計がある患者×月は取り込まない（二重計上防止・再取込も安全）
+// - 窓口負担: レセプト（患者×月）ごとに来院順で負担計算エンジンに渡す（KO の公費・月額上限を反映）
+// - 締め済み: 既存患者の締め済みの月に載る傷病名は取り込まない（提出済みのHSを変えない）。
+//         取込後に締めた会計を含むバッチはロールバックしない
+// 作成した行にはすべて import_batch_id を付け、バッチ単位でロールバックできる
+// バッチは importing で作り、最後の書き込みが終わってから imported にする（途中で失敗したバッチもロールバックで消せる）
+// 取込後に登録された来院・会計などがバッチの患者・カルテを参照している場合はロールバックしない
+// ============================================================
+
+const IN_CHUNK = 500;
+const INSERT_CHUNK = 200;
+
+export interface UKEMigrationFile {
+  name: string;
+  parsed: ParsedUKE;
+}
+
+export interface UKEMigrationIssue {
+  file: string;
+  receipt_no: string;
+  patient_name: string;
+  shinryo_ym: string;
+  reason: string;
+}
+
+export interface UKEMigrationSummary {
+  files: number;
+  receipts: number;
+  patients_matched: number;
+  patients_created: number;
+  patients_ambiguous: number;
+  insurances_created: number;
+  diagnoses_created: number;
+  diagnoses_existing: number;
+  visits_created: number;
+  procedures_created: number;
+  months_skipped: number;     // 既存の会計があり取り込まなかった患者×月
+}
+
+export interface UKEImportBatch {
+  id: string;
+  source_files: string[];
+  status: "importing" | "imported" | "rolling_back" | "rolled_back";
+  summary: UKEMigrationSummary;
+  created_by: string | null;
+  created_at: string;
+  rolled_back_at: string | null;
+}
+
+type ExistingPatient = {
+  id: string;
+  name_kanji: string;
+  date_of_birth: string | null;
+  patient_insurances?: { insurer_number: string | null; insured_number: string | null; public_insurer: string | null }[];
+};
+
+type ReceiptEntry = {
+  file: string;
+  ym: string;                 // YYYYMM
+  dob: string;                // YYYY-MM-DD
+  receipt: PatientReceipt;
+};
+
+type VisitLine = {
+  record: "SS" | "IY" | "TO";
+  code: string;
+  name: string;
+  shikibetsu: string;
+  futan_kubun: string;
+  quantity: string;
+  points: number;
+  count: number;
+};
+
+function personKey(name: string, dob: string): string {
+  return `${name.normalize("NFKC").replace(/[\s　]/g, "")}|${dob}`;
+}
+
+/** UKEの日付（YYYYMMDD / 和暦 GYYMMDD）→ YYYY-MM-DD */
+function ukeDate(v: string): string | null {
+  const d = String(v || "").replace(/\D/g, "");
+  if (d.length === 8) return `${d.substring(0, 4)}-${d.substring(4, 6)}-${d.substring(6, 8)}`;
+  if (d.length === 7) {
+    const base: Record<string, number> = { "1": 1867, "2": 1911, "3": 1925, "4": 1988, "5": 2018 };
+    if (!(d[0] in base)) return null;
+    return `${base[d[0]] + Number(d.substring(1, 3))}-${d.substring(3, 5)}-${d.substring(5, 7)}`;
+  }
+  return null;
+}
+
+function num(s: string): number {
+  return parseInt(s || "0") || 0;
+}
+
+function monthEnd(ym: string): string {
+  const y = Number(ym.substring(0, 4));
+  const m = Number(ym.substring(4, 6));
+  return `${ym.substring(0, 4)}-${ym.substring(4, 6)}-${String(new Date(y, m, 0).getDate()).padStart(2, "0")}`;
+}
+
+/** 算定日ごとの明細（算定日情報の日別回数で分け、算定日がない行は月初に計上） */
+function visitsOf(entry: ReceiptEntry): Map<string, VisitLine[]> {
+  const ym = entry.receipt.re.shinryo_yearmonth;
+  const visits = new Map<string, VisitLine[]>();
+  const add = (r: { santei_date: string; santei_days: number[] }, line: VisitLine) => {
+    const days = santeiDates(r.santei_days, ym);
+    const perDay = days.length > 0 ? days : [{ date: ukeServiceDate(r.santei_date, ym) || `${entry.ym.substring(0, 4)}-${entry.ym.substring(4, 6)}-01`, count: line.count }];
+    for (const { date, count } of perDay) {
+      if (!visits.has(date)) visits.set(date, []);
+      visits.get(date)!.push({ ...line, count });
+    }
+  };
+  for (const r of entry.receipt.ss) {
+    add(r, {
+      record: "SS", code: r.fee_code, name: "", shikibetsu: r.shinryo_shikibetsu, futan_kubun: r.futan_kubun,
+      quantity: r.quantity, points: num(r.points), count: num(r.count) || 1,
+    });
+  }
+  for (const r of entry.receipt.iy) {
+    add(r, {
+      record: "IY", code: r.drug_code, name: "", shikibetsu: r.shinryo_shikibetsu, futan_kubun: r.futan_kubun,
+      quantity: r.usage_amount, points: num(r.points), count: num(r.count) || 1,
+    });
+  }
+  for (const r of entry.receipt.to) {
+    add(r, {
+      record: "TO", code: r.material_code, name: "", shikibetsu: r.shinryo_shikibetsu, futan_kubun: r.futan_kubun,
+      quantity: r.quantity, points: num(r.points), count: num(r.count) || 1,
+    });
+  }
+  return visits;
+}
+
+function insuranceTypeOf(r: PatientReceipt): string {
+  const insurer = String(r.ho[0]?.insurer_no || "").replace(/\D/g, "");
+  if (r.re.receipt_type.charAt(1) === "3" || insurer.padStart(8, "0").startsWith("39")) return "後期高齢";
+  if (r.re.receipt_type.charAt(1) === "4") return "退職";
+  if (insurer.length > 0 && insurer.length <= 6) return "国保";
+  return "社保";
+}
+
+function burdenRatioOf(r: PatientReceipt, dob: string, date: string): number {
+  const benefit = num(r.re.benefit_ratio);
+  if (benefit >= 10 && benefit <= 100) return Math.round(100 - benefit) / 100;
+  return resolveBurdenRatio(dob, date, insuranceTypeOf(r)).ratio;
+}
+
+/** HO/KO から負担計算の設定を作る（公費の患者負担割合・上限は法別番号の既定値） */
+function burdenConfigOf(r: PatientReceipt, ratio: number): BurdenConfig {
+  const row: Record<string, unknown> = { burden_ratio: ratio, insurer_number: r.ho[0]?.insurer_no || null };
+  r.ko.slice(0, 4).forEach((k, i) => {
+    const suffix = i === 0 ? "" : `_${i + 1}`;
+    row[`public_insurer${suffix}`] = k.public_insurer_no || null;
+    row[`public_recipient${suffix}`] = k.public_recipient_no || null;
+  });
+  return burdenConfigFromInsurance(row, ratio);
+}
+
+async function insertChunked(
+  supabase: SupabaseClient,
+  table: string,
+  rows: Record<string, unknown>[]
+): Promise<{ id: string }[]> {
+  const out: { id: string }[] = [];
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    const { data, error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_CHUNK)).select("id");
+    if (error) throw new Error(`${table} の作成に失敗しました: ${error.message}`);
+    out.push(...((data || []) as unknown as { id: string }[]));
+  }
+  return out;
+}
+
+export async function migrateUKE(
+  supabase: SupabaseClient,
+  files: UKEMigrationFile[],
+  opts: { dryRun: boolean; userId: string | null }
+): Promise<{ batch_id: string | null; summary: UKEMigrationSummary; issues: UKEMigrationIssue[] }> {
+  const summary: UKEMigrationSummary = {
+    files: files.length, receipts: 0, patients_matched: 0, patients_created: 0, patients_ambiguous: 0,
+    insurances_created: 0, diagnoses_created: 0, diagnoses_existing: 0, visits_created: 0, procedures_created: 0, months_skipped: 0,
+  };
+  const issues: UKEMigrationIssue[] = [];
+  const issue = (e: { file: string; receipt: PatientReceipt }, reason: string) => issues.push({
+    file: e.file, receipt_no: e.receipt.re.receipt_no, patient_name: e.receipt.re.patient_name, shinryo_ym: e.receipt.re.shinryo_yearmonth, reason,
+  });
+
+  // === レセプトを患者（氏名＋生年月日）ごとにまとめる ===
+  const byPerson = new Map<string, ReceiptEntry[]>();
+  for (const f of files) {
+    for (const receipt of f.parsed.patients) {
+      summary.receipts++;
+      const dob = ukeDate(receipt.re.date_of_birth);
+      const first = ukeServiceDate("", receipt.re.shinryo_yearmonth);
+      if (!dob || !first || !receipt.re.patient_name) {
+        issue({ file: f.name, receipt }, "氏名・生年月日・診療年月が読めません");
+        continue;
+      }
+      const key = personKey(receipt.re.patient_name, dob);
+      if (!byPerson.has(key)) byPerson.set(key, []);
+      byPerson.get(key)!.push({ file: f.name, ym: first.substring(0, 7).replace("-", ""), dob, receipt });
+    }
+  }
+  for (const entries of byPerson.values()) entries.sort((a, b) => a.ym.localeCompare(b.ym));
+
+  // === 既存患者（生年月日で絞ってから氏名で照合）===
+  const dobs = [...new Set([...byPerson.values()].map(e => e[0].dob))];
+  const existingByKey = new Map<string, ExistingPatient[]>();
+  for (let i = 0; i < dobs.length; i += IN_CHUNK) {
+    const { data } = await supabase
+      .from("patients")
+      .select("id, name_kanji, date_of_birth, patient_insurances(insurer_number, insured_number, public_insurer)")
+      .in("date_of_birth", dobs.slice(i, i + IN_CHUNK));
+    for (const p of (data || []) as ExistingPatient[]) {
+      const key = personKey(p.name_kanji || "", p.date_of_birth || "");
+      if (!existingByKey.has(key)) existingByKey.set(key, []);
+      existingByKey.get(key)!.push(p);
+    }
+  }
+  const matchedIds = [...existingByKey.values()].filter(c => c.length === 1).map(c => c[0].id);
+
+  // === 既存の会計（患者×月）と傷病名 ===
+  const allYms = [...byPerson.values()].flatMap(e => e.map(x => x.ym)).sort();
+  const billedMonths = new Set<string>();
+  const lockedMonths = new Map<string, string[]>();   // 患者ID → 締め済みの月（YYYYMM）
+  const existingDiags = new Set<string>();
+  for (let i = 0; i < matchedIds.length; i += IN_CHUNK) {
+    const { data: locked } = await supabase
+      .from("billing")
+      .select("patient_id, created_at")
+      .in("patient_id", matchedIds.slice(i, i + IN_CHUNK))
+      .not("locked_at", "is", null);
+    for (const b of (locked || []) as { patient_id: string; created_at: string }[]) {
+      const ym = b.created_at.substring(0, 7).replace("-", "");
+      const list = lockedMonths.get(b.patient_id) || [];
+      if (!list.includes(ym)) lockedMonths.set(b.patient_id, [...list, ym]);
+    }
+  }
+  if (matchedIds.length > 0 && allYms.length > 0) {
+    const from = `${allYms[0].substring(0, 4)}-${allYms[0].substring(4, 6)}-01T00:00:00`;
+    const last = allYms[allYms.length - 1];
+    const to = `${monthEnd(last)}T23:59:59`;
+    for (let i = 0; i < matchedIds.length; i += IN_CHUNK) {
+      const ids = matchedIds.slice(i, i + IN_CHUNK);
+      const [{ data: bills }, { data: diags }] = await Promise.all([
+        supabase.from("billing").select("patient_id, created_at").in("patient_id", ids).gte("created_at", from).lte("created_at", to),
+        supabase.from("receipt_diagnoses").select("patient_id, diagnosis_code, tooth_number_display").in("patient_id", ids),
+      ]);
+      for (const b of (bills || []) as { patient_id: string; created_at: string }[]) {
+        billedMonths.add(`${b.patient_id}|${b.created_at.substring(0, 7).replace("-", "")}`);
+      }
+      for (const d of (diags || []) as { patient_id: string; diagnosis_code: string; tooth_number_display: string | null }[]) {
+        existingDiags.add(`${d.patient_id}|${d.diagnosis_code}|${d.tooth_number_display || ""}`);
+      }
+    }
+  }
+
+  // 6桁歯式コード → 歯番号（傷病名の部位表示・処置の歯式判定用）
+  const { data: toothChart } = await supabase.from("m_tooth_chart").select("tooth_code, fdi_number").not("fdi_number", "is", null);
+  const toothLabel = new Map<string, string>(
+    ((toothChart || []) as { tooth_code: string; fdi_number: string | number }[]).map(t => [String(t.tooth_code), String(t.fdi_number)])
+  );
+
+  // 傷病名の名称（基本傷病名＋修飾語。疑い病名は修飾語コードのまま持ち越す）
+  const diagCodes = [...new Set(files.flatMap(f => f.parsed.patients.flatMap(p => p.hs.map(h => h.diagnosis_code))).filter(Boolean))];
+  const diagBaseNames = new Map<string, string>();
+  for (let i = 0; i < diagCodes.length; i += IN_CHUNK) {
+    const { data } = await supabase.from("m_diagnoses").select("diagnosis_code, diagnosis_name").in("diagnosis_code", diagCodes.slice(i, i + IN_CHUNK));
+    for (const d of (data || []) as { diagnosis_code: string; diagnosis_name: string }[]) diagBaseNames.set(d.diagnosis_code, d.diagnosis_name);
+  }
+  const diagModifiers = await loadDiagnosisModifiers(supabase);
+
+  // === 取込計画 ===
+  // 新規患者は仮キー（new:…）で参照し、INSERT後に実IDへ置き換える
+  const newPatients: Record<string, unknown>[] = [];
+  const newPatientKeys: string[] = [];
+  const insurances: Record<string, unknown>[] = [];
+  const diagnoses: Record<string, unknown>[] = [];
+  const visits: { patientRef: string; receiptIndex: number; date: string; ym: string; burdenRatio: number; burden: BurdenConfig; lines: VisitLine[] }[] = [];
+  let receiptIndex = 0;
+
+  for (const [key, entries] of byPerson) {
+    const candidates = existingByKey.get(key) || [];
+    if (candidates.length > 1) {
+      summary.patients_ambiguous++;
+      entries.forEach(e => issue(e, `同じ氏名・生年月日の患者が${candidates.length}名います（手動で統合してから再取込してください）`));
+      continue;
+    }
+    const latest = entries[entries.length - 1];
+    const existing = candidates[0] || null;
+    let patientRef: string;
+    if (existing) {
+      summary.patients_matched++;
+      patientRef = existing.id;
+    } else {
+      summary.patients_created++;
+      patientRef = `new:${newPatients.length}`;
+      newPatientKeys.push(patientRef);
+      newPatients.push({
+        name_kanji: latest.receipt.re.patient_name,
+        name_kana: latest.receipt.re.patient_name,
+        date_of_birth: latest.dob,
+        sex: latest.receipt.re.sex === "1" ? "男" : "女",
+        patient_status: "active",
+        is_new: false,
+      });
+    }
+
+    // 保険（保険者番号＋被保険者番号 / 公費負担者番号が既存になければ追加）
+    const knownIns = new Set((existing?.patient_insurances || []).map(i => `${i.insurer_number || ""}|${i.insured_number || ""}|${i.public_insurer || ""}`));
+    for (const e of [...entries].reverse()) {
+      const ho = e.receipt.ho[0];
+      const ko = e.receipt.ko;
+      const insKey = `${ho?.insurer_no || ""}|${ho?.insured_no || ""}|${ko[0]?.public_insurer_no || ""}`;
+      if (knownIns.has(insKey)) continue;
+      knownIns.add(insKey);
+      const firstDay = `${e.ym.substring(0, 4)}-${e.ym.substring(4, 6)}-01`;
+      insurances.push({
+        patient_ref: patientRef,
+        insurance_type: insuranceTypeOf(e.receipt),
+        insurer_number: ho?.insurer_no || null,
+        insured_symbol: ho?.insured_symbol || null,
+        insured_number: ho?.insured_no || null,
+        burden_ratio: burdenRatioOf(e.receipt, e.dob, firstDay),
+        public_insurer: ko[0]?.public_insurer_no || null,
+        public_recipient: ko[0]?.public_recipient_no || null,
+        public_insurer_2: ko[1]?.public_insurer_no || null,
+        public_recipient_2: ko[1]?.public_recipient_no || null,
+        // 新規患者は最新月の保険を現行にする。既存患者の現行保険は変えない
+        is_current: !existing && e === latest,
+      });
+      summary.insurances_created++;
+    }
+
+    // 月ごとの来院日（傷病名の開始日・終了日に使う）
+    const visitsByYm = new Map<string, string[]>();
+    for (const e of entries) {
+      const dates = [...visitsOf(e).keys()].sort();
+      visitsByYm.set(e.ym, [...(visitsByYm.get(e.ym) || []), ...dates].sort());
+    }
+    const lastYm = latest.ym;
+
+    // 傷病名（コード＋部位で1件）
+    const diagMonths = new Map<string, { code: string; name: string; tooth: string; modifiers: string; yms: string[] }>();
+    for (const e of entries) {
+      for (const h of e.receipt.hs) {
+        const toothParsed = parseUkeToothCodes(h.tooth_code, toothLabel);
+        const tooth = [...toothParsed.teeth.map(t => t.fdi), ...toothParsed.unknown].join(",");
+        const dKey = `${h.diagnosis_code}|${tooth}`;
+        if (!diagMonths.has(dKey)) diagMonths.set(dKey, { code: h.diagnosis_code, name: h.diagnosis_name, tooth, modifiers: h.modifier_codes, yms: [] });
+        const d = diagMonths.get(dKey)!;
+        if (!d.yms.includes(e.ym)) d.yms.push(e.ym);
+        if (!d.name && h.diagnosis_name) d.name = h.diagnosis_name;
+      }
+    }
+    for (const d of diagMonths.values()) {
+      if (existing && existingDiags.has(`${existing.id}|${d.code}|${d.tooth}`)) {
+        summary.diagnoses_existing++;
+        continue;
+      }
+      const firstYm = d.yms[0];
+      const lastSeen = d.yms[d.yms.length - 1];
+      const cured = lastSeen < lastYm;
+      const lockedYm = existing && (lockedMonths.get(existing.id) || []).find(ym => ym >= firstYm && (!cured || ym <= lastSeen));
+      if (lockedYm) {
+        const e = entries.find(x => x.ym === firstYm)!;
+        issue(e, `傷病名「${d.name || d.code}」は締め済みの${lockedYm.substring(0, 4)}/${lockedYm.substring(4, 6)}請求に載るため取り込みませんでした`);
+        continue;
+      }
+      diagnoses.push({
+        patient_ref: patientRef,
+        diagnosis_code: d.code,
+        diagnosis_name: d.name || (diagBaseNames.has(d.code) ? composeDiagnosisName(diagBaseNames.get(d.code)!, d.modifiers, diagModifiers) : d.code),
+        tooth_number_display: d.tooth || null,
+        modifier_codes: d.modifiers || null,
+        started_at: (visitsByYm.get(firstYm) || [])[0] || `${firstYm.substring(0, 4)}-${firstYm.substring(4, 6)}-01`,
+        ended_at: cured ? (visitsByYm.get(lastSeen) || []).slice(-1)[0] || monthEnd(lastSeen) : null,
+        outcome: cured ? "cured" : "continuing",
+        is_primary: false,
+      });
+      summary.diagnoses_created++;
+    }
+
+    // 来院（既存の会計がある月は取り込まない）
+    for (const e of entries) {
+      if (existing && billedMonths.has(`${existing.id}|${e.ym}`)) {
+        summary.months_skipped++;
+        issue(e, "この月は既に会計があるため来院・処置を取り込みませんでした");
+        continue;
+      }
+      receiptIndex++;
+      for (const [date, lines] of visitsOf(e)) {
+        const burdenRatio = burdenRatioOf(e.receipt, e.dob, date);
+        visits.push({ patientRef, receiptIndex, date, ym: e.ym, burdenRatio, burden: burdenConfigOf(e.receipt, burdenRatio), lines });
+        summary.visits_created++;
+        summary.procedures_created += lines.length;
+      }
+    }
+  }
+
+  if (opts.dryRun) return { batch_id: null, summary, issues };
+
+  // === 取込実行 ===
+  const { data: batch, error: batchErr } = await supabase
+    .from("uke_import_batches")
+    .insert({ source_files: files.map(f => f.name), status: "importing", summary, created_by: opts.userId })
+    .select("id")
+    .single();
+  if (batchErr || !batch) throw new Error(`取込バッチの作成に失敗しました: ${batchErr?.message || ""}`);
+  const batchId = (batch as { id: string }).id;
+
+  const createdPatients = await insertChunked(supabase, "patients", newPatients.map(p => ({ ...p, import_batch_id: batchId })));
+  const patientIds = new Map<string, string>(newPatientKeys.map((k, i) => [k, createdPatients[i]?.id]));
+  const resolve = (ref: string) => ref.startsWith("new:") ? patientIds.get(ref)! : ref;
+  const withPatient = (rows: Record<string, unknown>[]) => rows.map(({ patient_ref, ...r }) => ({ ...r, patient_id: resolve(String(patient_ref)), import_batch_id: batchId }));
+
+  await insertChunked(supabase, "patient_insurances", withPatient(insurances));
+  await insertChunked(supabase, "receipt_diagnoses", withPatient(diagnoses));
+
+  const createdRecords = await insertChunked(supabase, "medical_records", visits.map(v => ({
+    patient_id: resolve(v.patientRef),
+    status: "confirmed",
+    doctor_confirmed: true,
+    created_at: `${v.date}T12:00:00`,
+    import_batch_id: batchId,
+  })));
+
+  // 名称と、UKEに点数がない診療行為の点数は来院日時点のマスタで補う
+  const allLines = visits.flatMap(v => v.lines);
+  const [feeMaster, drugMaster, matMaster] = await Promise.all([
+    loadFeeMaster(supabase, allLines.filter(l => l.record === "SS").map(l => l.code)),
+    loadPriceMaster(supabase, "drug", allLines.filter(l => l.record === "IY").map(l => l.code)),
+    loadPriceMaster(supabase, "material", allLines.filter(l => l.record === "TO").map(l => l.code)),
+  ]);
+  for (const v of visits) {
+    for (const l of v.lines) {
+      if (l.record === "SS") {
+        const hit = feeMaster.resolve(l.code, v.date);
+        l.name = hit?.name || "";
+        if (l.points === 0 && hit) l.points = hit.points;
+      } else {
+        l.name = (l.record === "IY" ? drugMaster : matMaster).resolve(l.code, v.date)?.name || "";
+      }
+    }
+  }
+
+  // 窓口負担はレセプトごとに来院順で計算する（月額上限は同じ月の来院をまたいで効く）
+  const totals = visits.map(v => v.lines.reduce((s, l) => s + l.points * l.count, 0));
+  const byReceipt = new Map<number, number[]>();
+  visits.forEach((v, i) => byReceipt.set(v.receiptIndex, [...(byReceipt.get(v.receiptIndex) || []), i]));
+  const burdens: BurdenResult[] = [];
+  for (const idxs of byReceipt.values()) {
+    idxs.sort((a, b) => visits[a].date.localeCompare(visits[b].date));
+    const { visits: results } = calculateMonthlyBurden(idxs.map(i => totals[i]), visits[idxs[0]].burden);
+    idxs.forEach((vi, k) => { burdens[vi] = results[k]; });
+  }
+
+  const billingRows: Record<string, unknown>[] = [];
+  const procedureRows: Record<string, unknown>[] = [];
+  visits.forEach((v, i) => {
+    const recordId = createdRecords[i].id;
+    const patientId = resolve(v.patientRef);
+    const total = totals[i];
+    billingRows.push({
+      patient_id: patientId,
+      medical_record_id: recordId,
+      total_points: total,
+      burden_ratio: v.burdenRatio,
+      patient_burden: burdens[i].patient_amount,
+      insurance_claim: burdens[i].insurer_amount,
+      procedures_detail: v.lines.map(l => ({ code: l.code, name: l.name || l.code, points: l.points, category: l.shikibetsu, count: l.count, note: `UKE移行（${l.record}）` })),
+      payment_status: "paid",
+      claim_status: "paid",
+      claim_ym: v.ym,
+      created_at: `${v.date}T12:00:00`,
+      import_batch_id: batchId,
+    });
+    for (const l of v.lines) {
+      procedureRows.push({
+        medical_record_id: recordId,
+        patient_id: patientId,
+        fee_code: l.code,
+        fee_name: l.name || l.code,
+        points: l.points,
+        count: l.count,
+        shinryo_shikibetsu: l.shikibetsu,
+        futan_kubun: l.futan_kubun,
+        // 歯式は SS の数量欄に6桁コードを連結した形で入っている場合のみ
+        tooth_codes: l.record === "SS" && /^(\d{6})+$/.test(l.quantity) ? l.quantity : null,
+        uke_record: l.record,
+        performed_at: `${v.date}T12:00:00`,
+        import_batch_id: batchId,
+      });
+    }
+  });
+  await insertChunked(supabase, "billing", billingRows);
+  await insertChunked(supabase, "receipt_procedures", procedureRows);
+
+  const { error: doneErr } = await supabase.from("uke_import_batches").update({ status: "imported" }).eq("id", batchId);
+  if (doneErr) throw new Error(`取込バッチの完了の記録に失敗しました: ${doneErr.message}`);
+  return { batch_id: batchId, summary, issues };
+}
+
+// ロールバックは参照の逆順に削除する
+const ROLLBACK_TABLES = ["receipt_procedures", "billing", "medical_records", "receipt_diagnoses", "patient_insurances", "patients"] as const;
+
+// バッチで作った患者・カルテを参照しうるテーブル（import_batch_id のないテーブルは行があれば取込後のデータ）
+const DEPENDENT_TABLES: { table: string; column: "patient_id" | "medical_record_id"; label: string; batchColumn: boolean }[] = [
+  { table: "appointments", column: "patient_id", label: "予約", batchColumn: false },
+  { table: "medical_records", column: "patient_id", label: "カルテ", batchColumn: true },
+  { table: "billing", column: "patient_id", label: "会計", batchColumn: true },
+  { table: "receipt_procedures", column: "patient_id", label: "処置", batchColumn: true },
+  { table: "receipt_diagnoses", column: "patient_id", label: "傷病名", batchColumn: true },
+  { table: "patient_insurances", column: "patient_id", label: "保険", batchColumn: true },
+  { table: "billing", column: "medical_record_id", label: "会計", batchColumn: true },
+  { table: "receipt_procedures", column: "medical_record_id", label: "処置", batchColumn: true },
+  { table: "receipt_symptom_details", column: "medical_record_id", label: "症状詳記", batchColumn: false },
+  { table: "receipt_comments", column: "medical_record_id", label: "コメント", batchColumn: false },
+];
+
+async function batchRowIds(supabase: SupabaseClient, table: string, batchId: string): Promise<string[]> {
+  const { data, error } = await supabase.from(table).select("id").eq("import_batch_id", batchId);
+  if (error) throw new Error(`${table} の取得に失敗しました: ${error.message}`);
+  return ((data || []) as { id: string }[]).map(r => r.id);
+}
+
+/** バッチの患者・カルテを参照している、バッチ外で作られた行の件数（ラベルごと） */
+async function findBatchDependents(supabase: SupabaseClient, batchId: string): Promise<Map<string, number>> {
+  const parents = {
+    patient_id: await batchRowIds(supabase, "patients", batchId),
+    medical_record_id: await batchRowIds(supabase, "medical_records", batchId),
+  };
+  const counts = new Map<string, number>();
+  for (const dep of DEPENDENT_TABLES) {
+    const ids = parents[dep.column];
+    const seen = new Set<string>();
+    for (let i = 0; i < ids.length; i += IN_CHUNK) {
+      const { data, error } = await supabase
+        .from(dep.table)
+        .select(dep.batchColumn ? "id, import_batch_id" : "id")
+        .in(dep.column, ids.slice(i, i + IN_CHUNK));
+      if (error) throw new Error(`${dep.table} の取得に失敗しました: ${error.message}`);
+      for (const r of (data || []) as unknown as { id: string; import_batch_id?: string | null }[]) {
+        if (!dep.batchColumn || r.import_batch_id !== batchId) seen.add(r.id);
+      }
+    }
+    if (seen.size > 0) counts.set(dep.label, (counts.get(dep.label) || 0) + seen.size);
+  }
+  return counts;
+}
+
+/**
+ * 取込バッチで作った行を削除する
+ * supabase-js には複数テーブルのトランザクションがないため、削除できない条件（締め済み・取込後のデータ）を
+ * 先にすべて確認し、rolling_back にしてから削除する。途中で失敗しても再実行で残りを削除できる
+ */
+export async function rollbackUKEMigration(supabase: SupabaseClient, batchId: string): Promise<Record<string, number>> {
+  const { data: batch } = await supabase.from("uke_import_batches").select("id, status").eq("id", batchId).maybeSingle();
+  if (!batch) throw new Error("取込バッチが見つかりません");
+  if ((batch as { status: string }).status === "rolled_back") throw new Error("このバッチは既にロールバック済みです");
+  const { data: locked } = await supabase
+    .from("billing")
+    .select("id")
+    .eq("import_batch_id", batchId)
+    .not("locked_at", "is", null)
+    .limit(1);
+  if ((locked || []).length > 0) throw new Error("締め済みの会計を含むためロールバックできません");
+  const dependents = await findBatchDependents(supabase, batchId);
+  if (dependents.size > 0) {
+    const detail = [...dependents].map(([label, n]) => `${label} ${n}件`).join(" / ");
+    throw new Error(`取込後に登録されたデータが取込した患者・カルテを参照しているためロールバックできません（${detail}）`);
+  }
+
+  const { error: startErr } = await supabase.from("uke_import_batches").update({ status: "rolling_back" }).eq("id", batchId);
+  if (startErr) throw new Error(`取込バッチの更新に失敗しました: ${startErr.message}`);
+  const deleted: Record<string, number> = {};
+  for (const table of ROLLBACK_TABLES) {
+    const { data, error } = await supabase.from(table).delete().eq("import_batch_id", batchId).select("id");
+    if (error) throw new Error(`${table} の削除に失敗しました（再実行すると残りを削除します）: ${error.message}`);
+    deleted[table] = (data || []).length;
+  }
+  const { error: doneErr } = await supabase.from("uke_import_batches").update({ status: "rolled_back", rolled_back_at: new Date().toISOString() }).eq("id", batchId);
+  if (doneErr) throw new Error(`取込バッチの更新に失敗しました: ${doneErr.message}`);
+  return deleted;
+}
@@ -4,6 +4,8 @@ import type {
   JDRecord, MFRecord, HSRecord, SSRecord, IYRecord, TORecord,
   CORecord, GORecord, PatientReceipt, ParsedUKE,
 } from "@/types/uke";
+import { decodeSanteiDays } from "@/lib/santei-days";
+import { isVendorReceiptCSV, parseReceiptCSV, receiptFileToParsedUKE } from "@/lib/receipt-parser";
 
 // ============================================================
 // UKEパーサー - 令和6年9月版公式仕様
@@ -34,7 +36,7 @@ function parseIRRecord(fields: string[]): IRRecord {
     clinic_code:       f(fields, 4),
     billing_org_code:  f(fields, 5),
     clinic_name:       f(fields, 6),
-    department:        f(fields, 7),
+    claim_yearmonth:   f(fields, 7),
     phone:             f(fields, 8),
   };
 }
@@ -57,6 +59,7 @@ function parseRERecord(fields: string[]): RERecord {
     discount_kubun:    f(fields, 14),
     referral:          f(fields, 15),
     clinic_code:       f(fields, 16),
+    search_no:         f(fields, 18),
   };
 }
 
@@ -133,7 +136,7 @@ function parseSSRecord(fields: string[]): SSRecord {
     comment_text_2:     f(fields, 10),
     comment_code_3:     f(fields, 11),
     comment_text_3:     f(fields, 12),
-    santei_date:        f(fields, 13),
+    ...decodeSanteiDays(fields, 13),
   };
 }
 
@@ -151,7 +154,7 @@ function parseIYRecord(fields: string[]): IYRecord {
     comment_text_2:     f(fields, 10),
     comment_code_3:     f(fields, 11),
     comment_text_3:     f(fields, 12),
-    santei_date:        f(fields, 13),
+    ...decodeSanteiDays(fields, 13),
   };
 }
 
@@ -172,7 +175,7 @@ function parseTORecord(fields: string[]): TORecord {
     comment_text_2:     f(fields, 13),
     comment_code_3:     f(fields, 14),
     comment_text_3:     f(fields, 15),
-    santei_date:        f(fields, 16),
+    ...decodeSanteiDays(fields, 16),
   };
 }
 
@@ -200,10 +203,22 @@ function newPatientReceipt(re: RERecord): PatientReceipt {
 // ============================================================
 // メインパース関数（Bufferを直接受け取る）
 // /api/parse-uke と /api/analyze-uke の両方から使う
+// 他社レセコンのCSV出力は receipt-parser で読んで ParsedUKE に変換する
 // ============================================================
 
 export function parseUKEBuffer(buffer: Buffer): ParsedUKE {
   const utf8Text = iconv.decode(buffer, "Shift_JIS");
+  if (isVendorReceiptCSV(utf8Text)) {
+    const lineCount = utf8Text.split(/\r?\n/).filter(line => line.trim() !== "").length;
+    return { ...receiptFileToParsedUKE(parseReceiptCSV(utf8Text)), raw_line_count: lineCount };
+  }
+  return parseUKEText(utf8Text);
+}
+
+/**
+ * デコード済みのUKE本文をパースする（receipt-generate のプレビュー等、UTF-8で手元にあるもの）
+ */
+export function parseUKEText(utf8Text: string): ParsedUKE {
   const lines = utf8Text.split(/\r?\n/).filter(line => line.trim() !== "");
 
   const result: ParsedUKE = {
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import * as iconv from "iconv-lite";
+import { CLAIM_DESTINATIONS } from "@/lib/claim-destination";
+
+// ============================================================
+// 比較・プレビュー用のUKE取得（サーバー専用）
+// 締め済みスナップショット、または receipt-generate のプレビュー（UTF-8のUKE本文）を
+// Shift_JISのバイト列にして返す（parseUKEBuffer にそのまま渡せる）
+// ============================================================
+
+export interface UKESource {
+  buffer: Buffer;
+  label: string;
+}
+
+export async function loadSnapshotUKE(supabase: SupabaseClient, snapshotId: string): Promise<UKESource | null> {
+  const { data } = await supabase.from("claim_snapshots").select("file_name, uke_base64").eq("id", snapshotId).maybeSingle();
+  if (!data) return null;
+  return { buffer: Buffer.from(data.uke_base64, "base64"), label: `締め済み ${data.file_name}` };
+}
+
+/**
+ * receipt-generate の出力を取得する（呼び出し元の Authorization をそのまま渡す）
+ * orgCode: 審査支払機関（1=支払基金, 2=国保連）。省略時は最初のファイル
+ */
+export async function loadGeneratedUKE(
+  requestUrl: string,
+  authorization: string,
+  yearMonth: string,
+  orgCode?: string
+): Promise<UKESource> {
+  const res = await fetch(new URL("/api/receipt-generate", requestUrl), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: authorization },
+    body: JSON.stringify({ yearMonth }),
+  });
+  const generated = await res.json();
+  if (!res.ok) throw new Error(`UKE生成に失敗しました: ${generated.error}`);
+  const files = generated.files as { destinationCode: string; fileName: string; csv: string }[];
+  const file = orgCode ? files.find(f => f.destinationCode === orgCode) : files[0];
+  if (!file) {
+    throw new Error(`${yearMonth}の${orgCode === CLAIM_DESTINATIONS.kokuho.code ? "国保連" : "支払基金"}分のレセプトがありません`);
+  }
+  return { buffer: iconv.encode(file.csv, "Shift_JIS"), label: `生成 ${file.fileName}` };
+}
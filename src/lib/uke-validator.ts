@@ -0,0 +1,346 @@
+import * as iconv from "iconv-lite";
+import { parseUKEBuffer } from "@/lib/uke-parser";
+
+// ============================================================
+// UKEバリデーター - 令和6年9月版公式仕様
+// receipt-generateの出力（Shift_JIS）をparseUKEBufferで再パースし、
+// レコード順序・項目数・必須項目・数値形式を行番号付きで検証する
+// フィールド位置はuke-parser.tsのレコード定義と同一
+// ============================================================
+
+export interface UKEValidationIssue {
+  line: number;            // 1始まり（空行除く）、ファイル全体の場合は0
+  record_type: string;
+  severity: "error" | "warning";
+  field?: string;
+  message: string;
+}
+
+export interface UKEValidationReport {
+  valid: boolean;          // errorが0件ならtrue
+  error_count: number;
+  warning_count: number;
+  receipt_count: number;
+  total_points: number;
+  issues: UKEValidationIssue[];
+}
+
+interface FieldSpec {
+  index: number;
+  label: string;
+  required?: boolean;
+  pattern?: RegExp;
+  format?: string;         // エラー表示用の形式説明
+}
+
+interface RecordSpec {
+  min_fields: number;      // レコード識別を含む最低項目数
+  max_fields: number;
+  fields: FieldSpec[];
+}
+
+const DIGITS = /^\d+$/;
+const YEAR_MONTH = /^\d{6}$/;
+const YMD = /^\d{8}$/;
+
+// ============================================================
+// レコード仕様テーブル（項目位置はuke-parser.tsと共通）
+// ============================================================
+const RECORD_SPECS: Record<string, RecordSpec> = {
+  UK: {
+    min_fields: 8, max_fields: 10,
+    fields: [
+      { index: 3, label: "診療年月", required: true, pattern: YEAR_MONTH, format: "YYYYMM" },
+      { index: 4, label: "医療機関コード", required: true, pattern: /^\d{7}$/, format: "7桁" },
+      { index: 5, label: "都道府県", pattern: /^\d{2}$/, format: "2桁" },
+    ],
+  },
+  IR: {
+    min_fields: 9, max_fields: 10,
+    fields: [
+      { index: 1, label: "審査支払機関", required: true, pattern: /^[12]$/, format: "1 or 2" },
+      { index: 2, label: "都道府県", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 3, label: "点数表", required: true, pattern: /^3$/, format: "3（歯科）" },
+      { index: 4, label: "医療機関コード", required: true, pattern: /^\d{7}$/, format: "7桁" },
+      { index: 6, label: "医療機関名称", required: true },
+      { index: 7, label: "請求年月", required: true, pattern: YEAR_MONTH, format: "YYYYMM" },
+    ],
+  },
+  RE: {
+    min_fields: 17, max_fields: 40,
+    fields: [
+      { index: 1, label: "レセプト番号", required: true, pattern: DIGITS, format: "数字" },
+      { index: 2, label: "レセプト種別", required: true, pattern: /^\d{4}$/, format: "4桁" },
+      { index: 3, label: "診療年月", required: true, pattern: YEAR_MONTH, format: "YYYYMM" },
+      { index: 4, label: "氏名", required: true },
+      { index: 5, label: "男女区分", required: true, pattern: /^[12]$/, format: "1 or 2" },
+      { index: 6, label: "生年月日", required: true, pattern: YMD, format: "YYYYMMDD" },
+      { index: 7, label: "給付割合", pattern: DIGITS, format: "数字" },
+    ],
+  },
+  HO: {
+    min_fields: 6, max_fields: 14,
+    fields: [
+      { index: 1, label: "保険者番号", required: true, pattern: /^\d{6}(\d{2})?$/, format: "6桁 or 8桁" },
+      { index: 4, label: "診療実日数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 5, label: "合計点数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 6, label: "一部負担金額", pattern: DIGITS, format: "数字" },
+    ],
+  },
+  SN: {
+    min_fields: 3, max_fields: 10,
+    fields: [
+      { index: 1, label: "負担者種別", required: true, pattern: /^\d$/, format: "1桁" },
+      { index: 2, label: "確認区分", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 7, label: "枝番", pattern: /^\d{2}$/, format: "2桁" },
+    ],
+  },
+  KO: {
+    min_fields: 6, max_fields: 10,
+    fields: [
+      { index: 1, label: "公費負担者番号", required: true, pattern: /^\d{8}$/, format: "8桁" },
+      { index: 2, label: "公費受給者番号", pattern: /^\d{7}$/, format: "7桁" },
+      { index: 4, label: "診療実日数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 5, label: "合計点数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 6, label: "公費負担金額", pattern: DIGITS, format: "数字" },
+    ],
+  },
+  JD: {
+    min_fields: 2, max_fields: 33,
+    fields: [],
+  },
+  MF: {
+    min_fields: 2, max_fields: 3,
+    fields: [
+      { index: 1, label: "窓口負担額区分", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 2, label: "窓口負担額", pattern: DIGITS, format: "数字" },
+    ],
+  },
+  HS: {
+    min_fields: 5, max_fields: 13,
+    fields: [
+      { index: 3, label: "歯式コード", pattern: /^\d{6}(\d{6})*$/, format: "6桁単位" },
+      { index: 4, label: "傷病名コード", required: true, pattern: /^\d{7}$/, format: "7桁" },
+    ],
+  },
+  SS: {
+    min_fields: 7, max_fields: 45,
+    fields: [
+      { index: 1, label: "診療識別", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 3, label: "診療行為コード", required: true, pattern: /^\d{9}$/, format: "9桁" },
+      { index: 5, label: "点数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 6, label: "回数", required: true, pattern: /^[1-9]\d*$/, format: "1以上の数字" },
+    ],
+  },
+  IY: {
+    min_fields: 7, max_fields: 45,
+    fields: [
+      { index: 1, label: "診療識別", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 3, label: "医薬品コード", required: true, pattern: /^\d{9}$/, format: "9桁" },
+      { index: 4, label: "使用量", required: true, pattern: /^\d+(\.\d+)?$/, format: "数値" },
+      { index: 5, label: "点数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 6, label: "回数", required: true, pattern: /^[1-9]\d*$/, format: "1以上の数字" },
+    ],
+  },
+  TO: {
+    min_fields: 7, max_fields: 48,
+    fields: [
+      { index: 1, label: "診療識別", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 3, label: "特定器材コード", required: true, pattern: /^\d{9}$/, format: "9桁" },
+      { index: 4, label: "使用量", required: true, pattern: /^\d+(\.\d+)?$/, format: "数値" },
+      { index: 5, label: "点数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 6, label: "回数", required: true, pattern: /^[1-9]\d*$/, format: "1以上の数字" },
+      { index: 8, label: "単価", pattern: /^\d+(\.\d+)?$/, format: "数値" },
+    ],
+  },
+  CO: {
+    min_fields: 4, max_fields: 6,
+    fields: [
+      { index: 1, label: "診療識別", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 3, label: "コメントコード", required: true, pattern: /^\d{9}$/, format: "9桁" },
+    ],
+  },
+  SJ: {
+    min_fields: 3, max_fields: 3,
+    fields: [
+      { index: 1, label: "症状詳記区分", required: true, pattern: /^\d{2}$/, format: "2桁" },
+      { index: 2, label: "症状詳記データ", required: true },
+    ],
+  },
+  GO: {
+    min_fields: 3, max_fields: 4,
+    fields: [
+      { index: 1, label: "総件数", required: true, pattern: DIGITS, format: "数字" },
+      { index: 2, label: "総合計点数", required: true, pattern: DIGITS, format: "数字" },
+    ],
+  },
+};
+
+// ============================================================
+// レコード順序: UK→IR→RE→HO→SN→KO→JD→MF→HS→SS/IY/TO→CO→(SJ)→GO
+// 同じランク内は順不同、RE以降は患者ごとにランクがリセットされる
+// ============================================================
+const RECORD_RANK: Record<string, number> = {
+  UK: 0, IR: 1, RE: 2, HO: 3, SN: 4, KO: 5, JD: 6, MF: 7, HS: 8,
+  SS: 9, IY: 9, TO: 9, CO: 10, SJ: 11, GO: 12,
+};
+
+export function validateUKEBuffer(buffer: Buffer): UKEValidationReport {
+  const issues: UKEValidationIssue[] = [];
+  const push = (line: number, record_type: string, severity: UKEValidationIssue["severity"], message: string, field?: string) => {
+    issues.push({ line, record_type, severity, field, message });
+  };
+
+  const parsed = parseUKEBuffer(buffer);
+  const lines = iconv.decode(buffer, "Shift_JIS")
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== "");
+
+  // === 行単位の検証（順序・項目数・必須・形式）===
+  let prevRank = -1;
+  let seenGO = false;
+  let goLine = 0;
+  const reLines: number[] = [];
+  const seenInReceipt = new Set<string>();
+  const jdDayCounts = new Map<number, number>();   // レセプト（REの順）→ JDの受診日数
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const fields = lines[i].split(",");
+    const recordType = fields[0]?.trim().toUpperCase() ?? "";
+    const spec = RECORD_SPECS[recordType];
+
+    if (!spec) {
+      push(lineNo, recordType, "error", `未知のレコード種別 "${recordType}" です`);
+      continue;
+    }
+
+    if (seenGO) {
+      push(lineNo, recordType, "error", "GOレコードの後にレコードがあります");
+    }
+
+    const rank = RECORD_RANK[recordType];
+    if (recordType === "UK" && lineNo !== 1) {
+      push(lineNo, recordType, "error", "UKレコードはファイル先頭の1行目に必要です");
+    } else if (recordType === "IR" && prevRank !== RECORD_RANK.UK) {
+      push(lineNo, recordType, "error", "IRレコードはUKレコードの直後に必要です");
+    } else if (recordType === "RE") {
+      if (prevRank < RECORD_RANK.IR) push(lineNo, recordType, "error", "REレコードの前にUK/IRレコードがありません");
+      reLines.push(lineNo);
+      seenInReceipt.clear();
+    } else if (recordType === "GO") {
+      seenGO = true;
+      goLine = lineNo;
+    } else if (rank > RECORD_RANK.RE && rank < RECORD_RANK.GO) {
+      if (reLines.length === 0) {
+        push(lineNo, recordType, "error", `${recordType}レコードがREレコードより前にあります`);
+      } else if (rank < prevRank) {
+        const prevType = Object.keys(RECORD_RANK).find(k => RECORD_RANK[k] === prevRank) ?? "";
+        push(lineNo, recordType, "error", `${recordType}レコードは${prevType}レコードより前に記録してください`);
+      }
+      if ((recordType === "JD" || recordType === "MF") && seenInReceipt.has(recordType)) {
+        push(lineNo, recordType, "error", `${recordType}レコードが同一レセプト内で重複しています`);
+      }
+      seenInReceipt.add(recordType);
+      // JD,…,1日〜31日（受診した日に1以上）
+      if (recordType === "JD" && reLines.length > 0) {
+        jdDayCounts.set(reLines.length - 1, fields.slice(-31).filter(v => (parseInt(v, 10) || 0) > 0).length);
+      }
+    }
+    prevRank = rank;
+
+    if (fields.length < spec.min_fields) {
+      push(lineNo, recordType, "error", `項目数が不足しています（${fields.length}項目 / 最低${spec.min_fields}項目）`);
+    } else if (fields.length > spec.max_fields) {
+      push(lineNo, recordType, "warning", `項目数が多すぎます（${fields.length}項目 / 最大${spec.max_fields}項目）`);
+    }
+
+    for (const fs of spec.fields) {
+      const value = fields[fs.index]?.trim() ?? "";
+      if (value === "") {
+        if (fs.required) push(lineNo, recordType, "error", `${fs.label}（項目${fs.index}）が未入力です`, fs.label);
+        continue;
+      }
+      if (fs.pattern && !fs.pattern.test(value)) {
+        push(lineNo, recordType, "error", `${fs.label}（項目${fs.index}）の形式が不正です: "${value}"（${fs.format}）`, fs.label);
+      }
+    }
+  }
+
+  if (lines.length === 0) {
+    push(0, "", "error", "ファイルが空です");
+  } else if (!seenGO) {
+    push(0, "GO", "error", "GOレコードが見つかりませんでした");
+  }
+  if (reLines.length === 0 && lines.length > 0) {
+    push(0, "RE", "error", "REレコードが1件もありません");
+  }
+
+  // === 再パース結果によるレセプト単位の検証 ===
+  let totalPoints = 0;
+  parsed.patients.forEach((p, idx) => {
+    const reLine = reLines[idx] ?? 0;
+    if (p.ho.length === 0 && p.ko.length === 0) {
+      push(reLine, "RE", "error", `レセプト${p.re.receipt_no}: HO/KOレコードがありません`);
+    }
+    if (p.jd.length === 0) {
+      push(reLine, "RE", "warning", `レセプト${p.re.receipt_no}: JDレコード（受診日）がありません`);
+    }
+    if (p.hs.length === 0) {
+      push(reLine, "RE", "error", `レセプト${p.re.receipt_no}: 傷病名（HSレコード）がありません`);
+    }
+    if (p.ss.length + p.iy.length + p.to.length === 0) {
+      push(reLine, "RE", "warning", `レセプト${p.re.receipt_no}: 診療行為（SS/IY/TO）がありません`);
+    }
+    // 返戻再請求（検索番号あり）は元の診療年月のまま出力するため対象外
+    if (parsed.uk && p.re.shinryo_yearmonth && !p.re.search_no && p.re.shinryo_yearmonth !== parsed.uk.shinryo_yearmonth) {
+      push(reLine, "RE", "warning", `レセプト${p.re.receipt_no}: 診療年月がUKレコードと一致しません（${p.re.shinryo_yearmonth} / ${parsed.uk.shinryo_yearmonth}）`);
+    }
+
+    const hoPoints = parseInt(p.ho[0]?.total_points ?? "", 10);
+    const detailPoints =
+      p.ss.reduce((s, r) => s + (parseInt(r.points, 10) || 0) * (parseInt(r.count, 10) || 0), 0) +
+      p.iy.reduce((s, r) => s + (parseInt(r.points, 10) || 0) * (parseInt(r.count, 10) || 0), 0) +
+      p.to.reduce((s, r) => s + (parseInt(r.points, 10) || 0) * (parseInt(r.count, 10) || 0), 0);
+    totalPoints += isNaN(hoPoints) ? detailPoints : hoPoints;
+
+    // HO/KO の診療実日数はJDの受診日数、合計点数はSS/IY/TOの合計と一致すること
+    const jdDays = jdDayCounts.get(idx);
+    const insurances = [
+      ...p.ho.map(r => ({ type: "HO", days: r.visit_days, points: r.total_points })),
+      ...p.ko.map(r => ({ type: "KO", days: r.visit_days, points: r.total_points })),
+    ];
+    for (const ins of insurances) {
+      const days = parseInt(ins.days, 10);
+      if (jdDays !== undefined && !isNaN(days) && days !== jdDays) {
+        push(reLine, ins.type, "error", `レセプト${p.re.receipt_no}: ${ins.type}診療実日数（${days}）とJDの受診日数（${jdDays}）が一致しません`);
+      }
+      const points = parseInt(ins.points, 10);
+      if (!isNaN(points) && points !== detailPoints) {
+        push(reLine, ins.type, "error", `レセプト${p.re.receipt_no}: ${ins.type}合計点数（${points}）と診療行為の合計（${detailPoints}）が一致しません`);
+      }
+    }
+  });
+
+  if (parsed.go) {
+    const goReceipts = parseInt(parsed.go.total_receipts, 10);
+    const goPoints = parseInt(parsed.go.total_points, 10);
+    if (!isNaN(goReceipts) && goReceipts !== parsed.patients.length) {
+      push(goLine, "GO", "error", `総件数（${goReceipts}）とREレコード数（${parsed.patients.length}）が一致しません`);
+    }
+    if (!isNaN(goPoints) && goPoints !== totalPoints) {
+      push(goLine, "GO", "error", `総合計点数（${goPoints}）と各レセプトの合計（${totalPoints}）が一致しません`);
+    }
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  const errorCount = issues.filter(i => i.severity === "error").length;
+  return {
+    valid: errorCount === 0,
+    error_count: errorCount,
+    warning_count: issues.length - errorCount,
+    receipt_count: parsed.patients.length,
+    total_points: totalPoints,
+    issues,
+  };
+}
@@ -0,0 +1,164 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addMonths } from "@/lib/receipt-rules";
+import { resolveFeesByName } from "@/lib/point-calculator";
+
+// ============================================================
+// 初診料・再診料と歯科疾患管理料の判定
+// 患者の傷病名（receipt_diagnoses）の転帰と過去の処置（receipt_procedures）から、
+// 今回の来院が初診か再診か・付く施設基準加算・歯科疾患管理料を算定できるかを判定する
+//
+// 初診: 受診歴なし / 全ての傷病名が治癒・中止 / 継続中でも患者の任意中止で1月以上経過
+// 再診: 継続中の傷病名あり / 継続管理（管理料・SPT等）中 / 同日に初診料を算定済み /
+//       歯科疾患管理料を算定した患者が治療終了月の翌月から2月以内に受診
+// 算定確定（billing-finalize）で処置に自動で追加する
+// ============================================================
+
+export const SHOSHIN_FEE_CODE = "301000110";   // 歯科初診料
+export const SAISHIN_FEE_CODE = "301001610";   // 歯科再診料
+export const MANAGEMENT_FEE_NAME = "歯科疾患管理料";
+
+// 継続管理の処置（前回これがあれば計画的な再来院として再診）
+const CONTINUED_CARE = /管理料|歯周病安定期治療|歯周病重症化予防治療|SPT|P重防/;
+
+export interface VisitFeeAddition {
+  fee_code: string;
+  name: string;
+  points: number;
+}
+
+export interface VisitFeeDetermination {
+  kind: "initial" | "revisit";
+  fee_code: string;
+  fee_name: string;
+  reasons: string[];
+  additions: VisitFeeAddition[];    // 施設基準加算（届出済みのもの。点数算定サービスが付ける）
+  management: {
+    eligible: boolean;
+    fee_code: string | null;
+    name: string;
+    reason: string;
+  };
+  last_visit_date: string | null;
+}
+
+type DiagnosisRow = { diagnosis_name: string; started_at: string | null; ended_at: string | null; outcome: string | null };
+type VisitRow = { medical_record_id: string; date: string; procedures: { fee_code: string; fee_name: string }[] };
+
+// 指定日に継続中か（転帰日当日はまだ継続中として扱う）
+function isContinuing(d: DiagnosisRow, date: string): boolean {
+  const end = (d.ended_at || "").substring(0, 10);
+  if (end) return end >= date;
+  return !d.outcome || d.outcome === "continuing";
+}
+
+export async function determineVisitFee(
+  supabase: SupabaseClient,
+  params: { patient_id: string; service_date: string; medical_record_id?: string | null }
+): Promise<VisitFeeDetermination> {
+  const date = params.service_date;
+  const [{ data: diagData }, { data: billingData }, { data: facilityStandards }] = await Promise.all([
+    supabase.from("receipt_diagnoses").select("diagnosis_name, started_at, ended_at, outcome").eq("patient_id", params.patient_id),
+    supabase
+      .from("billing")
+      .select("medical_record_id, created_at")
+      .eq("patient_id", params.patient_id)
+      .lte("created_at", `${date}T23:59:59`)
+      .order("created_at"),
+    supabase
+      .from("m_facility_standards")
+      .select("standard_name, bonuses")
+      .eq("is_registered", true)
+      .eq("is_active", true),
+  ]);
+  const diagnoses = (diagData || []) as DiagnosisRow[];
+
+  // 過去の来院（今回のカルテは除く）と処置
+  const billings = ((billingData || []) as { medical_record_id: string | null; created_at: string }[])
+    .filter(b => b.medical_record_id && b.medical_record_id !== params.medical_record_id);
+  const recordIds = [...new Set(billings.map(b => b.medical_record_id!))];
+  const procsByRecord = new Map<string, { fee_code: string; fee_name: string }[]>();
+  for (let i = 0; i < recordIds.length; i += 500) {
+    const { data } = await supabase.from("receipt_procedures").select("medical_record_id, fee_code, fee_name").in("medical_record_id", recordIds.slice(i, i + 500));
+    for (const p of (data || []) as { medical_record_id: string; fee_code: string; fee_name: string }[]) {
+      if (!procsByRecord.has(p.medical_record_id)) procsByRecord.set(p.medical_record_id, []);
+      procsByRecord.get(p.medical_record_id)!.push(p);
+    }
+  }
+  const visits: VisitRow[] = billings.map(b => ({
+    medical_record_id: b.medical_record_id!,
+    date: b.created_at.substring(0, 10),
+    procedures: procsByRecord.get(b.medical_record_id!) || [],
+  }));
+  const lastVisit = visits.length > 0 ? visits[visits.length - 1] : null;
+
+  const reasons: string[] = [];
+  let kind: "initial" | "revisit";
+  // 今回の来院で付けた傷病名（開始日が当日）は判定に使わない
+  const ongoing = diagnoses.filter(d => (d.started_at || "").substring(0, 10) < date && isContinuing(d, date));
+
+  if (!lastVisit) {
+    kind = "initial";
+    reasons.push("当院での受診歴なし");
+  } else if (visits.some(v => v.date === date && v.procedures.some(p => p.fee_code === SHOSHIN_FEE_CODE))) {
+    kind = "revisit";
+    reasons.push("同日に初診料を算定済み");
+  } else if (ongoing.length > 0) {
+    const continuedCare = lastVisit.procedures.some(p => CONTINUED_CARE.test(p.fee_name || ""));
+    if (addMonths(lastVisit.date, 1) <= date && !continuedCare) {
+      kind = "initial";
+      reasons.push(`継続中の傷病名あり（${ongoing.map(d => d.diagnosis_name).slice(0, 3).join("・")}）だが、前回来院（${lastVisit.date}）から1月以上経過（任意中止）`);
+      reasons.push("継続中の傷病名は中止の転帰を入力してください");
+    } else {
+      kind = "revisit";
+      reasons.push(continuedCare
+        ? `前回来院（${lastVisit.date}）で継続管理を算定`
+        : `継続中の傷病名あり（${ongoing.map(d => d.diagnosis_name).slice(0, 3).join("・")}）`);
+    }
+  } else {
+    // 全ての傷病名が治癒・中止: 管理料を算定していた患者は治療終了月の翌月初日から2月以内なら再診
+    const lastEnded = diagnoses.map(d => (d.ended_at || "").substring(0, 10)).filter(Boolean).sort().pop() || lastVisit.date;
+    const managed = visits.some(v => v.date <= lastEnded && v.procedures.some(p => (p.fee_name || "").includes(MANAGEMENT_FEE_NAME)));
+    const windowEnd = addMonths(`${addMonths(lastEnded, 1).substring(0, 7)}-01`, 2);
+    if (managed && date < windowEnd) {
+      kind = "revisit";
+      reasons.push(`${MANAGEMENT_FEE_NAME}を算定した一連の治療の終了（${lastEnded}）の翌月から2月以内`);
+    } else {
+      kind = "initial";
+      reasons.push(diagnoses.length > 0 ? `全ての傷病名が治癒・中止（最終 ${lastEnded}）` : `継続中の傷病名なし（前回来院 ${lastVisit.date}）`);
+    }
+  }
+
+  const feeCode = kind === "initial" ? SHOSHIN_FEE_CODE : SAISHIN_FEE_CODE;
+  const { data: fee } = await supabase.from("m_fees").select("name").eq("sub_code", feeCode).maybeSingle();
+  const additions: VisitFeeAddition[] = [];
+  for (const standard of (facilityStandards || []) as { standard_name: string; bonuses: { label: string; points: number; fee_code: string }[] | null }[]) {
+    for (const bonus of standard.bonuses || []) {
+      if (bonus.fee_code === feeCode && bonus.points > 0) {
+        additions.push({ fee_code: bonus.fee_code, name: `${standard.standard_name}（${bonus.label}）`, points: bonus.points });
+      }
+    }
+  }
+
+  // 歯科疾患管理料: 継続的な管理が必要な傷病名（当日付けたものを含む）があり、当月未算定
+  const managedDiagnoses = diagnoses.filter(d => (d.started_at || "").substring(0, 10) <= date && isContinuing(d, date));
+  const ym = date.substring(0, 7);
+  const managementThisMonth = visits.some(v => v.date.substring(0, 7) === ym && v.procedures.some(p => (p.fee_name || "").includes(MANAGEMENT_FEE_NAME)));
+  const managementFee = (await resolveFeesByName(supabase, [MANAGEMENT_FEE_NAME])).get(MANAGEMENT_FEE_NAME) || null;
+  const management = managedDiagnoses.length === 0
+    ? { eligible: false, reason: "継続して管理する傷病名がありません" }
+    : managementThisMonth
+      ? { eligible: false, reason: "当月は算定済み（月1回）" }
+      : !managementFee
+        ? { eligible: false, reason: "点数マスタに歯科疾患管理料がありません" }
+        : { eligible: true, reason: `継続中の傷病名（${managedDiagnoses.map(d => d.diagnosis_name).slice(0, 3).join("・")}）の管理` };
+
+  return {
+    kind,
+    fee_code: feeCode,
+    fee_name: (fee as { name: string } | null)?.name || (kind === "initial" ? "歯科初診料" : "歯科再診料"),
+    reasons,
+    additions,
+    management: { ...management, fee_code: managementFee?.sub_code || null, name: managementFee?.name || MANAGEMENT_FEE_NAME },
+    last_visit_date: lastVisit?.date || null,
+  };
+}
@@ -20,7 +20,7 @@ export interface IRRecord {
   clinic_code: string;
   billing_org_code: string;
   clinic_name: string;
-  department: string;
+  claim_yearmonth: string;   // 請求年月（YYYYMM）
   phone: string;
 }
 
@@ -41,6 +41,7 @@ export interface RERecord {
   discount_kubun: string;
   referral: string;
   clinic_code: string;
+  search_no: string;        // 検索番号（返戻再請求時のみ）
 }
 
 export interface HORecord {
@@ -101,7 +102,8 @@ export interface SSRecord {
   comment_text_2: string;
   comment_code_3: string;
   comment_text_3: string;
-  santei_date: string;
+  santei_date: string;      // 最初の算定日（日のみ。旧形式はYYYYMMDD）
+  santei_days: number[];    // 1日〜31日の算定回数
 }
 
 export interface IYRecord {
@@ -117,7 +119,8 @@ export interface IYRecord {
   comment_text_2: string;
   comment_code_3: string;
   comment_text_3: string;
-  santei_date: string;
+  santei_date: string;      // 最初の算定日（日のみ。旧形式はYYYYMMDD）
+  santei_days: number[];    // 1日〜31日の算定回数
 }
 
 export interface TORecord {
@@ -136,7 +139,8 @@ export interface TORecord {
   comment_text_2: string;
   comment_code_3: string;
   comment_text_3: string;
-  santei_date: string;
+  santei_date: string;      // 最初の算定日（日のみ。旧形式はYYYYMMDD）
+  santei_days: number[];    // 1日〜31日の算定回数
 }
 
 export interface CORecord {